@@ -3,6 +3,8 @@ module.exports = {
   testEnvironment: 'node',
   roots: ['<rootDir>/tests'],
   testMatch: ['**/*.test.ts'],
+  // Fixture projects carry their own test files
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/tests/fixtures/'],
   collectCoverageFrom: [
     'src/**/*.ts',
     '!src/**/*.d.ts',
@@ -0,0 +1,226 @@
+/* eslint-disable max-lines-per-function */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ApiSurface, ApiSymbol, ParsedFile, ParsedReExport } from './types';
+import { parseFile } from './parser';
+import { resolveModulePath } from './dependency-analyzer';
+
+interface SurfaceContext {
+  parsedFiles: Map<string, ParsedFile | null>;
+  moduleExports: Map<string, ApiSymbol[]>;
+  externalReExports: ApiSurface['externalReExports'];
+}
+
+/**
+ * Build the public API of a package by following the re-export chains of its
+ * entry files down to the files that define each symbol
+ */
+export async function buildApiSurface(
+  entryFiles: string[]
+): Promise<ApiSurface> {
+  const resolvedEntries = entryFiles.map(entry => path.resolve(entry));
+  const context: SurfaceContext = {
+    parsedFiles: new Map(),
+    moduleExports: new Map(),
+    externalReExports: [],
+  };
+
+  const symbols: ApiSymbol[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of resolvedEntries) {
+    if (!(await loadParsedFile(entry, context))) {
+      throw new Error(`Entry file could not be parsed: ${entry}`);
+    }
+
+    const entrySymbols = await collectModuleExports(entry, context, []);
+    entrySymbols.forEach(symbol => {
+      // The same declaration can be reachable from several entry files
+      const key = `${symbol.name}:${symbol.filePath}:${symbol.localName}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        symbols.push(symbol);
+      }
+    });
+  }
+
+  return {
+    entryFiles: resolvedEntries,
+    rootDir: getCommonDirectory(resolvedEntries),
+    symbols,
+    externalReExports: context.externalReExports,
+  };
+}
+
+async function collectModuleExports(
+  filePath: string,
+  context: SurfaceContext,
+  stack: string[]
+): Promise<ApiSymbol[]> {
+  const cached = context.moduleExports.get(filePath);
+  if (cached) {
+    return cached;
+  }
+
+  // Circular re-exports contribute nothing beyond what is already collected
+  if (stack.includes(filePath)) {
+    return [];
+  }
+
+  const parsedFile = await loadParsedFile(filePath, context);
+  if (!parsedFile) {
+    return [];
+  }
+
+  const nextStack = [...stack, filePath];
+  const exports = getDeclaredSymbols(parsedFile);
+  const starExports: ApiSymbol[] = [];
+
+  for (const reExport of parsedFile.reExports || []) {
+    const targetPath = await resolveReExport(filePath, reExport, context);
+    if (!targetPath) {
+      continue;
+    }
+
+    const targetExports = await collectModuleExports(
+      targetPath,
+      context,
+      nextStack
+    );
+
+    if (reExport.kind === 'named') {
+      reExport.specifiers.forEach(({ imported, exported }) => {
+        const symbol = targetExports.find(s => s.name === imported);
+        if (symbol) {
+          exports.push({ ...symbol, name: exported });
+        }
+      });
+    } else if (reExport.kind === 'namespace') {
+      targetExports.forEach(symbol => {
+        exports.push({
+          ...symbol,
+          name: `${reExport.namespace}.${symbol.name}`,
+        });
+      });
+    } else {
+      starExports.push(...targetExports.filter(s => s.name !== 'default'));
+    }
+  }
+
+  // export * never overrides local or explicitly re-exported names
+  starExports.forEach(symbol => {
+    if (!exports.some(existing => existing.name === symbol.name)) {
+      exports.push(symbol);
+    }
+  });
+
+  context.moduleExports.set(filePath, exports);
+  return exports;
+}
+
+async function resolveReExport(
+  fromFile: string,
+  reExport: ParsedReExport,
+  context: SurfaceContext
+): Promise<string | null> {
+  const targetPath = resolveModulePath(fromFile, reExport.source);
+  const isRelative = reExport.source.startsWith('.');
+
+  if (isRelative && (await loadParsedFile(targetPath, context))) {
+    return targetPath;
+  }
+
+  context.externalReExports.push({ fromFile, reExport });
+  return null;
+}
+
+function getDeclaredSymbols(parsedFile: ParsedFile): ApiSymbol[] {
+  const filePath = parsedFile.filePath;
+
+  return [
+    ...parsedFile.functions.map(
+      (declaration): ApiSymbol => ({
+        name: declaration.name,
+        localName: declaration.name,
+        filePath,
+        kind: 'function',
+        declaration,
+      })
+    ),
+    ...parsedFile.classes.map(
+      (declaration): ApiSymbol => ({
+        name: declaration.name,
+        localName: declaration.name,
+        filePath,
+        kind: 'class',
+        declaration,
+      })
+    ),
+    ...(parsedFile.interfaces || []).map(
+      (declaration): ApiSymbol => ({
+        name: declaration.name,
+        localName: declaration.name,
+        filePath,
+        kind: 'interface',
+        declaration,
+      })
+    ),
+    ...(parsedFile.typeAliases || []).map(
+      (declaration): ApiSymbol => ({
+        name: declaration.name,
+        localName: declaration.name,
+        filePath,
+        kind: 'type',
+        declaration,
+      })
+    ),
+    ...(parsedFile.enums || []).map(
+      (declaration): ApiSymbol => ({
+        name: declaration.name,
+        localName: declaration.name,
+        filePath,
+        kind: 'enum',
+        declaration,
+      })
+    ),
+  ];
+}
+
+async function loadParsedFile(
+  filePath: string,
+  context: SurfaceContext
+): Promise<ParsedFile | null> {
+  if (context.parsedFiles.has(filePath)) {
+    return context.parsedFiles.get(filePath) || null;
+  }
+
+  let parsedFile: ParsedFile | null = null;
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    parsedFile = parseFile(filePath, content);
+  } catch {
+    // Missing, unreadable or unparseable files are reported as unresolved
+  }
+
+  context.parsedFiles.set(filePath, parsedFile);
+  return parsedFile;
+}
+
+function getCommonDirectory(filePaths: string[]): string {
+  const directories = filePaths.map(filePath =>
+    path.dirname(filePath).split(path.sep)
+  );
+  const common: string[] = [];
+
+  for (let i = 0; i < directories[0].length; i++) {
+    const segment = directories[0][i];
+    if (directories.every(parts => parts[i] === segment)) {
+      common.push(segment);
+    } else {
+      break;
+    }
+  }
+
+  return common.join(path.sep) || path.sep;
+}
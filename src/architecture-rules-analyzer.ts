@@ -0,0 +1,270 @@
+/**
+ * Architecture rules analysis
+ * Checks every import of the dependency graph against the layers, forbidden
+ * imports and module boundaries declared in the architecture section of
+ * .m2jsrc
+ */
+
+import path from 'path';
+import {
+  ArchitectureLayerSummary,
+  ArchitectureOptions,
+  ArchitectureReport,
+  ArchitectureRules,
+  ArchitectureViolation,
+  ArchitectureViolationType,
+  BoundaryRule,
+  LayerRule,
+} from './architecture-rules-types';
+import { analyzeDependencies, resolveModulePath } from './dependency-analyzer';
+import { getPackageName } from './dependency-hygiene-analyzer';
+import { globToRegExp } from './glob';
+import { DependencyRelationship, SourceFiles } from './types';
+
+const DEFAULT_PUBLIC_API = ['index.{js,jsx,ts,tsx,mjs,cjs}'];
+
+interface CompiledRules {
+  rules: ArchitectureRules;
+  layerOf(file: string): LayerRule | undefined;
+  matches(globs: string[], file: string): boolean;
+}
+
+interface ImportEdge {
+  from: string; // Relative to the root directory
+  to: string; // Relative to the root directory, or the package name
+  specifier: string;
+  isExternal: boolean;
+  fromLayer?: LayerRule;
+  toLayer?: LayerRule;
+}
+
+/**
+ * Check the imports of the files against architecture rules
+ */
+export function analyzeArchitecture(
+  files: string[],
+  options: ArchitectureOptions = {}
+): ArchitectureReport {
+  const startTime = Date.now();
+  const rootDir = path.resolve(options.rootDir || process.cwd());
+  const rules = options.rules || { layers: [], forbidden: [], boundaries: [] };
+  const graph = analyzeDependencies(files);
+  const layers = getArchitectureLayers(files, rules, rootDir);
+
+  return {
+    projectPath: graph.projectPath,
+    rootDir,
+    layers,
+    violations: checkArchitecture(graph.edges, rules, rootDir),
+    metrics: {
+      totalFiles: files.length,
+      layeredFiles: layers.reduce((total, layer) => total + layer.files, 0),
+      checkedImports: new Set(graph.edges.map(edge => importKey(edge))).size,
+      analysisTimeMs: Date.now() - startTime,
+    },
+  };
+}
+
+/**
+ * Imports that break the rules, once per importing file and specifier.
+ * Paths are relative to the root directory the rule globs are relative to.
+ */
+export function checkArchitecture(
+  edges: DependencyRelationship[],
+  rules: ArchitectureRules,
+  rootDir: string,
+  sources?: SourceFiles
+): ArchitectureViolation[] {
+  const compiled = compileRules(rules);
+  const seen = new Set<string>();
+
+  return edges
+    .filter(edge => {
+      const key = importKey(edge);
+      const isFirst = !seen.has(key);
+      seen.add(key);
+      return isFirst;
+    })
+    .flatMap(edge =>
+      checkImport(toImportEdge(edge, compiled, rootDir, sources), compiled)
+    )
+    .sort(
+      (a, b) =>
+        a.from.localeCompare(b.from) ||
+        a.specifier.localeCompare(b.specifier) ||
+        a.type.localeCompare(b.type)
+    );
+}
+
+/**
+ * Number of files in each layer, a file is in the first layer matching it
+ */
+export function getArchitectureLayers(
+  files: string[],
+  rules: ArchitectureRules,
+  rootDir: string
+): ArchitectureLayerSummary[] {
+  const compiled = compileRules(rules);
+  const counts = new Map<string, number>();
+  files.forEach(file => {
+    const layer = compiled.layerOf(toRelative(file, rootDir));
+    if (layer) {
+      counts.set(layer.name, (counts.get(layer.name) || 0) + 1);
+    }
+  });
+  return rules.layers.map(layer => ({
+    name: layer.name,
+    files: counts.get(layer.name) || 0,
+  }));
+}
+
+function compileRules(rules: ArchitectureRules): CompiledRules {
+  const layers = rules.layers || [];
+  const names = new Set(layers.map(layer => layer.name));
+  layers.forEach(layer => {
+    if (!Array.isArray(layer.files)) {
+      throw new Error(`Architecture layer "${layer.name}" has no files`);
+    }
+    [...(layer.allow || []), ...(layer.forbid || [])].forEach(name => {
+      if (!names.has(name)) {
+        throw new Error(
+          `Unknown layer "${name}" in architecture layer "${layer.name}"`
+        );
+      }
+    });
+  });
+
+  const compiled = new Map<string, RegExp>();
+  const matches = (globs: string[], file: string): boolean =>
+    globs.some(glob => {
+      if (!compiled.has(glob)) {
+        compiled.set(glob, globToRegExp(glob));
+      }
+      return compiled.get(glob)!.test(file);
+    });
+
+  return {
+    rules: {
+      layers,
+      forbidden: rules.forbidden || [],
+      boundaries: rules.boundaries || [],
+    },
+    layerOf: file => layers.find(layer => matches(layer.files, file)),
+    matches,
+  };
+}
+
+function toImportEdge(
+  edge: DependencyRelationship,
+  compiled: CompiledRules,
+  rootDir: string,
+  sources?: SourceFiles
+): ImportEdge {
+  const from = toRelative(edge.from, rootDir);
+  const to = edge.isExternal
+    ? getPackageName(edge.to) || edge.to
+    : toRelative(resolveModulePath(edge.from, edge.to, sources), rootDir);
+  return {
+    from,
+    to,
+    specifier: edge.to,
+    isExternal: edge.isExternal,
+    fromLayer: compiled.layerOf(from),
+    toLayer: edge.isExternal ? undefined : compiled.layerOf(to),
+  };
+}
+
+function checkImport(
+  edge: ImportEdge,
+  compiled: CompiledRules
+): ArchitectureViolation[] {
+  const { rules, matches } = compiled;
+  const broken: [ArchitectureViolationType, string | null][] = [
+    ['layer-dependency', getLayerViolation(edge.fromLayer, edge.toLayer)],
+    ['banned-package', getBannedPackageViolation(edge, compiled)],
+    ...rules.forbidden
+      .filter(
+        rule => matches(rule.from, edge.from) && matches(rule.to, edge.to)
+      )
+      .map((rule): [ArchitectureViolationType, string] => [
+        'forbidden-import',
+        rule.reason ||
+          `${rule.from.join(', ')} must not import ${rule.to.join(', ')}`,
+      ]),
+    ...rules.boundaries.map((boundary): [ArchitectureViolationType, string] => [
+      'public-api',
+      getPublicApiViolation(boundary, edge, compiled),
+    ]),
+  ];
+
+  return broken
+    .filter((entry): entry is [ArchitectureViolationType, string] => !!entry[1])
+    .map(([type, message]) => ({
+      type,
+      from: edge.from,
+      to: edge.to,
+      specifier: edge.specifier,
+      fromLayer: edge.fromLayer?.name,
+      toLayer: edge.toLayer?.name,
+      message,
+    }));
+}
+
+function getLayerViolation(
+  fromLayer: LayerRule | undefined,
+  toLayer: LayerRule | undefined
+): string | null {
+  if (!fromLayer || !toLayer || fromLayer === toLayer) {
+    return null;
+  }
+  if ((fromLayer.forbid || []).includes(toLayer.name)) {
+    return `Layer ${fromLayer.name} must not depend on ${toLayer.name}`;
+  }
+  if (fromLayer.allow && !fromLayer.allow.includes(toLayer.name)) {
+    const allowed = fromLayer.allow.join(', ') || 'no other layer';
+    return `Layer ${fromLayer.name} may only depend on ${allowed}`;
+  }
+  return null;
+}
+
+function getBannedPackageViolation(
+  edge: ImportEdge,
+  compiled: CompiledRules
+): string | null {
+  const banned = edge.fromLayer?.bannedPackages || [];
+  return edge.isExternal && compiled.matches(banned, edge.to)
+    ? `Layer ${edge.fromLayer!.name} must not import ${edge.to}`
+    : null;
+}
+
+/**
+ * Whether the import reaches into a module of the boundary from outside,
+ * past the files of its public API
+ */
+function getPublicApiViolation(
+  boundary: BoundaryRule,
+  edge: ImportEdge,
+  compiled: CompiledRules
+): string | null {
+  const publicApi = boundary.publicApi || DEFAULT_PUBLIC_API;
+  const segments = edge.to.split('/');
+  for (let i = 1; i < segments.length && !edge.isExternal; i++) {
+    const moduleDir = segments.slice(0, i).join('/');
+    if (compiled.matches([boundary.modules], moduleDir)) {
+      const isOutside = !edge.from.startsWith(`${moduleDir}/`);
+      const inner = segments.slice(i).join('/');
+      return isOutside && !compiled.matches(publicApi, inner)
+        ? `${moduleDir} must be imported through ${publicApi.join(', ')}`
+        : null;
+    }
+  }
+  return null;
+}
+
+function importKey(edge: DependencyRelationship): string {
+  return `${edge.from}\0${edge.to}`;
+}
+
+function toRelative(file: string, rootDir: string): string {
+  return path.relative(rootDir, path.resolve(file)).split(path.sep).join('/');
+}
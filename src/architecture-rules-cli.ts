@@ -0,0 +1,109 @@
+/**
+ * CLI Integration for Architecture Rules
+ * Handles --check-architecture flag and output formatting
+ */
+
+import chalk from 'chalk';
+import {
+  ArchitectureOptions,
+  ArchitectureReport,
+  ArchitectureViolation,
+  ArchitectureViolationType,
+} from './architecture-rules-types';
+import { analyzeArchitecture } from './architecture-rules-analyzer';
+import { ConfigLoader } from './config-loader';
+
+const SECTION_TITLES: Record<ArchitectureViolationType, string> = {
+  'layer-dependency': 'Layer Violations',
+  'banned-package': 'Banned Packages',
+  'forbidden-import': 'Forbidden Imports',
+  'public-api': 'Imports Past a Public API',
+};
+
+const SECTION_HINTS: Record<ArchitectureViolationType, string> = {
+  'layer-dependency': 'Depend on the layers the rules allow instead',
+  'banned-package': 'Move the code using these packages to another layer',
+  'forbidden-import': 'Remove the imports or change the rules',
+  'public-api': "Import from the module's public API instead",
+};
+
+/**
+ * Execute architecture rules analysis and output results
+ */
+export async function executeArchitectureAnalysis(
+  files: string[],
+  options: ArchitectureOptions = { format: 'table' }
+): Promise<void> {
+  try {
+    console.log(chalk.cyan.bold('Architecture Rules Report'));
+    console.log(chalk.dim(`Analyzing ${files.length} files...\n`));
+
+    const report = analyzeArchitecture(files, {
+      ...options,
+      rules: options.rules || ConfigLoader.loadConfig().architecture,
+    });
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      outputTableFormat(report);
+    }
+
+    // Exit with code 0 (informational, not error)
+    process.exit(0);
+  } catch (error) {
+    console.error(chalk.red(`Error: ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Output report in table format (default)
+ */
+function outputTableFormat(report: ArchitectureReport): void {
+  const { layers, violations, metrics, rootDir } = report;
+
+  console.log(chalk.dim(`Rules relative to: ${rootDir}`));
+  console.log(
+    chalk.dim(
+      `Files analyzed: ${metrics.totalFiles} (${metrics.layeredFiles} in layers)`
+    )
+  );
+  layers.forEach(layer => {
+    console.log(chalk.dim(`  ${layer.name}: ${layer.files} files`));
+  });
+  console.log(chalk.dim(`Imports checked: ${metrics.checkedImports}`));
+  console.log(chalk.dim(`Analysis time: ${metrics.analysisTimeMs}ms\n`));
+
+  if (violations.length === 0) {
+    console.log(chalk.green.bold('Great! No architecture rule is broken!'));
+    console.log(chalk.green('Every import follows the declared rules.\n'));
+    return;
+  }
+
+  (Object.keys(SECTION_TITLES) as ArchitectureViolationType[]).forEach(type => {
+    const found = violations.filter(violation => violation.type === type);
+    if (found.length > 0) {
+      outputSection(type, found);
+    }
+  });
+}
+
+function outputSection(
+  type: ArchitectureViolationType,
+  violations: ArchitectureViolation[]
+): void {
+  console.log(
+    chalk.red.bold(`${SECTION_TITLES[type]} (${violations.length} found):`)
+  );
+  violations.forEach(violation => {
+    console.log(
+      chalk.gray('• ') +
+        chalk.blue(violation.from) +
+        chalk.gray(' → ') +
+        chalk.yellow(violation.specifier)
+    );
+    console.log(chalk.gray('    ') + chalk.dim(violation.message));
+  });
+  console.log(chalk.blue(`${SECTION_HINTS[type]}\n`));
+}
@@ -0,0 +1,88 @@
+/**
+ * Types for architecture rules
+ * Layers, forbidden imports and module boundaries declared in .m2jsrc,
+ * checked against the dependency graph
+ */
+
+export interface LayerRule {
+  name: string;
+  /** Globs of the layer's files, relative to the analyzed directory */
+  files: string[];
+  /** Layers it may depend on besides itself, any layer when absent */
+  allow?: string[];
+  /** Layers it must not depend on */
+  forbid?: string[];
+  /** npm packages its files must not import, `@scope/*` for a scope */
+  bannedPackages?: string[];
+}
+
+export interface ForbiddenImportRule {
+  /** Globs of the importing files */
+  from: string[];
+  /** Globs of the imported files, or npm package names */
+  to: string[];
+  /** Shown with each violation */
+  reason?: string;
+}
+
+export interface BoundaryRule {
+  /** Glob of module directories, e.g. `src/features/*` */
+  modules: string;
+  /** Files other code may import, relative to the module directory */
+  publicApi?: string[];
+}
+
+export interface ArchitectureRules {
+  layers: LayerRule[];
+  forbidden: ForbiddenImportRule[];
+  boundaries: BoundaryRule[];
+}
+
+export type ArchitectureViolationType =
+  | 'layer-dependency' // A layer imports a layer it may not depend on
+  | 'forbidden-import' // An import matches a forbidden import rule
+  | 'public-api' // A module is imported past its public API
+  | 'banned-package'; // A layer imports a package banned for it
+
+export interface ArchitectureViolation {
+  type: ArchitectureViolationType;
+  /** Importing file */
+  from: string;
+  /** Imported file, or the npm package name */
+  to: string;
+  /** Module specifier as written in the import */
+  specifier: string;
+  fromLayer?: string;
+  toLayer?: string;
+  /** Rule the import breaks */
+  message: string;
+}
+
+export interface ArchitectureOptions {
+  /** Output format for reporting */
+  format?: 'table' | 'json';
+  /** Directory the rule globs are relative to (default: working directory) */
+  rootDir?: string;
+  /** Rules to check (default: the architecture section of .m2jsrc) */
+  rules?: ArchitectureRules;
+}
+
+export interface ArchitectureLayerSummary {
+  name: string;
+  files: number;
+}
+
+export interface ArchitectureMetrics {
+  totalFiles: number;
+  layeredFiles: number; // Files in one of the layers
+  checkedImports: number;
+  analysisTimeMs: number;
+}
+
+export interface ArchitectureReport {
+  projectPath: string;
+  rootDir: string;
+  layers: ArchitectureLayerSummary[];
+  violations: ArchitectureViolation[];
+  metrics: ArchitectureMetrics;
+}
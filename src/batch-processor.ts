@@ -2,7 +2,7 @@
 
 import { promises as fs } from 'fs';
 import path from 'path';
-import { BatchOptions, BatchResult } from './types';
+import { BatchOptions, BatchResult, GeneratorOptions } from './types';
 import { parseFile } from './parser';
 import { generateMarkdown, getOutputPath } from './generator';
 
@@ -45,7 +45,10 @@ export async function processBatch(
     }
 
     try {
-      await processIndividualFile(filePath, options.includeComments || false);
+      await processIndividualFile(filePath, {
+        includeComments: options.includeComments,
+        detailLevel: options.detailLevel,
+      });
 
       const outputPath = getOutputPath(filePath);
       result.processedFiles.push({
@@ -83,7 +86,7 @@ export async function processBatch(
 
 async function processIndividualFile(
   filePath: string,
-  includeComments: boolean
+  generatorOptions: GeneratorOptions
 ): Promise<void> {
   // Read file content
   const content = await fs.readFile(filePath, 'utf-8');
@@ -92,9 +95,7 @@ async function processIndividualFile(
   const parsedFile = parseFile(filePath, content);
 
   // Generate markdown with existing generator
-  const markdown = generateMarkdown(parsedFile, {
-    includeComments,
-  });
+  const markdown = generateMarkdown(parsedFile, generatorOptions);
 
   // Write output file co-located with source
   const outputPath = getOutputPath(filePath);
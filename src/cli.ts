@@ -13,17 +13,36 @@ import {
   generateMarkdown,
   getOutputPath,
   generateDependencyMarkdown,
+  generateApiMarkdown,
+  hasAnyExports,
 } from './generator';
 // import { generateEnhancedMarkdown } from './enhanced-generator';
 // import { generateTemplate, listAvailableDomains } from './template-generator';
-import { CliOptions, GraphOptions } from './types';
+import {
+  BudgetLevel,
+  CliOptions,
+  DetailLevel,
+  GeneratorOptions,
+  GraphOptions,
+  OutputFormat,
+} from './types';
 import { isDirectory, isFile, scanDirectory } from './file-scanner';
 import { processBatch } from './batch-processor';
 import { analyzeDependencies } from './dependency-analyzer';
+import { buildApiSurface } from './api-surface';
+import { buildBudgetedDocument } from './token-budget';
+import { buildProjectDocument } from './project-document';
+import { generateJsonOutput, parseFilesForJson } from './json-output';
 import { executeDeadCodeAnalysis, getDeadCodeHelpText } from './dead-code-cli';
 import { executeDuplicateCodeAnalysis, getDuplicateCodeHelpText } from './duplicate-code-cli';
 import { executeGraphDiffAnalysis, getGraphDiffHelpText } from './graph-diff-cli';
+import { executeGraphHistoryAnalysis } from './graph-history-cli';
+import { executeDependencyHygieneAnalysis } from './dependency-hygiene-cli';
+import { executeArchitectureAnalysis } from './architecture-rules-cli';
+import { executeHotspotAnalysis } from './hotspot-cli';
 import { ConfigLoader } from './config-loader';
+import { EXIT_CODES, parseFailOn } from './quality-gate';
+import { QualityGateCondition } from './quality-gate-types';
 
 // Read version from package.json
 const packageJson = require('../package.json');
@@ -42,13 +61,17 @@ program
   )
   .option('-o, --output <file>', 'specify output file (only for single files)')
   .option('--no-comments', 'skip comment extraction')
+  .option(
+    '--detail <level>',
+    'documentation detail: signatures, summary or full (default: full)'
+  )
   .option(
     '--graph',
     'generate dependency graph analysis instead of code extraction'
   )
   .option(
     '--mermaid',
-    'include Mermaid diagrams in graph output (use with --graph)'
+    'include Mermaid diagrams in graph output (use with --graph or --history)'
   )
   .option(
     '--usage-examples',
@@ -69,11 +92,37 @@ program
   )
   .option(
     '--detect-unused',
-    'detect unused exports and imports (dead code analysis)'
+    'detect unused exports, imports and locals (dead code analysis)'
   )
+  .option(
+    '--fix',
+    'remove safe unused imports and dead exports found by --detect-unused'
+  )
+  .option('--dry-run', 'show the --fix changes as a unified diff only')
   .option(
     '--detect-duplicates',
-    'detect duplicate code blocks using jscpd integration'
+    'detect duplicate and near-duplicate code blocks'
+  )
+  .option(
+    '--check-dependencies',
+    'compare imported npm packages with package.json dependencies'
+  )
+  .option(
+    '--check-architecture',
+    'check imports against the layers and boundaries declared in .m2jsrc'
+  )
+  .option(
+    '--hotspots',
+    'rank modules by coupling (fan-in/fan-out, instability) and git churn'
+  )
+  .option(
+    '--top <number>',
+    'number of hotspots to list (default: 10)',
+    parseInt
+  )
+  .option(
+    '--since <date>',
+    'only count git churn since a date, e.g. "6 months ago"'
   )
   .option(
     '--min-lines <number>',
@@ -85,11 +134,20 @@ program
     'minimum tokens to consider as duplicate (default: 50)',
     parseInt
   )
+  .option(
+    '--min-similarity <percent>',
+    'minimum similarity of near-miss duplicates (default: 80)',
+    parseInt
+  )
   .option(
     '--format <type>',
-    'output format for analysis: table, json (default: table)',
+    'output format: table or json for analysis, json also for extraction and --graph (default: table)',
     'table'
   )
+  .option(
+    '--fail-on <conditions>',
+    'exit non-zero when findings meet conditions such as "new-cycles>0,health-delta<-5" (dead code, duplicates, graph diff)'
+  )
   .option('--init-config', 'generate example .m2jsrc configuration file')
   .option('--help-dead-code', 'show detailed help for dead code analysis')
   .option('--help-duplicates', 'show detailed help for duplicate code analysis')
@@ -101,6 +159,36 @@ program
   .option('--include-impact', 'include impact scoring (default: true)')
   .option('--include-suggestions', 'include improvement suggestions (default: true)')
   .option('--help-graph-diff', 'show detailed help for graph diff analysis')
+  .option(
+    '--history <range>',
+    'track graph health over the commits of a git range, e.g. v1.0.0..HEAD'
+  )
+  .option(
+    '--max-commits <number>',
+    'most commits --history analyzes, spread over the range (default: 30)',
+    parseInt
+  )
+  .option(
+    '--api',
+    'generate one document for the package API, following re-exports from the entry files'
+  )
+  .option(
+    '--max-tokens <number>',
+    'combine all files into one document that fits the token budget',
+    parseInt
+  )
+  .option(
+    '--combined',
+    'write one document for a directory instead of a .md next to every file'
+  )
+  .option(
+    '--dependencies',
+    'include a dependency summary in the combined document (use with --combined)'
+  )
+  .option(
+    '--entry <files...>',
+    'entry files for --api (default: the input file, or index/src/index in a directory)'
+  )
   .action(async (inputPath: string | undefined, options: CliOptions) => {
     try {
       // Handle special commands first
@@ -156,8 +244,8 @@ async function processInput(
     throw new Error(`Path not found: ${resolvedPath}`);
   }
 
-  // Route to dead code analysis if --detect-unused option is used
-  if (options.detectUnused) {
+  // Route to dead code analysis if --detect-unused or --fix is used
+  if (options.detectUnused || options.fix || options.dryRun) {
     await processDeadCodeAnalysis(resolvedPath, options);
     return;
   }
@@ -168,18 +256,60 @@ async function processInput(
     return;
   }
 
+  // Route to dependency hygiene if --check-dependencies option is used
+  if (options.checkDependencies) {
+    await processDependencyHygieneAnalysis(resolvedPath, options);
+    return;
+  }
+
+  // Route to architecture rules if --check-architecture option is used
+  if (options.checkArchitecture) {
+    await processArchitectureAnalysis(resolvedPath, options);
+    return;
+  }
+
+  // Route to hotspot analysis if --hotspots option is used
+  if (options.hotspots) {
+    await processHotspotAnalysis(resolvedPath, options);
+    return;
+  }
+
   // Route to graph diff analysis if --graph-diff option is used
   if (options.graphDiff) {
     await processGraphDiffAnalysis(resolvedPath, options);
     return;
   }
 
+  // Route to architecture history if --history option is used
+  if (options.history) {
+    await processGraphHistoryAnalysis(resolvedPath, options);
+    return;
+  }
+
   // Route to graph analysis if --graph option is used
   if (options.graph) {
     await processGraphAnalysis(resolvedPath, options);
     return;
   }
 
+  // Route to package API generation if --api option is used
+  if (options.api) {
+    await processApiSurface(resolvedPath, isDir, options);
+    return;
+  }
+
+  // Route to token budgeting if --max-tokens option is used
+  if (options.maxTokens !== undefined) {
+    await processTokenBudget(resolvedPath, isDir, options);
+    return;
+  }
+
+  // Route to the combined project document if --combined option is used
+  if (options.combined) {
+    await processProjectDocument(resolvedPath, isDir, options);
+    return;
+  }
+
   if (isDir) {
     // Process directory
     await processDirectory(resolvedPath, options);
@@ -204,9 +334,9 @@ async function processSingleFile(
     throw new Error(`File not found: ${resolvedPath}`);
   }
 
-  if (!resolvedPath.match(/\.(ts|tsx|js|jsx)$/)) {
+  if (!resolvedPath.match(/\.(ts|tsx|js|jsx|vue|svelte|astro)$/)) {
     throw new Error(
-      `Unsupported file type: ${resolvedPath}. Only .ts, .tsx, .js, .jsx are supported.`
+      `Unsupported file type: ${resolvedPath}. Only .ts, .tsx, .js, .jsx, .vue, .svelte, .astro are supported.`
     );
   }
 
@@ -230,12 +360,44 @@ async function processSingleFile(
       )
     );
   }
-  if (parsedFile.functions.length > 0 || parsedFile.classes.length > 0) {
+  const totalTypes =
+    (exportMetadata.totalInterfaces || 0) +
+    (exportMetadata.totalTypes || 0) +
+    (exportMetadata.totalEnums || 0);
+  if (totalTypes > 0) {
+    console.log(
+      chalk.blue(
+        `Extracting exported interfaces, types and enums (${totalTypes} found)...`
+      )
+    );
+  }
+  if (hasAnyExports(parsedFile)) {
     console.log(chalk.blue('Extracting JSDoc comments...'));
   }
 
-  if (parsedFile.functions.length === 0 && parsedFile.classes.length === 0) {
+  if (!hasAnyExports(parsedFile)) {
     console.log(chalk.yellow('No exported functions or classes found'));
+    if (parsedFile.reExports && parsedFile.reExports.length > 0) {
+      console.log(
+        chalk.blue(
+          'This file re-exports other modules, use --api to follow them'
+        )
+      );
+    }
+    return;
+  }
+
+  if (getOutputFormat(options) === 'json') {
+    const outputPath = getOutputPath(resolvedPath, options.output, '.json');
+    await fs.writeFile(
+      outputPath,
+      generateJsonOutput(
+        { kind: 'file', file: parsedFile },
+        packageJson.version
+      ),
+      'utf-8'
+    );
+    console.log(chalk.green(`Created ${path.basename(outputPath)}`));
     return;
   }
 
@@ -258,9 +420,9 @@ async function processSingleFile(
       chalk.yellow('Enhanced analysis features temporarily disabled')
     );
     console.log(chalk.blue('Generating standard markdown...'));
-    markdown = generateMarkdown(parsedFile);
+    markdown = generateMarkdown(parsedFile, getGeneratorOptions(options));
   } else {
-    markdown = generateMarkdown(parsedFile);
+    markdown = generateMarkdown(parsedFile, getGeneratorOptions(options));
   }
 
   const outputPath = getOutputPath(resolvedPath, options.output);
@@ -294,6 +456,9 @@ async function processSingleFile(
       `${exportMetadata.totalClasses} class${exportMetadata.totalClasses === 1 ? '' : 'es'}`
     );
   }
+  if (totalTypes > 0) {
+    exportStats.push(`${totalTypes} type${totalTypes === 1 ? '' : 's'}`);
+  }
   if (exportMetadata.hasDefaultExport) {
     exportStats.push(`1 default ${exportMetadata.defaultExportType}`);
   }
@@ -327,6 +492,242 @@ async function processSingleFile(
   );
 }
 
+const DEFAULT_API_ENTRIES = [
+  'index.ts',
+  'index.tsx',
+  'index.js',
+  'src/index.ts',
+  'src/index.tsx',
+  'src/index.js',
+];
+
+async function processApiSurface(
+  inputPath: string,
+  isDir: boolean,
+  options: CliOptions
+): Promise<void> {
+  const extraEntries = (options.entry || []).map(entry =>
+    path.resolve(isDir ? inputPath : process.cwd(), entry)
+  );
+  let entryFiles = isDir ? extraEntries : [inputPath, ...extraEntries];
+
+  if (entryFiles.length === 0) {
+    for (const candidate of DEFAULT_API_ENTRIES) {
+      const candidatePath = path.join(inputPath, candidate);
+      if (await isFile(candidatePath)) {
+        entryFiles = [candidatePath];
+        break;
+      }
+    }
+  }
+
+  if (entryFiles.length === 0) {
+    throw new Error(
+      `No entry file found in ${inputPath}. Use --entry to specify one.`
+    );
+  }
+
+  console.log(
+    chalk.blue(
+      `Following re-exports from ${entryFiles.map(entry => path.basename(entry)).join(', ')}...`
+    )
+  );
+
+  const surface = await buildApiSurface(entryFiles);
+  const markdown = generateApiMarkdown(surface, getGeneratorOptions(options));
+  const outputPath = options.output || path.join(surface.rootDir, 'API.md');
+  await fs.writeFile(outputPath, markdown, 'utf-8');
+
+  const sourceFiles = new Set(surface.symbols.map(symbol => symbol.filePath));
+  console.log(chalk.green(`Created ${path.basename(outputPath)}`));
+  console.log(
+    chalk.cyan(
+      `Public API: ${surface.symbols.length} symbols from ${sourceFiles.size} files`
+    )
+  );
+  if (surface.externalReExports.length > 0) {
+    console.log(
+      chalk.yellow(
+        `Unresolved or external re-exports: ${surface.externalReExports
+          .map(({ reExport }) => reExport.source)
+          .join(', ')}`
+      )
+    );
+  }
+}
+
+async function processProjectDocument(
+  directoryPath: string,
+  isDir: boolean,
+  options: CliOptions
+): Promise<void> {
+  if (!isDir) {
+    throw new Error('--combined requires a directory path');
+  }
+
+  const scanResult = await scanDirectory(directoryPath);
+  if (scanResult.files.length === 0) {
+    throw new Error(
+      `No TypeScript/JavaScript files found in directory: ${directoryPath}`
+    );
+  }
+
+  console.log(
+    chalk.blue(
+      `Combining ${scanResult.files.length} files from ${path.basename(directoryPath)}...`
+    )
+  );
+
+  const project = await buildProjectDocument(directoryPath, scanResult.files, {
+    generatorOptions: getGeneratorOptions(options),
+    includeDependencies: options.dependencies,
+    includeMermaid: options.mermaid,
+  });
+  const outputPath = options.output || path.join(directoryPath, 'PROJECT.md');
+  await fs.writeFile(outputPath, project.markdown, 'utf-8');
+
+  console.log(chalk.green(`Created ${path.basename(outputPath)}`));
+  console.log(chalk.cyan(`Modules documented: ${project.files.length}`));
+  if (project.skippedFiles.length > 0) {
+    console.log(
+      chalk.yellow(
+        `Skipped unparseable files: ${project.skippedFiles
+          .map(file => path.relative(directoryPath, file))
+          .join(', ')}`
+      )
+    );
+  }
+}
+
+const BUDGET_LEVEL_LABELS: Array<[BudgetLevel, string]> = [
+  ['no-docs', 'JSDoc dropped'],
+  ['signatures', 'Collapsed to signatures'],
+  ['summary', 'Summarized to exports'],
+  ['omitted', 'Omitted'],
+];
+
+async function processTokenBudget(
+  inputPath: string,
+  isDir: boolean,
+  options: CliOptions
+): Promise<void> {
+  const maxTokens = options.maxTokens as number;
+  if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+    throw new Error('--max-tokens must be a positive number');
+  }
+
+  let files = [inputPath];
+  if (isDir) {
+    const scanResult = await scanDirectory(inputPath);
+    if (scanResult.files.length === 0) {
+      throw new Error(
+        `No TypeScript/JavaScript files found in directory: ${inputPath}`
+      );
+    }
+    files = scanResult.files;
+  }
+
+  console.log(
+    chalk.blue(`Fitting ${files.length} files into ${maxTokens} tokens...`)
+  );
+
+  const result = await buildBudgetedDocument(files, {
+    maxTokens,
+    generatorOptions: getGeneratorOptions(options),
+  });
+  const rootDir = isDir ? inputPath : path.dirname(inputPath);
+  const outputPath = options.output || path.join(rootDir, 'PROJECT.md');
+  await fs.writeFile(outputPath, result.markdown, 'utf-8');
+
+  console.log(chalk.green(`Created ${path.basename(outputPath)}`));
+  console.log(
+    chalk.cyan(`Estimated tokens: ${result.totalTokens} / ${maxTokens}`)
+  );
+
+  BUDGET_LEVEL_LABELS.forEach(([level, label]) => {
+    const trimmed = result.files.filter(file => file.level === level);
+    if (trimmed.length > 0) {
+      console.log(chalk.yellow(`${label} (${trimmed.length}):`));
+      trimmed.forEach(file => {
+        console.log(
+          chalk.gray(
+            `  ${path.relative(rootDir, file.filePath) || path.basename(file.filePath)}: ${file.fullTokens} -> ${file.tokens} tokens`
+          )
+        );
+      });
+    }
+  });
+
+  if (result.skippedFiles.length > 0) {
+    console.log(
+      chalk.yellow(`Skipped unparseable files: ${result.skippedFiles.length}`)
+    );
+  }
+  if (!result.fits) {
+    console.log(
+      chalk.red(`Could not fit the project within ${maxTokens} tokens`)
+    );
+  }
+}
+
+const DETAIL_LEVELS: DetailLevel[] = ['signatures', 'summary', 'full'];
+
+function getGeneratorOptions(options: CliOptions): GeneratorOptions {
+  const detailLevel = options.detail || 'full';
+  if (!DETAIL_LEVELS.includes(detailLevel)) {
+    throw new Error(
+      `Invalid --detail level: ${detailLevel}. Use one of: ${DETAIL_LEVELS.join(', ')}`
+    );
+  }
+
+  return {
+    includeComments: options.comments !== false,
+    detailLevel,
+  };
+}
+
+function getOutputFormat(options: CliOptions): OutputFormat {
+  return options.format === 'json' ||
+    ConfigLoader.loadConfig().output.format === 'json'
+    ? 'json'
+    : 'markdown';
+}
+
+/**
+ * Write one JSON document for every file of the directory
+ */
+async function processJsonDirectory(
+  directoryPath: string,
+  options: CliOptions
+): Promise<void> {
+  const scanResult = await scanDirectory(directoryPath);
+  if (scanResult.files.length === 0) {
+    throw new Error(
+      `No TypeScript/JavaScript files found in directory: ${directoryPath}`
+    );
+  }
+
+  const { files, errors } = await parseFilesForJson(scanResult.files);
+  const outputPath = options.output || path.join(directoryPath, 'm2js.json');
+  await fs.writeFile(
+    outputPath,
+    generateJsonOutput(
+      { kind: 'batch', rootDir: directoryPath, files, errors },
+      packageJson.version
+    ),
+    'utf-8'
+  );
+
+  console.log(chalk.green(`Created ${path.basename(outputPath)}`));
+  console.log(chalk.cyan(`Total files: ${scanResult.files.length}`));
+  if (errors.length > 0) {
+    console.log(chalk.red(`Failed: ${errors.length}`));
+    errors.forEach(({ filePath, error }) => {
+      console.log(chalk.red(`  • ${path.basename(filePath)}: ${error}`));
+    });
+  }
+}
+
 async function processDirectory(
   directoryPath: string,
   options: CliOptions
@@ -335,6 +736,11 @@ async function processDirectory(
     chalk.blue(`Scanning directory ${path.basename(directoryPath)}...`)
   );
 
+  if (getOutputFormat(options) === 'json') {
+    await processJsonDirectory(directoryPath, options);
+    return;
+  }
+
   // Warn about --output option for directories
   if (options.output) {
     console.log(
@@ -346,7 +752,7 @@ async function processDirectory(
 
   const batchOptions = {
     sourceDirectory: directoryPath,
-    includeComments: !options.noComments,
+    ...getGeneratorOptions(options),
     onProgress: (current: number, total: number, fileName: string): void => {
       console.log(
         chalk.blue(`Processing files (${current}/${total}): ${fileName}`)
@@ -405,6 +811,8 @@ async function processDeadCodeAnalysis(
   options: CliOptions
 ): Promise<void> {
   const resolvedPath = path.resolve(inputPath);
+  // Progress goes to stderr with JSON output, stdout only gets the report
+  const log = options.format === 'json' ? console.error : console.log;
 
   // Determine input type and collect files
   let files: string[] = [];
@@ -413,9 +821,7 @@ async function processDeadCodeAnalysis(
   const isFileTarget = await isFile(resolvedPath);
 
   if (isDir) {
-    console.log(
-      chalk.blue(`Scanning directory: ${path.basename(resolvedPath)}`)
-    );
+    log(chalk.blue(`Scanning directory: ${path.basename(resolvedPath)}`));
     const scanResult = await scanDirectory(resolvedPath);
     files = scanResult.files;
 
@@ -425,9 +831,7 @@ async function processDeadCodeAnalysis(
       );
     }
 
-    console.log(
-      chalk.blue(`Found ${files.length} TypeScript/JavaScript files`)
-    );
+    log(chalk.blue(`Found ${files.length} TypeScript/JavaScript files`));
   } else if (isFileTarget) {
     if (!resolvedPath.match(/\.(ts|tsx|js|jsx)$/)) {
       throw new Error(
@@ -443,6 +847,12 @@ async function processDeadCodeAnalysis(
   const deadCodeOptions = {
     format: options.format as 'table' | 'json',
     includeMetrics: true,
+    fix: options.fix || options.dryRun,
+    dryRun: options.dryRun,
+    failOn: getFailOnConditions(
+      options,
+      isDir ? resolvedPath : path.dirname(resolvedPath)
+    ),
   };
 
   await executeDeadCodeAnalysis(files, deadCodeOptions);
@@ -453,6 +863,7 @@ async function processDuplicateCodeAnalysis(
   options: CliOptions
 ): Promise<void> {
   const resolvedPath = path.resolve(inputPath);
+  const log = options.format === 'json' ? console.error : console.log;
 
   // Determine input type and collect files
   let files: string[] = [];
@@ -461,9 +872,7 @@ async function processDuplicateCodeAnalysis(
   const isFileTarget = await isFile(resolvedPath);
 
   if (isDir) {
-    console.log(
-      chalk.blue(`Scanning directory: ${path.basename(resolvedPath)}`)
-    );
+    log(chalk.blue(`Scanning directory: ${path.basename(resolvedPath)}`));
     const scanResult = await scanDirectory(resolvedPath);
     files = scanResult.files;
 
@@ -473,9 +882,7 @@ async function processDuplicateCodeAnalysis(
       );
     }
 
-    console.log(
-      chalk.blue(`Found ${files.length} TypeScript/JavaScript files`)
-    );
+    log(chalk.blue(`Found ${files.length} TypeScript/JavaScript files`));
   } else if (isFileTarget) {
     if (!resolvedPath.match(/\.(ts|tsx|js|jsx)$/)) {
       throw new Error(
@@ -492,13 +899,148 @@ async function processDuplicateCodeAnalysis(
     format: options.format as 'table' | 'json',
     minLines: options.minLines,
     minTokens: options.minTokens,
+    minSimilarity: options.minSimilarity,
     includeContext: true,
     includeSuggestions: true,
+    failOn: getFailOnConditions(
+      options,
+      isDir ? resolvedPath : path.dirname(resolvedPath)
+    ),
   };
 
   await executeDuplicateCodeAnalysis(files, duplicateOptions);
 }
 
+/**
+ * Quality gate conditions from --fail-on, else from the .m2jsrc
+ * qualityGate of the project. Invalid conditions exit before any analysis
+ * runs.
+ */
+function getFailOnConditions(
+  options: CliOptions,
+  projectPath?: string
+): QualityGateCondition[] {
+  try {
+    return parseFailOn(
+      options.failOn ?? ConfigLoader.loadConfig(projectPath).qualityGate.failOn
+    );
+  } catch (error) {
+    console.error(chalk.red(`Error: ${(error as Error).message}`));
+    process.exit(EXIT_CODES.invalidCondition);
+  }
+}
+
+/**
+ * Process dependency hygiene analysis
+ */
+async function processDependencyHygieneAnalysis(
+  inputPath: string,
+  options: CliOptions
+): Promise<void> {
+  const resolvedPath = path.resolve(inputPath);
+  let files: string[] = [resolvedPath];
+
+  if (await isDirectory(resolvedPath)) {
+    console.log(
+      chalk.blue(`Scanning directory: ${path.basename(resolvedPath)}`)
+    );
+    // Tests are scanned too, they decide where dependencies belong
+    const scanResult = await scanDirectory(resolvedPath, {
+      includeTests: true,
+    });
+    files = scanResult.files;
+
+    if (files.length === 0) {
+      throw new Error(
+        `No TypeScript/JavaScript files found in directory: ${resolvedPath}`
+      );
+    }
+
+    console.log(
+      chalk.blue(`Found ${files.length} TypeScript/JavaScript files`)
+    );
+  }
+
+  await executeDependencyHygieneAnalysis(files, {
+    format: options.format as 'table' | 'json',
+  });
+}
+
+/**
+ * Process architecture rules analysis
+ */
+async function processArchitectureAnalysis(
+  inputPath: string,
+  options: CliOptions
+): Promise<void> {
+  const resolvedPath = path.resolve(inputPath);
+  let files: string[] = [resolvedPath];
+  // Rule globs are relative to the analyzed directory
+  let rootDir = process.cwd();
+
+  if (await isDirectory(resolvedPath)) {
+    console.log(
+      chalk.blue(`Scanning directory: ${path.basename(resolvedPath)}`)
+    );
+    const scanResult = await scanDirectory(resolvedPath);
+    files = scanResult.files;
+    rootDir = resolvedPath;
+
+    if (files.length === 0) {
+      throw new Error(
+        `No TypeScript/JavaScript files found in directory: ${resolvedPath}`
+      );
+    }
+
+    console.log(
+      chalk.blue(`Found ${files.length} TypeScript/JavaScript files`)
+    );
+  }
+
+  await executeArchitectureAnalysis(files, {
+    format: options.format as 'table' | 'json',
+    rootDir,
+  });
+}
+
+/**
+ * Process hotspot analysis
+ */
+async function processHotspotAnalysis(
+  inputPath: string,
+  options: CliOptions
+): Promise<void> {
+  const resolvedPath = path.resolve(inputPath);
+  let files: string[] = [resolvedPath];
+  let rootDir = process.cwd();
+
+  if (await isDirectory(resolvedPath)) {
+    console.log(
+      chalk.blue(`Scanning directory: ${path.basename(resolvedPath)}`)
+    );
+    const scanResult = await scanDirectory(resolvedPath);
+    files = scanResult.files;
+    rootDir = resolvedPath;
+
+    if (files.length === 0) {
+      throw new Error(
+        `No TypeScript/JavaScript files found in directory: ${resolvedPath}`
+      );
+    }
+
+    console.log(
+      chalk.blue(`Found ${files.length} TypeScript/JavaScript files`)
+    );
+  }
+
+  await executeHotspotAnalysis(files, {
+    format: options.format as 'table' | 'json',
+    rootDir,
+    limit: options.top,
+    since: options.since,
+  });
+}
+
 /**
  * Process graph diff analysis
  */
@@ -523,9 +1065,8 @@ async function processGraphDiffAnalysis(
     );
   }
 
-  console.log(
-    chalk.blue(`Analyzing project: ${path.basename(resolvedPath)}`)
-  );
+  const log = options.format === 'json' ? console.error : console.log;
+  log(chalk.blue(`Analyzing project: ${path.basename(resolvedPath)}`));
 
   // Build graph diff options
   const graphDiffOptions = {
@@ -536,11 +1077,37 @@ async function processGraphDiffAnalysis(
     includeImpact: options.includeImpact !== false,
     includeSuggestions: options.includeSuggestions !== false,
     minSeverity: options.minSeverity,
+    failOn: getFailOnConditions(options, resolvedPath),
   };
 
   await executeGraphDiffAnalysis(resolvedPath, graphDiffOptions);
 }
 
+/**
+ * Process architecture history analysis
+ */
+async function processGraphHistoryAnalysis(
+  inputPath: string,
+  options: CliOptions
+): Promise<void> {
+  const resolvedPath = path.resolve(inputPath);
+
+  if (!(await isDirectory(resolvedPath))) {
+    throw new Error(
+      'Architecture history requires a directory path (project root with git repository)'
+    );
+  }
+
+  console.log(chalk.blue(`Analyzing project: ${path.basename(resolvedPath)}`));
+  console.log(chalk.dim('Snapshots are stored in .m2js/snapshots'));
+
+  await executeGraphHistoryAnalysis(resolvedPath, options.history, {
+    format: options.format as 'table' | 'json',
+    mermaid: options.mermaid,
+    maxCommits: options.maxCommits,
+  });
+}
+
 /**
  * Generate example configuration file
  */
@@ -574,6 +1141,23 @@ async function generateConfigFile(): Promise<void> {
     console.log(chalk.cyan('• deadCode.showProgress - Show progress bar'));
     console.log(chalk.cyan('• files.ignorePatterns - Files/folders to skip'));
     console.log(chalk.cyan('• deadCode.format - Default output format'));
+    console.log(
+      chalk.cyan('• deadCode.entries - Extra entry files for dead code')
+    );
+    console.log(
+      chalk.cyan('• deadCode.frameworks - Framework presets, or "auto"')
+    );
+    console.log(
+      chalk.cyan('• dependencies.ignore - Packages --check-dependencies skips')
+    );
+    console.log(
+      chalk.cyan(
+        '• architecture - Layers and boundaries --check-architecture checks'
+      )
+    );
+    console.log(
+      chalk.cyan('• qualityGate.failOn - Conditions --fail-on defaults to')
+    );
 
     console.log(chalk.blue('\nYou can also use environment variables:'));
     console.log(chalk.blue('• M2JS_CACHE_ENABLED=false m2js --detect-unused'));
@@ -649,8 +1233,18 @@ async function processGraphAnalysis(
   try {
     const dependencyGraph = analyzeDependencies(files, graphOptions);
 
-    console.log(chalk.blue('Generating dependency graph markdown...'));
-    const markdown = generateDependencyMarkdown(dependencyGraph, graphOptions);
+    const isJson = getOutputFormat(options) === 'json';
+    console.log(
+      chalk.blue(
+        `Generating dependency graph ${isJson ? 'JSON' : 'markdown'}...`
+      )
+    );
+    const output = isJson
+      ? generateJsonOutput(
+          { kind: 'graph', graph: dependencyGraph },
+          packageJson.version
+        )
+      : generateDependencyMarkdown(dependencyGraph, graphOptions);
 
     // Determine output path
     let outputPath: string;
@@ -662,12 +1256,12 @@ async function processGraphAnalysis(
         : path.basename(resolvedPath, path.extname(resolvedPath));
       outputPath = path.join(
         isDir ? resolvedPath : path.dirname(resolvedPath),
-        `${baseName}-dependencies.md`
+        `${baseName}-dependencies.${isJson ? 'json' : 'md'}`
       );
     }
 
     // Write output
-    await fs.writeFile(outputPath, markdown, 'utf-8');
+    await fs.writeFile(outputPath, output, 'utf-8');
 
     console.log(chalk.green(`Dependency graph generated successfully!`));
 
@@ -683,6 +1277,18 @@ async function processGraphAnalysis(
       chalk.cyan(`External dependencies: ${metrics.externalDependencies}`)
     );
 
+    if (dependencyGraph.packageGraph) {
+      const { packages, boundaryViolations } = dependencyGraph.packageGraph;
+      console.log(chalk.cyan(`Workspace packages: ${packages.length}`));
+      if (boundaryViolations.length > 0) {
+        console.log(
+          chalk.yellow(
+            `Package boundary violations: ${boundaryViolations.length}`
+          )
+        );
+      }
+    }
+
     if (metrics.circularDependencies.length > 0) {
       console.log(
         chalk.yellow(
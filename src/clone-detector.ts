@@ -0,0 +1,698 @@
+/* eslint-disable max-lines */
+/**
+ * Clone detection on the Babel AST
+ * Statements are fingerprinted with identifiers and literals abstracted.
+ * Runs of sibling statements with equal fingerprints are grown into
+ * Type-1 (identical) and Type-2 (renamed) clones; functions and classes
+ * whose normalized tokens mostly agree are Type-3 (near-miss) clones.
+ */
+
+import { parse } from '@babel/parser';
+import * as t from '@babel/types';
+import { createHash } from 'crypto';
+import { extractScriptContent } from './sfc-extractor';
+
+// Babel parser configuration for clone detection
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const CLONE_PARSE_CONFIG: any = {
+  sourceType: 'module',
+  plugins: [
+    'typescript',
+    'jsx',
+    'decorators-legacy',
+    'classProperties',
+    'asyncGenerators',
+    'bigInt',
+    'dynamicImport',
+  ],
+};
+
+// Array fields holding sibling statements or class members
+const SEQUENCE_KEYS = new Set(['body', 'consequent']);
+
+export type CloneType = 'exact' | 'structural' | 'similar';
+
+export interface CloneDetectionOptions {
+  minLines: number;
+  minTokens: number;
+  minSimilarity: number; // Percentage for near-miss clones
+}
+
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+export interface CloneLocation {
+  file: string;
+  startLine: number;
+  endLine: number;
+  startColumn: number;
+  endColumn: number;
+  context?: string; // Enclosing function, method or class
+}
+
+export interface Clone {
+  type: CloneType;
+  locations: CloneLocation[];
+  code: string; // Source of the first location
+  tokens: number;
+  similarity: number;
+}
+
+interface Unit {
+  node: t.Node;
+  file: number;
+  exact: string;
+  normalized: string;
+  tokens: string[]; // Normalized tokens
+  context?: string;
+}
+
+interface Run {
+  sequence: number;
+  start: number;
+  end: number; // Inclusive
+}
+
+interface Span {
+  file: number;
+  start: number;
+  end: number;
+}
+
+interface ParsedSource {
+  script: string;
+  sequences: Unit[][];
+}
+
+/**
+ * Find the clones among the files. Files that do not parse are left out and
+ * returned as skipped.
+ */
+export function detectClones(
+  files: SourceFile[],
+  options: CloneDetectionOptions
+): { clones: Clone[]; skipped: string[] } {
+  const parsed: ParsedSource[] = [];
+  const paths: string[] = [];
+  const skipped: string[] = [];
+  [...files]
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .forEach(file => {
+      const source = parseSource(file, paths.length);
+      if (source) {
+        parsed.push(source);
+        paths.push(file.path);
+      } else {
+        skipped.push(file.path);
+      }
+    });
+
+  const sequences = parsed.flatMap(source => source.sequences);
+  // Near-miss functions may hold exact copies, and the other way around
+  const found = removeOverlappingClones([
+    ...findStatementClones(sequences, options),
+    ...findNearMissClones(sequences, options),
+  ]);
+
+  const toClone = (found: FoundClone): Clone => {
+    const first = found.spans[0];
+    return {
+      type: found.type,
+      locations: found.units.map(([firstUnit, lastUnit]) =>
+        createLocation(firstUnit, lastUnit, paths)
+      ),
+      code: parsed[first.file].script.slice(first.start, first.end),
+      tokens: found.tokens,
+      similarity: found.similarity,
+    };
+  };
+
+  return {
+    clones: found.map(toClone),
+    skipped,
+  };
+}
+
+function parseSource(file: SourceFile, index: number): ParsedSource | null {
+  const script = extractScriptContent(file.path, file.content);
+  try {
+    const ast = parse(script, CLONE_PARSE_CONFIG);
+    const sequences: Unit[][] = [];
+    collectSequences(ast.program, undefined, index, sequences);
+    return { script, sequences };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collect every list of sibling statements or class members, with the
+ * function, method or class around them
+ */
+function collectSequences(
+  node: t.Node,
+  context: string | undefined,
+  file: number,
+  sequences: Unit[][]
+): void {
+  const inner = getContextName(node) || context;
+  for (const key of t.VISITOR_KEYS[node.type] || []) {
+    const value = (node as unknown as Record<string, unknown>)[key];
+    const children = (Array.isArray(value) ? value : [value]).filter(
+      (child): child is t.Node =>
+        !!child && typeof (child as t.Node).type === 'string'
+    );
+
+    if (
+      Array.isArray(value) &&
+      SEQUENCE_KEYS.has(key) &&
+      children.length > 0 &&
+      children.every(isUnitNode)
+    ) {
+      // Shared imports are not duplicated logic
+      sequences.push(
+        children
+          .filter(child => !t.isImportDeclaration(child))
+          .map(child => createUnit(child, file, inner))
+      );
+    }
+    children.forEach(child => collectSequences(child, inner, file, sequences));
+  }
+}
+
+function isUnitNode(node: t.Node): boolean {
+  return (
+    t.isStatement(node) ||
+    t.isClassMethod(node) ||
+    t.isClassPrivateMethod(node) ||
+    t.isClassProperty(node) ||
+    t.isClassPrivateProperty(node) ||
+    t.isTSDeclareMethod(node)
+  );
+}
+
+function getContextName(node: t.Node): string | undefined {
+  if (t.isFunctionDeclaration(node) && node.id) {
+    return `function ${node.id.name}`;
+  }
+  if ((t.isClassDeclaration(node) || t.isClassExpression(node)) && node.id) {
+    return `class ${node.id.name}`;
+  }
+  if (
+    (t.isClassMethod(node) || t.isObjectMethod(node)) &&
+    t.isIdentifier(node.key)
+  ) {
+    return `method ${node.key.name}`;
+  }
+  if (
+    t.isVariableDeclarator(node) &&
+    t.isIdentifier(node.id) &&
+    (t.isFunction(node.init) || t.isClass(node.init))
+  ) {
+    return `${t.isClass(node.init) ? 'class' : 'function'} ${node.id.name}`;
+  }
+  return undefined;
+}
+
+function createUnit(
+  node: t.Node,
+  file: number,
+  context: string | undefined
+): Unit {
+  const exact: string[] = [];
+  const tokens: string[] = [];
+  collectTokens(node, exact, tokens);
+  return {
+    node,
+    file,
+    exact: hash(exact),
+    normalized: hash(tokens),
+    tokens,
+    context,
+  };
+}
+
+/**
+ * One token per node: its type with any operator or declaration kind.
+ * Exact tokens add identifier names and literal values, which normalized
+ * tokens leave out.
+ */
+function collectTokens(
+  node: t.Node,
+  exact: string[],
+  normalized: string[]
+): void {
+  const fields = node as unknown as Record<string, unknown>;
+  const shape = [node.type, fields.operator, fields.kind]
+    .filter(part => typeof part === 'string')
+    .join(':');
+  normalized.push(shape);
+  exact.push(`${shape}=${getValue(node)}`);
+
+  for (const key of t.VISITOR_KEYS[node.type] || []) {
+    const value = fields[key];
+    (Array.isArray(value) ? value : [value]).forEach(child => {
+      if (child && typeof (child as t.Node).type === 'string') {
+        collectTokens(child as t.Node, exact, normalized);
+      }
+    });
+  }
+}
+
+function getValue(node: t.Node): string {
+  if (t.isIdentifier(node) || t.isJSXIdentifier(node)) {
+    return node.name;
+  }
+  if (t.isTemplateElement(node)) {
+    return node.value.raw;
+  }
+  if (t.isRegExpLiteral(node)) {
+    return `/${node.pattern}/${node.flags}`;
+  }
+  if (t.isLiteral(node) || t.isJSXText(node)) {
+    return JSON.stringify((node as { value?: unknown }).value ?? null);
+  }
+  return '';
+}
+
+function hash(tokens: string[]): string {
+  return createHash('sha1').update(tokens.join(' ')).digest('hex');
+}
+
+interface FoundClone {
+  type: CloneType;
+  units: [Unit, Unit][]; // First and last unit of each location
+  spans: Span[];
+  tokens: number;
+  similarity: number;
+}
+
+/**
+ * Type-1 and Type-2 clones: runs of sibling statements whose normalized
+ * fingerprints agree. Every run starts as the smallest window reaching the
+ * size thresholds, pairs of equal windows then grow to the right as far as
+ * their statements keep agreeing.
+ */
+function findStatementClones(
+  sequences: Unit[][],
+  options: CloneDetectionOptions
+): FoundClone[] {
+  const classes = new Map<string, Map<string, Run>>();
+  indexWindows(sequences, options).forEach(runs =>
+    runs.forEach((first, index) =>
+      runs.slice(index + 1).forEach(second => {
+        const pair = growRuns(sequences, first, second);
+        if (!pair || getRunLines(sequences, pair[0]) < options.minLines) {
+          return;
+        }
+        const key = getRunKey(sequences, pair[0]);
+        const members = classes.get(key) || new Map<string, Run>();
+        pair.forEach(run =>
+          members.set(`${run.sequence}:${run.start}:${run.end}`, run)
+        );
+        classes.set(key, members);
+      })
+    )
+  );
+
+  return [...classes.values()].flatMap(members => {
+    const runs = removeOverlappingRuns([...members.values()]);
+    return runs.length > 1 ? [createStatementClone(sequences, runs)] : [];
+  });
+}
+
+/**
+ * Smallest windows with enough tokens, by the fingerprints of their units
+ */
+function indexWindows(
+  sequences: Unit[][],
+  options: CloneDetectionOptions
+): Map<string, Run[]> {
+  const windows = new Map<string, Run[]>();
+  sequences.forEach((units, sequence) => {
+    for (let start = 0; start < units.length; start++) {
+      const end = findWindowEnd(units, start, options);
+      if (end === -1) {
+        break;
+      }
+      const key = getRunKey(sequences, { sequence, start, end });
+      if (!windows.has(key)) {
+        windows.set(key, []);
+      }
+      windows.get(key)!.push({ sequence, start, end });
+    }
+  });
+  return windows;
+}
+
+function createStatementClone(sequences: Unit[][], runs: Run[]): FoundClone {
+  const units = runs.map(run =>
+    sequences[run.sequence].slice(run.start, run.end + 1)
+  );
+  const exactKey = (run: Unit[]): string => run.map(unit => unit.exact).join();
+  const isExact = units.every(run => exactKey(run) === exactKey(units[0]));
+  return createFoundClone(
+    units.map(run => [run[0], run[run.length - 1]]),
+    isExact ? 'exact' : 'structural',
+    countTokens(units[0]),
+    100
+  );
+}
+
+/**
+ * Repeated statements give pairs of runs that overlap each other, like
+ * statements 1-3 and 2-4 of five equal ones. The first run wins.
+ */
+function removeOverlappingRuns(runs: Run[]): Run[] {
+  const kept: Run[] = [];
+  [...runs]
+    .sort((a, b) => a.sequence - b.sequence || a.start - b.start)
+    .forEach(run => {
+      const previous = kept[kept.length - 1];
+      if (
+        !previous ||
+        previous.sequence !== run.sequence ||
+        previous.end < run.start
+      ) {
+        kept.push(run);
+      }
+    });
+  return kept;
+}
+
+/**
+ * Last unit of the smallest run from `start` with enough tokens, or -1 when
+ * the rest of the sequence is too short. Line counts depend on formatting,
+ * they are checked once runs have grown.
+ */
+function findWindowEnd(
+  units: Unit[],
+  start: number,
+  options: CloneDetectionOptions
+): number {
+  let tokens = 0;
+  for (let end = start; end < units.length; end++) {
+    tokens += units[end].tokens.length;
+    if (tokens >= options.minTokens) {
+      return end;
+    }
+  }
+  return -1;
+}
+
+function getRunLines(sequences: Unit[][], run: Run): number {
+  const units = sequences[run.sequence];
+  return (
+    units[run.end].node.loc!.end.line -
+    units[run.start].node.loc!.start.line +
+    1
+  );
+}
+
+function getRunKey(sequences: Unit[][], run: Run): string {
+  return sequences[run.sequence]
+    .slice(run.start, run.end + 1)
+    .map(unit => unit.normalized)
+    .join();
+}
+
+/**
+ * Grow two equal windows to the right. Returns null when they overlap, or
+ * when the statements before them agree too, as the windows one statement
+ * earlier already give the same clone.
+ */
+function growRuns(
+  sequences: Unit[][],
+  first: Run,
+  second: Run
+): [Run, Run] | null {
+  const [a, b] = [sequences[first.sequence], sequences[second.sequence]];
+  const sameSequence = first.sequence === second.sequence;
+  if (sameSequence && first.start <= second.end && second.start <= first.end) {
+    return null;
+  }
+  if (
+    first.start > 0 &&
+    second.start > 0 &&
+    a[first.start - 1].normalized === b[second.start - 1].normalized &&
+    !(
+      sameSequence &&
+      first.start - 1 <= second.end &&
+      second.start - 1 <= first.end
+    )
+  ) {
+    return null;
+  }
+
+  let length = first.end - first.start + 1;
+  while (
+    first.start + length < a.length &&
+    second.start + length < b.length &&
+    a[first.start + length].normalized ===
+      b[second.start + length].normalized &&
+    !(sameSequence && first.start + length >= second.start)
+  ) {
+    length++;
+  }
+  return [
+    { ...first, end: first.start + length - 1 },
+    { ...second, end: second.start + length - 1 },
+  ];
+}
+
+/**
+ * Type-3 clones: functions, methods and classes of similar size whose
+ * normalized token trigrams mostly agree. The unit with the most matches
+ * is grouped with all of them first, so each unit lands in one group.
+ */
+function findNearMissClones(
+  sequences: Unit[][],
+  options: CloneDetectionOptions
+): FoundClone[] {
+  const matches = findNearMissMatches(sequences, options);
+  const grouped = new Set<Unit>();
+  return [...matches.keys()]
+    .sort((a, b) => matches.get(b)!.size - matches.get(a)!.size)
+    .flatMap(unit => {
+      if (grouped.has(unit)) {
+        return [];
+      }
+      const members = [...matches.get(unit)!].filter(
+        ([match]) => !grouped.has(match)
+      );
+      if (members.length === 0) {
+        return [];
+      }
+      grouped.add(unit);
+      members.forEach(([match]) => grouped.add(match));
+      return [createNearMissClone(unit, members)];
+    });
+}
+
+/**
+ * Similarity of every pair of near-miss candidates above the threshold,
+ * recorded for both units of the pair
+ */
+function findNearMissMatches(
+  sequences: Unit[][],
+  options: CloneDetectionOptions
+): Map<Unit, Map<Unit, number>> {
+  const ratio = options.minSimilarity / 100;
+  // Smallest first, so each unit is compared with those up to its size
+  const candidates = sequences
+    .flat()
+    .filter(unit => isNearMissCandidate(unit, options))
+    .sort((a, b) => a.tokens.length - b.tokens.length);
+
+  const trigrams = new Map(
+    candidates.map(unit => [unit, countTrigrams(unit.tokens)])
+  );
+
+  const matches = new Map<Unit, Map<Unit, number>>();
+  const addMatch = (unit: Unit, match: Unit, similarity: number): void => {
+    matches.set(unit, (matches.get(unit) || new Map()).set(match, similarity));
+  };
+  candidates.forEach((first, index) => {
+    for (let next = index + 1; next < candidates.length; next++) {
+      const second = candidates[next];
+      // Dice similarity can be no higher than 2 * smaller / (both sizes)
+      const sizes = first.tokens.length + second.tokens.length;
+      if ((2 * first.tokens.length) / sizes < ratio) {
+        break;
+      }
+      if (
+        first.normalized === second.normalized ||
+        getDeclarationKind(first.node) !== getDeclarationKind(second.node)
+      ) {
+        continue;
+      }
+      const similarity = getDiceSimilarity(
+        trigrams.get(first)!,
+        trigrams.get(second)!
+      );
+      if (similarity >= ratio) {
+        addMatch(first, second, similarity);
+        addMatch(second, first, similarity);
+      }
+    }
+  });
+  return matches;
+}
+
+/**
+ * A unit and its matches, as large as the smallest of them and as similar
+ * as the least similar match
+ */
+function createNearMissClone(
+  unit: Unit,
+  members: [Unit, number][]
+): FoundClone {
+  const units = [unit, ...members.map(([match]) => match)];
+  return createFoundClone(
+    units.map(member => [member, member]),
+    'similar',
+    Math.min(...units.map(member => member.tokens.length)),
+    Math.round(Math.min(...members.map(([, similarity]) => similarity)) * 100)
+  );
+}
+
+function isNearMissCandidate(
+  unit: Unit,
+  options: CloneDetectionOptions
+): boolean {
+  return (
+    getDeclarationKind(unit.node) !== null &&
+    unit.tokens.length >= options.minTokens &&
+    getLineCount(unit) >= options.minLines
+  );
+}
+
+/**
+ * Whether a unit declares a function or a class, looking through exports
+ * and `const name = () => ...`
+ */
+function getDeclarationKind(node: t.Node): 'function' | 'class' | null {
+  const declaration =
+    t.isExportNamedDeclaration(node) || t.isExportDefaultDeclaration(node)
+      ? node.declaration
+      : node;
+  const value =
+    t.isVariableDeclaration(declaration) &&
+    declaration.declarations.length === 1
+      ? declaration.declarations[0].init
+      : declaration;
+  if (t.isFunction(value) || t.isClassMethod(value)) {
+    return 'function';
+  }
+  return t.isClass(value) ? 'class' : null;
+}
+
+function countTrigrams(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i + 2 < tokens.length; i++) {
+    const trigram = `${tokens[i]} ${tokens[i + 1]} ${tokens[i + 2]}`;
+    counts.set(trigram, (counts.get(trigram) || 0) + 1);
+  }
+  return counts;
+}
+
+function getDiceSimilarity(
+  a: Map<string, number>,
+  b: Map<string, number>
+): number {
+  let shared = 0;
+  a.forEach((count, trigram) => {
+    shared += Math.min(count, b.get(trigram) || 0);
+  });
+  const total = [...a.values(), ...b.values()].reduce(
+    (sum, count) => sum + count,
+    0
+  );
+  return total > 0 ? (2 * shared) / total : 0;
+}
+
+function createFoundClone(
+  units: [Unit, Unit][],
+  type: CloneType,
+  tokens: number,
+  similarity: number
+): FoundClone {
+  const sorted = [...units].sort(
+    ([a], [b]) => a.file - b.file || a.node.start! - b.node.start!
+  );
+  return {
+    type,
+    units: sorted,
+    spans: sorted.map(([first, last]) => ({
+      file: first.file,
+      start: first.node.start!,
+      end: last.node.end!,
+    })),
+    tokens,
+    similarity,
+  };
+}
+
+/**
+ * Keep the largest clones first, so no code is reported twice. Locations
+ * overlapping clones already kept are dropped, like the statements of a
+ * duplicated function. A clone left with new locations keeps one dropped
+ * location first, as the copy they duplicate.
+ */
+function removeOverlappingClones(clones: FoundClone[]): FoundClone[] {
+  const kept: FoundClone[] = [];
+  const spans: Span[] = [];
+  const overlaps = (span: Span): boolean =>
+    spans.some(
+      other =>
+        other.file === span.file &&
+        other.start < span.end &&
+        span.start < other.end
+    );
+
+  [...clones]
+    .sort((a, b) => b.tokens - a.tokens)
+    .forEach(clone => {
+      const indexes = clone.spans.map((_, index) => index);
+      const fresh = indexes.filter(index => !overlaps(clone.spans[index]));
+      if (fresh.length === 0) {
+        return;
+      }
+      const reference = indexes.find(index => !fresh.includes(index));
+      const remaining = reference === undefined ? fresh : [reference, ...fresh];
+      if (remaining.length > 1) {
+        spans.push(...fresh.map(index => clone.spans[index]));
+        kept.push({
+          ...clone,
+          units: remaining.map(index => clone.units[index]),
+          spans: remaining.map(index => clone.spans[index]),
+        });
+      }
+    });
+  return kept;
+}
+
+function countTokens(units: Unit[]): number {
+  return units.reduce((sum, unit) => sum + unit.tokens.length, 0);
+}
+
+function getLineCount(unit: Unit): number {
+  return unit.node.loc!.end.line - unit.node.loc!.start.line + 1;
+}
+
+function createLocation(
+  first: Unit,
+  last: Unit,
+  paths: string[]
+): CloneLocation {
+  return {
+    file: paths[first.file],
+    startLine: first.node.loc!.start.line,
+    endLine: last.node.loc!.end.line,
+    startColumn: first.node.loc!.start.column,
+    endColumn: last.node.loc!.end.column,
+    context: first.context,
+  };
+}
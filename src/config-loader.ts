@@ -1,3 +1,4 @@
+/* eslint-disable max-lines */
 /**
  * Configuration Loader for M2JS
  * Loads settings from .m2jsrc files and environment variables
@@ -6,6 +7,8 @@
 import { readFileSync, existsSync } from 'fs';
 import path from 'path';
 import { PerformanceOptions } from './performance-optimizer';
+import { FrameworkConvention } from './dead-code-types';
+import { ArchitectureRules } from './architecture-rules-types';
 
 /**
  * M2JS Configuration interface
@@ -20,6 +23,28 @@ export interface M2JSConfig {
     format: 'table' | 'json';
     includeMetrics: boolean;
     includeSuggestions: boolean;
+    // Entry files besides those in package.json, relative to the working
+    // directory
+    entries: string[];
+    // Framework presets, 'auto' enables those package.json depends on
+    frameworks: string[];
+    // Files and exports the project's own tooling uses
+    conventions: FrameworkConvention[];
+  };
+
+  // Dependency hygiene settings
+  dependencies: {
+    // Packages never reported, e.g. plugins only tool configs load
+    ignore: string[];
+  };
+
+  // Architecture rules, globs are relative to the analyzed directory
+  architecture: ArchitectureRules;
+
+  // Quality gate, used unless --fail-on is given
+  qualityGate: {
+    // Conditions that fail the analysis, e.g. 'new-cycles>0'
+    failOn: string[];
   };
 
   // Duplicate code analysis settings
@@ -67,6 +92,24 @@ const DEFAULT_CONFIG: M2JSConfig = {
     format: 'table',
     includeMetrics: true,
     includeSuggestions: true,
+    entries: [],
+    frameworks: ['auto'],
+    conventions: [],
+  },
+  dependencies: {
+    ignore: [],
+  },
+  // UI code must reach the database through a service layer
+  architecture: {
+    layers: [
+      { name: 'ui', files: ['**/components/**', '**/ui/**'], forbid: ['data'] },
+      { name: 'data', files: ['**/database/**', '**/db/**', '**/models/**'] },
+    ],
+    forbidden: [],
+    boundaries: [],
+  },
+  qualityGate: {
+    failOn: [],
   },
   duplicateCode: {
     minLines: 5,
@@ -112,7 +155,8 @@ const DEFAULT_CONFIG: M2JSConfig = {
  * Configuration loader class
  */
 export class ConfigLoader {
-  private static configCache: M2JSConfig | null = null;
+  // Keyed by project path, '' for the current directory alone
+  private static configCache = new Map<string, M2JSConfig>();
 
   /**
    * Load configuration from multiple sources with precedence:
@@ -123,8 +167,10 @@ export class ConfigLoader {
    */
   static loadConfig(projectPath?: string): M2JSConfig {
     // Return cached config if available
-    if (this.configCache) {
-      return this.configCache;
+    const cacheKey = projectPath ? path.resolve(projectPath) : '';
+    const cached = this.configCache.get(cacheKey);
+    if (cached) {
+      return cached;
     }
 
     let config = { ...DEFAULT_CONFIG };
@@ -150,7 +196,7 @@ export class ConfigLoader {
     config = this.applyEnvironmentOverrides(config);
 
     // Cache the final configuration
-    this.configCache = config;
+    this.configCache.set(cacheKey, config);
     return config;
   }
 
@@ -195,6 +241,21 @@ export class ConfigLoader {
     if (override.deadCode) {
       merged.deadCode = { ...merged.deadCode, ...override.deadCode };
     }
+    if (override.dependencies) {
+      merged.dependencies = {
+        ...merged.dependencies,
+        ...override.dependencies,
+      };
+    }
+    if (override.architecture) {
+      merged.architecture = {
+        ...merged.architecture,
+        ...override.architecture,
+      };
+    }
+    if (override.qualityGate) {
+      merged.qualityGate = { ...merged.qualityGate, ...override.qualityGate };
+    }
     if (override.extraction) {
       merged.extraction = { ...merged.extraction, ...override.extraction };
     }
@@ -265,7 +326,7 @@ export class ConfigLoader {
    * Clear cached configuration (useful for testing)
    */
   static clearCache(): void {
-    this.configCache = null;
+    this.configCache.clear();
   }
 
   /**
@@ -283,6 +344,41 @@ export class ConfigLoader {
           format: 'table',
           includeMetrics: true,
           includeSuggestions: true,
+          entries: [],
+          frameworks: ['auto'],
+        },
+
+        // Architecture rules for --check-architecture and --graph-diff
+        architecture: {
+          layers: [
+            { name: 'ui', files: ['src/components/**'], allow: ['services'] },
+            {
+              name: 'services',
+              files: ['src/services/**'],
+              allow: ['data'],
+              bannedPackages: ['react'],
+            },
+            { name: 'data', files: ['src/db/**'], forbid: ['ui', 'services'] },
+          ],
+          forbidden: [
+            {
+              from: ['src/**'],
+              to: ['tests/**'],
+              reason: 'Source code must not import tests',
+            },
+          ],
+          boundaries: [{ modules: 'src/features/*', publicApi: ['index.ts'] }],
+        },
+
+        // Conditions failing --detect-unused, --detect-duplicates and
+        // --graph-diff in CI, --fail-on replaces them
+        qualityGate: {
+          failOn: [
+            'dead-exports>0',
+            'duplication>3',
+            'new-cycles>0',
+            'health-delta<-5',
+          ],
         },
 
         // Code extraction settings
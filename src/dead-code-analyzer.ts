@@ -15,11 +15,17 @@ import {
   DeadCodeReport,
   DeadCodeMetrics,
   UnusedImport,
+  PackageDeadCode,
+  DeadCodeAnalysisOptions,
+  DeadModule,
+  LocalDeadCode,
+  DeadCluster,
 } from './dead-code-types';
 import {
   generateRemovalSuggestions,
   assessExportRemovalRisk,
   assessImportRemovalRisk,
+  assessLocalRemovalRisk,
 } from './suggestion-engine';
 import {
   OptimizedFileProcessor,
@@ -27,6 +33,34 @@ import {
   ProgressIndicator,
   PerformanceOptions,
 } from './performance-optimizer';
+import { extractScriptContent, getMarkupIdentifiers } from './sfc-extractor';
+import { isExternalModule, resolveModulePath } from './dependency-analyzer';
+import { findWorkspace, getPackageForFile } from './workspace-resolver';
+import { Workspace } from './types';
+import {
+  computeReachability,
+  findEntryPoints,
+  getUnreachableFiles,
+  groupImportsByFile,
+  isUnreachable,
+  Reachability,
+  ResolvedImport,
+} from './entry-points';
+import { findUnusedLocals } from './unused-locals';
+import {
+  FrameworkConventions,
+  resolveFrameworkConventions,
+} from './framework-presets';
+import {
+  expandImportPatterns,
+  extractCallImports,
+  markDynamicallyLoaded,
+} from './dynamic-imports';
+
+// Size estimates for removed code
+const AVG_LINES_PER_EXPORT = 15; // Conservative estimate
+const AVG_LINES_PER_IMPORT = 1; // Import lines are usually single line
+const AVG_CHARS_PER_LINE = 50;
 
 // Babel parser configuration for dead code analysis
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -48,7 +82,8 @@ const DEAD_CODE_PARSE_CONFIG: any = {
  */
 export async function analyzeDeadCode(
   files: string[],
-  performanceOptions: Partial<PerformanceOptions> = {}
+  performanceOptions: Partial<PerformanceOptions> = {},
+  analysisOptions: DeadCodeAnalysisOptions = {}
 ): Promise<DeadCodeReport> {
   if (files.length === 0) {
     throw new Error('No files provided for dead code analysis');
@@ -64,35 +99,72 @@ export async function analyzeDeadCode(
     : null;
 
   // Extract exports and imports from all files using optimized processor
-  const { allExports, allImports } = await processor.processFiles(
-    files,
-    (filePath: string, content: string) => {
-      const exports = extractExports(filePath, content);
-      const imports = extractImports(filePath, content);
-      return { exports, imports };
-    },
-    progressIndicator
-      ? (processed, total, currentFile) => {
-          progressIndicator.update(processed, total, currentFile);
-        }
-      : undefined
-  );
+  const { allExports, allImports: extractedImports } =
+    await processor.processFiles(
+      files,
+      (filePath: string, content: string) => {
+        const exports = extractExports(filePath, content);
+        const imports = extractImports(filePath, content);
+        return { exports, imports };
+      },
+      progressIndicator
+        ? (processed, total, currentFile) => {
+            progressIndicator.update(processed, total, currentFile);
+          }
+        : undefined
+    );
+  // Computed specifiers may load any analyzed file they match
+  const allImports = expandImportPatterns(extractedImports, files);
+
+  // Frameworks use route files, stories and decorated classes unimported
+  const frameworks = resolveFrameworkConventions(files, analysisOptions);
+  const frameworkFiles = [
+    ...new Set([
+      ...frameworks.files,
+      ...allExports.filter(exp => frameworks.isUsed(exp)).map(exp => exp.file),
+    ]),
+  ];
+
+  // Start from declared entry points when the packages have any
+  const entryPoints = findEntryPoints(files, analysisOptions.entries);
+  const reachability =
+    entryPoints.length > 0 || frameworkFiles.length > 0
+      ? computeReachability(entryPoints, allImports, frameworkFiles)
+      : null;
 
   // Find dead exports by cross-referencing exports vs imports (optimized)
-  const deadExports = findDeadExportsOptimized(
+  const deadExports = markDynamicallyLoaded(
+    findDeadExportsOptimized(
+      allExports.filter(exp => !frameworks.isUsed(exp)),
+      allImports,
+      projectPath,
+      reachability
+    ),
+    allImports
+  );
+
+  // Exports imported only by dead code die with it, as whole clusters
+  const { transitiveDeadExports, deadClusters } = findTransitiveDeadExports(
+    files,
     allExports,
     allImports,
-    projectPath
+    deadExports,
+    { projectPath, reachability, frameworks }
   );
+  deadExports.push(...markDynamicallyLoaded(transitiveDeadExports, allImports));
 
   // Find unused imports by checking if they're referenced in code
   const unusedImports = findUnusedImports(files);
 
+  // Find unreferenced locals, private members and parameters in each file
+  const localDeadCode = findLocalDeadCode(files);
+
   // Generate removal suggestions with confidence levels
   const suggestions = generateRemovalSuggestions(
     deadExports,
     unusedImports,
-    projectPath
+    projectPath,
+    localDeadCode
   );
 
   // Calculate metrics with performance stats
@@ -104,17 +176,98 @@ export async function analyzeDeadCode(
     allImports,
     deadExports,
     unusedImports,
+    localDeadCode,
     analysisTime,
     performanceStats
   );
 
-  return {
+  const report: DeadCodeReport = {
     deadExports,
     unusedImports,
+    ...localDeadCode,
     suggestions,
     metrics,
     projectPath,
+    deadClusters,
   };
+  metrics.transitiveDeadExports = transitiveDeadExports.length;
+  metrics.deadClusterSavingsKB = deadClusters.reduce(
+    (total, cluster) => total + cluster.estimatedSavingsKB,
+    0
+  );
+
+  if (frameworks.frameworks.length > 0) {
+    report.frameworks = frameworks.frameworks;
+  }
+
+  if (reachability) {
+    report.entryPoints = entryPoints;
+    report.deadModules = findDeadModules(files, allExports, reachability);
+    metrics.deadModules = report.deadModules.length;
+  }
+
+  const workspace = findWorkspace(projectPath);
+  if (workspace) {
+    report.packages = groupByPackage(workspace, files, report);
+  }
+
+  return report;
+}
+
+/**
+ * Report files no entry point reaches as dead modules
+ */
+function findDeadModules(
+  files: string[],
+  allExports: ExportInfo[],
+  reachability: Reachability
+): DeadModule[] {
+  return getUnreachableFiles(files, reachability).map(file => ({
+    file,
+    exports: allExports.filter(exp => exp.file === file).length,
+    reason: 'Not reachable from any entry point',
+  }));
+}
+
+/**
+ * Tag findings with their workspace package and total them per package
+ */
+function groupByPackage(
+  workspace: Workspace,
+  files: string[],
+  report: DeadCodeReport
+): PackageDeadCode[] {
+  const packageNameOf = (file: string): string | undefined =>
+    getPackageForFile(workspace, file)?.name;
+
+  const localFindings = [
+    ...report.unusedLocals,
+    ...report.unusedMembers,
+    ...report.unusedParameters,
+  ];
+  [
+    ...report.deadExports,
+    ...report.unusedImports,
+    ...(report.deadModules || []),
+    ...localFindings,
+  ].forEach(finding => {
+    finding.package = packageNameOf(finding.file);
+  });
+
+  return workspace.packages
+    .map(pkg => ({
+      name: pkg.name,
+      path: pkg.path,
+      files: files.filter(file => packageNameOf(file) === pkg.name).length,
+      deadExports: report.deadExports.filter(dead => dead.package === pkg.name)
+        .length,
+      unusedImports: report.unusedImports.filter(
+        unused => unused.package === pkg.name
+      ).length,
+      unusedLocals: localFindings.filter(local => local.package === pkg.name)
+        .length,
+    }))
+    .filter(pkg => pkg.files > 0);
 }
 
 /**
@@ -124,7 +277,10 @@ function extractExports(filePath: string, content: string): ExportInfo[] {
   const exports: ExportInfo[] = [];
 
   try {
-    const ast = parse(content, DEAD_CODE_PARSE_CONFIG);
+    const ast = parse(
+      extractScriptContent(filePath, content),
+      DEAD_CODE_PARSE_CONFIG
+    );
 
     traverse(ast, {
       ExportNamedDeclaration(nodePath) {
@@ -168,6 +324,7 @@ function processNamedExports(
       file: filePath,
       line,
       isDefault: false,
+      decorators: getDecoratorNames(declaration),
     });
   } else if (t.isVariableDeclaration(declaration)) {
     declaration.declarations.forEach(declarator => {
@@ -247,6 +404,7 @@ function processDefaultExports(
       file: filePath,
       line,
       isDefault: true,
+      decorators: getDecoratorNames(declaration),
     });
   } else if (t.isIdentifier(declaration)) {
     exports.push({
@@ -259,6 +417,24 @@ function processDefaultExports(
   }
 }
 
+/**
+ * Names of the decorators on a class, `@Module({...})` gives Module
+ */
+function getDecoratorNames(declaration: t.ClassDeclaration): string[] {
+  return (declaration.decorators || []).flatMap(decorator => {
+    const expression = t.isCallExpression(decorator.expression)
+      ? decorator.expression.callee
+      : decorator.expression;
+    if (t.isIdentifier(expression)) {
+      return [expression.name];
+    }
+    return t.isMemberExpression(expression) &&
+      t.isIdentifier(expression.property)
+      ? [expression.property.name]
+      : [];
+  });
+}
+
 /**
  * Extract all imports from a file
  */
@@ -266,15 +442,18 @@ function extractImports(filePath: string, content: string): ImportInfo[] {
   const imports: ImportInfo[] = [];
 
   try {
-    const ast = parse(content, DEAD_CODE_PARSE_CONFIG);
+    const ast = parse(
+      extractScriptContent(filePath, content),
+      DEAD_CODE_PARSE_CONFIG
+    );
 
     traverse(ast, {
       ImportDeclaration(nodePath) {
         const source = nodePath.node.source.value;
         const line = nodePath.node.loc?.start.line || 0;
 
-        // Only track relative imports (internal to project)
-        if (source.startsWith('./') || source.startsWith('../')) {
+        // Only track imports of project files (relative or tsconfig aliases)
+        if (!isExternalModule(filePath, source)) {
           nodePath.node.specifiers.forEach(specifier => {
             if (t.isImportDefaultSpecifier(specifier)) {
               imports.push({
@@ -306,6 +485,41 @@ function extractImports(filePath: string, content: string): ImportInfo[] {
               });
             }
           });
+
+          // Side-effect imports still load the module
+          if (nodePath.node.specifiers.length === 0) {
+            imports.push({
+              name: '',
+              from: source,
+              file: filePath,
+              line,
+              type: 'side-effect',
+            });
+          }
+        }
+      },
+
+      // Re-exports use the exports they forward
+      ExportNamedDeclaration(nodePath) {
+        processNamedReExports(nodePath.node, filePath, imports);
+      },
+
+      // import(), require(), jest.mock() and React.lazy() load modules too
+      CallExpression(nodePath) {
+        imports.push(...extractCallImports(nodePath, filePath));
+      },
+
+      ExportAllDeclaration(nodePath) {
+        const source = nodePath.node.source.value;
+        if (!isExternalModule(filePath, source)) {
+          imports.push({
+            name: '*',
+            from: source,
+            file: filePath,
+            line: nodePath.node.loc?.start.line || 0,
+            type: 'namespace',
+            isReExport: true,
+          });
         }
       },
     });
@@ -316,16 +530,62 @@ function extractImports(filePath: string, content: string): ImportInfo[] {
   return imports;
 }
 
+/**
+ * Record `export { a as b } from` and `export * as ns from` as imports of
+ * the module they forward from
+ */
+function processNamedReExports(
+  node: t.ExportNamedDeclaration,
+  filePath: string,
+  imports: ImportInfo[]
+): void {
+  const source = node.source?.value;
+  if (!source || isExternalModule(filePath, source)) {
+    return;
+  }
+
+  const line = node.loc?.start.line || 0;
+  node.specifiers.forEach(specifier => {
+    const exportedAs = t.isIdentifier(specifier.exported)
+      ? specifier.exported.name
+      : specifier.exported.value;
+
+    if (t.isExportNamespaceSpecifier(specifier)) {
+      imports.push({
+        name: '*',
+        from: source,
+        file: filePath,
+        line,
+        type: 'namespace',
+        isReExport: true,
+        exportedAs,
+      });
+    } else if (t.isExportSpecifier(specifier)) {
+      const name = specifier.local.name;
+      imports.push({
+        name,
+        from: source,
+        file: filePath,
+        line,
+        type: name === 'default' ? 'default' : 'named',
+        isReExport: true,
+        exportedAs,
+      });
+    }
+  });
+}
+
 /**
  * Optimized function to find dead exports - uses existing logic with batching
  */
 function findDeadExportsOptimized(
   exports: ExportInfo[],
   imports: ImportInfo[],
-  projectPath: string
+  projectPath: string,
+  reachability: Reachability | null
 ): DeadExport[] {
   // Use the original logic but with performance optimizations
-  return findDeadExports(exports, imports, projectPath);
+  return findDeadExports(exports, imports, projectPath, reachability);
 }
 
 /**
@@ -334,7 +594,8 @@ function findDeadExportsOptimized(
 function findDeadExports(
   exports: ExportInfo[],
   imports: ImportInfo[],
-  projectPath: string
+  projectPath: string,
+  reachability: Reachability | null = null
 ): DeadExport[] {
   const deadExports: DeadExport[] = [];
 
@@ -346,7 +607,9 @@ function findDeadExports(
     const resolvedPath = resolveImportPath(imp.file, imp.from);
     const importNames = importMap.get(resolvedPath) || new Set();
 
-    if (imp.type === 'default') {
+    if (imp.type === 'side-effect') {
+      // Loads the module without using any of its exports
+    } else if (imp.type === 'default') {
       importNames.add('default');
     } else if (imp.type === 'namespace') {
       importNames.add('*'); // Namespace import covers all exports
@@ -362,6 +625,10 @@ function findDeadExports(
     const normalizedPath = path.resolve(exp.file);
     const importedNames = importMap.get(normalizedPath);
 
+    if (isDecidedByEntryPoints(exp, reachability)) {
+      return;
+    }
+
     // Check if this export is imported
     const isImported =
       importedNames &&
@@ -383,7 +650,8 @@ function findDeadExports(
 
       const riskAssessment = assessExportRemovalRisk(
         baseDeadExport,
-        projectPath
+        projectPath,
+        { entryPointsKnown: reachability !== null }
       );
 
       deadExports.push({
@@ -397,6 +665,423 @@ function findDeadExports(
   return deadExports;
 }
 
+/**
+ * Whether entry points already settle an export: public API is used by
+ * definition, and unreachable files are reported as whole dead modules
+ */
+function isDecidedByEntryPoints(
+  exp: ExportInfo,
+  reachability: Reachability | null
+): boolean {
+  return (
+    !!reachability &&
+    (reachability.isPublicExport(exp) || isUnreachable(exp.file, reachability))
+  );
+}
+
+interface AnalysisContext {
+  projectPath: string;
+  reachability: Reachability | null;
+  frameworks: FrameworkConventions;
+}
+
+/**
+ * Find exports that are imported, but only by dead code. Liveness spreads
+ * from the code that uses exports without being imported itself: files
+ * without exports (apps, scripts, tests), files that run code on load, entry
+ * points and dead exports that are not surely dead. Exports it never
+ * reaches are dead together with their importers, which also catches dead
+ * import cycles.
+ */
+function findTransitiveDeadExports(
+  files: string[],
+  allExports: ExportInfo[],
+  allImports: ImportInfo[],
+  deadExports: DeadExport[],
+  context: AnalysisContext
+): { transitiveDeadExports: DeadExport[]; deadClusters: DeadCluster[] } {
+  const { projectPath, reachability, frameworks } = context;
+  const importsByFile = groupImportsByFile(allImports);
+  const liveness = findLiveCode(importsByFile, {
+    files,
+    allExports,
+    deadExports,
+    reachability,
+    frameworks,
+  });
+
+  const directlyDead = new Set(deadExports.map(dead => exportKey(dead)));
+  const transitive = allExports.filter(
+    exp =>
+      !directlyDead.has(exportKey(exp)) &&
+      !liveness.isUsed(exp) &&
+      !isDecidedByEntryPoints(exp, reachability)
+  );
+
+  const deadUsers = createDeadUserFinder(
+    [...importsByFile.values()].flat(),
+    allExports
+  );
+  const transitiveDeadExports = transitive.map(exp =>
+    createTransitiveDeadExport(
+      exp,
+      explainDeadChain(exp, deadUsers, directlyDead).map(user =>
+        formatExportLabel(projectPath, user.file, user.name)
+      ),
+      projectPath,
+      reachability !== null
+    )
+  );
+
+  return {
+    transitiveDeadExports,
+    deadClusters: groupDeadClusters(
+      [...deadExports, ...transitiveDeadExports],
+      transitive,
+      deadUsers,
+      projectPath
+    ),
+  };
+}
+
+/**
+ * Mark the code that runs without being imported as live, and with it
+ * everything it uses
+ */
+function findLiveCode(
+  importsByFile: Map<string, ResolvedImport[]>,
+  analysis: {
+    files: string[];
+    allExports: ExportInfo[];
+    deadExports: DeadExport[];
+    reachability: Reachability | null;
+    frameworks: FrameworkConventions;
+  }
+): LivenessTracker {
+  const liveness = createLivenessTracker(importsByFile);
+  const { files, allExports, deadExports, reachability, frameworks } = analysis;
+
+  const exportingFiles = new Set(allExports.map(exp => path.resolve(exp.file)));
+  importsByFile.forEach((imports, file) => {
+    if (imports.some(imp => imp.isReExport)) {
+      exportingFiles.add(file);
+    }
+  });
+  const deadModules = new Set(
+    (reachability ? getUnreachableFiles(files, reachability) : []).map(file =>
+      path.resolve(file)
+    )
+  );
+
+  files
+    .map(file => path.resolve(file))
+    .filter(file => !exportingFiles.has(file) && !deadModules.has(file))
+    .forEach(liveness.markFile);
+  reachability?.entryPoints.forEach(entry => liveness.markName(entry, '*'));
+  allExports
+    .filter(exp => frameworks.isUsed(exp))
+    .forEach(exp => liveness.markName(path.resolve(exp.file), exp.name));
+  // Dead exports that may still have consumers elsewhere keep their imports
+  deadExports
+    .filter(dead => dead.confidence !== 'high')
+    .forEach(dead => liveness.markName(path.resolve(dead.file), dead.name));
+
+  // Only files still dead that import something can change the outcome
+  [...exportingFiles]
+    .filter(
+      file =>
+        !liveness.liveFiles.has(file) &&
+        importsByFile.has(file) &&
+        runsOnLoad(file)
+    )
+    .forEach(liveness.markFile);
+
+  return liveness;
+}
+
+/**
+ * Dead export entry for an export only dead code imports
+ */
+function createTransitiveDeadExport(
+  exp: ExportInfo,
+  chain: string[],
+  projectPath: string,
+  entryPointsKnown: boolean
+): DeadExport {
+  const baseDeadExport: DeadExport = {
+    file: exp.file,
+    name: exp.name,
+    type: exp.type,
+    line: exp.line,
+    reason: 'Only imported by dead code',
+    confidence: 'medium', // Default, will be updated
+    riskFactors: [], // Default, will be updated
+    chain,
+  };
+  const riskAssessment = assessExportRemovalRisk(baseDeadExport, projectPath, {
+    entryPointsKnown,
+  });
+
+  return {
+    ...baseDeadExport,
+    confidence: riskAssessment.confidence,
+    riskFactors: [
+      ...riskAssessment.riskFactors,
+      'Only dead code uses it - remove it together with that code',
+    ],
+  };
+}
+
+interface LivenessTracker {
+  liveFiles: Set<string>;
+  markFile: (file: string) => void;
+  markName: (file: string, name: string) => void;
+  isUsed: (exp: ExportInfo) => boolean;
+}
+
+/**
+ * Track which files run and which of their exports are used, following
+ * imports out of every live file and re-exports out of every used name.
+ * `*` stands for all exports of a file.
+ */
+function createLivenessTracker(
+  importsByFile: Map<string, ResolvedImport[]>
+): LivenessTracker {
+  const liveFiles = new Set<string>();
+  const usedNames = new Map<string, Set<string>>();
+
+  const markName = (file: string, name: string): void => {
+    const names = usedNames.get(file) || new Set<string>();
+    if (names.has(name) || names.has('*')) {
+      return;
+    }
+    names.add(name);
+    usedNames.set(file, names);
+    markFile(file);
+
+    (importsByFile.get(file) || [])
+      .filter(imp => imp.isReExport)
+      .forEach(imp => {
+        if (name === '*' || imp.exportedAs === name) {
+          markName(imp.target, imp.name);
+        } else if (imp.type === 'namespace' && !imp.exportedAs) {
+          // export * passes every name through
+          markName(imp.target, name);
+        }
+      });
+  };
+  const markFile = (file: string): void => {
+    if (liveFiles.has(file)) {
+      return;
+    }
+    liveFiles.add(file);
+
+    (importsByFile.get(file) || []).forEach(imp => {
+      if (imp.type === 'side-effect') {
+        markFile(imp.target);
+      } else if (!imp.isReExport) {
+        markName(imp.target, imp.name);
+      }
+    });
+  };
+
+  return {
+    liveFiles,
+    markFile,
+    markName,
+    isUsed: (exp: ExportInfo): boolean =>
+      isNameUsed(usedNames.get(path.resolve(exp.file)), exp),
+  };
+}
+
+function isNameUsed(
+  names: Set<string> | undefined,
+  exp: { name: string; isDefault: boolean }
+): boolean {
+  return (
+    !!names &&
+    (names.has('*') ||
+      names.has(exp.name) ||
+      (exp.isDefault && names.has('default')))
+  );
+}
+
+interface DeadUser {
+  file: string;
+  name?: string; // Export of the user, absent for files without exports
+  isDefault: boolean;
+}
+
+/**
+ * Find the code importing an export: the exports of each importing file,
+ * or the re-exported name of a barrel
+ */
+function createDeadUserFinder(
+  imports: ResolvedImport[],
+  allExports: ExportInfo[]
+): (used: DeadUser) => DeadUser[] {
+  const exportsByFile = new Map<string, ExportInfo[]>();
+  allExports.forEach(exp => {
+    const file = path.resolve(exp.file);
+    exportsByFile.set(file, [...(exportsByFile.get(file) || []), exp]);
+  });
+
+  return (used: DeadUser): DeadUser[] =>
+    imports
+      .filter(
+        imp =>
+          imp.target === used.file &&
+          (imp.name === used.name ||
+            imp.name === '*' ||
+            (used.isDefault && imp.name === 'default'))
+      )
+      .flatMap((imp): DeadUser[] => {
+        const file = path.resolve(imp.file);
+        if (imp.isReExport) {
+          const name = imp.exportedAs || used.name;
+          return [{ file, name, isDefault: name === 'default' }];
+        }
+        const userExports = exportsByFile.get(file) || [];
+        return userExports.length > 0
+          ? userExports.map(exp => ({
+              file,
+              name: exp.name,
+              isDefault: exp.isDefault,
+            }))
+          : [{ file, isDefault: false }];
+      });
+}
+
+/**
+ * Follow the importers of a transitively dead export up to dead code that
+ * nothing imports, preferring importers that are reported dead themselves
+ */
+function explainDeadChain(
+  exp: ExportInfo,
+  deadUsers: (used: DeadUser) => DeadUser[],
+  directlyDead: Set<string>
+): DeadUser[] {
+  const chain: DeadUser[] = [];
+  const seen = new Set([exportKey(exp)]);
+  let current: DeadUser = {
+    file: path.resolve(exp.file),
+    name: exp.name,
+    isDefault: exp.isDefault,
+  };
+
+  for (;;) {
+    const users = deadUsers(current);
+    const next =
+      users.find(user => directlyDead.has(exportKey(user))) || users[0];
+    if (!next) {
+      return chain;
+    }
+    chain.push(next);
+    // Stop at dead code nothing imports, a dead module or a cycle
+    if (
+      !next.name ||
+      directlyDead.has(exportKey(next)) ||
+      seen.has(exportKey(next))
+    ) {
+      return chain;
+    }
+    seen.add(exportKey(next));
+    current = next;
+  }
+}
+
+/**
+ * Group dead exports linked by imports into clusters that contain at least
+ * one transitively dead export, so they can be removed in one go
+ */
+function groupDeadClusters(
+  allDead: DeadExport[],
+  transitive: ExportInfo[],
+  deadUsers: (used: DeadUser) => DeadUser[],
+  projectPath: string
+): DeadCluster[] {
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    const root = parent.get(key) || key;
+    if (root === key) {
+      return key;
+    }
+    const found = find(root);
+    parent.set(key, found);
+    return found;
+  };
+
+  const transitiveKeys = new Set(transitive.map(exp => exportKey(exp)));
+  transitive.forEach(exp => {
+    const used = {
+      file: path.resolve(exp.file),
+      name: exp.name,
+      isDefault: exp.isDefault,
+    };
+    deadUsers(used).forEach(user => {
+      parent.set(find(exportKey(user)), find(exportKey(exp)));
+    });
+  });
+
+  const clusters = new Map<string, DeadExport[]>();
+  allDead.forEach(dead => {
+    const root = find(exportKey(dead));
+    clusters.set(root, [...(clusters.get(root) || []), dead]);
+  });
+
+  return [...clusters.values()]
+    .filter(members =>
+      members.some(dead => transitiveKeys.has(exportKey(dead)))
+    )
+    .map(members => ({
+      exports: members.map(dead =>
+        formatExportLabel(projectPath, dead.file, dead.name)
+      ),
+      files: [...new Set(members.map(dead => path.resolve(dead.file)))],
+      estimatedSavingsKB: Math.round(
+        (members.length * AVG_LINES_PER_EXPORT * AVG_CHARS_PER_LINE) / 1024
+      ),
+    }));
+}
+
+/**
+ * `file:name` relative to the project, or the file alone
+ */
+function formatExportLabel(
+  projectPath: string,
+  file: string,
+  name?: string
+): string {
+  const relativePath = path.relative(projectPath, path.resolve(file));
+  return name ? `${relativePath}:${name}` : relativePath;
+}
+
+function exportKey(exp: { file: string; name?: string }): string {
+  return `${path.resolve(exp.file)}\0${exp.name || ''}`;
+}
+
+/**
+ * Whether a file runs code when loaded, beyond declaring and exporting
+ */
+function runsOnLoad(filePath: string): boolean {
+  try {
+    const content = readFileSync(filePath, 'utf-8');
+    const ast = parse(
+      extractScriptContent(filePath, content),
+      DEAD_CODE_PARSE_CONFIG
+    );
+    return ast.program.body.some(
+      statement =>
+        !t.isDeclaration(statement) &&
+        !t.isEmptyStatement(statement) &&
+        !t.isTSExportAssignment(statement)
+    );
+  } catch {
+    // Unreadable files might do anything
+    return true;
+  }
+}
+
 /**
  * Find unused imports by checking if they're referenced in code
  */
@@ -427,9 +1112,14 @@ function analyzeFileForUnusedImports(
   const unusedImports: UnusedImport[] = [];
 
   try {
-    const ast = parse(content, DEAD_CODE_PARSE_CONFIG);
-    const imports: ImportInfo[] = [];
-    const usages: Set<string> = new Set();
+    const ast = parse(
+      extractScriptContent(filePath, content),
+      DEAD_CODE_PARSE_CONFIG
+    );
+    const imports: Array<ImportInfo & { type: UnusedImport['type'] }> = [];
+    // Components and helpers used only by the markup of a single-file
+    // component count as used
+    const usages: Set<string> = getMarkupIdentifiers(filePath, content);
 
     // First pass: collect all imports
     traverse(ast, {
@@ -537,38 +1227,61 @@ function analyzeFileForUnusedImports(
 }
 
 /**
- * Resolve relative import path to absolute path
+ * Find unused locals, private members and parameters file by file
  */
-function resolveImportPath(fromFile: string, importPath: string): string {
-  const fromDir = path.dirname(fromFile);
-  const resolved = path.resolve(fromDir, importPath);
-
-  // Try common TypeScript/JavaScript extensions
-  const extensions = ['.ts', '.tsx', '.js', '.jsx', '.d.ts', ''];
+function findLocalDeadCode(files: string[]): LocalDeadCode {
+  const localDeadCode: LocalDeadCode = {
+    unusedLocals: [],
+    unusedMembers: [],
+    unusedParameters: [],
+  };
 
-  for (const ext of extensions) {
-    const withExt = resolved + ext;
+  for (const file of files) {
     try {
-      readFileSync(withExt);
-      return path.resolve(withExt);
-    } catch {
-      // Continue trying other extensions
-    }
-  }
+      const content = readFileSync(file, 'utf-8');
+      const ast = parse(
+        extractScriptContent(file, content),
+        DEAD_CODE_PARSE_CONFIG
+      );
+      const found = findUnusedLocals(
+        ast,
+        file,
+        getMarkupIdentifiers(file, content)
+      );
 
-  // Try index files
-  for (const ext of extensions.slice(0, -1)) {
-    const indexFile = path.join(resolved, `index${ext}`);
-    try {
-      readFileSync(indexFile);
-      return path.resolve(indexFile);
+      localDeadCode.unusedLocals.push(
+        ...found.unusedLocals.map(local => ({
+          ...local,
+          ...assessLocalRemovalRisk(local),
+        }))
+      );
+      localDeadCode.unusedMembers.push(
+        ...found.unusedMembers.map(member => ({
+          ...member,
+          ...assessLocalRemovalRisk(member),
+        }))
+      );
+      localDeadCode.unusedParameters.push(
+        ...found.unusedParameters.map(parameter => ({
+          ...parameter,
+          ...assessLocalRemovalRisk(parameter),
+        }))
+      );
     } catch {
-      // Continue trying other index files
+      // Skip files that can't be read or parsed
+      continue;
     }
   }
 
+  return localDeadCode;
+}
+
+/**
+ * Resolve relative or tsconfig-aliased import path to absolute path
+ */
+function resolveImportPath(fromFile: string, importPath: string): string {
   // Return resolved path even if file not found (for analysis)
-  return path.resolve(resolved);
+  return path.resolve(resolveModulePath(fromFile, importPath));
 }
 
 /**
@@ -580,6 +1293,7 @@ function calculateMetrics(
   allImports: ImportInfo[],
   deadExports: DeadExport[],
   unusedImports: UnusedImport[],
+  localDeadCode: LocalDeadCode,
   analysisTimeMs: number,
   performanceStats?: {
     cacheHits: number;
@@ -589,15 +1303,12 @@ function calculateMetrics(
   }
 ): DeadCodeMetrics & { performanceStats?: typeof performanceStats } {
   // Estimate savings based on average lines per export/import
-  const avgLinesPerExport = 15; // Conservative estimate
-  const avgLinesPerImport = 1; // Import lines are usually single line
-
   const estimatedSavingsKB = Math.round(
-    ((deadExports.length * avgLinesPerExport +
-      unusedImports.length * avgLinesPerImport) *
-      50) /
+    ((deadExports.length * AVG_LINES_PER_EXPORT +
+      unusedImports.length * AVG_LINES_PER_IMPORT) *
+      AVG_CHARS_PER_LINE) /
       1024
-  ); // ~50 chars per line
+  );
 
   const metrics: DeadCodeMetrics & {
     performanceStats?: typeof performanceStats;
@@ -607,6 +1318,9 @@ function calculateMetrics(
     totalImports: allImports.length,
     deadExports: deadExports.length,
     unusedImports: unusedImports.length,
+    unusedLocals: localDeadCode.unusedLocals.length,
+    unusedMembers: localDeadCode.unusedMembers.length,
+    unusedParameters: localDeadCode.unusedParameters.length,
     analysisTimeMs,
     estimatedSavingsKB,
   };
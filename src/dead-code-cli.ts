@@ -4,9 +4,21 @@
  */
 
 import chalk from 'chalk';
-import { DeadCodeReport, DeadCodeOptions } from './dead-code-types';
+import {
+  DeadCodeFixResult,
+  DeadCodeReport,
+  DeadCodeOptions,
+} from './dead-code-types';
 import { analyzeDeadCode } from './dead-code-analyzer';
-import { ConfigLoader } from './config-loader';
+import { applyDeadCodeFixes } from './dead-code-fixer';
+import { ConfigLoader, M2JSConfig } from './config-loader';
+import { PerformanceOptions } from './performance-optimizer';
+import {
+  EXIT_CODES,
+  applyQualityGate,
+  getDeadCodeGateMetrics,
+  getQualityGateHelpText,
+} from './quality-gate';
 
 /**
  * Execute dead code analysis and output results
@@ -20,34 +32,63 @@ export async function executeDeadCodeAnalysis(
   }
 ): Promise<void> {
   try {
-    console.log(chalk.cyan.bold('Dead Code Analysis Report'));
-    console.log(chalk.dim(`Analyzing ${files.length} files...\n`));
+    const log = options.format === 'json' ? console.error : console.log;
+    log(chalk.cyan.bold('Dead Code Analysis Report'));
+    log(chalk.dim(`Analyzing ${files.length} files...\n`));
 
     // Load configuration from .m2jsrc and environment variables
     const config = ConfigLoader.loadConfig();
-    const performanceOptions = ConfigLoader.toPerformanceOptions(config);
+    const performanceOptions = getPerformanceOptions(config, files, options);
 
-    // Override showProgress based on file count if not explicitly set
-    if (files.length <= 10 && !process.env.M2JS_SHOW_PROGRESS) {
-      performanceOptions.showProgress = false;
-    }
-
-    const report = await analyzeDeadCode(files, performanceOptions);
+    const report = await analyzeDeadCode(files, performanceOptions, {
+      entries: config.deadCode.entries,
+      frameworks: config.deadCode.frameworks,
+      conventions: config.deadCode.conventions,
+    });
 
-    if (options.format === 'json') {
+    if (options.fix) {
+      const result = applyDeadCodeFixes(report, { dryRun: options.dryRun });
+      if (options.format === 'json') {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        outputFixResult(result);
+      }
+    } else if (options.format === 'json') {
       outputJsonFormat(report);
     } else {
       outputTableFormat(report, options);
     }
 
-    // Exit with code 0 (informational, not error)
-    process.exit(0);
+    // Exit code stays 0 unless a --fail-on condition is met, fixes pass
+    const failOn = options.fix ? [] : options.failOn;
+    const metrics = getDeadCodeGateMetrics(report);
+    applyQualityGate(failOn, metrics, EXIT_CODES.deadCode, options.format);
   } catch (error) {
     console.error(chalk.red(`Error: ${(error as Error).message}`));
     process.exit(1);
   }
 }
 
+/**
+ * Performance options of the config. The progress bar is off for a few
+ * files unless explicitly set, and always with JSON output as it writes to
+ * stdout.
+ */
+function getPerformanceOptions(
+  config: M2JSConfig,
+  files: string[],
+  options: DeadCodeOptions
+): PerformanceOptions {
+  const performanceOptions = ConfigLoader.toPerformanceOptions(config);
+  if (
+    options.format === 'json' ||
+    (files.length <= 10 && !process.env.M2JS_SHOW_PROGRESS)
+  ) {
+    performanceOptions.showProgress = false;
+  }
+  return performanceOptions;
+}
+
 /**
  * Output report in table format (default)
  */
@@ -63,17 +104,45 @@ function outputTableFormat(
 
   if (options.includeMetrics) {
     console.log(chalk.dim(`Files analyzed: ${metrics.totalFiles}`));
+    if (report.entryPoints) {
+      console.log(chalk.dim(`Entry points: ${report.entryPoints.length}`));
+    }
+    if (report.frameworks) {
+      console.log(chalk.dim(`Frameworks: ${report.frameworks.join(', ')}`));
+    }
     console.log(chalk.dim(`Analysis time: ${metrics.analysisTimeMs}ms\n`));
   }
 
+  // Whole files that no entry point reaches
+  if (report.deadModules && report.deadModules.length > 0) {
+    console.log(
+      chalk.red.bold(`Dead Modules (${report.deadModules.length} found):`)
+    );
+    report.deadModules.forEach(deadModule => {
+      console.log(
+        chalk.gray('• ') +
+          chalk.yellow(deadModule.file) +
+          chalk.dim(` - ${deadModule.reason} (${deadModule.exports} exports)`)
+      );
+    });
+    console.log();
+  }
+
+  const localFindings =
+    report.unusedLocals.length +
+    report.unusedMembers.length +
+    report.unusedParameters.length;
+
   // Dead exports section
-  if (deadExports.length === 0 && unusedImports.length === 0) {
+  if (
+    deadExports.length === 0 &&
+    unusedImports.length === 0 &&
+    localFindings === 0
+  ) {
     console.log(chalk.green.bold('Great! No dead code found!'));
     console.log(chalk.green('All exports and imports are being used.\n'));
   } else {
-    console.log(
-      chalk.red.bold(`Dead Exports (${deadExports.length} found):`)
-    );
+    console.log(chalk.red.bold(`Dead Exports (${deadExports.length} found):`));
     console.log(
       chalk.gray('┌─────────────────────────────────────────────────┐')
     );
@@ -97,6 +166,14 @@ function outputTableFormat(
       );
       console.log(chalk.gray('│    ') + reason);
 
+      // Dead code that still imports it, nearest first
+      if (deadExport.chain) {
+        console.log(
+          chalk.gray('│    ') +
+            chalk.dim(`Used only by: ${deadExport.chain.join(' <- ')}`)
+        );
+      }
+
       // Show risk factors if any
       if (deadExport.riskFactors.length > 0) {
         console.log(chalk.gray('│    ') + chalk.red('Risk factors:'));
@@ -161,10 +238,15 @@ function outputTableFormat(
     }
   }
 
+  // Unused locals, private members and parameters
+  if (localFindings > 0) {
+    printLocalDeadCode(report);
+  }
+
   // Impact summary
   if (
     options.includeMetrics &&
-    (deadExports.length > 0 || unusedImports.length > 0)
+    (deadExports.length > 0 || unusedImports.length > 0 || localFindings > 0)
   ) {
     console.log(chalk.blue.bold('Impact Summary:'));
 
@@ -189,10 +271,26 @@ function outputTableFormat(
       console.log(chalk.blue(`• Imports: ${unusedImports.length} unused`));
     }
 
+    if (localFindings > 0) {
+      console.log(
+        chalk.blue(
+          `• Locals: ${report.unusedLocals.length} unused, ${report.unusedMembers.length} private members, ${report.unusedParameters.length} parameters`
+        )
+      );
+    }
+
     console.log(
       chalk.blue(`• Estimated size: ~${metrics.estimatedSavingsKB}KB`)
     );
 
+    if (report.deadClusters.length > 0) {
+      console.log(
+        chalk.blue(
+          `• Dead clusters: ${report.deadClusters.length} removable together (~${metrics.deadClusterSavingsKB}KB)`
+        )
+      );
+    }
+
     // Show performance metrics if available
     if ((metrics as any).performanceStats) {
       const perfStats = (metrics as any).performanceStats;
@@ -206,6 +304,19 @@ function outputTableFormat(
     console.log();
   }
 
+  // Per-package totals inside a workspace
+  if (report.packages && report.packages.length > 0) {
+    console.log(chalk.blue.bold('By Package:'));
+    report.packages.forEach(pkg => {
+      console.log(
+        chalk.blue(
+          `• ${pkg.name}: ${pkg.deadExports} dead exports, ${pkg.unusedImports} unused imports, ${pkg.unusedLocals} unused locals (${pkg.files} files)`
+        )
+      );
+    });
+    console.log();
+  }
+
   // Removal suggestions section
   if (
     options.includeSuggestions !== false &&
@@ -280,7 +391,9 @@ function outputTableFormat(
         if (suggestion.warnings && suggestion.warnings.length > 0) {
           suggestion.warnings.forEach(warning => {
             console.log(
-              chalk.gray('│   ') + chalk.yellow('Warning: ') + chalk.yellow(warning)
+              chalk.gray('│   ') +
+                chalk.yellow('Warning: ') +
+                chalk.yellow(warning)
             );
           });
         }
@@ -321,7 +434,7 @@ function outputTableFormat(
   }
 
   // Next steps guidance
-  if (deadExports.length > 0 || unusedImports.length > 0) {
+  if (deadExports.length > 0 || unusedImports.length > 0 || localFindings > 0) {
     console.log(chalk.blue.bold('Next Steps:'));
 
     const safeSuggestions = suggestions?.filter(s => s.safety === 'safe') || [];
@@ -351,6 +464,135 @@ function outputTableFormat(
   }
 }
 
+/**
+ * Print unused locals, private members and parameters, one line each
+ */
+function printLocalDeadCode(report: DeadCodeReport): void {
+  const findings = [
+    ...report.unusedLocals.map(local => ({
+      ...local,
+      label: `${local.type} ${local.name}`,
+    })),
+    ...report.unusedMembers.map(member => ({
+      ...member,
+      label: `private ${member.type} ${member.className}.${member.name}`,
+    })),
+    ...report.unusedParameters.map(parameter => ({
+      ...parameter,
+      label: `parameter ${parameter.name} of ${parameter.functionName}`,
+    })),
+  ];
+
+  console.log(chalk.yellow.bold(`Unused Locals (${findings.length} found):`));
+  console.log(
+    chalk.gray('┌─────────────────────────────────────────────────┐')
+  );
+
+  findings.forEach((finding, index) => {
+    const confidenceColor = getConfidenceColor(finding.confidence);
+    const confidence = confidenceColor(`[${finding.confidence.toUpperCase()}]`);
+
+    console.log(
+      chalk.gray('│ ') +
+        chalk.yellow(`${finding.file}:${finding.line}`) +
+        ' ' +
+        confidence
+    );
+    console.log(
+      chalk.gray('│ ') + chalk.gray('└─ ') + chalk.cyan(finding.label)
+    );
+    finding.riskFactors.forEach(risk => {
+      console.log(chalk.gray('│      • ') + chalk.red(risk));
+    });
+
+    if (index < findings.length - 1) {
+      console.log(chalk.gray('│'));
+    }
+  });
+
+  console.log(
+    chalk.gray('└─────────────────────────────────────────────────┘\n')
+  );
+}
+
+/**
+ * Output the applied fixes, or the diff of a dry run, and the findings that
+ * were left for review
+ */
+function outputFixResult(result: DeadCodeFixResult): void {
+  const applied = result.files.reduce(
+    (count, file) => count + file.applied.length,
+    0
+  );
+
+  if (result.dryRun && result.diff) {
+    console.log(chalk.cyan.bold('Dead Code Fixes (dry run):\n'));
+    printColoredDiff(result.diff);
+  }
+
+  const verb = result.dryRun ? 'Would remove' : 'Removed';
+  const fileCount = result.files.length;
+  console.log(
+    chalk.green.bold(
+      `${verb} ${applied} safe item${applied === 1 ? '' : 's'} in ${fileCount} file${fileCount === 1 ? '' : 's'}`
+    )
+  );
+  result.files.forEach(file => {
+    console.log(
+      chalk.gray('• ') +
+        chalk.yellow(file.file) +
+        chalk.dim(` - ${file.applied.join(', ')}`)
+    );
+  });
+
+  if (result.skipped.length > 0) {
+    console.log(
+      chalk.yellow.bold(
+        `\nSkipped ${result.skipped.length} items (${countBySafety(result.skipped)}) - review them by hand:`
+      )
+    );
+    result.skipped.forEach(item => {
+      console.log(
+        chalk.gray('• ') +
+          chalk.yellow(`${item.file}:${item.line}`) +
+          ' ' +
+          item.action +
+          chalk.dim(` [${item.safety}] ${item.reason}`)
+      );
+    });
+  }
+  console.log();
+}
+
+/**
+ * Skipped items per safety level, with the labels printed next to each item
+ */
+function countBySafety(skipped: DeadCodeFixResult['skipped']): string {
+  const counts = new Map<string, number>();
+  skipped.forEach(item => {
+    counts.set(item.safety, (counts.get(item.safety) || 0) + 1);
+  });
+  return Array.from(counts, ([safety, count]) => `${count} ${safety}`).join(
+    ', '
+  );
+}
+
+function printColoredDiff(diff: string): void {
+  diff.split('\n').forEach(line => {
+    if (line.startsWith('+++') || line.startsWith('---')) {
+      console.log(chalk.bold(line));
+    } else if (line.startsWith('+')) {
+      console.log(chalk.green(line));
+    } else if (line.startsWith('-')) {
+      console.log(chalk.red(line));
+    } else if (line.startsWith('@@')) {
+      console.log(chalk.cyan(line));
+    } else {
+      console.log(line);
+    }
+  });
+}
+
 /**
  * Output report in JSON format
  */
@@ -403,9 +645,14 @@ function getPriorityIcon(priority: 'high' | 'medium' | 'low'): string {
 export function getDeadCodeHelpText(): string {
   return `
 Dead Code Analysis:
-  --detect-unused              Detect unused exports and imports with confidence levels
+  --detect-unused              Detect unused exports, imports, locals, private
+                               members and parameters with confidence levels
   --format <type>             Output format: table, json (default: table)
-
+  --fix                        Remove high confidence unused imports and dead
+                               exports that have no risk factors
+  --dry-run                    Print the --fix changes as a unified diff
+                               without writing any file
+${getQualityGateHelpText('m2js . --detect-unused --fail-on "dead-exports>0"')}
 Performance Options:
   Environment Variables:
     M2JS_CACHE_ENABLED=true    Enable/disable parsing cache (default: true)
@@ -414,6 +661,18 @@ Performance Options:
     M2JS_SHOW_PROGRESS=true    Show progress bar for large projects (default: true)
     M2JS_MAX_FILE_SIZE=10      Max file size in MB (default: 10)
 
+Entry Points:
+  Analysis starts from the files package.json declares in main, module,
+  exports and bin, plus deadCode.entries in .m2jsrc. Their exports are
+  public API and are never reported; files they cannot reach are reported
+  as dead modules.
+
+Framework Conventions:
+  Presets for nextjs, remix, nestjs, storybook and jest know the files and
+  exports their framework uses without imports. They are enabled from
+  package.json dependencies; set deadCode.frameworks in .m2jsrc to pick
+  them, and deadCode.conventions to add { files, exports, decorators }.
+
 Configuration File (.m2jsrc):
   Create a .m2jsrc file in your project root for persistent settings.
   Run 'npx m2js --init-config' to generate an example configuration.
@@ -428,6 +687,10 @@ Examples:
   # Analyze entire project
   m2js . --detect-unused
   
+  # Preview the safe removals, then apply them
+  m2js . --detect-unused --dry-run
+  m2js . --detect-unused --fix
+  
   # Analyze with custom performance settings
   M2JS_CHUNK_SIZE=100 M2JS_SHOW_PROGRESS=true m2js src --detect-unused
   
@@ -440,5 +703,7 @@ Features:
   !! High-risk items with detailed warnings
   Performance metrics and caching for large codebases
   Smart detection of public APIs, frameworks, and side-effects
+  Exports only dead code imports, with their chains and removable clusters
+  Lazy routes, require(), import() and jest.mock() count as module usage
 `;
 }
@@ -0,0 +1,644 @@
+/* eslint-disable max-lines */
+/**
+ * Automatic fixes for dead code
+ * Removes safe unused imports and dead exports through source edits at AST
+ * positions, so the rest of the file keeps its formatting and comments
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { parse } from '@babel/parser';
+import traverse, { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import {
+  DeadCodeFixResult,
+  DeadCodeReport,
+  DeadExport,
+  FileFix,
+  SkippedFix,
+  UnusedImport,
+} from './dead-code-types';
+import { getRemovalSafety } from './suggestion-engine';
+import { collectTypeReferences } from './unused-locals';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const FIX_PARSE_CONFIG: any = {
+  sourceType: 'module',
+  plugins: ['typescript', 'jsx', 'decorators-legacy'],
+};
+
+// Component files keep their script inside markup, edit them by hand
+const EDITABLE_FILE = /\.[cm]?[jt]sx?$/;
+
+const DIFF_CONTEXT_LINES = 3;
+
+// Range of source text to remove
+interface Deletion {
+  start: number;
+  end: number;
+}
+
+type Finding =
+  | { kind: 'import'; item: UnusedImport }
+  | { kind: 'export'; item: DeadExport };
+
+type ListStatement = t.ImportDeclaration | t.ExportNamedDeclaration;
+
+interface RemovalPlan {
+  edits: Deletion[];
+  findings: Finding[];
+}
+
+interface ParsedSource {
+  source: string;
+  program: NodePath<t.Program>;
+  typeReferences: Set<string>;
+}
+
+/**
+ * Remove the unused imports and dead exports that are safe to remove:
+ * high confidence without risk factors. Everything else is skipped with the
+ * reason it needs review. In dry run mode no file is written.
+ */
+export function applyDeadCodeFixes(
+  report: DeadCodeReport,
+  options: { dryRun?: boolean } = {}
+): DeadCodeFixResult {
+  const dryRun = options.dryRun === true;
+  const skipped: SkippedFix[] = [];
+  const findingsByFile = new Map<string, Finding[]>();
+
+  const findings: Finding[] = [
+    ...report.unusedImports.map(item => ({ kind: 'import' as const, item })),
+    ...report.deadExports.map(item => ({ kind: 'export' as const, item })),
+  ];
+  findings.forEach(finding => {
+    const safety = getRemovalSafety(finding.item);
+    if (safety !== 'safe') {
+      skipped.push(
+        createSkippedFix(finding, safety, describeRisk(finding.item))
+      );
+    } else if (!EDITABLE_FILE.test(finding.item.file)) {
+      skipped.push(
+        createSkippedFix(finding, safety, 'Component files are not edited')
+      );
+    } else {
+      const file = finding.item.file;
+      findingsByFile.set(file, [...(findingsByFile.get(file) || []), finding]);
+    }
+  });
+
+  const files: FileFix[] = [];
+  const diffs: string[] = [];
+  [...findingsByFile.keys()].sort().forEach(file => {
+    const fileFix = fixFile(file, findingsByFile.get(file)!, skipped);
+    if (!fileFix) {
+      return;
+    }
+    if (!dryRun) {
+      writeFileSync(file, fileFix.fixed, 'utf8');
+    }
+    files.push({ file, applied: fileFix.applied });
+    diffs.push(
+      createUnifiedDiff(
+        path.relative(report.projectPath, file),
+        fileFix.original,
+        fileFix.edits
+      )
+    );
+  });
+
+  return { files, skipped, diff: diffs.join(''), dryRun };
+}
+
+/**
+ * Plan and apply the edits of one file. Findings whose code cannot be
+ * located or edited safely are added to skipped.
+ */
+function fixFile(
+  file: string,
+  findings: Finding[],
+  skipped: SkippedFix[]
+): {
+  original: string;
+  fixed: string;
+  edits: Deletion[];
+  applied: string[];
+} | null {
+  let parsed: ParsedSource;
+  try {
+    parsed = parseSource(readFileSync(file, 'utf8'));
+  } catch {
+    findings.forEach(finding =>
+      skipped.push(
+        createSkippedFix(finding, 'safe', 'File could not be parsed')
+      )
+    );
+    return null;
+  }
+
+  const plans = planRemovals(parsed, findings, skipped);
+  if (plans.length === 0) {
+    return null;
+  }
+
+  // Removed statements can share the blank line between them
+  const edits = mergeDeletions(plans.flatMap(plan => plan.edits));
+  return {
+    original: parsed.source,
+    fixed: applyDeletions(parsed.source, edits),
+    edits,
+    applied: plans.flatMap(plan => plan.findings.map(describeFinding)),
+  };
+}
+
+function parseSource(source: string): ParsedSource {
+  const ast = parse(source, FIX_PARSE_CONFIG);
+  let program: NodePath<t.Program> | null = null;
+  traverse(ast, {
+    Program(programPath) {
+      program = programPath;
+      programPath.stop();
+    },
+  });
+  return {
+    source,
+    program: program!,
+    typeReferences: collectTypeReferences(program!),
+  };
+}
+
+/**
+ * Plan the removals of a file. Findings in the same import or export list
+ * are removed together, so the statement goes away once none of its
+ * specifiers is left.
+ */
+function planRemovals(
+  parsed: ParsedSource,
+  findings: Finding[],
+  skipped: SkippedFix[]
+): RemovalPlan[] {
+  const plans: RemovalPlan[] = [];
+  const lists = new Map<
+    ListStatement,
+    { specifiers: Set<t.Node>; findings: Finding[] }
+  >();
+
+  findings.forEach(finding => {
+    const found = locateFinding(parsed, finding);
+    if (!found) {
+      skipped.push(
+        createSkippedFix(finding, 'safe', 'Code not found in the file')
+      );
+    } else if (found.specifier) {
+      const statement = found.statement as ListStatement;
+      const list = lists.get(statement) || {
+        specifiers: new Set(),
+        findings: [],
+      };
+      list.specifiers.add(found.specifier);
+      list.findings.push(finding);
+      lists.set(statement, list);
+    } else {
+      const plan = planDeclarationRemoval(parsed, found.statement);
+      if (typeof plan === 'string') {
+        skipped.push(createSkippedFix(finding, 'safe', plan));
+      } else {
+        plans.push({ edits: plan, findings: [finding] });
+      }
+    }
+  });
+
+  lists.forEach((list, statement) => {
+    const specifiers: t.Node[] = statement.specifiers;
+    plans.push({
+      edits:
+        list.specifiers.size === specifiers.length
+          ? [removeStatement(parsed.source, statement)]
+          : removeSpecifiers(parsed.source, specifiers, list.specifiers),
+      findings: list.findings,
+    });
+  });
+  return plans;
+}
+
+/**
+ * Find the statement of a finding at the line the analysis reported, and
+ * its specifier when it is part of an import or export list
+ */
+function locateFinding(
+  parsed: ParsedSource,
+  finding: Finding
+): { statement: t.Statement; specifier?: t.Node } | null {
+  const atLine = parsed.program.node.body.filter(
+    statement => statement.loc?.start.line === finding.item.line
+  );
+
+  if (finding.kind === 'import') {
+    const { item } = finding;
+    for (const statement of atLine) {
+      const specifier =
+        t.isImportDeclaration(statement) && statement.source.value === item.from
+          ? statement.specifiers.find(spec => spec.local.name === item.name)
+          : undefined;
+      if (specifier) {
+        return { statement, specifier };
+      }
+    }
+    return null;
+  }
+
+  const statement = atLine.find(node =>
+    getExportedNames(node).has(finding.item.name)
+  );
+  if (!statement) {
+    return null;
+  }
+  if (t.isExportNamedDeclaration(statement) && !statement.declaration) {
+    const specifier = statement.specifiers.find(
+      spec => getSpecifierName(spec.exported) === finding.item.name
+    );
+    return specifier ? { statement, specifier } : null;
+  }
+  return { statement };
+}
+
+/**
+ * Remove an exported declaration. One the file still uses keeps existing
+ * and only loses its export keyword. Returns why it cannot be removed
+ * otherwise.
+ */
+function planDeclarationRemoval(
+  parsed: ParsedSource,
+  statement: t.Statement
+): Deletion[] | string {
+  const declaration = (
+    statement as t.ExportNamedDeclaration | t.ExportDefaultDeclaration
+  ).declaration!;
+  if (
+    t.isVariableDeclaration(declaration) &&
+    declaration.declarations.length > 1
+  ) {
+    return 'Declares several variables';
+  }
+
+  const localName = getDeclaredName(declaration);
+  if (localName && isUsedLocally(parsed, localName)) {
+    return [{ start: statement.start!, end: declaration.start! }];
+  }
+  return [removeStatement(parsed.source, statement)];
+}
+
+function getExportedNames(node: t.Node): Set<string> {
+  if (t.isExportDefaultDeclaration(node)) {
+    return new Set(['default', getDeclaredName(node.declaration) || '']);
+  }
+  if (!t.isExportNamedDeclaration(node)) {
+    return new Set();
+  }
+  if (!node.declaration) {
+    return new Set(
+      node.specifiers.map(spec => getSpecifierName(spec.exported))
+    );
+  }
+  if (t.isVariableDeclaration(node.declaration)) {
+    return new Set(
+      node.declaration.declarations.flatMap(declarator =>
+        t.isIdentifier(declarator.id) ? [declarator.id.name] : []
+      )
+    );
+  }
+  return new Set([getDeclaredName(node.declaration) || '']);
+}
+
+function getDeclaredName(declaration: t.Node): string | null {
+  if (t.isVariableDeclaration(declaration)) {
+    const id = declaration.declarations[0].id;
+    return t.isIdentifier(id) ? id.name : null;
+  }
+  if (t.isIdentifier(declaration)) {
+    return declaration.name;
+  }
+  const id = (declaration as { id?: t.Node | null }).id;
+  return id && t.isIdentifier(id) ? id.name : null;
+}
+
+function getSpecifierName(exported: t.Identifier | t.StringLiteral): string {
+  return t.isIdentifier(exported) ? exported.name : exported.value;
+}
+
+/**
+ * Whether code outside the declaration itself refers to the name, in values
+ * or in type positions
+ */
+function isUsedLocally(parsed: ParsedSource, name: string): boolean {
+  if (parsed.typeReferences.has(name)) {
+    return true;
+  }
+  const binding = parsed.program.scope.getBinding(name);
+  return (
+    !!binding &&
+    binding.referencePaths.some(
+      // The export statement around the declaration refers to it too
+      ref => !ref.isDescendant(binding.path) && !binding.path.isDescendant(ref)
+    )
+  );
+}
+
+/**
+ * Edits that remove some specifiers of an import or export list. Each
+ * removed specifier takes the separator after it, or the one before it when
+ * it is the last one kept in the list.
+ */
+function removeSpecifiers(
+  source: string,
+  specifiers: t.Node[],
+  removed: Set<t.Node>
+): Deletion[] {
+  const isNamed = (spec: t.Node): boolean =>
+    t.isImportSpecifier(spec) || t.isExportSpecifier(spec);
+  const named = specifiers.filter(isNamed);
+  const unnamed = specifiers.filter(spec => !isNamed(spec));
+
+  // `a, { b }` loses the braces together with its last named specifier
+  if (
+    named.length > 0 &&
+    unnamed.some(spec => !removed.has(spec)) &&
+    named.every(spec => removed.has(spec))
+  ) {
+    const lastKept = unnamed.filter(spec => !removed.has(spec)).pop()!;
+    const braceEnd = source.indexOf('}', named[named.length - 1].end!) + 1;
+    return [
+      { start: lastKept.end!, end: braceEnd },
+      ...removeListItems(
+        unnamed.map(spec => ({ start: spec.start!, end: spec.end! })),
+        unnamed.map(spec => removed.has(spec))
+      ),
+    ];
+  }
+
+  // A default specifier before the braces ends where the braces start
+  const spans = specifiers.map((spec, index) => ({
+    start:
+      isNamed(spec) && index > 0 && !isNamed(specifiers[index - 1])
+        ? source.lastIndexOf('{', spec.start!)
+        : spec.start!,
+    end: spec.end!,
+  }));
+  return removeListItems(
+    spans,
+    specifiers.map(spec => removed.has(spec))
+  );
+}
+
+function removeListItems(spans: Deletion[], removed: boolean[]): Deletion[] {
+  return spans.flatMap((span, index) => {
+    if (!removed[index]) {
+      return [];
+    }
+    const nextKept = removed.indexOf(false, index + 1);
+    if (nextKept !== -1) {
+      return [{ start: span.start, end: spans[index + 1].start }];
+    }
+    const start = index > 0 ? spans[index - 1].end : span.start;
+    return [{ start, end: span.end }];
+  });
+}
+
+/**
+ * Remove a whole statement with its doc comment. When nothing else shares
+ * its lines they go too, and so does a blank line it would leave doubled.
+ */
+function removeStatement(source: string, statement: t.Node): Deletion {
+  const docComment = (statement.leadingComments || [])
+    .filter(
+      comment =>
+        comment.type === 'CommentBlock' &&
+        comment.value.startsWith('*') &&
+        comment.loc!.end.line >= statement.loc!.start.line - 1
+    )
+    .shift();
+  let start = docComment ? docComment.start! : statement.start!;
+  let end = statement.end!;
+
+  // A trailing comment on the same line belongs to the statement
+  const rest = source.slice(end).match(/^[ \t]*(\/\/[^\n]*)?/)![0];
+  const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+  const ownsLines =
+    source.slice(lineStart, start).trim() === '' &&
+    /^\r?\n|^$/.test(source.slice(end + rest.length));
+  if (!ownsLines) {
+    return { start, end };
+  }
+
+  start = lineStart;
+  end = source.indexOf('\n', end + rest.length);
+  end = end === -1 ? source.length : end + 1;
+
+  const blankBefore = source.slice(0, start).match(/\n([ \t]*\r?\n)$/);
+  const blankAfter = source.slice(end).match(/^[ \t]*\r?\n/);
+  if ((start === 0 || blankBefore) && blankAfter) {
+    end += blankAfter[0].length;
+  } else if (blankBefore && end === source.length) {
+    // Do not leave a blank line at the end of the file
+    start -= blankBefore[1].length;
+  }
+  return { start, end };
+}
+
+function mergeDeletions(edits: Deletion[]): Deletion[] {
+  const merged: Deletion[] = [];
+  [...edits]
+    .sort((a, b) => a.start - b.start)
+    .forEach(edit => {
+      const last = merged[merged.length - 1];
+      if (last && edit.start < last.end) {
+        last.end = Math.max(last.end, edit.end);
+      } else {
+        merged.push({ ...edit });
+      }
+    });
+  return merged;
+}
+
+function applyDeletions(source: string, edits: Deletion[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (text, edit) => text.slice(0, edit.start) + text.slice(edit.end),
+      source
+    );
+}
+
+interface DiffBlock {
+  first: number; // First and last original line the edits touch
+  last: number;
+  edits: Deletion[];
+  added: string[]; // Lines that replace them
+}
+
+/**
+ * Unified diff of the edits to a file, with the usual three lines of
+ * context around each change
+ */
+export function createUnifiedDiff(
+  fileName: string,
+  original: string,
+  edits: Deletion[]
+): string {
+  if (edits.length === 0) {
+    return '';
+  }
+
+  const { lines, blocks } = splitIntoBlocks(original, edits);
+  const hunks: string[] = [];
+  let delta = 0;
+  for (let i = 0; i < blocks.length; ) {
+    // Changes whose context would touch share a hunk
+    let j = i;
+    while (
+      j + 1 < blocks.length &&
+      blocks[j + 1].first - blocks[j].last - 1 <= DIFF_CONTEXT_LINES * 2
+    ) {
+      j++;
+    }
+    const hunk = formatHunk(lines, blocks.slice(i, j + 1), delta);
+    hunks.push(hunk.text);
+    delta = hunk.delta;
+    i = j + 1;
+  }
+
+  return `--- a/${fileName}\n+++ b/${fileName}\n${hunks.join('')}`;
+}
+
+function splitIntoBlocks(
+  original: string,
+  edits: Deletion[]
+): { lines: string[]; blocks: DiffBlock[] } {
+  const lineStarts = [0];
+  for (let i = 0; i < original.length; i++) {
+    if (original[i] === '\n' && i + 1 < original.length) {
+      lineStarts.push(i + 1);
+    }
+  }
+  const lines = lineStarts.map((start, index) =>
+    original
+      .slice(start, lineStarts[index + 1] ?? original.length)
+      .replace(/\r?\n$/, '')
+  );
+  const lineOf = (offset: number): number => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) {
+      line++;
+    }
+    return line;
+  };
+
+  const blocks = groupEditsByLines(edits, lineOf).map(block => {
+    const start = lineStarts[block.first];
+    const end = lineStarts[block.last + 1] ?? original.length;
+    const text = applyDeletions(
+      original.slice(start, end),
+      block.edits.map(edit => ({
+        ...edit,
+        start: edit.start - start,
+        end: edit.end - start,
+      }))
+    );
+    const added = text === '' ? [] : text.replace(/\r?\n$/, '').split(/\r?\n/);
+    return { ...block, added };
+  });
+  return { lines, blocks };
+}
+
+/**
+ * Format the blocks of one hunk. Delta is how many lines the earlier hunks
+ * added, and the result carries it on.
+ */
+function formatHunk(
+  lines: string[],
+  blocks: DiffBlock[],
+  delta: number
+): { text: string; delta: number } {
+  const from = Math.max(0, blocks[0].first - DIFF_CONTEXT_LINES);
+  const to = Math.min(
+    lines.length - 1,
+    blocks[blocks.length - 1].last + DIFF_CONTEXT_LINES
+  );
+  const body: string[] = [];
+  let line = from;
+  let newCount = 0;
+  let newDelta = delta;
+  blocks.forEach(block => {
+    for (; line < block.first; line++, newCount++) {
+      body.push(` ${lines[line]}`);
+    }
+    for (; line <= block.last; line++) {
+      body.push(`-${lines[line]}`);
+    }
+    block.added.forEach(added => body.push(`+${added}`));
+    newCount += block.added.length;
+    newDelta += block.added.length - (block.last - block.first + 1);
+  });
+  for (; line <= to; line++, newCount++) {
+    body.push(` ${lines[line]}`);
+  }
+
+  // An empty range starts at the line before it
+  const newStart = from + delta + (newCount === 0 ? 0 : 1);
+  return {
+    text: `@@ -${from + 1},${to - from + 1} +${newStart},${newCount} @@\n${body.join('\n')}\n`,
+    delta: newDelta,
+  };
+}
+
+/**
+ * Merge edits that touch the same or adjacent lines into blocks of whole
+ * lines
+ */
+function groupEditsByLines(
+  edits: Deletion[],
+  lineOf: (offset: number) => number
+): Array<Omit<DiffBlock, 'added'>> {
+  const blocks: Array<Omit<DiffBlock, 'added'>> = [];
+  [...edits]
+    .sort((a, b) => a.start - b.start)
+    .forEach(edit => {
+      const first = lineOf(edit.start);
+      const last = lineOf(Math.max(edit.start, edit.end - 1));
+      const block = blocks[blocks.length - 1];
+      if (block && first <= block.last + 1) {
+        block.last = Math.max(block.last, last);
+        block.edits.push(edit);
+      } else {
+        blocks.push({ first, last, edits: [edit] });
+      }
+    });
+  return blocks;
+}
+
+function createSkippedFix(
+  finding: Finding,
+  safety: SkippedFix['safety'],
+  reason: string
+): SkippedFix {
+  return {
+    file: finding.item.file,
+    line: finding.item.line,
+    action: describeFinding(finding),
+    safety,
+    reason,
+  };
+}
+
+function describeFinding(finding: Finding): string {
+  return finding.kind === 'import'
+    ? `Remove unused import: ${finding.item.name}`
+    : `Remove ${finding.item.type}: ${finding.item.name}`;
+}
+
+function describeRisk(item: UnusedImport | DeadExport): string {
+  return item.riskFactors.length > 0
+    ? item.riskFactors.join('; ')
+    : `${item.confidence} confidence`;
+}
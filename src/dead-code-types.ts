@@ -3,6 +3,8 @@
  * Core interfaces for detecting unused exports
  */
 
+import { QualityGateCondition } from './quality-gate-types';
+
 export interface DeadExport {
   file: string;
   name: string;
@@ -11,6 +13,9 @@ export interface DeadExport {
   reason: string;
   confidence: 'high' | 'medium' | 'low';
   riskFactors: string[];
+  package?: string; // Workspace package containing the file
+  // Dead code that imports it, nearest first, when only dead code does
+  chain?: string[];
 }
 
 export interface ExportInfo {
@@ -19,6 +24,7 @@ export interface ExportInfo {
   file: string;
   line: number;
   isDefault: boolean;
+  decorators?: string[]; // Decorators of an exported class
 }
 
 export interface ImportInfo {
@@ -26,7 +32,11 @@ export interface ImportInfo {
   from: string;
   file: string;
   line: number;
-  type: 'named' | 'default' | 'namespace';
+  type: 'named' | 'default' | 'namespace' | 'side-effect';
+  isReExport?: boolean; // export { name } from / export * from
+  exportedAs?: string; // Name a re-export is exposed under
+  dynamic?: boolean; // Loaded at runtime: import(), require(), jest.mock()
+  pattern?: string; // Computed specifier, e.g. ./pages/*
 }
 
 export interface DeadCodeMetrics {
@@ -35,6 +45,12 @@ export interface DeadCodeMetrics {
   totalImports: number;
   deadExports: number;
   unusedImports: number;
+  deadModules?: number;
+  transitiveDeadExports?: number; // Exports only dead code imports
+  deadClusterSavingsKB?: number; // Savings of removing whole dead clusters
+  unusedLocals: number;
+  unusedMembers: number;
+  unusedParameters: number;
   analysisTimeMs: number;
   estimatedSavingsKB: number;
 }
@@ -48,6 +64,71 @@ export interface UnusedImport {
   reason: string;
   confidence: 'high' | 'medium' | 'low';
   riskFactors: string[];
+  package?: string; // Workspace package containing the file
+}
+
+export interface DeadModule {
+  file: string;
+  exports: number; // Exports declared by the module
+  reason: string;
+  package?: string; // Workspace package containing the file
+}
+
+// Dead exports that keep each other alive only on paper, removable together
+export interface DeadCluster {
+  exports: string[]; // `file:name`, relative to the project
+  files: string[];
+  estimatedSavingsKB: number;
+}
+
+export interface UnusedLocal {
+  file: string;
+  name: string;
+  type: 'function' | 'class' | 'variable';
+  line: number;
+  reason: string;
+  confidence: 'high' | 'medium' | 'low';
+  riskFactors: string[];
+  package?: string; // Workspace package containing the file
+}
+
+export interface UnusedMember {
+  file: string;
+  className: string;
+  name: string; // `#name` for ECMAScript private members
+  type: 'method' | 'property' | 'accessor';
+  line: number;
+  reason: string;
+  confidence: 'high' | 'medium' | 'low';
+  riskFactors: string[];
+  package?: string; // Workspace package containing the file
+}
+
+export interface UnusedParameter {
+  file: string;
+  functionName: string;
+  name: string;
+  line: number;
+  reason: string;
+  confidence: 'high' | 'medium' | 'low';
+  riskFactors: string[];
+  package?: string; // Workspace package containing the file
+}
+
+// Findings of the scope analysis inside single files
+export interface LocalDeadCode {
+  unusedLocals: UnusedLocal[];
+  unusedMembers: UnusedMember[];
+  unusedParameters: UnusedParameter[];
+}
+
+export interface PackageDeadCode {
+  name: string;
+  path: string;
+  files: number;
+  deadExports: number;
+  unusedImports: number;
+  unusedLocals: number; // Unused locals, private members and parameters
 }
 
 export interface RemovalSuggestion {
@@ -58,21 +139,73 @@ export interface RemovalSuggestion {
   file: string;
   line: number;
   impact: string;
-  type: 'remove-export' | 'remove-import' | 'refactor';
+  type:
+    | 'remove-export'
+    | 'remove-import'
+    | 'remove-local'
+    | 'remove-member'
+    | 'remove-parameter'
+    | 'refactor';
   command?: string;
   warnings?: string[];
 }
 
-export interface DeadCodeReport {
+export interface DeadCodeReport extends LocalDeadCode {
   deadExports: DeadExport[];
   unusedImports: UnusedImport[];
   suggestions: RemovalSuggestion[];
   metrics: DeadCodeMetrics;
   projectPath: string;
+  packages?: PackageDeadCode[]; // Per-package totals inside a workspace
+  entryPoints?: string[]; // Entry files reachability started from
+  deadModules?: DeadModule[]; // Files no entry point reaches
+  deadClusters: DeadCluster[];
+  frameworks?: string[]; // Framework presets whose conventions applied
+}
+
+export interface DeadCodeAnalysisOptions {
+  // Extra entry files, relative to the working directory
+  entries?: string[];
+  // Framework presets to use, 'auto' detects them from package.json
+  frameworks?: string[];
+  // Project conventions on top of the presets
+  conventions?: FrameworkConvention[];
+}
+
+/**
+ * Files and exports a framework uses without importing them
+ */
+export interface FrameworkConvention {
+  files?: string[]; // Globs relative to the package, all files when absent
+  exports?: string[]; // Names the framework uses, all when absent
+  decorators?: string[]; // Classes with these decorators are used
 }
 
 export interface DeadCodeOptions {
   format: 'table' | 'json';
   includeMetrics: boolean;
   includeSuggestions?: boolean;
+  fix?: boolean; // Remove safe unused imports and dead exports
+  dryRun?: boolean; // Only show the fixes as a diff
+  failOn?: QualityGateCondition[]; // Conditions that fail the analysis
+}
+
+export interface FileFix {
+  file: string;
+  applied: string[]; // Actions of the applied removals
+}
+
+export interface SkippedFix {
+  file: string;
+  line: number;
+  action: string;
+  safety: RemovalSuggestion['safety'];
+  reason: string;
+}
+
+export interface DeadCodeFixResult {
+  files: FileFix[];
+  skipped: SkippedFix[];
+  diff: string; // Unified diff of all changes
+  dryRun: boolean;
 }
@@ -4,14 +4,26 @@
 import { parse } from '@babel/parser';
 import traverse from '@babel/traverse';
 import * as t from '@babel/types';
-import { readFileSync } from 'fs';
+import { readFileSync, statSync } from 'fs';
 import path from 'path';
 import {
   DependencyRelationship,
   DependencyGraph,
   GraphMetrics,
   GraphOptions,
+  PackageBoundaryViolation,
+  PackageGraph,
+  SourceFiles,
+  Workspace,
+  WorkspacePackage,
 } from './types';
+import { extractScriptContent } from './sfc-extractor';
+import { getAliasCandidates, getRootDirCandidates } from './tsconfig-resolver';
+import {
+  findWorkspace,
+  getPackageForFile,
+  getWorkspaceCandidates,
+} from './workspace-resolver';
 
 // Babel parser configuration for dependency analysis
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -33,20 +45,21 @@ const DEPENDENCY_PARSE_CONFIG: any = {
  */
 export function extractFileDependencies(
   filePath: string,
-  content: string
+  content: string,
+  sources?: SourceFiles
 ): DependencyRelationship[] {
   const dependencies: DependencyRelationship[] = [];
 
   try {
-    const ast = parse(content, DEPENDENCY_PARSE_CONFIG);
+    const ast = parse(
+      extractScriptContent(filePath, content),
+      DEPENDENCY_PARSE_CONFIG
+    );
 
     traverse(ast, {
       ImportDeclaration(nodePath) {
         const source = nodePath.node.source.value;
-        const isExternal =
-          !source.startsWith('./') &&
-          !source.startsWith('../') &&
-          !source.startsWith('/');
+        const isExternal = isExternalModule(filePath, source, sources);
 
         // Handle different import types
         nodePath.node.specifiers.forEach(spec => {
@@ -99,10 +112,7 @@ export function extractFileDependencies(
       ExportNamedDeclaration(nodePath) {
         if (nodePath.node.source) {
           const source = nodePath.node.source.value;
-          const isExternal =
-            !source.startsWith('./') &&
-            !source.startsWith('../') &&
-            !source.startsWith('/');
+          const isExternal = isExternalModule(filePath, source, sources);
 
           nodePath.node.specifiers?.forEach(spec => {
             if (t.isExportSpecifier(spec)) {
@@ -118,6 +128,16 @@ export function extractFileDependencies(
                 isExternal,
                 importType: 'named',
               });
+            } else if (t.isExportNamespaceSpecifier(spec)) {
+              // export * as ns from './module'
+              dependencies.push({
+                from: filePath,
+                to: source,
+                type: 'export',
+                importName: spec.exported.name,
+                isExternal,
+                importType: 'namespace',
+              });
             }
           });
         }
@@ -126,10 +146,7 @@ export function extractFileDependencies(
       ExportAllDeclaration(nodePath) {
         if (nodePath.node.source) {
           const source = nodePath.node.source.value;
-          const isExternal =
-            !source.startsWith('./') &&
-            !source.startsWith('../') &&
-            !source.startsWith('/');
+          const isExternal = isExternalModule(filePath, source, sources);
 
           dependencies.push({
             from: filePath,
@@ -141,14 +158,30 @@ export function extractFileDependencies(
         }
       },
 
+      // Handle require('x') and import('x') with a literal specifier
+      CallExpression(nodePath) {
+        const { callee, arguments: args } = nodePath.node;
+        const isLoader =
+          t.isImport(callee) ||
+          (t.isIdentifier(callee, { name: 'require' }) &&
+            !nodePath.scope.hasBinding('require'));
+        if (isLoader && t.isStringLiteral(args[0])) {
+          const source = args[0].value;
+          dependencies.push({
+            from: filePath,
+            to: source,
+            type: 'import',
+            isExternal: isExternalModule(filePath, source, sources),
+            importType: 'namespace',
+          });
+        }
+      },
+
       // Handle type-only imports
       TSImportType(nodePath) {
         if (t.isStringLiteral(nodePath.node.argument)) {
           const source = nodePath.node.argument.value;
-          const isExternal =
-            !source.startsWith('./') &&
-            !source.startsWith('../') &&
-            !source.startsWith('/');
+          const isExternal = isExternalModule(filePath, source, sources);
 
           dependencies.push({
             from: filePath,
@@ -183,12 +216,16 @@ export function analyzeDependencies(
 
   const allDependencies: DependencyRelationship[] = [];
   const projectPath = findCommonPath(files);
+  const { sources } = options;
 
   // Extract dependencies from each file
   for (const file of files) {
     try {
-      const content = readFileSync(file, 'utf-8');
-      const fileDeps = extractFileDependencies(file, content);
+      const fileDeps = sources
+        ? sources.parse(file, 'dependencies', content =>
+            extractFileDependencies(file, content, sources)
+          )
+        : extractFileDependencies(file, readFileSync(file, 'utf-8'));
       allDependencies.push(...fileDeps);
     } catch (error) {
       throw new Error(
@@ -215,12 +252,100 @@ export function analyzeDependencies(
     options
   );
 
-  return {
+  const graph: DependencyGraph = {
     projectPath,
     nodes: Array.from(nodeSet).sort(),
     edges: allDependencies,
     metrics,
   };
+
+  const workspace = findWorkspace(projectPath, sources);
+  if (workspace) {
+    graph.packageGraph = buildPackageGraph(
+      workspace,
+      files,
+      allDependencies,
+      sources
+    );
+  }
+
+  return graph;
+}
+
+/**
+ * Lift file dependencies to the packages of a workspace, flagging imports
+ * that cross package boundaries the wrong way
+ */
+function buildPackageGraph(
+  workspace: Workspace,
+  files: string[],
+  edges: DependencyRelationship[],
+  sources?: SourceFiles
+): PackageGraph {
+  const packageOf = (file: string): WorkspacePackage | undefined =>
+    getPackageForFile(workspace, file);
+  const importCounts = new Map<string, number>();
+  const boundaryViolations: PackageBoundaryViolation[] = [];
+  const seenImports = new Set<string>();
+
+  edges
+    .filter(edge => !edge.isExternal)
+    .forEach(edge => {
+      const importKey = `${edge.from}\0${edge.to}`;
+      const fromPackage = packageOf(edge.from);
+      const toPackage = packageOf(
+        resolveModulePath(edge.from, edge.to, sources)
+      );
+      if (
+        seenImports.has(importKey) ||
+        !fromPackage ||
+        !toPackage ||
+        fromPackage === toPackage
+      ) {
+        return;
+      }
+      seenImports.add(importKey);
+
+      const pairKey = `${fromPackage.name}\0${toPackage.name}`;
+      importCounts.set(pairKey, (importCounts.get(pairKey) || 0) + 1);
+
+      const isRelative = edge.to.startsWith('.') || edge.to.startsWith('/');
+      if (isRelative || !fromPackage.dependencies.includes(toPackage.name)) {
+        boundaryViolations.push({
+          file: edge.from,
+          specifier: edge.to,
+          fromPackage: fromPackage.name,
+          toPackage: toPackage.name,
+          reason: isRelative ? 'relative-import' : 'undeclared-dependency',
+        });
+      }
+    });
+
+  const dependencies = Array.from(importCounts.entries())
+    .map(([key, imports]) => {
+      const [from, to] = key.split('\0');
+      return { from, to, imports };
+    })
+    .sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+
+  // Packages outside the analyzed files are kept when something imports them
+  const packages = workspace.packages
+    .map(pkg => ({
+      ...pkg,
+      files: files.filter(file => packageOf(file) === pkg).sort(),
+    }))
+    .filter(
+      pkg =>
+        pkg.files.length > 0 ||
+        dependencies.some(dependency => dependency.to === pkg.name)
+    );
+
+  return {
+    workspaceRoot: workspace.rootDir,
+    packages,
+    dependencies,
+    boundaryViolations,
+  };
 }
 
 /**
@@ -252,7 +377,7 @@ function calculateGraphMetrics(
 
   // Detect circular dependencies if requested
   const circularDependencies = options.detectCircular
-    ? detectCircularDependencies(nodes, internalEdges)
+    ? detectCircularDependencies(nodes, internalEdges, options.sources)
     : [];
 
   return {
@@ -271,7 +396,8 @@ function calculateGraphMetrics(
  */
 function detectCircularDependencies(
   nodes: string[],
-  edges: DependencyRelationship[]
+  edges: DependencyRelationship[],
+  sources?: SourceFiles
 ): string[][] {
   const adjList = new Map<string, string[]>();
   const cycles: string[][] = [];
@@ -281,7 +407,7 @@ function detectCircularDependencies(
   edges.forEach(edge => {
     if (!edge.isExternal) {
       const targets = adjList.get(edge.from) || [];
-      targets.push(edge.to);
+      targets.push(resolveModulePath(edge.from, edge.to, sources));
       adjList.set(edge.from, targets);
     }
   });
@@ -357,41 +483,164 @@ function findCommonPath(files: string[]): string {
 }
 
 /**
- * Resolve relative paths to absolute paths within project
+ * Resolve relative, tsconfig-aliased and workspace package specifiers to
+ * file paths within the project. External modules are returned as-is.
  */
-export function resolveModulePath(fromFile: string, toModule: string): string {
+export function resolveModulePath(
+  fromFile: string,
+  toModule: string,
+  sources?: SourceFiles
+): string {
   // Handle relative imports
   if (toModule.startsWith('./') || toModule.startsWith('../')) {
-    const fromDir = path.dirname(fromFile);
-    const resolved = path.resolve(fromDir, toModule);
-
-    // Try common TypeScript/JavaScript extensions
-    const extensions = ['.ts', '.tsx', '.js', '.jsx', '.d.ts'];
-
-    for (const ext of extensions) {
-      const withExt = resolved + ext;
-      try {
-        readFileSync(withExt);
-        return withExt;
-      } catch {
-        // Continue trying other extensions
-      }
-    }
+    const resolved = path.resolve(path.dirname(fromFile), toModule);
+    const rootDirCandidates = getRootDirCandidates(fromFile, toModule, sources);
 
-    // Try index files
-    for (const ext of extensions) {
-      const indexFile = path.join(resolved, `index${ext}`);
-      try {
-        readFileSync(indexFile);
-        return indexFile;
-      } catch {
-        // Continue trying other index files
+    for (const candidate of [resolved, ...rootDirCandidates]) {
+      const found = findModuleFile(candidate, sources);
+      if (found) {
+        return found;
       }
     }
 
     return resolved; // Return as-is if file not found
   }
 
-  // Return external modules as-is
-  return toModule;
+  return resolveAliasedModule(fromFile, toModule, sources) || toModule;
+}
+
+/**
+ * Whether a specifier names an npm package rather than a project file.
+ * Specifiers matching tsconfig `paths` or `baseUrl`, or naming a workspace
+ * package, count as project files when the file they point to exists.
+ */
+export function isExternalModule(
+  fromFile: string,
+  toModule: string,
+  sources?: SourceFiles
+): boolean {
+  if (
+    toModule.startsWith('./') ||
+    toModule.startsWith('../') ||
+    toModule.startsWith('/')
+  ) {
+    return false;
+  }
+
+  return resolveAliasedModule(fromFile, toModule, sources) === null;
+}
+
+/**
+ * Resolve a non-relative specifier through tsconfig `paths` and `baseUrl`,
+ * then through the sibling packages of a workspace
+ */
+function resolveAliasedModule(
+  fromFile: string,
+  toModule: string,
+  sources?: SourceFiles
+): string | null {
+  for (const candidate of [
+    ...getAliasCandidates(fromFile, toModule, sources),
+    ...getWorkspaceCandidates(fromFile, toModule, sources),
+  ]) {
+    const found = findModuleFile(candidate, sources);
+    if (found) {
+      return found;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the source file for a resolved module path, trying the path itself,
+ * common extensions and index files
+ */
+export function findModuleFile(
+  resolved: string,
+  sources?: SourceFiles
+): string | null {
+  // Specifiers may carry an extension already. ESM-style TypeScript
+  // imports name the emitted .js file while the source is .ts
+  const jsExtension = /\.[cm]?jsx?$/.exec(resolved);
+  const explicitCandidates = [
+    resolved,
+    ...(jsExtension
+      ? ['.ts', '.tsx'].map(
+          ext => resolved.slice(0, -jsExtension[0].length) + ext
+        )
+      : []),
+  ];
+
+  const isModuleFile = (candidate: string): boolean => {
+    if (sources) {
+      return sources.isFile(candidate);
+    }
+    try {
+      return statSync(candidate).isFile();
+    } catch {
+      return false;
+    }
+  };
+
+  // Try common TypeScript/JavaScript extensions, then index files
+  const extensions = ['.ts', '.tsx', '.js', '.jsx', '.d.ts'];
+
+  return (
+    [
+      ...explicitCandidates,
+      ...extensions.map(ext => resolved + ext),
+      ...extensions.map(ext => path.join(resolved, `index${ext}`)),
+    ].find(isModuleFile) || null
+  );
+}
+
+/**
+ * Map every file of the graph to the set of graph files it imports, with
+ * relative and aliased specifiers resolved to file paths
+ */
+export function getLocalDependencies(
+  graph: DependencyGraph
+): Map<string, Set<string>> {
+  const nodeSet = new Set(graph.nodes);
+  const dependencies = new Map<string, Set<string>>();
+  graph.nodes.forEach(node => dependencies.set(node, new Set()));
+
+  graph.edges
+    .filter(edge => !edge.isExternal)
+    .forEach(edge => {
+      const target = resolveModulePath(edge.from, edge.to);
+      if (nodeSet.has(target) && target !== edge.from) {
+        dependencies.get(edge.from)?.add(target);
+      }
+    });
+
+  return dependencies;
+}
+
+/**
+ * Order the files of the graph so that each comes after the local files it
+ * imports. Files in a cycle are released in path order once nothing else is
+ * ready.
+ */
+export function getTopologicalOrder(graph: DependencyGraph): string[] {
+  const dependencies = getLocalDependencies(graph);
+  const remaining = new Set([...dependencies.keys()].sort());
+  const ordered: string[] = [];
+
+  while (remaining.size > 0) {
+    const ready = [...remaining].filter(file =>
+      [...(dependencies.get(file) || [])].every(
+        target => !remaining.has(target)
+      )
+    );
+    const next = ready.length > 0 ? ready : [[...remaining][0]];
+
+    next.forEach(file => {
+      remaining.delete(file);
+      ordered.push(file);
+    });
+  }
+
+  return ordered;
 }
@@ -0,0 +1,341 @@
+/* eslint-disable max-lines */
+/**
+ * Dependency hygiene analysis
+ * Compares the npm packages imported by the dependency graph with the
+ * dependencies, devDependencies and peerDependencies of each package.json
+ */
+
+import { existsSync } from 'fs';
+import { builtinModules } from 'module';
+import path from 'path';
+import {
+  DependencyHygieneMetrics,
+  DependencyHygieneOptions,
+  DependencyHygieneReport,
+  DependencyIssue,
+  DependencySection,
+} from './dependency-hygiene-types';
+import { analyzeDependencies } from './dependency-analyzer';
+import { findPackageDirectory } from './entry-points';
+import { PackageManifest, readPackageManifest } from './workspace-resolver';
+import { DependencyRelationship } from './types';
+
+// Production sections first, the first one a package is in is reported
+const SECTIONS: DependencySection[] = [
+  'dependencies',
+  'peerDependencies',
+  'optionalDependencies',
+  'devDependencies',
+];
+
+// Tests, mocks, stories and tool configs only run during development
+const DEVELOPMENT_DIRECTORIES =
+  /(?:^|\/)(?:__tests__|__mocks__|tests?|e2e|spec|\.storybook)\//;
+const DEVELOPMENT_FILES = /\.(?:test|spec|stories|e2e|config)\.[cm]?[jt]sx?$/;
+
+interface PackageImport {
+  name: string;
+  file: string;
+  builtin: boolean; // Node.js module such as fs or node:path
+  local: boolean; // Resolved to a workspace package or a tsconfig alias
+}
+
+/**
+ * Find unused, undeclared and misplaced npm dependencies of the packages
+ * the files belong to
+ */
+export function analyzeDependencyHygiene(
+  files: string[],
+  options: DependencyHygieneOptions = {}
+): DependencyHygieneReport {
+  const startTime = Date.now();
+  const graph = analyzeDependencies(files);
+  const imports = collectPackageImports(graph.edges);
+  const ignored = new Set(options.ignore || []);
+
+  const cache = new Map<string, string | null>();
+  const manifestDirs = [
+    ...new Set(files.map(file => findPackageDirectory(file, cache))),
+  ]
+    .filter((dir): dir is string => dir !== null)
+    .sort();
+
+  const issues = [
+    ...manifestDirs.flatMap(dir =>
+      checkDeclaredPackages(
+        dir,
+        imports.filter(imp => isInside(imp.file, dir))
+      )
+    ),
+    ...findUndeclaredPackages(imports, cache),
+  ]
+    .filter(issue => !ignored.has(issue.name))
+    .sort(
+      (a, b) =>
+        a.manifest.localeCompare(b.manifest) ||
+        a.type.localeCompare(b.type) ||
+        a.name.localeCompare(b.name)
+    );
+
+  return {
+    projectPath: graph.projectPath,
+    issues,
+    metrics: {
+      ...countFiles(files, imports, manifestDirs, cache),
+      analysisTimeMs: Date.now() - startTime,
+    },
+  };
+}
+
+function countFiles(
+  files: string[],
+  imports: PackageImport[],
+  manifestDirs: string[],
+  cache: Map<string, string | null>
+): Omit<DependencyHygieneMetrics, 'analysisTimeMs'> {
+  return {
+    totalFiles: files.length,
+    developmentFiles: files.filter(file =>
+      isDevelopmentFile(file, findPackageDirectory(file, cache))
+    ).length,
+    manifests: manifestDirs.length,
+    declaredPackages: manifestDirs.reduce(
+      (total, dir) =>
+        total + getDeclaredSections(readPackageManifest(dir) || {}).size,
+      0
+    ),
+    importedPackages: new Set(
+      imports.filter(imp => !imp.builtin && !imp.local).map(imp => imp.name)
+    ).size,
+  };
+}
+
+/**
+ * Package names imported by each file, once per file. Relative imports are
+ * left out, bare specifiers resolved inside the project are kept as local
+ * so that workspace packages count as used.
+ */
+function collectPackageImports(
+  edges: DependencyRelationship[]
+): PackageImport[] {
+  const seen = new Set<string>();
+  return edges.flatMap(edge => {
+    const name = getPackageName(edge.to);
+    const key = `${edge.from}\0${name}`;
+    if (!name || seen.has(key)) {
+      return [];
+    }
+    seen.add(key);
+    return [
+      {
+        name,
+        file: edge.from,
+        builtin: edge.to.startsWith('node:') || builtinModules.includes(name),
+        local: !edge.isExternal,
+      },
+    ];
+  });
+}
+
+/**
+ * Package a bare specifier names: `@scope/name/sub` is `@scope/name`.
+ * Relative, absolute and `#internal` specifiers name no package.
+ */
+export function getPackageName(specifier: string): string | null {
+  if (/^[./#]/.test(specifier)) {
+    return null;
+  }
+  const unprefixed = specifier.replace(/^node:/, '');
+  const parts = unprefixed.split('/');
+  return unprefixed.startsWith('@') && parts.length > 1
+    ? `${parts[0]}/${parts[1]}`
+    : parts[0];
+}
+
+function checkDeclaredPackages(
+  dir: string,
+  imports: PackageImport[]
+): DependencyIssue[] {
+  const manifest = readPackageManifest(dir) || {};
+  const importers = new Map<string, string[]>();
+  imports
+    .filter(imp => !imp.builtin)
+    .forEach(imp =>
+      importers.set(imp.name, [...(importers.get(imp.name) || []), imp.file])
+    );
+  const isUsed = (name: string): boolean =>
+    importers.has(name) ||
+    isRunByScripts(name, manifest, dir) ||
+    isTypingsOf(name, isUsed, imports);
+
+  const issues: DependencyIssue[] = [];
+  getDeclaredSections(manifest).forEach((sections, name) => {
+    const base = {
+      name,
+      manifest: path.join(dir, 'package.json'),
+      section: sections[0],
+    };
+    const users = importers.get(name) || [];
+    const production = users.filter(file => !isDevelopmentFile(file, dir));
+
+    if (!isUsed(name)) {
+      issues.push({ type: 'unused', ...base, files: [] });
+    } else if (sections[0] === 'devDependencies' && production.length > 0) {
+      issues.push({ type: 'dev-in-production', ...base, files: production });
+    } else if (
+      sections[0] === 'dependencies' &&
+      users.length > 0 &&
+      production.length === 0
+    ) {
+      issues.push({ type: 'production-in-tests', ...base, files: users });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Imports of packages that neither the nearest package.json nor one above
+ * it declares. Node resolution finds hoisted packages the same way.
+ */
+function findUndeclaredPackages(
+  imports: PackageImport[],
+  cache: Map<string, string | null>
+): DependencyIssue[] {
+  const issuesByKey = new Map<string, DependencyIssue>();
+  imports
+    .filter(imp => !imp.builtin && !imp.local)
+    .forEach(imp => {
+      const manifestDirs = getManifestChain(imp.file, cache);
+      const isDeclared = manifestDirs.some(dir =>
+        getDeclaredSections(readPackageManifest(dir) || {}).has(imp.name)
+      );
+      if (isDeclared) {
+        return;
+      }
+
+      const manifest = manifestDirs[0]
+        ? path.join(manifestDirs[0], 'package.json')
+        : '';
+      const key = `${manifest}\0${imp.name}`;
+      if (!issuesByKey.has(key)) {
+        issuesByKey.set(key, {
+          type: 'undeclared',
+          name: imp.name,
+          manifest,
+          files: [],
+        });
+      }
+      issuesByKey.get(key)!.files.push(imp.file);
+    });
+  return [...issuesByKey.values()];
+}
+
+function getManifestChain(
+  file: string,
+  cache: Map<string, string | null>
+): string[] {
+  const dirs: string[] = [];
+  // findPackageDirectory starts from the parent of the path it is given
+  for (
+    let dir = findPackageDirectory(file, cache);
+    dir;
+    dir = findPackageDirectory(dir, cache)
+  ) {
+    dirs.push(dir);
+  }
+  return dirs;
+}
+
+/**
+ * Sections each declared package is in, production sections first
+ */
+function getDeclaredSections(
+  manifest: PackageManifest
+): Map<string, DependencySection[]> {
+  const declared = new Map<string, DependencySection[]>();
+  SECTIONS.forEach(section =>
+    Object.keys(manifest[section] || {}).forEach(name =>
+      declared.set(name, [...(declared.get(name) || []), section])
+    )
+  );
+  return declared;
+}
+
+/**
+ * Whether a package.json script runs one of the package's binaries, like
+ * `jest` or `tsc`, or names the package, like `-r ts-node/register`
+ */
+function isRunByScripts(
+  name: string,
+  manifest: PackageManifest,
+  dir: string
+): boolean {
+  const words = Object.values(manifest.scripts || {})
+    .join(' ')
+    .split(/[\s;&|()'"`=]+/)
+    .filter(Boolean);
+  const binaries = getBinaries(name, dir);
+  return words.some(
+    word =>
+      binaries.includes(path.basename(word)) || getPackageName(word) === name
+  );
+}
+
+/**
+ * Binaries of an installed package, or its unscoped name when it is not
+ * installed
+ */
+function getBinaries(name: string, dir: string): string[] {
+  for (let current = dir; ; current = path.dirname(current)) {
+    const installed = path.join(current, 'node_modules', name);
+    if (existsSync(path.join(installed, 'package.json'))) {
+      const { bin } = readPackageManifest(installed) || {};
+      if (typeof bin === 'string') {
+        return [name.split('/').pop()!];
+      }
+      return bin ? Object.keys(bin) : [];
+    }
+    if (path.dirname(current) === current) {
+      return [name.split('/').pop()!];
+    }
+  }
+}
+
+/**
+ * `@types/x` is used with x, `@types/babel__core` with `@babel/core` and
+ * `@types/node` with any Node.js module
+ */
+function isTypingsOf(
+  name: string,
+  isUsed: (name: string) => boolean,
+  imports: PackageImport[]
+): boolean {
+  if (!name.startsWith('@types/')) {
+    return false;
+  }
+  const typed = name.slice('@types/'.length);
+  if (typed === 'node') {
+    return imports.some(imp => imp.builtin);
+  }
+  return isUsed(typed.includes('__') ? `@${typed.replace('__', '/')}` : typed);
+}
+
+/**
+ * Tests, mocks, stories and tool configs, which only run during development
+ */
+export function isDevelopmentFile(
+  file: string,
+  packageDir: string | null
+): boolean {
+  const relative = path
+    .relative(packageDir || process.cwd(), path.resolve(file))
+    .split(path.sep)
+    .join('/');
+  return (
+    DEVELOPMENT_DIRECTORIES.test(relative) || DEVELOPMENT_FILES.test(relative)
+  );
+}
+
+function isInside(file: string, dir: string): boolean {
+  return path.resolve(file).startsWith(dir + path.sep);
+}
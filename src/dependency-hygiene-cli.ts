@@ -0,0 +1,126 @@
+/**
+ * CLI Integration for Dependency Hygiene Analysis
+ * Handles --check-dependencies flag and output formatting
+ */
+
+import chalk from 'chalk';
+import path from 'path';
+import {
+  DependencyHygieneOptions,
+  DependencyHygieneReport,
+  DependencyIssue,
+  DependencyIssueType,
+} from './dependency-hygiene-types';
+import { analyzeDependencyHygiene } from './dependency-hygiene-analyzer';
+import { ConfigLoader } from './config-loader';
+
+const SECTION_TITLES: Record<DependencyIssueType, string> = {
+  unused: 'Unused Dependencies',
+  undeclared: 'Undeclared Dependencies',
+  'dev-in-production': 'devDependencies Used in Production Code',
+  'production-in-tests': 'Dependencies Only Used in Development Files',
+};
+
+const SECTION_HINTS: Record<DependencyIssueType, string> = {
+  unused: 'Remove them from package.json',
+  undeclared: 'Add them to the package.json next to the importing files',
+  'dev-in-production': 'Move them to dependencies',
+  'production-in-tests': 'Move them to devDependencies',
+};
+
+/**
+ * Execute dependency hygiene analysis and output results
+ */
+export async function executeDependencyHygieneAnalysis(
+  files: string[],
+  options: DependencyHygieneOptions = { format: 'table' }
+): Promise<void> {
+  try {
+    console.log(chalk.cyan.bold('Dependency Hygiene Report'));
+    console.log(chalk.dim(`Analyzing ${files.length} files...\n`));
+
+    const config = ConfigLoader.loadConfig();
+    const report = analyzeDependencyHygiene(files, {
+      ...options,
+      ignore: [...(options.ignore || []), ...config.dependencies.ignore],
+    });
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      outputTableFormat(report);
+    }
+
+    // Exit with code 0 (informational, not error)
+    process.exit(0);
+  } catch (error) {
+    console.error(chalk.red(`Error: ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Output report in table format (default)
+ */
+function outputTableFormat(report: DependencyHygieneReport): void {
+  const { issues, metrics, projectPath } = report;
+
+  console.log(chalk.dim(`Project: ${projectPath}`));
+  console.log(
+    chalk.dim(
+      `Files analyzed: ${metrics.totalFiles} (${metrics.developmentFiles} development)`
+    )
+  );
+  console.log(chalk.dim(`package.json files: ${metrics.manifests}`));
+  console.log(
+    chalk.dim(
+      `Packages: ${metrics.declaredPackages} declared, ${metrics.importedPackages} imported`
+    )
+  );
+  console.log(chalk.dim(`Analysis time: ${metrics.analysisTimeMs}ms\n`));
+
+  if (issues.length === 0) {
+    console.log(chalk.green.bold('Great! All dependencies are in order!'));
+    console.log(
+      chalk.green('Every declared package is used where it is declared.\n')
+    );
+    return;
+  }
+
+  (Object.keys(SECTION_TITLES) as DependencyIssueType[]).forEach(type => {
+    const found = issues.filter(issue => issue.type === type);
+    if (found.length > 0) {
+      outputSection(type, found);
+    }
+  });
+}
+
+function outputSection(
+  type: DependencyIssueType,
+  issues: DependencyIssue[]
+): void {
+  console.log(
+    chalk.red.bold(`${SECTION_TITLES[type]} (${issues.length} found):`)
+  );
+  issues.forEach(issue => {
+    const declaredIn = issue.section
+      ? ` - ${issue.section} of ${formatPath(issue.manifest)}`
+      : ` - ${formatPath(issue.manifest) || 'no package.json'}`;
+    console.log(
+      chalk.gray('• ') + chalk.yellow(issue.name) + chalk.dim(declaredIn)
+    );
+    issue.files.slice(0, 3).forEach(file => {
+      console.log(chalk.gray('    ') + chalk.blue(formatPath(file)));
+    });
+    if (issue.files.length > 3) {
+      console.log(
+        chalk.gray('    ') + chalk.dim(`... and ${issue.files.length - 3} more`)
+      );
+    }
+  });
+  console.log(chalk.blue(`${SECTION_HINTS[type]}\n`));
+}
+
+function formatPath(file: string): string {
+  return file && path.relative(process.cwd(), file);
+}
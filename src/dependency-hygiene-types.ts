@@ -0,0 +1,51 @@
+/**
+ * Types for dependency hygiene analysis
+ * Compares the packages a project imports with those its package.json
+ * files declare
+ */
+
+export type DependencySection =
+  | 'dependencies'
+  | 'devDependencies'
+  | 'peerDependencies'
+  | 'optionalDependencies';
+
+export type DependencyIssueType =
+  | 'unused' // Declared, never imported or run by a script
+  | 'undeclared' // Imported, declared in no section
+  | 'dev-in-production' // Only a devDependency, imported by production code
+  | 'production-in-tests'; // A dependency only imported by development files
+
+export interface DependencyHygieneOptions {
+  /** Output format for reporting */
+  format?: 'table' | 'json';
+  /** Packages never reported, e.g. plugins loaded by tool configs */
+  ignore?: string[];
+}
+
+export interface DependencyIssue {
+  type: DependencyIssueType;
+  /** npm package name */
+  name: string;
+  /** package.json declaring it, or the nearest one for undeclared imports */
+  manifest: string;
+  /** Section it is declared in, absent for undeclared imports */
+  section?: DependencySection;
+  /** Files importing it, empty for unused packages */
+  files: string[];
+}
+
+export interface DependencyHygieneMetrics {
+  totalFiles: number;
+  developmentFiles: number; // Tests, mocks, stories and tool configs
+  manifests: number;
+  declaredPackages: number;
+  importedPackages: number;
+  analysisTimeMs: number;
+}
+
+export interface DependencyHygieneReport {
+  projectPath: string;
+  issues: DependencyIssue[];
+  metrics: DependencyHygieneMetrics;
+}
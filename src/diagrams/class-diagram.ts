@@ -1,4 +1,9 @@
-import { ParsedFile, ParsedClass, ParsedMethod } from '../types';
+import {
+  ParsedFile,
+  ParsedClass,
+  ParsedMethod,
+  MemberVisibility,
+} from '../types';
 import {
   DiagramOptions,
   DiagramResult,
@@ -80,17 +85,63 @@ export class ClassDiagramGenerator {
     return classes.map(cls => ({
       name: cls.name,
       methods: cls.methods
-        .filter(method => !method.isPrivate) // Only public methods
+        .filter(method => !method.isPrivate) // Only public and protected methods
         .map(method => ({
           name: method.name,
-          visibility: '+', // Public by default
+          visibility: this.getVisibilitySymbol(method.visibility),
           params: this.formatParameters(method),
           returnType: method.returnType || 'void',
+          classifier: this.getClassifier(method.isStatic, method.isAbstract),
         })),
-      properties: [], // Will be enhanced in future versions
+      properties: this.convertToClassProperties(cls),
     }));
   }
 
+  /**
+   * Convert non-private properties and accessors to diagram properties
+   */
+  private convertToClassProperties(
+    cls: ParsedClass
+  ): ClassDiagramNode['properties'] {
+    const members = [...(cls.properties || []), ...(cls.accessors || [])];
+    const seen = new Set<string>();
+
+    return members
+      .filter(member => member.visibility !== 'private')
+      .filter(member => {
+        // Getter/setter pairs are a single property in the diagram
+        if (seen.has(member.name)) return false;
+        seen.add(member.name);
+        return true;
+      })
+      .map(member => ({
+        name: member.name,
+        type: member.type || 'any',
+        visibility: this.getVisibilitySymbol(member.visibility),
+        classifier: this.getClassifier(member.isStatic, member.isAbstract),
+      }));
+  }
+
+  /**
+   * Map TypeScript visibility to Mermaid visibility symbols
+   */
+  private getVisibilitySymbol(
+    visibility: MemberVisibility = 'public'
+  ): '+' | '-' | '#' {
+    if (visibility === 'private') return '-';
+    if (visibility === 'protected') return '#';
+    return '+';
+  }
+
+  private getClassifier(
+    isStatic?: boolean,
+    isAbstract?: boolean
+  ): '$' | '*' | undefined {
+    if (isStatic) return '$';
+    if (isAbstract) return '*';
+    return undefined;
+  }
+
   /**
    * Format method parameters for display
    */
@@ -113,16 +164,20 @@ export class ClassDiagramGenerator {
     classNodes.forEach(classNode => {
       definitions.push(`  class ${classNode.name} {`);
 
-      // Add properties (future enhancement)
+      // Add properties
       if (classNode.properties && classNode.properties.length > 0) {
         classNode.properties.forEach(prop => {
-          definitions.push(`    ${prop.visibility}${prop.type} ${prop.name}`);
+          const classifier = prop.classifier || '';
+          definitions.push(
+            `    ${prop.visibility}${prop.type} ${prop.name}${classifier}`
+          );
         });
       }
 
       // Add methods
       classNode.methods.forEach(method => {
-        const methodSignature = `${method.visibility}${method.name}(${method.params}): ${method.returnType}`;
+        const classifier = method.classifier || '';
+        const methodSignature = `${method.visibility}${method.name}(${method.params}): ${method.returnType}${classifier}`;
         definitions.push(`    ${methodSignature}`);
       });
 
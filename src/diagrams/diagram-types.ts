@@ -54,11 +54,14 @@ export interface ClassDiagramNode {
     visibility: '+' | '-' | '#';
     params: string;
     returnType: string;
+    /** Mermaid classifier: $ for static, * for abstract */
+    classifier?: '$' | '*';
   }[];
   properties?: {
     name: string;
     type: string;
     visibility: '+' | '-' | '#';
+    classifier?: '$' | '*';
   }[];
 }
 
@@ -1,26 +1,23 @@
 /**
- * Duplicate Code Analyzer - Integration with jscpd
+ * Duplicate Code Analyzer - Native clone detection on the Babel AST
  * Provides LLM-friendly duplicate code detection and reporting
  */
 
-import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
-import { tmpdir } from 'os';
 import {
   DuplicateCodeOptions,
   DuplicateCodeReport,
   DuplicateBlock,
-  DuplicateLocation,
   RefactoringSuggestion,
   DuplicateCodeMetrics,
-  JscpdResult,
-  JscpdDuplicate,
-  JscpdConfig,
+  DuplicateLocation,
 } from './duplicate-code-types';
+import { Clone, detectClones, SourceFile } from './clone-detector';
+import { globToRegExp } from './glob';
 
 /**
- * Analyze duplicate code in the provided files using jscpd
+ * Analyze duplicate code in the provided files
  */
 export async function analyzeDuplicateCode(
   files: string[],
@@ -31,37 +28,38 @@ export async function analyzeDuplicateCode(
   }
 
   const startTime = Date.now();
-  
-  // Determine project path
-  const projectPath = path.dirname(path.resolve(files[0]));
-  
+  const projectPath = findCommonDirectory(files);
+
   // Set default options
   const analysisOptions: Required<DuplicateCodeOptions> = {
     minLines: options.minLines ?? 5,
     minTokens: options.minTokens ?? 50,
+    minSimilarity: options.minSimilarity ?? 80,
     format: options.format ?? 'table',
     includeContext: options.includeContext ?? true,
     includeSuggestions: options.includeSuggestions ?? true,
     maxFiles: options.maxFiles ?? 1000,
     ignore: options.ignore ?? ['node_modules', 'dist', 'build', '*.test.ts', '*.spec.ts'],
+    failOn: options.failOn ?? [],
   };
 
   try {
-    // Run jscpd analysis
-    const jscpdResult = await runJscpdAnalysis(files, analysisOptions, projectPath);
-    
-    // Process jscpd results into our format
-    const duplicates = processJscpdResults(jscpdResult, projectPath);
-    
+    const sources = readSourceFiles(files, analysisOptions, projectPath);
+    const { clones, skipped } = detectClones(sources, analysisOptions);
+
+    // Convert clones into our duplicate block format
+    const duplicates = clones.map((clone, index) =>
+      createDuplicateBlock(clone, index, projectPath)
+    );
+
     // Generate refactoring suggestions
     const suggestions = generateRefactoringSuggestions(duplicates);
-    
+
     // Calculate metrics
-    const metrics = calculateMetrics(files, duplicates, Date.now() - startTime);
-    
-    // Analyze files that were processed
-    const analyzedFiles = files.filter(file => fs.existsSync(file));
-    const skippedFiles = files.filter(file => !fs.existsSync(file));
+    const analyzedFiles = sources
+      .map(source => source.path)
+      .filter(file => !skipped.includes(file));
+    const metrics = calculateMetrics(analyzedFiles, duplicates, Date.now() - startTime);
 
     return {
       projectPath,
@@ -71,7 +69,7 @@ export async function analyzeDuplicateCode(
       metrics,
       timestamp: new Date(),
       analyzedFiles,
-      skippedFiles,
+      skippedFiles: files.filter(file => !analyzedFiles.includes(file)),
     };
   } catch (error) {
     throw new Error(`Duplicate code analysis failed: ${(error as Error).message}`);
@@ -79,213 +77,73 @@ export async function analyzeDuplicateCode(
 }
 
 /**
- * Run jscpd analysis and return parsed results
+ * Read the files that exist and match no ignore pattern, up to maxFiles.
+ * Patterns without a slash match any path segment, like `node_modules` or
+ * `*.test.ts`, others match the path relative to the project.
  */
-async function runJscpdAnalysis(
+function readSourceFiles(
   files: string[],
   options: Required<DuplicateCodeOptions>,
   projectPath: string
-): Promise<JscpdResult> {
-  // Create temporary output file for jscpd JSON results
-  const tempDir = tmpdir();
-  const outputFile = path.join(tempDir, `jscpd-${Date.now()}.json`);
-  
-  // Create jscpd config
-  const jscpdConfig = {
-    minLines: options.minLines,
-    minTokens: options.minTokens,
-    format: ['typescript', 'javascript'],
-    ignore: options.ignore,
-    reporters: ['json'],
-    output: path.dirname(outputFile),
+): SourceFile[] {
+  const patterns = options.ignore.map(pattern => ({
+    regExp: globToRegExp(pattern),
+    matchesSegments: !pattern.includes('/'),
+  }));
+  const isIgnored = (file: string): boolean => {
+    const relative = path
+      .relative(projectPath, file)
+      .split(path.sep)
+      .join('/');
+    return patterns.some(({ regExp, matchesSegments }) =>
+      matchesSegments
+        ? relative.split('/').some(segment => regExp.test(segment))
+        : regExp.test(relative)
+    );
   };
 
-  // Create temporary config file
-  const configFile = path.join(tempDir, `jscpd-config-${Date.now()}.json`);
-  fs.writeFileSync(configFile, JSON.stringify(jscpdConfig, null, 2));
-
-  try {
-    // Determine if we're analyzing files or directories
-    const targets = files.length === 1 && fs.statSync(files[0]).isDirectory() 
-      ? [files[0]] 
-      : [path.dirname(files[0])];
-
-    // Build jscpd command
-    const jscpdCmd = [
-      'npx jscpd',
-      ...targets.map(t => `"${t}"`),
-      `--config "${configFile}"`,
-      '-r json',
-      `--output "${path.dirname(outputFile)}"`,
-      '--silent'
-    ].join(' ');
-
-    // Execute jscpd
-    execSync(jscpdCmd, { 
-      cwd: projectPath,
-      stdio: 'pipe',
-      timeout: 120000 // 2 minute timeout
-    });
-
-    // Read and parse results - jscpd creates jscpd-report.json in the output directory
-    const reportFile = path.join(path.dirname(outputFile), 'jscpd-report.json');
-    
-    if (!fs.existsSync(reportFile)) {
-      // No duplicates found
-      return {
-        duplicates: [],
-        statistics: {
-          total: { files: files.length, lines: 0, tokens: 0 },
-          clones: { lines: 0, tokens: 0, duplicatedLines: 0, percentage: 0 },
-          formats: {}
-        }
-      };
-    }
-
-    const resultContent = fs.readFileSync(reportFile, 'utf-8');
-    const result: JscpdResult = JSON.parse(resultContent);
-
-    // Cleanup temporary files
-    fs.unlinkSync(reportFile);
-    fs.unlinkSync(configFile);
-
-    return result;
-  } catch (error) {
-    // Cleanup on error
-    try {
-      const reportFile = path.join(path.dirname(outputFile), 'jscpd-report.json');
-      if (fs.existsSync(reportFile)) fs.unlinkSync(reportFile);
-      if (fs.existsSync(configFile)) fs.unlinkSync(configFile);
-    } catch {
-      // Ignore cleanup errors
-    }
-
-    throw new Error(`jscpd execution failed: ${(error as Error).message}`);
-  }
+  return files
+    .map(file => path.resolve(file))
+    .filter(file => fs.existsSync(file) && !isIgnored(file))
+    .slice(0, options.maxFiles)
+    .map(file => ({ path: file, content: fs.readFileSync(file, 'utf-8') }));
 }
 
-/**
- * Process jscpd results into our duplicate block format
- */
-function processJscpdResults(
-  jscpdResult: JscpdResult,
-  projectPath: string
-): DuplicateBlock[] {
-  const duplicates: DuplicateBlock[] = [];
-  const processedFragments = new Set<string>();
-
-  jscpdResult.duplicates.forEach((duplicate, index) => {
-    // Use the actual fragment content as key
-    const fragmentKey = duplicate.fragment || `${duplicate.lines}-${index}`;
-    
-    // Skip if we've already processed this fragment pattern
-    if (processedFragments.has(fragmentKey)) {
-      return;
-    }
-    processedFragments.add(fragmentKey);
-
-    // Get code content from the jscpd fragment or extract from file
-    const code = duplicate.fragment || extractCodeFromFile(
-      duplicate.firstFile.name,
-      duplicate.firstFile.start,
-      duplicate.firstFile.end
-    );
-
-    // Calculate similarity (jscpd finds exact matches, so 100%)
-    const similarity = 100;
-
-    // Determine duplicate type
-    const type = similarity === 100 ? 'exact' as const : 'similar' as const;
-
-    // Get lines and tokens from jscpd data or calculate
-    const lines = duplicate.lines || (duplicate.firstFile.end - duplicate.firstFile.start + 1);
-    const tokens = duplicate.tokens || 50; // fallback
-
-    // Calculate complexity based on lines and tokens
-    const complexity = calculateComplexity(lines, tokens);
-
-    const locations: DuplicateLocation[] = [
-      {
-        file: path.relative(projectPath, duplicate.firstFile.name),
-        startLine: duplicate.firstFile.start,
-        endLine: duplicate.firstFile.end,
-        context: extractContext(duplicate.firstFile.name, duplicate.firstFile.start),
-      },
-      {
-        file: path.relative(projectPath, duplicate.secondFile.name),
-        startLine: duplicate.secondFile.start,
-        endLine: duplicate.secondFile.end,
-        context: extractContext(duplicate.secondFile.name, duplicate.secondFile.start),
-      },
-    ];
-
-    duplicates.push({
-      id: `dup-${index + 1}`,
-      code,
-      lines,
-      tokens,
-      locations,
-      similarity,
-      type,
-      complexity,
+function findCommonDirectory(files: string[]): string {
+  return files
+    .map(file => path.dirname(path.resolve(file)))
+    .reduce((common, dir) => {
+      while (dir !== common && !dir.startsWith(common + path.sep)) {
+        common = path.dirname(common);
+      }
+      return common;
     });
-  });
-
-  return duplicates;
 }
 
 /**
- * Extract code content from file between specified lines
+ * Convert a detected clone into a duplicate block
  */
-function extractCodeFromFile(filePath: string, startLine: number, endLine: number): string {
-  try {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const lines = content.split('\n');
-    return lines
-      .slice(startLine - 1, endLine)
-      .join('\n')
-      .trim();
-  } catch {
-    return 'Could not read file content';
-  }
-}
+function createDuplicateBlock(
+  clone: Clone,
+  index: number,
+  projectPath: string
+): DuplicateBlock {
+  const [first] = clone.locations;
+  const lines = first.endLine - first.startLine + 1;
 
-/**
- * Extract context information (function/class name) around the duplicate
- */
-function extractContext(filePath: string, lineNumber: number): string | undefined {
-  try {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const lines = content.split('\n');
-    
-    // Look backwards from the duplicate line to find function/class context
-    for (let i = lineNumber - 2; i >= Math.max(0, lineNumber - 20); i--) {
-      const line = lines[i]?.trim();
-      if (!line) continue;
-      
-      // Look for function declarations
-      const functionMatch = line.match(/(?:function|const|let|var)\s+(\w+)|(\w+)\s*[:=]\s*(?:function|\()/);
-      if (functionMatch) {
-        return `function ${functionMatch[1] || functionMatch[2]}`;
-      }
-      
-      // Look for class declarations
-      const classMatch = line.match(/class\s+(\w+)/);
-      if (classMatch) {
-        return `class ${classMatch[1]}`;
-      }
-      
-      // Look for method declarations
-      const methodMatch = line.match(/(\w+)\s*\([^)]*\)\s*[:{]/);
-      if (methodMatch) {
-        return `method ${methodMatch[1]}`;
-      }
-    }
-    
-    return undefined;
-  } catch {
-    return undefined;
-  }
+  return {
+    id: `dup-${index + 1}`,
+    code: clone.code,
+    lines,
+    tokens: clone.tokens,
+    locations: clone.locations.map(location => ({
+      ...location,
+      file: path.relative(projectPath, location.file),
+    })),
+    similarity: clone.similarity,
+    type: clone.type,
+    complexity: calculateComplexity(lines, clone.tokens),
+  };
 }
 
 /**
@@ -464,8 +322,9 @@ function calculateMetrics(
     }
   });
 
-  const duplicatedLines = duplicates.reduce((sum, dup) => 
-    sum + (dup.lines * (dup.locations.length - 1)), 0
+  // The first location of each block is the copy the others duplicate
+  const duplicatedLines = countCoveredLines(
+    duplicates.flatMap(dup => dup.locations.slice(1))
   );
   
   const duplicationPercentage = totalLines > 0 ? (duplicatedLines / totalLines) * 100 : 0;
@@ -507,6 +366,25 @@ function calculateMetrics(
   };
 }
 
+/**
+ * Lines covered by the locations, counting lines shared by overlapping
+ * locations of the same file once
+ */
+function countCoveredLines(locations: DuplicateLocation[]): number {
+  const coveredLines = new Map<string, Set<number>>();
+  locations.forEach(loc => {
+    const lines = coveredLines.get(loc.file) || new Set<number>();
+    for (let line = loc.startLine; line <= loc.endLine; line++) {
+      lines.add(line);
+    }
+    coveredLines.set(loc.file, lines);
+  });
+  return Array.from(coveredLines.values()).reduce(
+    (sum, lines) => sum + lines.size,
+    0
+  );
+}
+
 /**
  * Utility function to capitalize first letter
  */
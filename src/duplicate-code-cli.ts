@@ -6,6 +6,12 @@
 import chalk from 'chalk';
 import { DuplicateCodeReport, DuplicateCodeOptions } from './duplicate-code-types';
 import { analyzeDuplicateCode } from './duplicate-code-analyzer';
+import {
+  EXIT_CODES,
+  applyQualityGate,
+  getDuplicateCodeGateMetrics,
+  getQualityGateHelpText,
+} from './quality-gate';
 
 /**
  * Execute duplicate code analysis and output LLM-friendly results
@@ -19,8 +25,9 @@ export async function executeDuplicateCodeAnalysis(
   }
 ): Promise<void> {
   try {
-    console.log(chalk.cyan.bold('Duplicate Code Analysis Report'));
-    console.log(chalk.dim(`Analyzing ${files.length} files...\n`));
+    const log = options.format === 'json' ? console.error : console.log;
+    log(chalk.cyan.bold('Duplicate Code Analysis Report'));
+    log(chalk.dim(`Analyzing ${files.length} files...\n`));
 
     const report = await analyzeDuplicateCode(files, options);
 
@@ -30,8 +37,13 @@ export async function executeDuplicateCodeAnalysis(
       outputTableFormat(report, options);
     }
 
-    // Exit with code 0 (informational, not error)
-    process.exit(0);
+    // Exit code stays 0 unless a --fail-on condition is met
+    applyQualityGate(
+      options.failOn,
+      getDuplicateCodeGateMetrics(report),
+      EXIT_CODES.duplicateCode,
+      options.format
+    );
   } catch (error) {
     console.error(chalk.red(`Error: ${(error as Error).message}`));
     process.exit(1);
@@ -298,11 +310,12 @@ function getCodePreview(code: string): string {
 export function getDuplicateCodeHelpText(): string {
   return `
 Duplicate Code Analysis:
-  --detect-duplicates          Analyze code for duplicate blocks using jscpd
+  --detect-duplicates          Analyze code for duplicate blocks
   --min-lines <number>         Minimum lines to consider duplicate (default: 5)
   --min-tokens <number>        Minimum tokens to consider duplicate (default: 50)
+  --min-similarity <percent>   Minimum similarity of near-miss copies (default: 80)
   --format <type>             Output format: table, json (default: table)
-
+${getQualityGateHelpText('m2js src/ --detect-duplicates --fail-on "duplication>3"')}
 Configuration Options:
   Environment Variables:
     M2JS_DUPLICATE_MIN_LINES=5      Minimum lines for duplication
@@ -333,7 +346,9 @@ Examples:
   m2js src/utils.ts src/helpers.ts --detect-duplicates
 
 Features:
-  ✓ Integration with jscpd for accurate detection
+  ✓ Native AST detection, no external tools needed
+  ✓ Exact copies, copies with renamed identifiers or literals, and
+    near-miss copies with edited statements
   ✓ LLM-friendly reporting with context and suggestions
   ✓ Intelligent refactoring recommendations
   ✓ Complexity analysis and priority scoring
@@ -1,12 +1,16 @@
 /**
- * Types for duplicate code detection integration with jscpd
+ * Types for duplicate code detection
  */
 
+import { QualityGateCondition } from './quality-gate-types';
+
 export interface DuplicateCodeOptions {
   /** Minimum number of lines to consider as duplicate */
   minLines?: number;
   /** Minimum number of tokens to consider as duplicate */
   minTokens?: number;
+  /** Minimum similarity percentage for near-miss duplicates */
+  minSimilarity?: number;
   /** Output format for reporting */
   format?: 'table' | 'json';
   /** Include code context in output */
@@ -15,6 +19,8 @@ export interface DuplicateCodeOptions {
   includeSuggestions?: boolean;
   /** Maximum files to analyze (performance limit) */
   maxFiles?: number;
+  /** Conditions that fail the analysis, e.g. duplication above 3% */
+  failOn?: QualityGateCondition[];
   /** File patterns to ignore */
   ignore?: string[];
 }
@@ -32,7 +38,11 @@ export interface DuplicateBlock {
   locations: DuplicateLocation[];
   /** Similarity percentage between locations */
   similarity: number;
-  /** Type of duplicate (exact, similar, structural) */
+  /**
+   * Type of duplicate: exact copies (Type-1), structural copies with
+   * renamed identifiers or changed literals (Type-2), or similar near-miss
+   * copies with edited statements (Type-3)
+   */
   type: 'exact' | 'similar' | 'structural';
   /** Estimated complexity/impact score */
   complexity: number;
@@ -115,94 +125,3 @@ export interface DuplicateCodeReport {
   /** Files that were skipped/ignored */
   skippedFiles: string[];
 }
-
-export interface JscpdConfig {
-  /** Minimum lines for duplication */
-  minLines: number;
-  /** Minimum tokens for duplication */
-  minTokens: number;
-  /** File extensions to analyze */
-  formats: string[];
-  /** Patterns to ignore */
-  ignore: string[];
-  /** Output reporters */
-  reporters: string[];
-  /** Absolute paths mode */
-  absolute: boolean;
-  /** Blame authors */
-  blame: boolean;
-  /** Silent mode */
-  silent: boolean;
-}
-
-export interface JscpdResult {
-  /** Detected duplicates */
-  duplicates: JscpdDuplicate[];
-  /** Overall statistics */
-  statistics: JscpdStatistics;
-}
-
-export interface JscpdDuplicate {
-  /** Format/language of the duplicate */
-  format: string;
-  /** Number of lines in duplicate */
-  lines: number;
-  /** Code fragment content */
-  fragment: string;
-  /** Number of tokens */
-  tokens: number;
-  /** First location */
-  firstFile: JscpdFile;
-  /** Second location */
-  secondFile: JscpdFile;
-}
-
-export interface JscpdFile {
-  /** File name */
-  name: string;
-  /** Starting line */
-  start: number;
-  /** Ending line */
-  end: number;
-  /** Start location details */
-  startLoc?: {
-    line: number;
-    column: number;
-    position: number;
-  };
-  /** End location details */
-  endLoc?: {
-    line: number;
-    column: number;
-    position: number;
-  };
-}
-
-export interface JscpdFragment {
-  /** Number of lines in fragment */
-  lines: number;
-  /** Number of tokens in fragment */
-  tokens: number;
-}
-
-export interface JscpdStatistics {
-  /** Total files analyzed */
-  total: {
-    files: number;
-    lines: number;
-    tokens: number;
-  };
-  /** Clones statistics */
-  clones: {
-    lines: number;
-    tokens: number;
-    duplicatedLines: number;
-    percentage: number;
-  };
-  /** Formats analyzed */
-  formats: Record<string, {
-    lines: number;
-    tokens: number;
-    files: number;
-  }>;
-}
\ No newline at end of file
@@ -0,0 +1,280 @@
+/**
+ * Dynamic module loading for dead code analysis
+ * Models import(), require(), jest.mock() and React.lazy() calls as imports
+ */
+
+import path from 'path';
+import { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { DeadExport, ImportInfo } from './dead-code-types';
+import { isExternalModule, resolveModulePath } from './dependency-analyzer';
+
+// Test framework helpers that name a module: jest.mock('./x'), vi.mock('./x')
+const MOCK_OBJECTS = new Set(['jest', 'vi']);
+const MOCK_METHODS = new Set(['mock', 'doMock', 'unmock', 'setMock']);
+const ACTUAL_METHODS = new Set([
+  'requireActual',
+  'importActual',
+  'requireMock',
+  'importMock',
+]);
+
+type LoaderKind = 'import' | 'require' | 'mock';
+
+/**
+ * Imports made by a call that loads a module at runtime. A computed
+ * specifier gives one side-effect import whose `pattern` holds the part
+ * known statically; expandImportPatterns turns it into the files it may
+ * load.
+ */
+export function extractCallImports(
+  nodePath: NodePath<t.CallExpression>,
+  filePath: string
+): ImportInfo[] {
+  const kind = getLoaderKind(nodePath);
+  const argument = nodePath.node.arguments[0];
+  if (!kind || !argument) {
+    return [];
+  }
+
+  const line = nodePath.node.loc?.start.line || 0;
+  const specifier = getStaticSpecifier(argument);
+  if (specifier === null) {
+    return createPatternImport(getStaticPrefix(argument), filePath, line);
+  }
+
+  if (isExternalModule(filePath, specifier)) {
+    return [];
+  }
+
+  const base = { from: specifier, file: filePath, line, dynamic: true };
+  // Mocks replace the module, none of its exports is used through them
+  if (kind === 'mock') {
+    return [{ ...base, name: '', type: 'side-effect' }];
+  }
+
+  const names = getUsedNames(nodePath);
+  if (!names) {
+    return [{ ...base, name: '*', type: 'namespace' }];
+  }
+  return names.map(name => ({
+    ...base,
+    name,
+    type: name === 'default' ? 'default' : 'named',
+  }));
+}
+
+function createPatternImport(
+  prefix: string,
+  filePath: string,
+  line: number
+): ImportInfo[] {
+  // A bare prefix such as `lodash/${name}` names a package
+  if (prefix && !prefix.startsWith('./') && !prefix.startsWith('../')) {
+    return [];
+  }
+  return [
+    {
+      name: '',
+      from: prefix,
+      file: filePath,
+      line,
+      type: 'side-effect',
+      dynamic: true,
+      pattern: `${prefix}*`,
+    },
+  ];
+}
+
+function getLoaderKind(
+  nodePath: NodePath<t.CallExpression>
+): LoaderKind | null {
+  const callee = nodePath.node.callee;
+  if (t.isImport(callee)) {
+    return 'import';
+  }
+  // A local function called require is not the module loader
+  if (
+    t.isIdentifier(callee, { name: 'require' }) &&
+    !nodePath.scope.hasBinding('require')
+  ) {
+    return 'require';
+  }
+  if (
+    t.isMemberExpression(callee) &&
+    t.isIdentifier(callee.object) &&
+    t.isIdentifier(callee.property) &&
+    !callee.computed
+  ) {
+    if (
+      callee.object.name === 'require' &&
+      callee.property.name === 'resolve'
+    ) {
+      return null;
+    }
+    if (MOCK_OBJECTS.has(callee.object.name)) {
+      if (MOCK_METHODS.has(callee.property.name)) {
+        return 'mock';
+      }
+      if (ACTUAL_METHODS.has(callee.property.name)) {
+        return 'require';
+      }
+    }
+  }
+  return null;
+}
+
+function getStaticSpecifier(argument: t.Node): string | null {
+  if (t.isStringLiteral(argument)) {
+    return argument.value;
+  }
+  if (t.isTemplateLiteral(argument) && argument.expressions.length === 0) {
+    return argument.quasis[0].value.cooked ?? null;
+  }
+  return null;
+}
+
+/**
+ * Leading text of a computed specifier: `./pages/${name}` and
+ * './pages/' + name both start with ./pages/
+ */
+function getStaticPrefix(argument: t.Node): string {
+  if (t.isTemplateLiteral(argument)) {
+    return argument.quasis[0].value.cooked || '';
+  }
+  if (t.isBinaryExpression(argument, { operator: '+' })) {
+    return t.isStringLiteral(argument.left)
+      ? argument.left.value
+      : getStaticPrefix(argument.left);
+  }
+  return '';
+}
+
+/**
+ * Names read from the loaded module, or null when the whole module may be
+ * used. React.lazy() renders the default export, destructuring and member
+ * access name what they read.
+ */
+function getUsedNames(nodePath: NodePath<t.CallExpression>): string[] | null {
+  if (isLazyComponent(nodePath)) {
+    return ['default'];
+  }
+
+  const loaded = nodePath.parentPath.isAwaitExpression()
+    ? nodePath.parentPath
+    : nodePath;
+  const parent = loaded.parent;
+
+  if (
+    t.isVariableDeclarator(parent) &&
+    parent.init === loaded.node &&
+    t.isObjectPattern(parent.id)
+  ) {
+    const names = parent.id.properties.map(property =>
+      t.isObjectProperty(property) &&
+      !property.computed &&
+      t.isIdentifier(property.key)
+        ? property.key.name
+        : null
+    );
+    return names.includes(null) ? null : (names as string[]);
+  }
+
+  if (
+    t.isMemberExpression(parent) &&
+    parent.object === loaded.node &&
+    !parent.computed &&
+    t.isIdentifier(parent.property)
+  ) {
+    return [parent.property.name];
+  }
+
+  return null;
+}
+
+/**
+ * Whether the call is `lazy(() => import('./x'))` or the same through
+ * React.lazy
+ */
+function isLazyComponent(nodePath: NodePath<t.CallExpression>): boolean {
+  const arrow = nodePath.parentPath;
+  if (!arrow.isArrowFunctionExpression() || arrow.node.body !== nodePath.node) {
+    return false;
+  }
+  const call = arrow.parent;
+  if (!t.isCallExpression(call)) {
+    return false;
+  }
+  return (
+    t.isIdentifier(call.callee, { name: 'lazy' }) ||
+    (t.isMemberExpression(call.callee) &&
+      t.isIdentifier(call.callee.property, { name: 'lazy' }))
+  );
+}
+
+/**
+ * Replace each computed specifier with side-effect imports of the analyzed
+ * files it may load. They keep the files reachable without marking any of
+ * their exports as used. A specifier without a static part may load any
+ * file next to or below the importing one.
+ */
+export function expandImportPatterns(
+  imports: ImportInfo[],
+  files: string[]
+): ImportInfo[] {
+  return imports.flatMap(imp => {
+    if (!imp.pattern) {
+      return [imp];
+    }
+
+    const directory = path.dirname(path.resolve(imp.file));
+    const prefix = imp.from
+      ? path.resolve(directory, imp.from) +
+        (/[\\/]$/.test(imp.from) ? path.sep : '')
+      : directory + path.sep;
+
+    return files
+      .map(file => path.resolve(file))
+      .filter(
+        file => file.startsWith(prefix) && file !== path.resolve(imp.file)
+      )
+      .map(file => ({
+        ...imp,
+        from: `./${path.relative(directory, file).split(path.sep).join('/')}`,
+      }));
+  });
+}
+
+/**
+ * Dead exports a computed import may still load keep being reported, with
+ * lower confidence and the import as a risk factor
+ */
+export function markDynamicallyLoaded(
+  deadExports: DeadExport[],
+  imports: ImportInfo[]
+): DeadExport[] {
+  const loadedBy = new Map<string, ImportInfo>();
+  imports
+    .filter(imp => imp.pattern)
+    .forEach(imp => {
+      const target = path.resolve(resolveModulePath(imp.file, imp.from));
+      if (!loadedBy.has(target)) {
+        loadedBy.set(target, imp);
+      }
+    });
+
+  return deadExports.map(deadExport => {
+    const imp = loadedBy.get(path.resolve(deadExport.file));
+    if (!imp) {
+      return deadExport;
+    }
+    return {
+      ...deadExport,
+      confidence: deadExport.confidence === 'high' ? 'medium' : 'low',
+      riskFactors: [
+        ...deadExport.riskFactors,
+        `May be loaded dynamically by '${imp.pattern}' in ${path.basename(imp.file)}:${imp.line}`,
+      ],
+    };
+  });
+}
@@ -32,7 +32,7 @@ export function generateEnhancedMarkdown(
 
   // Generate base markdown
   const baseMarkdown = generateMarkdown(parsedFile, {
-    includeComments: !options.noComments,
+    includeComments: options.comments !== false,
     businessContext: options.businessContext || options.aiEnhanced,
     usageExamples: options.usageExamples || options.aiEnhanced,
     architectureInsights: options.architectureInsights || options.aiEnhanced,
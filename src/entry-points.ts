@@ -0,0 +1,257 @@
+import { existsSync } from 'fs';
+import path from 'path';
+import { ExportInfo, ImportInfo } from './dead-code-types';
+import { findModuleFile, resolveModulePath } from './dependency-analyzer';
+import { getSourceCandidates, readPackageManifest } from './workspace-resolver';
+
+// Files run or loaded by tools rather than imported by the package
+const TOOLING_FILE =
+  /\.(test|spec)\.[cm]?[jt]sx?$|\.config\.[cm]?[jt]s$|\.d\.ts$/;
+
+export interface Reachability {
+  entryPoints: string[];
+  reachableFiles: Set<string>;
+  // Whether the file's package has an entry point, so reachability applies
+  isCovered(file: string): boolean;
+  isPublicExport(exp: ExportInfo): boolean;
+}
+
+export type ResolvedImport = ImportInfo & { target: string };
+
+/**
+ * Find the analyzed files that packages declare as entry points through
+ * package.json `main`, `module`, `source`, `types`, `exports` and `bin`,
+ * plus extra entries resolved from the working directory
+ */
+export function findEntryPoints(
+  files: string[],
+  extraEntries: string[] = []
+): string[] {
+  const analyzed = new Set(files.map(file => path.resolve(file)));
+  const entryPoints = new Set<string>();
+  const addFirstAnalyzed = (candidates: string[]): void => {
+    for (const candidate of candidates) {
+      const found = findModuleFile(candidate);
+      if (found && analyzed.has(path.resolve(found))) {
+        entryPoints.add(path.resolve(found));
+        return;
+      }
+    }
+  };
+
+  const cache = new Map<string, string | null>();
+  const packageDirs = new Set(
+    files.map(file => findPackageDirectory(file, cache))
+  );
+
+  packageDirs.forEach(packageDir => {
+    if (!packageDir) {
+      return;
+    }
+
+    const manifest = readPackageManifest(packageDir) || {};
+    const entries = [
+      manifest.main,
+      manifest.module,
+      manifest.source,
+      manifest.types || manifest.typings,
+      ...collectStrings(manifest.exports),
+      ...collectStrings(manifest.bin),
+    ].filter(entry => typeof entry === 'string' && !entry.includes('*'));
+
+    // Map each entry on its own so every build file finds its source
+    entries.forEach(entry =>
+      addFirstAnalyzed(getSourceCandidates(packageDir, [entry]))
+    );
+  });
+
+  extraEntries.forEach(entry => addFirstAnalyzed([path.resolve(entry)]));
+
+  return [...entryPoints].sort();
+}
+
+/**
+ * Walk the imports from the entry points. Every export of an entry point is
+ * public API, and so is whatever an entry re-exports from other modules.
+ * Framework files are walked from too, but their exports stay private.
+ */
+export function computeReachability(
+  entryPoints: string[],
+  imports: ImportInfo[],
+  frameworkFiles: string[] = []
+): Reachability {
+  const importsByFile = groupImportsByFile(imports);
+  const reExportsOf = (file: string): ResolvedImport[] =>
+    (importsByFile.get(file) || []).filter(imp => imp.isReExport);
+
+  const roots = [
+    ...new Set([...entryPoints, ...frameworkFiles.map(f => path.resolve(f))]),
+  ];
+  const reachableFiles = new Set(roots);
+  const queue = [...roots];
+  while (queue.length > 0) {
+    (importsByFile.get(queue.shift()!) || []).forEach(imp => {
+      if (!reachableFiles.has(imp.target)) {
+        reachableFiles.add(imp.target);
+        queue.push(imp.target);
+      }
+    });
+  }
+
+  const { publicFiles, publicNames } = collectPublicExports(
+    entryPoints,
+    reExportsOf
+  );
+
+  const cache = new Map<string, string | null>();
+  const coveredPackages = new Set(
+    roots.map(root => findPackageDirectory(root, cache))
+  );
+
+  return {
+    entryPoints,
+    reachableFiles,
+    isCovered: (file: string): boolean =>
+      coveredPackages.has(findPackageDirectory(file, cache)),
+    isPublicExport: (exp: ExportInfo): boolean => {
+      const file = path.resolve(exp.file);
+      return (
+        publicFiles.has(file) ||
+        publicNames.has(`${file}\0${exp.name}`) ||
+        (exp.isDefault && publicNames.has(`${file}\0default`))
+      );
+    },
+  };
+}
+
+/**
+ * Imports of each file with the module they resolve to, keyed by absolute
+ * path
+ */
+export function groupImportsByFile(
+  imports: ImportInfo[]
+): Map<string, ResolvedImport[]> {
+  const importsByFile = new Map<string, ResolvedImport[]>();
+  imports.forEach(imp => {
+    const file = path.resolve(imp.file);
+    const target = path.resolve(resolveModulePath(imp.file, imp.from));
+    if (!importsByFile.has(file)) {
+      importsByFile.set(file, []);
+    }
+    importsByFile.get(file)!.push({ ...imp, target });
+  });
+  return importsByFile;
+}
+
+/**
+ * Mark every export of the entry points as public, following re-exports
+ * into the modules they forward from. Files whose exports are all public go
+ * into publicFiles, single names into publicNames as `file\0name`.
+ */
+function collectPublicExports(
+  entryPoints: string[],
+  reExportsOf: (file: string) => ResolvedImport[]
+): { publicFiles: Set<string>; publicNames: Set<string> } {
+  const publicFiles = new Set<string>();
+  const publicNames = new Set<string>();
+
+  const markName = (file: string, name: string): void => {
+    const key = `${file}\0${name}`;
+    if (publicFiles.has(file) || publicNames.has(key)) {
+      return;
+    }
+    publicNames.add(key);
+    reExportsOf(file).forEach(imp => {
+      if (imp.exportedAs === name) {
+        markFile(imp.target, imp.type === 'namespace' ? undefined : imp.name);
+      } else if (imp.type === 'namespace' && !imp.exportedAs) {
+        // export * passes every name through
+        markName(imp.target, name);
+      }
+    });
+  };
+  const markFile = (file: string, name?: string): void => {
+    if (name !== undefined) {
+      markName(file, name);
+      return;
+    }
+    if (publicFiles.has(file)) {
+      return;
+    }
+    publicFiles.add(file);
+    reExportsOf(file).forEach(imp =>
+      markFile(imp.target, imp.type === 'namespace' ? undefined : imp.name)
+    );
+  };
+
+  entryPoints.forEach(entry => markFile(entry));
+  return { publicFiles, publicNames };
+}
+
+/**
+ * Whether reachability decides about the file: its package declares an
+ * entry point that does not reach it
+ */
+export function isUnreachable(
+  file: string,
+  reachability: Reachability
+): boolean {
+  return (
+    reachability.isCovered(file) &&
+    !reachability.reachableFiles.has(path.resolve(file))
+  );
+}
+
+/**
+ * Analyzed files that no entry point of their package reaches. Test, config
+ * and declaration files are loaded by tools and never count as unreachable.
+ */
+export function getUnreachableFiles(
+  files: string[],
+  reachability: Reachability
+): string[] {
+  return files.filter(
+    file =>
+      isUnreachable(file, reachability) &&
+      !TOOLING_FILE.test(path.basename(file))
+  );
+}
+
+/**
+ * Directory of the nearest package.json above a file, memoized per
+ * directory in the given cache
+ */
+export function findPackageDirectory(
+  file: string,
+  cache: Map<string, string | null>
+): string | null {
+  const visited: string[] = [];
+  let found: string | null = null;
+  for (let dir = path.dirname(path.resolve(file)); ; dir = path.dirname(dir)) {
+    if (cache.has(dir)) {
+      found = cache.get(dir) || null;
+      break;
+    }
+    visited.push(dir);
+    if (existsSync(path.join(dir, 'package.json'))) {
+      found = dir;
+      break;
+    }
+    if (path.dirname(dir) === dir) {
+      break;
+    }
+  }
+
+  visited.forEach(dir => cache.set(dir, found));
+  return found;
+}
+
+function collectStrings(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(collectStrings);
+  }
+  return [];
+}
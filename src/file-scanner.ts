@@ -1,8 +1,9 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { ScanResult } from './types';
+import { SFC_EXTENSIONS } from './sfc-extractor';
 
-const SUPPORTED_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+const SUPPORTED_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', ...SFC_EXTENSIONS];
 const IGNORED_DIRECTORIES = [
   'node_modules',
   'dist',
@@ -25,8 +26,16 @@ const IGNORED_FILE_PATTERNS = [
   '.bundle.',     // Bundle files
 ];
 
+const TEST_FILE_PATTERNS = ['.test.', '.spec.'];
+
+export interface ScanOptions {
+  // Keep .test. and .spec. files
+  includeTests?: boolean;
+}
+
 export async function scanDirectory(
-  directoryPath: string
+  directoryPath: string,
+  options: ScanOptions = {}
 ): Promise<ScanResult> {
   const absolutePath = path.resolve(directoryPath);
   const result: ScanResult = {
@@ -47,7 +56,7 @@ export async function scanDirectory(
   }
 
   try {
-    const files = await scanDirectoryRecursive(absolutePath);
+    const files = await scanDirectoryRecursive(absolutePath, options);
     result.files = files;
     result.totalFound = files.length;
   } catch (error) {
@@ -57,7 +66,10 @@ export async function scanDirectory(
   return result;
 }
 
-async function scanDirectoryRecursive(dirPath: string): Promise<string[]> {
+async function scanDirectoryRecursive(
+  dirPath: string,
+  options: ScanOptions
+): Promise<string[]> {
   const foundFiles: string[] = [];
 
   try {
@@ -69,12 +81,15 @@ async function scanDirectoryRecursive(dirPath: string): Promise<string[]> {
       if (entry.isDirectory()) {
         // Skip ignored directories
         if (!shouldIgnoreDirectory(entry.name)) {
-          const subFiles = await scanDirectoryRecursive(fullPath);
+          const subFiles = await scanDirectoryRecursive(fullPath, options);
           foundFiles.push(...subFiles);
         }
       } else if (entry.isFile()) {
         // Check if file has supported extension and is not ignored
-        if (isSupportedFile(entry.name) && !shouldIgnoreFile(entry.name)) {
+        if (
+          isSupportedFile(entry.name) &&
+          !shouldIgnoreFile(entry.name, options)
+        ) {
           foundFiles.push(fullPath);
         }
       }
@@ -89,7 +104,27 @@ async function scanDirectoryRecursive(dirPath: string): Promise<string[]> {
   return foundFiles;
 }
 
-function isSupportedFile(fileName: string): boolean {
+/**
+ * Whether scanning a directory finds the file at this path, relative to
+ * the scanned directory
+ */
+export function isScannedPath(
+  relativePath: string,
+  options: ScanOptions = {}
+): boolean {
+  const directories = relativePath.split(/[\\/]/);
+  const fileName = directories.pop() || '';
+  return (
+    !directories.some(shouldIgnoreDirectory) &&
+    isSupportedFile(fileName) &&
+    !shouldIgnoreFile(fileName, options)
+  );
+}
+
+/**
+ * Whether a file has an extension the scanner picks up
+ */
+export function isSupportedFile(fileName: string): boolean {
   const extension = path.extname(fileName).toLowerCase();
   return SUPPORTED_EXTENSIONS.includes(extension);
 }
@@ -98,9 +133,12 @@ function shouldIgnoreDirectory(dirName: string): boolean {
   return IGNORED_DIRECTORIES.includes(dirName) || dirName.startsWith('.');
 }
 
-function shouldIgnoreFile(fileName: string): boolean {
+function shouldIgnoreFile(fileName: string, options: ScanOptions): boolean {
   // Check against ignored patterns
   for (const pattern of IGNORED_FILE_PATTERNS) {
+    if (options.includeTests && TEST_FILE_PATTERNS.includes(pattern)) {
+      continue;
+    }
     if (fileName.includes(pattern)) {
       return true;
     }
@@ -0,0 +1,292 @@
+/**
+ * Framework conventions for dead code analysis
+ * Frameworks load route files, stories, configs and decorated classes
+ * without any import. Each preset declares those files and exports, and is
+ * enabled by the package.json dependencies of the package or by .m2jsrc.
+ */
+
+import path from 'path';
+import { ExportInfo, FrameworkConvention } from './dead-code-types';
+import { findPackageDirectory } from './entry-points';
+import { globToRegExp } from './glob';
+import { readPackageManifest } from './workspace-resolver';
+
+export interface FrameworkPreset {
+  name: string;
+  // Packages that enable the preset, `@scope/` for any package of a scope
+  dependencies: string[];
+  conventions: FrameworkConvention[];
+}
+
+export interface FrameworkConventions {
+  frameworks: string[]; // Presets enabled for at least one file
+  files: string[]; // Analyzed files a framework loads
+  isUsed(exp: ExportInfo): boolean;
+}
+
+const SCRIPT = '{js,jsx,ts,tsx,mjs,cjs}';
+
+const NEXT_ROUTE_EXPORTS = [
+  'default',
+  'metadata',
+  'generateMetadata',
+  'viewport',
+  'generateViewport',
+  'generateStaticParams',
+  'generateImageMetadata',
+  'generateSitemaps',
+  'revalidate',
+  'dynamic',
+  'dynamicParams',
+  'fetchCache',
+  'runtime',
+  'preferredRegion',
+  'maxDuration',
+  'alt',
+  'size',
+  'contentType',
+  'GET',
+  'HEAD',
+  'POST',
+  'PUT',
+  'DELETE',
+  'PATCH',
+  'OPTIONS',
+];
+
+const REMIX_ROUTE_EXPORTS = [
+  'default',
+  'loader',
+  'action',
+  'meta',
+  'links',
+  'headers',
+  'handle',
+  'ErrorBoundary',
+  'HydrateFallback',
+  'Layout',
+  'clientLoader',
+  'clientAction',
+  'shouldRevalidate',
+];
+
+export const FRAMEWORK_PRESETS: FrameworkPreset[] = [
+  {
+    name: 'nextjs',
+    dependencies: ['next'],
+    conventions: [
+      {
+        files: [`{src/,}pages/**/*.${SCRIPT}`],
+        exports: [
+          'default',
+          'getServerSideProps',
+          'getStaticProps',
+          'getStaticPaths',
+          'getInitialProps',
+          'config',
+          'reportWebVitals',
+        ],
+      },
+      {
+        files: [
+          `{src/,}app/**/{page,layout,template,loading,error,global-error,not-found,default,route,opengraph-image,twitter-image,icon,apple-icon,sitemap,robots,manifest}.${SCRIPT}`,
+        ],
+        exports: NEXT_ROUTE_EXPORTS,
+      },
+      {
+        files: [`{src/,}{middleware,instrumentation}.${SCRIPT}`],
+        exports: ['default', 'middleware', 'config', 'register'],
+      },
+      { files: [`next.config.${SCRIPT}`] },
+    ],
+  },
+  {
+    name: 'remix',
+    dependencies: ['@remix-run/'],
+    conventions: [
+      {
+        files: [`app/root.${SCRIPT}`, `app/routes/**/*.${SCRIPT}`],
+        exports: REMIX_ROUTE_EXPORTS,
+      },
+      { files: [`app/entry.{client,server}.${SCRIPT}`] },
+      { files: [`remix.config.${SCRIPT}`] },
+    ],
+  },
+  {
+    name: 'nestjs',
+    dependencies: ['@nestjs/core'],
+    conventions: [
+      {
+        decorators: [
+          'Module',
+          'Controller',
+          'Injectable',
+          'Resolver',
+          'Catch',
+          'WebSocketGateway',
+        ],
+      },
+    ],
+  },
+  {
+    name: 'storybook',
+    dependencies: ['storybook', '@storybook/'],
+    conventions: [
+      { files: [`**/*.stories.${SCRIPT}`, `.storybook/**/*.${SCRIPT}`] },
+    ],
+  },
+  {
+    name: 'jest',
+    dependencies: ['jest'],
+    conventions: [
+      {
+        files: [
+          `**/{jest.config,jest.setup,setupTests}.${SCRIPT}`,
+          `**/__mocks__/**/*.${SCRIPT}`,
+        ],
+      },
+    ],
+  },
+];
+
+/**
+ * Resolve the conventions that apply to each analyzed file. The `auto`
+ * framework enables the presets a package depends on, other names enable
+ * presets for every package. Custom conventions always apply.
+ */
+export function resolveFrameworkConventions(
+  files: string[],
+  options: { frameworks?: string[]; conventions?: FrameworkConvention[] } = {}
+): FrameworkConventions {
+  const presetsOf = createPresetResolver(options.frameworks || ['auto']);
+  const cache = new Map<string, string | null>();
+
+  const enabled = new Set<string>();
+  const frameworkFiles: string[] = [];
+  const conventionsByFile = new Map<string, FrameworkConvention[]>();
+  files.forEach(file => {
+    const packageDir = findPackageDirectory(file, cache);
+    const presets = presetsOf(packageDir);
+    const relative = toPosix(
+      path.relative(packageDir || process.cwd(), path.resolve(file))
+    );
+
+    const matched = [
+      ...presets.flatMap(preset =>
+        preset.conventions.map(convention => ({ preset, convention }))
+      ),
+      ...(options.conventions || []).map(convention => ({
+        preset: null,
+        convention,
+      })),
+    ].filter(({ convention }) => matchesFiles(convention, relative));
+
+    matched.forEach(({ preset }) => preset && enabled.add(preset.name));
+    if (matched.some(({ convention }) => convention.files)) {
+      frameworkFiles.push(file);
+    }
+    conventionsByFile.set(
+      path.resolve(file),
+      matched.map(({ convention }) => convention)
+    );
+  });
+
+  return {
+    frameworks: [...enabled].sort(),
+    files: frameworkFiles,
+    isUsed: (exp: ExportInfo): boolean =>
+      (conventionsByFile.get(path.resolve(exp.file)) || []).some(convention =>
+        usesExport(convention, exp)
+      ),
+  };
+}
+
+/**
+ * Presets of each package directory: the configured ones, plus those it
+ * depends on with `auto`
+ */
+function createPresetResolver(
+  requested: string[]
+): (packageDir: string | null) => FrameworkPreset[] {
+  const configured = requested
+    .filter(name => name !== 'auto')
+    .map(name => {
+      const preset = FRAMEWORK_PRESETS.find(p => p.name === name);
+      if (!preset) {
+        const known = FRAMEWORK_PRESETS.map(p => p.name).join(', ');
+        throw new Error(`Unknown framework preset: ${name} (known: ${known})`);
+      }
+      return preset;
+    });
+
+  const presetsByPackage = new Map<string | null, FrameworkPreset[]>();
+  return (packageDir: string | null): FrameworkPreset[] => {
+    if (!presetsByPackage.has(packageDir)) {
+      const detected = requested.includes('auto')
+        ? detectPresets(packageDir)
+        : [];
+      presetsByPackage.set(packageDir, [
+        ...new Set([...configured, ...detected]),
+      ]);
+    }
+    return presetsByPackage.get(packageDir)!;
+  };
+}
+
+function detectPresets(packageDir: string | null): FrameworkPreset[] {
+  const manifest = packageDir ? readPackageManifest(packageDir) : null;
+  if (!manifest) {
+    return [];
+  }
+
+  const dependencies = Object.keys({
+    ...manifest.dependencies,
+    ...manifest.devDependencies,
+    ...manifest.peerDependencies,
+  });
+  return FRAMEWORK_PRESETS.filter(preset =>
+    preset.dependencies.some(wanted =>
+      dependencies.some(dependency =>
+        wanted.endsWith('/')
+          ? dependency.startsWith(wanted)
+          : dependency === wanted
+      )
+    )
+  );
+}
+
+function matchesFiles(
+  convention: FrameworkConvention,
+  relative: string
+): boolean {
+  return (
+    !convention.files ||
+    convention.files.some(glob => compileGlob(glob).test(relative))
+  );
+}
+
+function usesExport(convention: FrameworkConvention, exp: ExportInfo): boolean {
+  if (convention.decorators) {
+    return (exp.decorators || []).some(decorator =>
+      convention.decorators!.includes(decorator)
+    );
+  }
+  return (
+    !convention.exports ||
+    convention.exports.includes(exp.name) ||
+    (exp.isDefault && convention.exports.includes('default'))
+  );
+}
+
+const compiledGlobs = new Map<string, RegExp>();
+
+function compileGlob(glob: string): RegExp {
+  if (!compiledGlobs.has(glob)) {
+    compiledGlobs.set(glob, globToRegExp(glob));
+  }
+  return compiledGlobs.get(glob)!;
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
@@ -7,44 +7,373 @@ import {
   ParsedFunction,
   ParsedClass,
   ParsedMethod,
+  ParsedInterface,
+  ParsedTypeAlias,
+  ParsedEnum,
+  ParsedJSDoc,
   Parameter,
+  ApiSurface,
+  ApiSymbol,
   GeneratorOptions,
   DependencyGraph,
   DependencyRelationship,
   GraphOptions,
+  PackageGraph,
 } from './types';
 import path from 'path';
+import { resolveModulePath } from './dependency-analyzer';
 
 const DEFAULT_OPTIONS: GeneratorOptions = {
-  includeComments: false,
+  includeComments: true,
+  detailLevel: 'full',
 };
 
+/**
+ * What each declaration renders, resolved from GeneratorOptions
+ */
+interface RenderOptions {
+  docs: 'none' | 'summary' | 'full';
+  // Parameter and return lists, and per-method sections of classes
+  details: boolean;
+}
+
+function resolveRenderOptions(options: GeneratorOptions): RenderOptions {
+  const detailLevel = options.detailLevel || 'full';
+  const includeComments = options.includeComments !== false;
+
+  return {
+    docs:
+      !includeComments || detailLevel === 'signatures'
+        ? 'none'
+        : detailLevel === 'summary'
+          ? 'summary'
+          : 'full',
+    details: detailLevel !== 'signatures',
+  };
+}
+
 export function generateMarkdown(
   parsedFile: ParsedFile,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  _options: GeneratorOptions = DEFAULT_OPTIONS
+  options: GeneratorOptions = DEFAULT_OPTIONS
 ): string {
-  // Note: _options parameter reserved for future includeComments feature
+  const render = resolveRenderOptions(options);
   const sections: string[] = [];
 
   sections.push(generateEnhancedHeader(parsedFile));
   sections.push(generateExportsSection(parsedFile));
 
   if (parsedFile.functions.length > 0) {
-    sections.push(generateFunctionsSection(parsedFile.functions));
+    sections.push(generateFunctionsSection(parsedFile.functions, render));
   }
 
   if (parsedFile.classes.length > 0) {
-    sections.push(generateClassesSection(parsedFile.classes));
+    sections.push(generateClassesSection(parsedFile.classes, render));
+  }
+
+  const interfaces = parsedFile.interfaces || [];
+  const typeAliases = parsedFile.typeAliases || [];
+  const enums = parsedFile.enums || [];
+
+  if (interfaces.length > 0) {
+    sections.push(generateInterfacesSection(interfaces, render));
+  }
+
+  if (typeAliases.length > 0) {
+    sections.push(generateTypeAliasesSection(typeAliases, render));
+  }
+
+  if (enums.length > 0) {
+    sections.push(generateEnumsSection(enums, render));
   }
 
-  if (parsedFile.functions.length === 0 && parsedFile.classes.length === 0) {
+  if (!hasAnyExports(parsedFile)) {
     sections.push('No exported functions or classes found.');
   }
 
   return sections.join('\n\n');
 }
 
+/**
+ * One-line description of a file: its header and the names it exports
+ */
+export function generateFileSummaryMarkdown(parsedFile: ParsedFile): string {
+  const names = [
+    ...parsedFile.functions.map(func =>
+      func.isDefault ? 'default()' : `${func.name}()`
+    ),
+    ...parsedFile.classes.map(cls => cls.name),
+    ...(parsedFile.interfaces || []).map(iface => iface.name),
+    ...(parsedFile.typeAliases || []).map(alias => alias.name),
+    ...(parsedFile.enums || []).map(enumDecl => enumDecl.name),
+  ];
+  const exportsLine =
+    names.length > 0
+      ? `**Exports:** ${names.map(name => `\`${name}\``).join(', ')}`
+      : 'No exported functions or classes found.';
+
+  return [generateEnhancedHeader(parsedFile), exportsLine].join('\n\n');
+}
+
+const API_SECTIONS: Array<[ApiSymbol['kind'], string, string]> = [
+  ['function', 'Functions', 'function'],
+  ['class', 'Classes', 'class'],
+  ['interface', 'Interfaces', 'interface'],
+  ['type', 'Types', 'type alias'],
+  ['enum', 'Enums', 'enum'],
+];
+
+/**
+ * Generate a single document for the public API reachable from the entry
+ * files, attributing each symbol to the file that defines it
+ */
+export function generateApiMarkdown(
+  surface: ApiSurface,
+  options: GeneratorOptions = DEFAULT_OPTIONS
+): string {
+  const render = resolveRenderOptions(options);
+  const sections: string[] = [];
+  const entryNames = surface.entryFiles.map(entry =>
+    toDisplayPath(entry, surface.rootDir)
+  );
+
+  sections.push(`# Package API: ${escapeMarkdown(entryNames.join(', '))}`);
+
+  const overview: string[] = ['## Exports'];
+  overview.push(`- **Entry points**: ${entryNames.join(', ')}`);
+  API_SECTIONS.forEach(([kind, label, noun]) => {
+    const count = surface.symbols.filter(s => s.kind === kind).length;
+    if (count > 0) {
+      const plural =
+        count === 1 ? '' : noun.endsWith('s') || noun === 'class' ? 'es' : 's';
+      overview.push(`- **${label}**: ${count} exported ${noun}${plural}`);
+    }
+  });
+  const sourceFiles = new Set(surface.symbols.map(s => s.filePath));
+  overview.push(`- **Source files**: ${sourceFiles.size}`);
+  sections.push(overview.join('\n'));
+
+  API_SECTIONS.forEach(([kind, label]) => {
+    const symbols = surface.symbols.filter(s => s.kind === kind);
+    if (symbols.length > 0) {
+      sections.push(
+        [
+          `## ${label}`,
+          ...symbols.map(symbol =>
+            generateApiSymbolMarkdown(symbol, surface.rootDir, render)
+          ),
+        ].join('\n\n')
+      );
+    }
+  });
+
+  if (surface.externalReExports.length > 0) {
+    const external: string[] = ['## Re-exported Modules'];
+    surface.externalReExports.forEach(({ fromFile, reExport }) => {
+      const names =
+        reExport.kind === 'named'
+          ? reExport.specifiers.map(spec => spec.exported).join(', ')
+          : reExport.kind === 'namespace'
+            ? `* as ${reExport.namespace}`
+            : '*';
+      external.push(
+        `- \`${reExport.source}\`: ${names} (from ${toDisplayPath(fromFile, surface.rootDir)})`
+      );
+    });
+    sections.push(external.join('\n'));
+  }
+
+  if (surface.symbols.length === 0) {
+    sections.push('No exported API found.');
+  }
+
+  return sections.join('\n\n');
+}
+
+function generateApiSymbolMarkdown(
+  symbol: ApiSymbol,
+  rootDir: string,
+  render: RenderOptions
+): string {
+  let markdown: string;
+  switch (symbol.kind) {
+    case 'function':
+      markdown = generateFunctionMarkdown(
+        {
+          ...symbol.declaration,
+          name: symbol.name,
+          isDefault: symbol.name === 'default',
+        },
+        render
+      );
+      break;
+    case 'class':
+      markdown = generateClassMarkdown(
+        { ...symbol.declaration, name: symbol.name },
+        render
+      );
+      break;
+    case 'interface':
+      markdown = generateInterfaceMarkdown(
+        { ...symbol.declaration, name: symbol.name },
+        render
+      );
+      break;
+    case 'type':
+      markdown = generateTypeAliasMarkdown(
+        { ...symbol.declaration, name: symbol.name },
+        render
+      );
+      break;
+    case 'enum':
+      markdown = generateEnumMarkdown(
+        { ...symbol.declaration, name: symbol.name },
+        render
+      );
+      break;
+  }
+
+  const location = `\`${toDisplayPath(symbol.filePath, rootDir)}\``;
+  const alias =
+    symbol.localName !== symbol.name ? ` as \`${symbol.localName}\`` : '';
+  const [heading, ...rest] = markdown.split('\n');
+
+  const spacer = rest[0] === '' ? [] : [''];
+
+  return [heading, `*Defined in ${location}${alias}*`, ...spacer, ...rest].join(
+    '\n'
+  );
+}
+
+function toDisplayPath(filePath: string, rootDir: string): string {
+  return path.relative(rootDir, filePath).split(path.sep).join('/');
+}
+
+/**
+ * Generate one document for a directory: table of contents, file tree, the
+ * per-file documentation in the given order and an optional dependency
+ * summary
+ */
+export function generateProjectMarkdown(
+  rootDir: string,
+  modules: Array<{ filePath: string; markdown: string }>,
+  dependencyMarkdown?: string
+): string {
+  const displayPaths = modules.map(({ filePath }) =>
+    toDisplayPath(filePath, rootDir)
+  );
+  const sections: string[] = [
+    `# Project: ${escapeMarkdown(path.basename(rootDir))}`,
+  ];
+
+  const tocLines = [
+    '## Table of Contents',
+    '- [File Tree](#file-tree)',
+    '- [Modules](#modules)',
+    ...displayPaths.map(
+      displayPath =>
+        `  - [${escapeMarkdown(displayPath)}](#${toAnchor(displayPath)})`
+    ),
+  ];
+  if (dependencyMarkdown) {
+    tocLines.push('- [Dependencies](#dependencies)');
+  }
+  sections.push(tocLines.join('\n'));
+
+  sections.push(
+    ['## File Tree', '```text', generateFileTree(displayPaths), '```'].join(
+      '\n'
+    )
+  );
+
+  sections.push(
+    ['## Modules', '*Each module comes after the modules it imports.*'].join(
+      '\n\n'
+    )
+  );
+  modules.forEach(({ markdown }, index) => {
+    // The module header names the file relative to the project root
+    const [, ...body] = shiftHeadings(markdown, 2).split('\n');
+    sections.push(
+      [`### ${escapeMarkdown(displayPaths[index])}`, ...body].join('\n')
+    );
+  });
+
+  if (dependencyMarkdown) {
+    const [, ...body] = shiftHeadings(dependencyMarkdown, 1).split('\n');
+    sections.push(['## Dependencies', ...body].join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Render relative file paths as an indented tree
+ */
+function generateFileTree(displayPaths: string[]): string {
+  interface TreeNode {
+    children: Map<string, TreeNode>;
+  }
+  const root: TreeNode = { children: new Map() };
+
+  [...displayPaths].sort().forEach(displayPath => {
+    let node = root;
+    displayPath.split('/').forEach(segment => {
+      const child = node.children.get(segment) || { children: new Map() };
+      node.children.set(segment, child);
+      node = child;
+    });
+  });
+
+  const lines: string[] = [];
+  const walk = (node: TreeNode, prefix: string): void => {
+    const entries = [...node.children];
+    entries.forEach(([name, child], index) => {
+      const isLast = index === entries.length - 1;
+      const isDirectory = child.children.size > 0;
+      lines.push(
+        `${prefix}${isLast ? '└── ' : '├── '}${name}${isDirectory ? '/' : ''}`
+      );
+      walk(child, `${prefix}${isLast ? '    ' : '│   '}`);
+    });
+  };
+  walk(root, '');
+
+  return lines.join('\n');
+}
+
+/**
+ * Nest a standalone document under another heading, leaving code blocks
+ * untouched
+ */
+function shiftHeadings(markdown: string, levels: number): string {
+  let inFence = false;
+
+  return markdown
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('```')) {
+        inFence = !inFence;
+      }
+      const heading = !inFence ? /^(#{1,6}) /.exec(line) : null;
+      if (!heading) {
+        return line;
+      }
+      const level = Math.min(heading[1].length + levels, 6);
+      return `${'#'.repeat(level)}${line.slice(heading[1].length)}`;
+    })
+    .join('\n');
+}
+
+/**
+ * GitHub-style heading anchor
+ */
+function toAnchor(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\- ]/g, '')
+    .replace(/ /g, '-');
+}
+
 function generateEnhancedHeader(parsedFile: ParsedFile): string {
   // Try to show relative path from current working directory, fallback to absolute
   const cwd = process.cwd();
@@ -80,6 +409,18 @@ function generateExportsSection(parsedFile: ParsedFile): string {
     );
   }
 
+  const typeCounts: Array<[number | undefined, string, string]> = [
+    [exportMetadata.totalInterfaces, 'Interfaces', 'interface'],
+    [exportMetadata.totalTypes, 'Types', 'type alias'],
+    [exportMetadata.totalEnums, 'Enums', 'enum'],
+  ];
+  typeCounts.forEach(([count, label, noun]) => {
+    if (count && count > 0) {
+      const plural = count === 1 ? '' : noun.endsWith('s') ? 'es' : 's';
+      sections.push(`- **${label}**: ${count} exported ${noun}${plural}`);
+    }
+  });
+
   // Add default export information
   if (exportMetadata.hasDefaultExport) {
     const exportType = exportMetadata.defaultExportType;
@@ -88,25 +429,38 @@ function generateExportsSection(parsedFile: ParsedFile): string {
   }
 
   // If no exports found
-  if (
-    exportMetadata.totalFunctions === 0 &&
-    exportMetadata.totalClasses === 0
-  ) {
+  if (!hasAnyExports(parsedFile)) {
     sections.push('- No exported functions or classes found');
   }
 
   return sections.join('\n');
 }
 
-function generateFunctionsSection(functions: ParsedFunction[]): string {
+/**
+ * Check whether the file exposes anything worth documenting
+ */
+export function hasAnyExports(parsedFile: ParsedFile): boolean {
+  return (
+    parsedFile.functions.length > 0 ||
+    parsedFile.classes.length > 0 ||
+    (parsedFile.interfaces || []).length > 0 ||
+    (parsedFile.typeAliases || []).length > 0 ||
+    (parsedFile.enums || []).length > 0
+  );
+}
+
+function generateFunctionsSection(
+  functions: ParsedFunction[],
+  render: RenderOptions
+): string {
   const sections: string[] = ['## Functions'];
 
   // Use compact format for utility files with many simple functions
   if (shouldUseCompactFormat(functions)) {
-    sections.push(generateCompactFunctionsTable(functions));
+    sections.push(generateCompactFunctionsTable(functions, render));
   } else {
     functions.forEach(func => {
-      sections.push(generateFunctionMarkdown(func));
+      sections.push(generateFunctionMarkdown(func, render));
     });
   }
 
@@ -138,7 +492,10 @@ function shouldUseCompactFormat(functions: ParsedFunction[]): boolean {
 /**
  * Generates a compact table format for utility functions
  */
-function generateCompactFunctionsTable(functions: ParsedFunction[]): string {
+function generateCompactFunctionsTable(
+  functions: ParsedFunction[],
+  render: RenderOptions
+): string {
   const sections: string[] = [];
 
   sections.push('| Function | Parameters | Returns | Description |');
@@ -153,7 +510,7 @@ function generateCompactFunctionsTable(functions: ParsedFunction[]): string {
 
     // Extract first line of JSDoc as description
     let description = 'Utility function';
-    if (func.jsDoc) {
+    if (func.jsDoc && render.docs !== 'none') {
       // Try multiple patterns to extract description
       const patterns = [
         /\/\*\*\s*\n?\s*\*\s*(.+?)(?:\n|\*\/)/, // Standard JSDoc
@@ -193,20 +550,28 @@ function generateCompactFunctionsTable(functions: ParsedFunction[]): string {
   return sections.join('\n');
 }
 
-function generateFunctionMarkdown(func: ParsedFunction): string {
+function generateFunctionMarkdown(
+  func: ParsedFunction,
+  render: RenderOptions
+): string {
   const sections: string[] = [];
 
   const displayName = func.isDefault ? 'default' : func.name;
   sections.push(`### ${escapeMarkdown(displayName)}`);
 
-  if (func.jsDoc) {
-    sections.push(func.jsDoc);
+  const docsIntro = generateDocsIntro(func.jsDoc, func.docs, render);
+  if (docsIntro) {
+    sections.push(docsIntro);
     sections.push('');
   }
 
   // Add hierarchical parameters section
-  const paramsList = generateParametersList(func.params);
-  const returnType = generateReturnType(func.returnType);
+  const paramsList = render.details
+    ? generateParametersList(func.params, func.docs, render)
+    : '';
+  const returnType = render.details
+    ? generateReturnType(func.returnType, func.docs, render)
+    : '';
 
   // Add empty line after function name if we have params or return type
   if (paramsList || returnType) {
@@ -223,10 +588,17 @@ function generateFunctionMarkdown(func: ParsedFunction): string {
     sections.push('');
   }
 
+  // Overloads are the callable API, the implementation signature is not
   sections.push('```typescript');
-  sections.push(func.signature);
+  sections.push(...(func.overloads || [func.signature]));
   sections.push('```');
 
+  const docsDetails = generateDocsDetails(func.docs, render);
+  if (docsDetails) {
+    sections.push('');
+    sections.push(docsDetails);
+  }
+
   return sections.join('\n');
 }
 
@@ -243,54 +615,91 @@ function escapeMarkdown(text: string): string {
     .replace(/\)/g, '\\)');
 }
 
-function generateClassesSection(classes: ParsedClass[]): string {
+function generateClassesSection(
+  classes: ParsedClass[],
+  render: RenderOptions
+): string {
   const sections: string[] = ['## Classes'];
 
   classes.forEach(cls => {
-    sections.push(generateClassMarkdown(cls));
+    sections.push(generateClassMarkdown(cls, render));
   });
 
   return sections.join('\n\n');
 }
 
-function generateClassMarkdown(cls: ParsedClass): string {
+function generateClassMarkdown(
+  cls: ParsedClass,
+  render: RenderOptions
+): string {
   const sections: string[] = [];
 
   sections.push(`### ${escapeMarkdown(cls.name)}`);
 
-  if (cls.jsDoc) {
-    sections.push(cls.jsDoc);
+  const docsIntro = generateDocsIntro(cls.jsDoc, cls.docs, render);
+  if (docsIntro) {
+    sections.push(docsIntro);
+    sections.push('');
+  }
+
+  // Add hierarchical properties and methods overview
+  const propertiesList = generatePropertiesList(cls);
+  if (propertiesList) {
+    sections.push(propertiesList);
     sections.push('');
   }
 
-  // Add hierarchical methods overview
   const methodsList = generateMethodsList(cls.methods);
   if (methodsList) {
     sections.push(methodsList);
     sections.push('');
   }
 
-  // Generate class signature with public methods only
+  // Generate class signature with public members only
   const publicMethods = cls.methods.filter(method => !method.isPrivate);
+  const memberSignatures = [
+    ...(cls.properties || [])
+      .filter(property => property.visibility !== 'private')
+      .filter(property => !property.isParameterProperty)
+      .map(property => property.signature),
+    ...(cls.constructorMethod && !cls.constructorMethod.isPrivate
+      ? [cls.constructorMethod.signature]
+      : []),
+    ...(cls.accessors || [])
+      .filter(accessor => accessor.visibility !== 'private')
+      .map(accessor => accessor.signature),
+    ...publicMethods.flatMap(method => method.overloads || [method.signature]),
+  ];
+  const classHeader =
+    cls.signature ||
+    `export ${cls.isAbstract ? 'abstract class' : 'class'} ${cls.name}`;
 
   sections.push('```typescript');
-  if (publicMethods.length > 0) {
-    sections.push(`export class ${cls.name} {`);
-    publicMethods.forEach(method => {
-      sections.push(`  ${method.signature}`);
+  if (memberSignatures.length > 0) {
+    sections.push(`${classHeader} {`);
+    memberSignatures.forEach(signature => {
+      sections.push(`  ${signature}`);
     });
     sections.push('}');
   } else {
-    sections.push(`export class ${cls.name} {}`);
+    sections.push(`${classHeader} {}`);
   }
   sections.push('```');
 
+  const docsDetails = generateDocsDetails(cls.docs, render);
+  if (docsDetails) {
+    sections.push('');
+    sections.push(docsDetails);
+  }
+
   // Only generate individual method docs for classes with few methods
   // For utility classes, the class signature is sufficient
-  if (publicMethods.length <= 4) {
+  if (!render.details) {
+    // Signatures-only output stops at the class signature
+  } else if (publicMethods.length <= 4) {
     publicMethods.forEach(method => {
       sections.push('');
-      sections.push(generateMethodMarkdown(method));
+      sections.push(generateMethodMarkdown(method, render));
     });
   } else {
     sections.push('');
@@ -300,19 +709,23 @@ function generateClassMarkdown(cls: ParsedClass): string {
   return sections.join('\n');
 }
 
-function generateMethodMarkdown(method: ParsedMethod): string {
+function generateMethodMarkdown(
+  method: ParsedMethod,
+  render: RenderOptions
+): string {
   const sections: string[] = [];
 
   sections.push(`#### ${escapeMarkdown(method.name)}`);
 
-  if (method.jsDoc) {
-    sections.push(method.jsDoc);
+  const docsIntro = generateDocsIntro(method.jsDoc, method.docs, render);
+  if (docsIntro) {
+    sections.push(docsIntro);
     sections.push('');
   }
 
   // Add hierarchical parameters section
-  const paramsList = generateParametersList(method.params);
-  const returnType = generateReturnType(method.returnType);
+  const paramsList = generateParametersList(method.params, method.docs, render);
+  const returnType = generateReturnType(method.returnType, method.docs, render);
 
   // Add empty line after method name if we have params or return type
   if (paramsList || returnType) {
@@ -330,17 +743,170 @@ function generateMethodMarkdown(method: ParsedMethod): string {
   }
 
   sections.push('```typescript');
-  sections.push(method.signature);
+  sections.push(...(method.overloads || [method.signature]));
   sections.push('```');
 
+  const docsDetails = generateDocsDetails(method.docs, render);
+  if (docsDetails) {
+    sections.push('');
+    sections.push(docsDetails);
+  }
+
   return sections.join('\n');
 }
 
-function generateParametersList(params: Parameter[]): string {
+function generateInterfacesSection(
+  interfaces: ParsedInterface[],
+  render: RenderOptions
+): string {
+  const sections: string[] = ['## Interfaces'];
+
+  interfaces.forEach(iface => {
+    sections.push(generateInterfaceMarkdown(iface, render));
+  });
+
+  return sections.join('\n\n');
+}
+
+function generateInterfaceMarkdown(
+  iface: ParsedInterface,
+  render: RenderOptions
+): string {
+  const sections: string[] = [];
+
+  sections.push(`### ${escapeMarkdown(iface.name)}`);
+
+  const docsIntro = generateDocsIntro(iface.jsDoc, iface.docs, render);
+  if (docsIntro) {
+    sections.push(docsIntro);
+    sections.push('');
+  }
+
+  sections.push('```typescript');
+  if (iface.members.length > 0) {
+    sections.push(`${iface.signature} {`);
+    iface.members.forEach(member => {
+      const summary =
+        render.docs !== 'none' ? getJSDocSummary(member.jsDoc) : undefined;
+      if (summary) {
+        sections.push(`  /** ${summary} */`);
+      }
+      sections.push(`  ${member.signature};`);
+    });
+    sections.push('}');
+  } else {
+    sections.push(`${iface.signature} {}`);
+  }
+  sections.push('```');
+
+  return sections.join('\n');
+}
+
+function generateTypeAliasesSection(
+  typeAliases: ParsedTypeAlias[],
+  render: RenderOptions
+): string {
+  const sections: string[] = ['## Types'];
+
+  typeAliases.forEach(alias => {
+    sections.push(generateTypeAliasMarkdown(alias, render));
+  });
+
+  return sections.join('\n\n');
+}
+
+function generateTypeAliasMarkdown(
+  alias: ParsedTypeAlias,
+  render: RenderOptions
+): string {
+  const aliasSections: string[] = [`### ${escapeMarkdown(alias.name)}`];
+
+  const docsIntro = generateDocsIntro(alias.jsDoc, alias.docs, render);
+  if (docsIntro) {
+    aliasSections.push(docsIntro);
+    aliasSections.push('');
+  }
+
+  aliasSections.push('```typescript');
+  aliasSections.push(alias.signature);
+  aliasSections.push('```');
+
+  return aliasSections.join('\n');
+}
+
+function generateEnumsSection(
+  enums: ParsedEnum[],
+  render: RenderOptions
+): string {
+  const sections: string[] = ['## Enums'];
+
+  enums.forEach(enumDecl => {
+    sections.push(generateEnumMarkdown(enumDecl, render));
+  });
+
+  return sections.join('\n\n');
+}
+
+function generateEnumMarkdown(
+  enumDecl: ParsedEnum,
+  render: RenderOptions
+): string {
+  const enumSections: string[] = [`### ${escapeMarkdown(enumDecl.name)}`];
+
+  const docsIntro = generateDocsIntro(enumDecl.jsDoc, enumDecl.docs, render);
+  if (docsIntro) {
+    enumSections.push(docsIntro);
+    enumSections.push('');
+  }
+
+  enumSections.push('```typescript');
+  enumSections.push(`${enumDecl.signature} {`);
+  enumDecl.members.forEach(member => {
+    const summary =
+      render.docs !== 'none' ? getJSDocSummary(member.jsDoc) : undefined;
+    if (summary) {
+      enumSections.push(`  /** ${summary} */`);
+    }
+    const value = member.value !== undefined ? ` = ${member.value}` : '';
+    enumSections.push(`  ${member.name}${value},`);
+  });
+  enumSections.push('}');
+  enumSections.push('```');
+
+  return enumSections.join('\n');
+}
+
+/**
+ * Extract the first descriptive line of a JSDoc block
+ */
+function getJSDocSummary(jsDoc?: string): string | undefined {
+  if (!jsDoc) {
+    return undefined;
+  }
+
+  const firstLine = jsDoc
+    .replace(/^\/\*\*|\*\/$/g, '')
+    .split('\n')
+    .map(line => line.replace(/^\s*\*\s?/, '').trim())
+    .find(line => line.length > 0 && !line.startsWith('@'));
+
+  return firstLine;
+}
+
+function generateParametersList(
+  params: Parameter[],
+  docs: ParsedJSDoc | undefined,
+  render: RenderOptions
+): string {
   if (params.length === 0) {
     return '';
   }
 
+  const documented = docs?.params.filter(param => param.description) || [];
+  if (documented.length > 0 && render.docs === 'full') {
+    return generateParametersTable(params, docs!);
+  }
+
   const sections: string[] = ['**Parameters:**'];
   params.forEach(param => {
     const optional = param.optional ? '?' : '';
@@ -351,12 +917,128 @@ function generateParametersList(params: Parameter[]): string {
   return sections.join('\n');
 }
 
-function generateReturnType(returnType?: string): string {
+function generateParametersTable(
+  params: Parameter[],
+  docs: ParsedJSDoc
+): string {
+  const sections: string[] = [
+    '**Parameters:**',
+    '',
+    '| Name | Type | Description |',
+    '| --- | --- | --- |',
+  ];
+
+  params.forEach(param => {
+    const tag = docs.params.find(doc => doc.name === param.name);
+    const optional = param.optional ? '?' : '';
+    const type = param.type || tag?.type || 'unknown';
+    const defaultValue = tag?.defaultValue
+      ? ` (default: \`${tag.defaultValue}\`)`
+      : '';
+    const description = `${tag?.description || ''}${defaultValue}`;
+    sections.push(
+      `| ${param.name}${optional} | \`${escapeTableCell(type)}\` | ${escapeTableCell(description)} |`
+    );
+  });
+
+  return sections.join('\n');
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function generateReturnType(
+  returnType: string | undefined,
+  docs: ParsedJSDoc | undefined,
+  render: RenderOptions
+): string {
+  const description =
+    docs?.returns && render.docs === 'full' ? ` - ${docs.returns}` : '';
   if (!returnType) {
+    return description ? `**Returns:**${description}` : '';
+  }
+
+  return `**Returns:** ${returnType}${description}`;
+}
+
+/**
+ * Deprecation banner and summary, or the raw comment when it was not parsed
+ */
+function generateDocsIntro(
+  jsDoc: string | undefined,
+  docs: ParsedJSDoc | undefined,
+  render: RenderOptions
+): string {
+  if (render.docs === 'none') {
     return '';
   }
 
-  return `**Returns:** ${returnType}`;
+  if (render.docs === 'summary') {
+    const summary = docs
+      ? docs.summary.split(/\n\s*\n/)[0].replace(/\n/g, ' ')
+      : getJSDocSummary(jsDoc);
+    const banner = docs?.deprecated !== undefined ? '> **Deprecated**' : '';
+    return [banner, summary].filter(Boolean).join('\n\n');
+  }
+
+  if (!docs) {
+    return jsDoc || '';
+  }
+
+  const sections: string[] = [];
+  if (docs.deprecated !== undefined) {
+    sections.push(
+      docs.deprecated
+        ? `> **Deprecated:** ${docs.deprecated.replace(/\n/g, ' ')}`
+        : '> **Deprecated**'
+    );
+  }
+  if (docs.summary) {
+    if (sections.length > 0) sections.push('');
+    sections.push(docs.summary);
+  }
+
+  return sections.join('\n');
+}
+
+/**
+ * Tags rendered after the signature: throws, examples, see and since
+ */
+function generateDocsDetails(
+  docs: ParsedJSDoc | undefined,
+  render: RenderOptions
+): string {
+  if (!docs || render.docs !== 'full') {
+    return '';
+  }
+
+  const sections: string[] = [];
+
+  if (docs.throws.length > 0) {
+    sections.push('**Throws:**');
+    docs.throws.forEach(text => sections.push(`- ${text.replace(/\n/g, ' ')}`));
+    sections.push('');
+  }
+
+  docs.examples.forEach(example => {
+    sections.push('**Example:**');
+    sections.push('```typescript');
+    sections.push(example);
+    sections.push('```');
+    sections.push('');
+  });
+
+  if (docs.see.length > 0) {
+    sections.push(`**See:** ${docs.see.join(', ')}`);
+    sections.push('');
+  }
+
+  if (docs.since) {
+    sections.push(`**Since:** ${docs.since}`);
+  }
+
+  return sections.join('\n').trim();
 }
 
 function generateMethodsList(methods: ParsedMethod[]): string {
@@ -374,16 +1056,40 @@ function generateMethodsList(methods: ParsedMethod[]): string {
   return sections.join('\n');
 }
 
+function generatePropertiesList(cls: ParsedClass): string {
+  const names = [
+    ...(cls.properties || [])
+      .filter(property => property.visibility !== 'private')
+      .map(property => property.name),
+    ...(cls.accessors || [])
+      .filter(accessor => accessor.visibility !== 'private')
+      .map(accessor => accessor.name),
+  ];
+  const uniqueNames = Array.from(new Set(names));
+
+  if (uniqueNames.length === 0) {
+    return '';
+  }
+
+  const sections: string[] = ['**Properties:**'];
+  uniqueNames.forEach(name => {
+    sections.push(`- ${name}`);
+  });
+
+  return sections.join('\n');
+}
+
 export function getOutputPath(
   inputPath: string,
-  customOutput?: string
+  customOutput?: string,
+  extension = '.md'
 ): string {
   if (customOutput) {
     return customOutput;
   }
 
   const parsedPath = path.parse(inputPath);
-  return path.join(parsedPath.dir, `${parsedPath.name}.md`);
+  return path.join(parsedPath.dir, `${parsedPath.name}${extension}`);
 }
 
 // === DEPENDENCY GRAPH MARKDOWN GENERATION ===
@@ -400,6 +1106,11 @@ export function generateDependencyMarkdown(
   // Header with project info
   sections.push(generateGraphHeader(graph));
 
+  // Package layer of a workspace
+  if (graph.packageGraph) {
+    sections.push(generatePackageSection(graph.packageGraph, options));
+  }
+
   // Module dependencies
   sections.push(generateModuleDependencies(graph));
 
@@ -441,6 +1152,64 @@ function generateGraphHeader(graph: DependencyGraph): string {
   return `# Dependency Analysis - ${escapeMarkdown(displayPath)}`;
 }
 
+/**
+ * Generate the package-level view of a workspace: packages, the imports
+ * between them and boundary violations
+ */
+function generatePackageSection(
+  packageGraph: PackageGraph,
+  options: GraphOptions
+): string {
+  const sections: string[] = ['## Packages'];
+
+  sections.push('| Package | Path | Files | Depends on |');
+  sections.push('|---------|------|-------|------------|');
+  packageGraph.packages.forEach(pkg => {
+    const dependsOn = packageGraph.dependencies
+      .filter(dependency => dependency.from === pkg.name)
+      .map(
+        dependency => `${escapeMarkdown(dependency.to)} (${dependency.imports})`
+      );
+    sections.push(
+      `| ${escapeMarkdown(pkg.name)} | ${path.relative(packageGraph.workspaceRoot, pkg.path)} | ${pkg.files.length} | ${dependsOn.join(', ') || '-'} |`
+    );
+  });
+
+  if (options.includeMermaid && packageGraph.dependencies.length > 0) {
+    const ids = new Map(
+      packageGraph.packages.map((pkg, index) => [pkg.name, `pkg${index}`])
+    );
+    sections.push('');
+    sections.push('```mermaid');
+    sections.push('graph LR');
+    packageGraph.packages.forEach(pkg => {
+      sections.push(`    ${ids.get(pkg.name)}["${pkg.name}"]`);
+    });
+    packageGraph.dependencies.forEach(dependency => {
+      sections.push(
+        `    ${ids.get(dependency.from)} --> ${ids.get(dependency.to)}`
+      );
+    });
+    sections.push('```');
+  }
+
+  if (packageGraph.boundaryViolations.length > 0) {
+    sections.push('');
+    sections.push('### Package Boundary Violations');
+    packageGraph.boundaryViolations.forEach(violation => {
+      const reason =
+        violation.reason === 'relative-import'
+          ? 'reaches into the package with a relative path'
+          : `\`${violation.toPackage}\` is not declared in package.json`;
+      sections.push(
+        `- **${escapeMarkdown(path.relative(packageGraph.workspaceRoot, violation.file))}** imports \`${violation.specifier}\` - ${reason}`
+      );
+    });
+  }
+
+  return sections.join('\n');
+}
+
 /**
  * Generate module dependencies section
  */
@@ -689,9 +1458,12 @@ function generateMermaidDiagram(graph: DependencyGraph): string {
   internalEdges.forEach(edge => {
     const fromNode = nodeMap.get(edge.from);
 
-    // Resolve relative paths to absolute paths for mapping
-    let resolvedToPath = edge.to;
-    if (edge.to.startsWith('./') || edge.to.startsWith('../')) {
+    // Resolve specifiers to file paths for mapping, tsconfig aliases included
+    let resolvedToPath = resolveModulePath(edge.from, edge.to);
+    if (
+      !nodeMap.has(resolvedToPath) &&
+      (edge.to.startsWith('./') || edge.to.startsWith('../'))
+    ) {
       try {
         resolvedToPath = path.resolve(path.dirname(edge.from), edge.to);
         // Add common file extensions if missing
@@ -7,7 +7,9 @@ import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import { tmpdir } from 'os';
+import { isSupportedFile } from './file-scanner';
 import { GitComparisonOptions, GitFileChange } from './graph-diff-types';
+import { GitFileChurn } from './hotspot-types';
 
 /**
  * Git integration class for handling repository operations
@@ -91,9 +93,9 @@ export class GitIntegrator {
 
       let files = result.trim().split('\n').filter(f => f.length > 0);
       
-      // Filter by TypeScript/JavaScript files
+      // Filter by the files a directory scan picks up
       files = files.filter(file => 
-        /\.(ts|tsx|js|jsx)$/.test(file) && 
+        isSupportedFile(file) && 
         !file.includes('node_modules') &&
         !file.includes('.d.ts')
       );
@@ -127,8 +129,9 @@ export class GitIntegrator {
    */
   getFileContentAtRef(filePath: string, ref: string): string {
     try {
+      // `./` makes the path relative to the analyzed directory, not the repository root
       const relativePath = path.relative(this.repoPath, filePath);
-      const result = execSync(`git show ${ref}:${relativePath}`, {
+      const result = execSync(`git show ${ref}:./${relativePath}`, {
         cwd: this.repoPath,
         encoding: 'utf8',
         stdio: 'pipe'
@@ -140,6 +143,63 @@ export class GitIntegrator {
     }
   }
 
+  /**
+   * Get the blob hash of every file of the repository at a specific git
+   * reference, keyed by the same paths getFilesAtRef returns. Files outside
+   * the analyzed directory are included, such as a tsconfig.json at the
+   * repository root.
+   */
+  getBlobsAtRef(ref: string): Map<string, string> {
+    try {
+      const rootPath = path.resolve(
+        this.repoPath,
+        execSync('git rev-parse --show-cdup', {
+          cwd: this.repoPath,
+          encoding: 'utf8',
+          stdio: 'pipe',
+        }).trim()
+      );
+      const result = execSync(`git ls-tree -r --full-tree ${ref}`, {
+        cwd: this.repoPath,
+        encoding: 'utf8',
+        stdio: 'pipe',
+        maxBuffer: 64 * 1024 * 1024,
+      });
+
+      const blobs = new Map<string, string>();
+      for (const line of result.split('\n')) {
+        // <mode> SP <type> SP <hash> TAB <path>
+        const match = /^\d+ blob ([0-9a-f]+)\t(.+)$/.exec(line);
+        if (match) {
+          blobs.set(path.join(rootPath, match[2]), match[1]);
+        }
+      }
+      return blobs;
+    } catch (error) {
+      throw new Error(
+        `Failed to get blobs at ref ${ref}: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Get the content of a blob by its hash
+   */
+  getBlobContent(hash: string): string {
+    try {
+      return execSync(`git cat-file blob ${hash}`, {
+        cwd: this.repoPath,
+        encoding: 'utf8',
+        stdio: 'pipe',
+        maxBuffer: 64 * 1024 * 1024,
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to read blob ${hash}: ${(error as Error).message}`
+      );
+    }
+  }
+
   /**
    * Create temporary directory with files from a git reference
    */
@@ -232,6 +292,84 @@ export class GitIntegrator {
     }
   }
 
+  /**
+   * Get commits and lines changed per file below the repository path,
+   * optionally since a date such as "6 months ago"
+   */
+  getFileChurn(since?: string): Map<string, GitFileChurn> {
+    try {
+      const sinceArg = since ? ` --since="${since.replace(/"/g, '')}"` : '';
+      const result = execSync(
+        `git log --numstat --no-renames --relative --format=%H${sinceArg}`,
+        {
+          cwd: this.repoPath,
+          encoding: 'utf8',
+          stdio: 'pipe',
+          maxBuffer: 256 * 1024 * 1024,
+        }
+      );
+
+      // Each commit lists every file it changed once: added, deleted, path
+      const churn = new Map<string, GitFileChurn>();
+      for (const line of result.split('\n')) {
+        const parts = line.split('\t');
+        if (parts.length !== 3) {
+          continue;
+        }
+        const [linesAdded, linesDeleted, filePath] = parts;
+        const fullPath = path.join(this.repoPath, filePath);
+        const entry = churn.get(fullPath) || {
+          commits: 0,
+          linesAdded: 0,
+          linesDeleted: 0,
+        };
+
+        // Binary files report '-' instead of line counts
+        entry.commits++;
+        entry.linesAdded += linesAdded === '-' ? 0 : parseInt(linesAdded, 10);
+        entry.linesDeleted +=
+          linesDeleted === '-' ? 0 : parseInt(linesDeleted, 10);
+        churn.set(fullPath, entry);
+      }
+
+      return churn;
+    } catch (error) {
+      throw new Error(`Failed to read churn: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get the commits of a range such as "v1.0.0..HEAD", oldest first,
+   * following first parents only
+   */
+  getCommitsInRange(
+    range: string
+  ): Array<{ hash: string; date: string; message: string }> {
+    try {
+      const result = execSync(
+        `git log --reverse --first-parent --format=%H%x09%cI%x09%s ${range}`,
+        {
+          cwd: this.repoPath,
+          encoding: 'utf8',
+          stdio: 'pipe',
+          maxBuffer: 64 * 1024 * 1024,
+        }
+      );
+
+      return result
+        .split('\n')
+        .filter(line => line.length > 0)
+        .map(line => {
+          const [hash, date, ...message] = line.split('\t');
+          return { hash, date, message: message.join('\t') };
+        });
+    } catch (error) {
+      throw new Error(
+        `Failed to list commits of ${range}: ${(error as Error).message}`
+      );
+    }
+  }
+
   /**
    * Get list of recent commits
    */
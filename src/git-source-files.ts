@@ -0,0 +1,94 @@
+/**
+ * Source files of a git reference
+ * Reads the blobs of a commit in memory instead of checking them out, and
+ * parses each blob once however many references share it
+ */
+
+import path from 'path';
+import { isScannedPath } from './file-scanner';
+import { GitIntegrator } from './git-integrator';
+import { SourceFiles } from './types';
+
+// Git's hash of empty content, a checkout would skip writing these files
+const EMPTY_BLOB = 'e69de29bb2d1d6434b8b29ae775ad8c2e48c5391';
+
+// Parse results kept across references, the least recently used go first
+const MAX_PARSE_RESULTS = 20000;
+
+// Blobs never change, so parse results outlive the reference they came from
+const parseResults = new Map<string, unknown>();
+
+/**
+ * The files of a git reference, with paths inside the repository as if the
+ * reference was checked out there
+ */
+export class GitSourceFiles implements SourceFiles {
+  /** Files a directory scan of the checked out reference would find */
+  readonly files: string[];
+  private git: GitIntegrator;
+  private blobs = new Map<string, string>();
+  private directories?: Map<string, Set<string>>;
+
+  constructor(git: GitIntegrator, ref: string, projectPath: string) {
+    this.git = git;
+
+    for (const [file, hash] of git.getBlobsAtRef(ref)) {
+      if (hash !== EMPTY_BLOB) {
+        this.blobs.set(path.resolve(file), hash);
+      }
+    }
+
+    this.files = Array.from(this.blobs.keys()).filter(file => {
+      const relativePath = path.relative(path.resolve(projectPath), file);
+      return !relativePath.startsWith('..') && isScannedPath(relativePath);
+    });
+  }
+
+  isFile(file: string): boolean {
+    return this.blobs.has(path.resolve(file));
+  }
+
+  readFile(file: string): string {
+    const hash = this.blobs.get(path.resolve(file));
+    if (!hash) {
+      throw new Error(`File not found at the git reference: ${file}`);
+    }
+    return this.git.getBlobContent(hash);
+  }
+
+  listDirectories(directory: string): string[] {
+    if (!this.directories) {
+      this.directories = new Map();
+      for (const file of this.blobs.keys()) {
+        for (
+          let dir = path.dirname(file);
+          path.dirname(dir) !== dir;
+          dir = path.dirname(dir)
+        ) {
+          const siblings = this.directories.get(path.dirname(dir)) || new Set();
+          this.directories.set(path.dirname(dir), siblings.add(dir));
+        }
+      }
+    }
+    return Array.from(this.directories.get(path.resolve(directory)) || []);
+  }
+
+  /**
+   * Parse results are keyed by blob hash and path, so files left unchanged
+   * between references are only read and parsed the first time
+   */
+  parse<T>(file: string, kind: string, parse: (content: string) => T): T {
+    const hash = this.blobs.get(path.resolve(file));
+    const key = `${kind}\0${hash}\0${path.resolve(file)}`;
+    const result = parseResults.has(key)
+      ? (parseResults.get(key) as T)
+      : parse(this.readFile(file));
+
+    parseResults.delete(key);
+    parseResults.set(key, result);
+    if (parseResults.size > MAX_PARSE_RESULTS) {
+      parseResults.delete(parseResults.keys().next().value as string);
+    }
+    return result;
+  }
+}
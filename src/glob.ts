@@ -0,0 +1,39 @@
+/**
+ * Glob matching
+ * Shared by the framework presets, architecture rules and duplicate code
+ * ignore patterns, which all match slash-separated relative paths
+ */
+
+/**
+ * Convert a glob with `**`, `*`, `?` and `{a,b}` to a regular expression
+ * over slash-separated paths
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i)) {
+      pattern += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      pattern += '.*';
+      i += 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      pattern += '(?:';
+      braces++;
+    } else if (char === '}' && braces > 0) {
+      pattern += ')';
+      braces--;
+    } else if (char === ',' && braces > 0) {
+      pattern += '|';
+    } else {
+      pattern += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
@@ -3,11 +3,23 @@
  * Compare architectural states and detect problematic changes
  */
 
-import * as path from 'path';
 import { GitIntegrator } from './git-integrator';
+import { GitSourceFiles } from './git-source-files';
 import { analyzeDependencies } from './dependency-analyzer';
 import { scanDirectory } from './file-scanner';
-import { GraphMetrics as ExistingGraphMetrics } from './types';
+import { ConfigLoader } from './config-loader';
+import {
+  checkArchitecture,
+  getArchitectureLayers,
+} from './architecture-rules-analyzer';
+import { ArchitectureRules } from './architecture-rules-types';
+import { computeModuleMetrics, rankHotspots } from './hotspot-analyzer';
+import { SnapshotStore } from './snapshot-store';
+import {
+  DependencyGraph as ExistingDependencyGraph,
+  GraphMetrics as ExistingGraphMetrics,
+  SourceFiles,
+} from './types';
 import {
   GraphDiffOptions,
   GraphDiffReport,
@@ -21,7 +33,6 @@ import {
   ChangeCategory,
   ChangeImpact,
   DependencyChange,
-  DependencyGraph,
 } from './graph-diff-types';
 
 /**
@@ -41,11 +52,16 @@ export async function analyzeGraphDiff(
     const baselineRef = git.resolveRef(options.baseline);
     const currentRef = options.current ? git.resolveRef(options.current) : 'working-directory';
     
-    console.log(`Comparing ${options.baseline} → ${currentRef || 'current'}`);
+    const log = options.format === 'json' ? console.error : console.log;
+    log(`Comparing ${options.baseline} → ${currentRef || 'current'}`);
     
-    // Create snapshots for both states
-    const baselineSnapshot = await createGraphSnapshot(projectPath, git, baselineRef);
-    const currentSnapshot = await createCurrentSnapshot(projectPath, git, currentRef);
+    // Both states are checked against the same architecture rules
+    const rules = ConfigLoader.loadConfig(projectPath).architecture;
+    
+    // Create snapshots for both states, commits are only analyzed once
+    const store = new SnapshotStore(projectPath);
+    const baselineSnapshot = await getCommitSnapshot(projectPath, git, baselineRef, rules, store);
+    const currentSnapshot = await createCurrentSnapshot(projectPath, git, currentRef, rules, store);
     
     // Analyze differences
     const changes = detectArchitecturalChanges(baselineSnapshot, currentSnapshot);
@@ -82,56 +98,74 @@ export async function analyzeGraphDiff(
 }
 
 /**
- * Create a graph snapshot for a specific git reference
+ * Get the graph snapshot of a commit from the snapshot store, taking and
+ * storing it when missing
+ */
+export async function getCommitSnapshot(
+  projectPath: string,
+  git: GitIntegrator,
+  commit: string,
+  rules: ArchitectureRules,
+  store: SnapshotStore
+): Promise<GraphSnapshot> {
+  const stored = store.load(commit, rules);
+  if (stored) {
+    return stored;
+  }
+  
+  const snapshot = await createGraphSnapshot(projectPath, git, commit, rules);
+  store.save(commit, snapshot, rules);
+  return snapshot;
+}
+
+/**
+ * Create a graph snapshot for a specific git reference, reading its files
+ * from git rather than checking them out
  */
 async function createGraphSnapshot(
   projectPath: string,
   git: GitIntegrator,
-  ref: string
+  ref: string,
+  rules: ArchitectureRules
 ): Promise<GraphSnapshot> {
-  let workspace: string | null = null;
+  const sources = new GitSourceFiles(git, ref, projectPath);
   
-  try {
-    // Create temporary workspace with files from the reference
-    workspace = await git.createTempWorkspace(ref);
-    
-    // Scan for TypeScript/JavaScript files
-    const scanResult = await scanDirectory(workspace);
-    
-    if (scanResult.files.length === 0) {
-      return {
-        timestamp: new Date(),
-        gitRef: ref,
-        dependencyGraph: {
-          projectPath: workspace,
-          nodes: [],
-          edges: [],
-          metrics: createEmptyMetrics(),
-        },
-        metrics: createEmptyMetrics(),
-        files: [],
-      };
-    }
-    
-    // Analyze dependencies
-    const dependencyGraph = analyzeDependencies(scanResult.files, {
-      includeExternalDeps: true,
-      detectCircular: true,
-    });
-    
+  if (sources.files.length === 0) {
     return {
       timestamp: new Date(),
       gitRef: ref,
-      dependencyGraph,
-      metrics: adaptGraphMetrics(dependencyGraph.metrics),
-      files: scanResult.files,
+      dependencyGraph: {
+        projectPath,
+        nodes: [],
+        edges: [],
+        metrics: createEmptyMetrics(),
+      },
+      metrics: createEmptyMetrics(),
+      files: [],
+      violations: [],
     };
-  } finally {
-    // Cleanup workspace
-    if (workspace) {
-      git.cleanupWorkspace(workspace);
-    }
   }
+  
+  // Analyze dependencies, only blobs not seen before are parsed
+  const dependencyGraph = analyzeDependencies(sources.files, {
+    includeExternalDeps: true,
+    detectCircular: true,
+    sources,
+  });
+  
+  return {
+    timestamp: new Date(),
+    gitRef: ref,
+    dependencyGraph,
+    files: sources.files,
+    ...analyzeSnapshot(
+      dependencyGraph,
+      sources.files,
+      rules,
+      projectPath,
+      sources
+    ),
+  };
 }
 
 /**
@@ -140,7 +174,9 @@ async function createGraphSnapshot(
 async function createCurrentSnapshot(
   projectPath: string,
   git: GitIntegrator,
-  ref: string
+  ref: string,
+  rules: ArchitectureRules,
+  store: SnapshotStore
 ): Promise<GraphSnapshot> {
   // If ref is working-directory, analyze current files
   if (ref === 'working-directory') {
@@ -158,6 +194,7 @@ async function createCurrentSnapshot(
         },
         metrics: createEmptyMetrics(),
         files: [],
+        violations: [],
       };
     }
     
@@ -170,15 +207,55 @@ async function createCurrentSnapshot(
       timestamp: new Date(),
       gitRef: 'working-directory',
       dependencyGraph,
-      metrics: adaptGraphMetrics(dependencyGraph.metrics),
       files: scanResult.files,
+      ...analyzeSnapshot(
+        dependencyGraph,
+        scanResult.files,
+        rules,
+        projectPath
+      ),
     };
   } else {
     // Use git snapshot for specific ref
-    return createGraphSnapshot(projectPath, git, ref);
+    return getCommitSnapshot(projectPath, git, ref, rules, store);
   }
 }
 
+/**
+ * Metrics, hotspots and architecture rule violations of a snapshot
+ */
+function analyzeSnapshot(
+  dependencyGraph: ExistingDependencyGraph,
+  files: string[],
+  rules: ArchitectureRules,
+  rootDir: string,
+  sources?: SourceFiles
+): Pick<GraphSnapshot, 'metrics' | 'violations'> {
+  const violations = checkArchitecture(
+    dependencyGraph.edges,
+    rules,
+    rootDir,
+    sources
+  );
+  const layers = getArchitectureLayers(files, rules, rootDir)
+    .filter(layer => layer.files > 0)
+    .map(layer => layer.name);
+  
+  // Ranked on coupling alone, churn would favor whichever state is older
+  const hotspots = rankHotspots(
+    computeModuleMetrics(dependencyGraph, rootDir, undefined, sources)
+  ).map(hotspot => hotspot.file);
+  
+  return {
+    metrics: adaptGraphMetrics(dependencyGraph.metrics, {
+      hotspots,
+      layers,
+      layerViolations: violations.length,
+    }),
+    violations,
+  };
+}
+
 /**
  * Detect architectural changes between two snapshots
  */
@@ -420,7 +497,7 @@ function detectExternalDependencyChanges(
 }
 
 /**
- * Detect layer violation changes (simplified heuristic)
+ * Detect imports that start or stop breaking the architecture rules
  */
 function detectLayerViolationChanges(
   baseline: GraphSnapshot,
@@ -429,12 +506,13 @@ function detectLayerViolationChanges(
 ): ArchitecturalChange[] {
   const changes: ArchitecturalChange[] = [];
   
-  // Simple heuristic: detect UI → DB direct connections (bypassing service layer)
-  const baseViolations = detectLayerViolations(baseline.dependencyGraph);
-  const currentViolations = detectLayerViolations(current.dependencyGraph);
+  // Violation paths are relative to the snapshot root, so both states compare
+  const introduced = diffViolations(current.violations, baseline.violations);
+  const resolved = diffViolations(baseline.violations, current.violations);
   
-  if (currentViolations > baseViolations) {
-    const increase = currentViolations - baseViolations;
+  if (introduced.length > 0) {
+    const increase = introduced.length;
+    const files = [...new Set(introduced.map(v => v.from))];
     changes.push({
       id: `change-${startId}`,
       type: 'layer-violation-introduced',
@@ -442,12 +520,13 @@ function detectLayerViolationChanges(
       category: 'architecture',
       description: `${increase} new layer ${increase === 1 ? 'violation' : 'violations'} introduced`,
       details: {
-        before: baseViolations,
-        after: currentViolations,
-        modules: [],
+        before: baseline.violations.length,
+        after: current.violations.length,
+        modules: files,
         metrics: { increase },
+        violations: introduced,
       },
-      affected: [],
+      affected: files,
       impact: {
         riskLevel: 'high',
         maintainability: -3 * increase,
@@ -460,9 +539,62 @@ function detectLayerViolationChanges(
     });
   }
   
+  if (resolved.length > 0) {
+    const id = `change-${startId + changes.length}`;
+    changes.push(createViolationsResolved(id, baseline, current, resolved));
+  }
+  
   return changes;
 }
 
+function createViolationsResolved(
+  id: string,
+  baseline: GraphSnapshot,
+  current: GraphSnapshot,
+  resolved: GraphSnapshot['violations']
+): ArchitecturalChange {
+  const decrease = resolved.length;
+  const files = [...new Set(resolved.map(v => v.from))];
+  return {
+    id,
+    type: 'layer-violation-resolved',
+    severity: 'low',
+    category: 'architecture',
+    description: `${decrease} layer ${decrease === 1 ? 'violation' : 'violations'} resolved`,
+    details: {
+      before: baseline.violations.length,
+      after: current.violations.length,
+      modules: files,
+      metrics: { decrease },
+      violations: resolved,
+    },
+    affected: files,
+    impact: {
+      riskLevel: 'low',
+      maintainability: 3 * decrease,
+      performance: 0,
+      testability: 2 * decrease,
+      overallScore: 5 * decrease,
+      reasoning:
+        'Respecting layer boundaries keeps concerns separated and code easier to change',
+      affectedAreas: ['architecture', 'maintainability'],
+    },
+  };
+}
+
+/**
+ * Violations of the first list that are not in the second
+ */
+function diffViolations(
+  violations: GraphSnapshot['violations'],
+  others: GraphSnapshot['violations']
+): GraphSnapshot['violations'] {
+  const key = (v: GraphSnapshot['violations'][number]): string =>
+    `${v.type}\0${v.from}\0${v.to}\0${v.message}`;
+  const otherKeys = new Set(others.map(key));
+  return violations.filter(v => !otherKeys.has(key(v)));
+}
+
 /**
  * Detect hotspot changes (modules with high coupling)
  */
@@ -473,11 +605,14 @@ function detectHotspotChanges(
 ): ArchitecturalChange[] {
   const changes: ArchitecturalChange[] = [];
   
-  const baseHotspots = baseline.metrics.hotspots?.length || 0;
-  const currentHotspots = current.metrics.hotspots?.length || 0;
+  // Hotspot paths are relative to the snapshot root, so both states compare
+  const baseHotspots = baseline.metrics.hotspots || [];
+  const currentHotspots = current.metrics.hotspots || [];
+  const created = currentHotspots.filter(h => !baseHotspots.includes(h));
+  const resolved = baseHotspots.filter(h => !currentHotspots.includes(h));
   
-  if (currentHotspots > baseHotspots) {
-    const increase = currentHotspots - baseHotspots;
+  if (created.length > 0) {
+    const increase = created.length;
     changes.push({
       id: `change-${startId}`,
       type: 'hotspot-created',
@@ -487,10 +622,10 @@ function detectHotspotChanges(
       details: {
         before: baseHotspots,
         after: currentHotspots,
-        modules: current.metrics.hotspots || [],
+        modules: created,
         metrics: { increase },
       },
-      affected: current.metrics.hotspots || [],
+      affected: created,
       impact: {
         riskLevel: 'medium',
         maintainability: -2 * increase,
@@ -503,9 +638,47 @@ function detectHotspotChanges(
     });
   }
   
+  if (resolved.length > 0) {
+    const id = `change-${startId + changes.length}`;
+    changes.push(createHotspotsResolved(id, baseHotspots, currentHotspots, resolved));
+  }
+  
   return changes;
 }
 
+function createHotspotsResolved(
+  id: string,
+  baseHotspots: string[],
+  currentHotspots: string[],
+  resolved: string[]
+): ArchitecturalChange {
+  const decrease = resolved.length;
+  return {
+    id,
+    type: 'hotspot-resolved',
+    severity: 'low',
+    category: 'complexity',
+    description: `${decrease} complexity ${decrease === 1 ? 'hotspot' : 'hotspots'} resolved`,
+    details: {
+      before: baseHotspots,
+      after: currentHotspots,
+      modules: resolved,
+      metrics: { decrease },
+    },
+    affected: resolved,
+    impact: {
+      riskLevel: 'low',
+      maintainability: 2 * decrease,
+      performance: 0,
+      testability: 2 * decrease,
+      overallScore: 4 * decrease,
+      reasoning:
+        'Less coupled modules are easier to understand, test, and change',
+      affectedAreas: ['maintainability', 'testability'],
+    },
+  };
+}
+
 /**
  * Detect architecture layer changes
  */
@@ -549,28 +722,6 @@ function detectArchitectureLayerChanges(
   return changes;
 }
 
-/**
- * Simple heuristic to detect layer violations
- */
-function detectLayerViolations(graph: DependencyGraph): number {
-  let violations = 0;
-  
-  for (const edge of graph.edges) {
-    const fromPath = edge.from;
-    const toPath = edge.to;
-    
-    // Detect UI → DB violations (bypassing service layer)
-    if (
-      (fromPath.includes('/components/') || fromPath.includes('/ui/')) &&
-      (toPath.includes('/database/') || toPath.includes('/db/') || toPath.includes('/models/'))
-    ) {
-      violations++;
-    }
-  }
-  
-  return violations;
-}
-
 /**
  * Calculate impact summary
  */
@@ -632,7 +783,7 @@ function calculateImpactSummary(
 /**
  * Calculate health score (0-100) based on metrics
  */
-function calculateHealthScore(metrics: GraphMetrics): number {
+export function calculateHealthScore(metrics: GraphMetrics): number {
   let score = 100;
   
   // Penalize circular dependencies
@@ -735,10 +886,10 @@ function generateRecommendations(
       title: 'Fix Layer Violations',
       description: 'New architectural layer violations detected.',
       actions: [
-        'Review direct connections between UI and database layers',
-        'Ensure all data access goes through service layer',
+        'Review the imports reported for each violation',
+        'Route them through the layers and public APIs the rules allow',
         'Implement proper abstractions and interfaces',
-        'Set up architectural linting rules'
+        'Run m2js --check-architecture in CI to catch new violations'
       ],
       addresses: layerChanges.map(c => c.id),
       effort: 'medium',
@@ -749,7 +900,9 @@ function generateRecommendations(
   // Positive changes
   const positiveChanges = changes.filter(c => 
     c.type === 'circular-dependency-resolved' || 
-    c.type === 'coupling-decreased'
+    c.type === 'coupling-decreased' ||
+    c.type === 'layer-violation-resolved' ||
+    c.type === 'hotspot-resolved'
   );
   if (positiveChanges.length > 0) {
     recommendations.push({
@@ -794,18 +947,17 @@ function calculateMetricsDiff(baseline: GraphMetrics, current: GraphMetrics): Gr
     resolvedHotspots: (baseline.hotspots || []).filter(h => !(current.hotspots || []).includes(h)),
     newLayers: (current.layers || []).filter(l => !(baseline.layers || []).includes(l)),
     removedLayers: (baseline.layers || []).filter(l => !(current.layers || []).includes(l)),
-    layerViolations: 0, // Simplified for now
+    layerViolations: (current.layerViolations || 0) - (baseline.layerViolations || 0),
   };
 }
 
 /**
  * Convert existing GraphMetrics to enhanced GraphMetrics for diff analysis
  */
-function adaptGraphMetrics(existingMetrics: ExistingGraphMetrics): GraphMetrics {
-  const circularCount = existingMetrics.circularDependencies.length;
-  const hotspots = detectHotspots(existingMetrics);
-  const layers = detectArchitectureLayers(existingMetrics);
-  
+function adaptGraphMetrics(
+  existingMetrics: ExistingGraphMetrics,
+  derived: Pick<GraphMetrics, 'hotspots' | 'layers' | 'layerViolations'> = {}
+): GraphMetrics {
   return {
     totalNodes: existingMetrics.totalNodes,
     totalEdges: existingMetrics.totalEdges,
@@ -814,9 +966,9 @@ function adaptGraphMetrics(existingMetrics: ExistingGraphMetrics): GraphMetrics
     circularDependencies: existingMetrics.circularDependencies,
     averageDependencies: existingMetrics.averageDependencies,
     mostConnectedModule: existingMetrics.mostConnectedModule,
-    hotspots: hotspots,
-    layers: layers,
-    layerViolations: 0, // Will be calculated separately
+    hotspots: derived.hotspots || [],
+    layers: derived.layers || [],
+    layerViolations: derived.layerViolations || 0,
     
     // Computed properties for backwards compatibility
     averageCoupling: existingMetrics.averageDependencies,
@@ -825,36 +977,6 @@ function adaptGraphMetrics(existingMetrics: ExistingGraphMetrics): GraphMetrics
   };
 }
 
-/**
- * Detect hotspots (modules with high coupling)
- */
-function detectHotspots(metrics: ExistingGraphMetrics): string[] {
-  // Simple heuristic: modules with above-average dependencies are hotspots
-  const threshold = metrics.averageDependencies * 1.5;
-  const hotspots: string[] = [];
-  
-  // For now, just include the most connected module if it exists
-  if (metrics.mostConnectedModule && metrics.averageDependencies > threshold) {
-    hotspots.push(metrics.mostConnectedModule);
-  }
-  
-  return hotspots;
-}
-
-/**
- * Detect architecture layers from file paths
- */
-function detectArchitectureLayers(metrics: ExistingGraphMetrics): string[] {
-  // Simple heuristic based on common directory patterns
-  const layers = new Set<string>();
-  
-  // This would normally analyze the actual file paths, but since we don't have them
-  // in the metrics, we'll return common layer patterns
-  const commonLayers = ['components', 'services', 'utils', 'types', 'api', 'database'];
-  
-  return commonLayers;
-}
-
 /**
  * Create empty metrics for cases with no files
  */
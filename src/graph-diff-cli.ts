@@ -5,6 +5,12 @@
 
 import chalk from 'chalk';
 import { analyzeGraphDiff } from './graph-diff-analyzer';
+import {
+  EXIT_CODES,
+  applyQualityGate,
+  getGraphDiffGateMetrics,
+  getQualityGateHelpText,
+} from './quality-gate';
 import {
   GraphDiffOptions,
   GraphDiffReport,
@@ -48,9 +54,9 @@ ${chalk.bold('DETECTION CAPABILITIES:')}
   🔄 Circular Dependencies    - New/resolved circular imports
   🔗 Coupling Changes        - Average dependencies per module
   📦 External Dependencies   - NPM package additions/removals
-  🏗️  Layer Violations        - Architecture boundary violations
+  🏗️  Layer Violations        - Imports breaking the .m2jsrc architecture rules
   🧩 Complexity Hotspots     - High-coupling modules
-  📁 Architecture Layers     - New/removed structural layers
+  📁 Architecture Layers     - Layers of the architecture rules gaining/losing files
 
 ${chalk.bold('OUTPUT INFORMATION:')}
   • Severity Distribution  - Critical, High, Medium, Low changes
@@ -75,7 +81,9 @@ ${chalk.bold('EXAMPLES:')}
 ${chalk.bold('CI/CD INTEGRATION:')}
   # Use in PR checks to prevent architectural regression
   m2js src/ --graph-diff --baseline origin/main --format json | jq '.impact.healthChange.delta'
-
+${getQualityGateHelpText(
+  'm2js . --graph-diff --baseline origin/main --fail-on "new-cycles>0,health-delta<-5"'
+)}
 ${chalk.bold('COMMON WORKFLOWS:')}
   1. Pre-merge validation  - Compare feature branch to main
   2. Release preparation   - Compare current to last stable version
@@ -97,8 +105,9 @@ export async function executeGraphDiffAnalysis(
   const startTime = Date.now();
   
   try {
-    console.log(chalk.blue('🔍 Starting Graph-Deep Diff Analysis...'));
-    console.log(chalk.gray(`Comparing ${options.baseline} → ${options.current || 'current'}`));
+    const log = options.format === 'json' ? console.error : console.log;
+    log(chalk.blue('🔍 Starting Graph-Deep Diff Analysis...'));
+    log(chalk.gray(`Comparing ${options.baseline} → ${options.current || 'current'}`));
     
     // Perform analysis
     const report = await analyzeGraphDiff(projectPath, options);
@@ -111,8 +120,15 @@ export async function executeGraphDiffAnalysis(
     }
     
     const duration = Date.now() - startTime;
-    console.log(chalk.gray(`\n⏱️  Analysis completed in ${duration}ms`));
+    log(chalk.gray(`\n⏱️  Analysis completed in ${duration}ms`));
     
+    // Exit code stays 0 unless a --fail-on condition is met
+    applyQualityGate(
+      options.failOn,
+      getGraphDiffGateMetrics(report),
+      EXIT_CODES.graphDiff,
+      options.format
+    );
   } catch (error) {
     console.error(chalk.red(`❌ Graph diff analysis failed: ${(error as Error).message}`));
     process.exit(1);
@@ -325,6 +341,16 @@ function displayArchitecturalChange(change: ArchitecturalChange, index: number,
   if (change.affected.length > 0) {
     console.log(`   ${chalk.cyan('Affected Modules:')} ${change.affected.slice(0, 3).join(', ')}${change.affected.length > 3 ? '...' : ''}`);
   }
+
+  // Imports breaking the architecture rules
+  const violations = change.details.violations || [];
+  violations.slice(0, 5).forEach(violation => {
+    const rule = chalk.gray(`(${violation.message})`);
+    console.log(`   • ${violation.from} → ${violation.specifier} ${rule}`);
+  });
+  if (violations.length > 5) {
+    console.log(chalk.gray(`   ... and ${violations.length - 5} more`));
+  }
 }
 
 /**
@@ -3,6 +3,9 @@
  * Compare architectural states and detect problematic changes
  */
 
+import { ArchitectureViolation } from './architecture-rules-types';
+import { QualityGateCondition } from './quality-gate-types';
+
 export interface GraphDiffOptions {
   /** Baseline for comparison (git ref, branch, commit, 'previous', etc.) */
   baseline: string;
@@ -18,6 +21,7 @@ export interface GraphDiffOptions {
   includeSuggestions?: boolean;
   /** Minimum severity to report */
   minSeverity?: 'low' | 'medium' | 'high' | 'critical';
+  failOn?: QualityGateCondition[]; // Conditions that fail the analysis
 }
 
 export interface GraphDiffReport {
@@ -104,6 +108,8 @@ export interface ChangeDetails {
   dependencies?: DependencyChange[];
   /** Metrics related to the change */
   metrics?: Record<string, number>;
+  /** Imports breaking the architecture rules */
+  violations?: ArchitectureViolation[];
 }
 
 export interface DependencyChange {
@@ -272,6 +278,8 @@ export interface GraphSnapshot {
   metrics: GraphMetrics;
   /** Files included in analysis */
   files: string[];
+  /** Imports breaking the architecture rules, relative to the snapshot root */
+  violations: ArchitectureViolation[];
 }
 
 // Re-export from existing types
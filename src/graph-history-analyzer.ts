@@ -0,0 +1,144 @@
+/**
+ * Architecture history analysis
+ * Walks the commits of a git range and turns the graph snapshot of each
+ * into a point of a time series, reusing the snapshots stored by earlier
+ * runs
+ */
+
+import { ConfigLoader } from './config-loader';
+import { GitIntegrator } from './git-integrator';
+import { calculateHealthScore, getCommitSnapshot } from './graph-diff-analyzer';
+import { GraphSnapshot } from './graph-diff-types';
+import {
+  GraphHistoryOptions,
+  GraphHistoryPoint,
+  GraphHistoryReport,
+} from './graph-history-types';
+import { SnapshotStore } from './snapshot-store';
+
+const DEFAULT_MAX_COMMITS = 30;
+
+type Commit = { hash: string; date: string; message: string };
+
+// Series drawn as Mermaid charts, with fixed axes where there is a scale
+const CHARTS: {
+  title: string;
+  value: (point: GraphHistoryPoint) => number;
+  range?: [number, number];
+}[] = [
+  { title: 'Health score', value: point => point.healthScore, range: [0, 100] },
+  {
+    title: 'Circular dependencies',
+    value: point => point.circularDependencies,
+  },
+  { title: 'Average coupling', value: point => point.averageCoupling },
+  { title: 'Module count', value: point => point.moduleCount },
+];
+
+/**
+ * Graph metrics of the commits of a range, oldest first
+ */
+export async function analyzeGraphHistory(
+  projectPath: string,
+  range: string,
+  options: GraphHistoryOptions = {}
+): Promise<GraphHistoryReport> {
+  const startTime = Date.now();
+  const git = new GitIntegrator(projectPath);
+  const commits = git.getCommitsInRange(range);
+  if (commits.length === 0) {
+    throw new Error(`No commits found in range: ${range}`);
+  }
+
+  const rules = ConfigLoader.loadConfig(projectPath).architecture;
+  const store = new SnapshotStore(projectPath);
+  const points: GraphHistoryPoint[] = [];
+
+  // One commit at a time, files unchanged since an earlier commit are not reparsed
+  for (const commit of sampleCommits(commits, options.maxCommits)) {
+    const stored = store.load(commit.hash, rules);
+    const snapshot =
+      stored ||
+      (await getCommitSnapshot(projectPath, git, commit.hash, rules, store));
+    points.push(toHistoryPoint(commit, snapshot, stored !== null));
+  }
+
+  const report: GraphHistoryReport = {
+    projectPath,
+    range,
+    points,
+    metrics: {
+      totalCommits: commits.length,
+      analyzedCommits: points.length,
+      cachedSnapshots: points.filter(point => point.cached).length,
+      analysisTimeMs: Date.now() - startTime,
+    },
+  };
+  if (options.mermaid) {
+    report.mermaid = generateHistoryCharts(points);
+  }
+  return report;
+}
+
+/**
+ * Mermaid xychart of each series, commits on the x axis
+ */
+export function generateHistoryCharts(points: GraphHistoryPoint[]): string {
+  const labels = points.map(point => `"${point.commit}"`).join(', ');
+
+  return CHARTS.map(chart => {
+    const values = points.map(chart.value);
+    const [min, max] = chart.range || [0, Math.max(1, ...values)];
+    return [
+      '```mermaid',
+      'xychart-beta',
+      `    title "${chart.title}"`,
+      `    x-axis [${labels}]`,
+      `    y-axis "${chart.title}" ${min} --> ${max}`,
+      `    line [${values.join(', ')}]`,
+      '```',
+    ].join('\n');
+  }).join('\n\n');
+}
+
+/**
+ * At most `maxCommits` commits spread evenly over the range, always
+ * keeping the first and the last
+ */
+function sampleCommits(
+  commits: Commit[],
+  maxCommits: number = DEFAULT_MAX_COMMITS
+): Commit[] {
+  if (commits.length <= maxCommits) {
+    return commits;
+  }
+  if (maxCommits <= 1) {
+    return commits.slice(-1);
+  }
+
+  const step = (commits.length - 1) / (maxCommits - 1);
+  return Array.from(
+    { length: maxCommits },
+    (_, index) => commits[Math.round(index * step)]
+  );
+}
+
+function toHistoryPoint(
+  commit: Commit,
+  snapshot: GraphSnapshot,
+  cached: boolean
+): GraphHistoryPoint {
+  const { metrics } = snapshot;
+  return {
+    commit: commit.hash.substring(0, 8),
+    date: commit.date,
+    message: commit.message,
+    healthScore: Math.round(calculateHealthScore(metrics) * 10) / 10,
+    circularDependencies: metrics.circularDependencies.length,
+    averageCoupling: metrics.averageCoupling || metrics.averageDependencies,
+    moduleCount: metrics.totalModules || metrics.totalNodes,
+    layerViolations: metrics.layerViolations || 0,
+    hotspots: (metrics.hotspots || []).length,
+    cached,
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * CLI Integration for Architecture History
+ * Handles --history flag and output formatting
+ */
+
+import chalk from 'chalk';
+import { analyzeGraphHistory } from './graph-history-analyzer';
+import {
+  GraphHistoryOptions,
+  GraphHistoryPoint,
+  GraphHistoryReport,
+} from './graph-history-types';
+
+/**
+ * Execute architecture history analysis and output results
+ */
+export async function executeGraphHistoryAnalysis(
+  projectPath: string,
+  range: string,
+  options: GraphHistoryOptions = { format: 'table' }
+): Promise<void> {
+  try {
+    console.log(chalk.cyan.bold('Architecture History'));
+    console.log(chalk.dim(`Walking commits in ${range}...\n`));
+
+    const report = await analyzeGraphHistory(projectPath, range, options);
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      outputTableFormat(report);
+    }
+
+    // Exit with code 0 (informational, not error)
+    process.exit(0);
+  } catch (error) {
+    console.error(chalk.red(`Error: ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Output report in table format (default)
+ */
+function outputTableFormat(report: GraphHistoryReport): void {
+  const { points, metrics } = report;
+
+  console.log(
+    chalk.dim(
+      `Commits analyzed: ${metrics.analyzedCommits} of ${metrics.totalCommits}`
+    )
+  );
+  console.log(chalk.dim(`Snapshots reused: ${metrics.cachedSnapshots}`));
+  console.log(chalk.dim(`Analysis time: ${metrics.analysisTimeMs}ms\n`));
+
+  console.log(
+    chalk.bold(
+      `${'Commit'.padEnd(10)}${'Date'.padEnd(12)}${'Health'.padStart(8)}` +
+        `${'Cycles'.padStart(8)}${'Coupling'.padStart(10)}` +
+        `${'Modules'.padStart(9)}  Subject`
+    )
+  );
+  points.forEach((point, index) => outputPoint(point, points[index - 1]));
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const change = Math.round((last.healthScore - first.healthScore) * 10) / 10;
+  const trend = `\nHealth score ${first.healthScore} -> ${last.healthScore}`;
+  if (change < 0) {
+    console.log(chalk.red.bold(`${trend} (${change})\n`));
+  } else {
+    console.log(chalk.green.bold(`${trend} (+${change})\n`));
+  }
+
+  if (report.mermaid) {
+    console.log(report.mermaid + '\n');
+  }
+}
+
+function outputPoint(
+  point: GraphHistoryPoint,
+  previous?: GraphHistoryPoint
+): void {
+  const health = point.healthScore.toFixed(1).padStart(8);
+  const healthColor =
+    !previous || point.healthScore === previous.healthScore
+      ? chalk.white
+      : point.healthScore > previous.healthScore
+        ? chalk.green
+        : chalk.red;
+
+  console.log(
+    chalk.yellow(point.commit.padEnd(10)) +
+      chalk.dim(point.date.substring(0, 10).padEnd(12)) +
+      healthColor(health) +
+      String(point.circularDependencies).padStart(8) +
+      point.averageCoupling.toFixed(2).padStart(10) +
+      String(point.moduleCount).padStart(9) +
+      chalk.dim(`  ${point.message.substring(0, 50)}`)
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * Types for architecture history
+ * A time series of graph metrics over the commits of a git range
+ */
+
+export interface GraphHistoryOptions {
+  /** Output format for reporting */
+  format?: 'table' | 'json';
+  /** Add Mermaid xychart diagrams of the series to the report */
+  mermaid?: boolean;
+  /** Most commits to analyze, spread evenly over the range (default: 30) */
+  maxCommits?: number;
+}
+
+export interface GraphHistoryPoint {
+  /** Abbreviated commit hash */
+  commit: string;
+  /** Commit date, ISO 8601 */
+  date: string;
+  /** Commit subject */
+  message: string;
+  /** 0-100 architectural health, as scored by --graph-diff */
+  healthScore: number;
+  circularDependencies: number;
+  averageCoupling: number;
+  moduleCount: number;
+  layerViolations: number;
+  hotspots: number;
+  /** Whether the snapshot came from the snapshot store */
+  cached: boolean;
+}
+
+export interface GraphHistoryReport {
+  projectPath: string;
+  /** Git range walked, e.g. `v1.0.0..HEAD` */
+  range: string;
+  /** Oldest commit first */
+  points: GraphHistoryPoint[];
+  /** Mermaid xychart diagrams of the series, with the mermaid option */
+  mermaid?: string;
+  metrics: {
+    totalCommits: number; // Commits in the range
+    analyzedCommits: number;
+    cachedSnapshots: number;
+    analysisTimeMs: number;
+  };
+}
@@ -0,0 +1,268 @@
+/**
+ * Hotspot analysis
+ * Computes Robert C. Martin's package metrics for every module of the
+ * dependency graph and ranks the modules whose coupling is well above
+ * average, weighted by how often git history shows them changing
+ */
+
+import { parse } from '@babel/parser';
+import * as t from '@babel/types';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  GitFileChurn,
+  Hotspot,
+  HotspotOptions,
+  HotspotReport,
+  ModuleMetrics,
+} from './hotspot-types';
+import { analyzeDependencies, resolveModulePath } from './dependency-analyzer';
+import { GitIntegrator } from './git-integrator';
+import { extractScriptContent } from './sfc-extractor';
+import { DependencyGraph, SourceFiles } from './types';
+
+// Babel parser configuration for counting declarations
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const HOTSPOT_PARSE_CONFIG: any = {
+  sourceType: 'module',
+  plugins: [
+    'typescript',
+    'jsx',
+    'decorators-legacy',
+    'classProperties',
+    'asyncGenerators',
+    'bigInt',
+    'dynamicImport',
+  ],
+};
+
+// Only modules this many times more coupled than average can be hotspots
+const COUPLING_FACTOR = 1.5;
+const DEFAULT_LIMIT = 10;
+
+/**
+ * Rank the hotspots of the files, reading churn from git when the root
+ * directory is inside a repository
+ */
+export function analyzeHotspots(
+  files: string[],
+  options: HotspotOptions = {}
+): HotspotReport {
+  const startTime = Date.now();
+  const rootDir = path.resolve(options.rootDir || process.cwd());
+  const graph = analyzeDependencies(files);
+  const churn = readChurn(rootDir, options.since);
+  const modules = computeModuleMetrics(graph, rootDir, churn || undefined);
+
+  return {
+    projectPath: graph.projectPath,
+    rootDir,
+    hotspots: rankHotspots(modules, options.limit),
+    modules,
+    metrics: {
+      totalFiles: files.length,
+      averageCoupling: getAverageCoupling(modules),
+      churnAvailable: churn !== null,
+      analysisTimeMs: Date.now() - startTime,
+    },
+  };
+}
+
+/**
+ * Coupling, abstractness and churn of each analyzed file, sorted by path.
+ * Only imports of project files count towards coupling.
+ */
+export function computeModuleMetrics(
+  graph: Pick<DependencyGraph, 'nodes' | 'edges'>,
+  rootDir: string,
+  churn: Map<string, GitFileChurn> = new Map(),
+  sources?: SourceFiles
+): ModuleMetrics[] {
+  const modules = graph.nodes
+    .filter(node => path.isAbsolute(node) || node.startsWith('.'))
+    .map(node => path.resolve(node));
+  const dependents = new Map(modules.map(file => [file, new Set<string>()]));
+  const dependencies = new Map(modules.map(file => [file, new Set<string>()]));
+
+  graph.edges
+    .filter(edge => !edge.isExternal)
+    .forEach(edge => {
+      const from = path.resolve(edge.from);
+      const to = path.resolve(resolveModulePath(edge.from, edge.to, sources));
+      if (from !== to && dependencies.has(from)) {
+        dependencies.get(from)!.add(to);
+        dependents.get(to)?.add(from);
+      }
+    });
+
+  return modules
+    .map(file => {
+      const afferent = dependents.get(file)!.size;
+      const efferent = dependencies.get(file)!.size;
+      const instability =
+        afferent + efferent > 0 ? efferent / (afferent + efferent) : 0;
+      const abstractness = getAbstractness(file, sources);
+      const fileChurn = churn.get(file);
+      return {
+        file: toRelative(file, rootDir),
+        afferentCoupling: afferent,
+        efferentCoupling: efferent,
+        instability: round(instability),
+        abstractness: round(abstractness),
+        distance: round(Math.abs(abstractness + instability - 1)),
+        commits: fileChurn?.commits || 0,
+        linesChanged: fileChurn
+          ? fileChurn.linesAdded + fileChurn.linesDeleted
+          : 0,
+      };
+    })
+    .sort((a, b) => a.file.localeCompare(b.file));
+}
+
+/**
+ * Modules more coupled than average, ranked by coupling times churn.
+ * Without any churn the score is coupling alone.
+ */
+export function rankHotspots(
+  modules: ModuleMetrics[],
+  limit: number = DEFAULT_LIMIT
+): Hotspot[] {
+  const coupling = (module: ModuleMetrics): number =>
+    module.afferentCoupling + module.efferentCoupling;
+  const maxCoupling = Math.max(0, ...modules.map(coupling));
+  const maxCommits = Math.max(0, ...modules.map(module => module.commits));
+  const maxLines = Math.max(0, ...modules.map(module => module.linesChanged));
+  const threshold = getAverageCoupling(modules) * COUPLING_FACTOR;
+
+  const churnOf = (module: ModuleMetrics): number =>
+    maxCommits === 0
+      ? 1
+      : (module.commits / maxCommits +
+          (maxLines > 0 ? module.linesChanged / maxLines : 0)) /
+        2;
+
+  return modules
+    .filter(module => coupling(module) > threshold)
+    .map(module => ({
+      ...module,
+      score: Math.round(
+        (100 * coupling(module) * churnOf(module)) / maxCoupling
+      ),
+    }))
+    .filter(module => module.score > 0)
+    .sort((a, b) => b.score - a.score || a.file.localeCompare(b.file))
+    .slice(0, limit)
+    .map((module, index) => ({
+      ...module,
+      rank: index + 1,
+      reasons: getReasons(module),
+    }));
+}
+
+function getReasons(module: ModuleMetrics): string[] {
+  const reasons: string[] = [];
+  if (module.afferentCoupling > 0) {
+    reasons.push(`imported by ${plural(module.afferentCoupling, 'file')}`);
+  }
+  if (module.efferentCoupling > 0) {
+    reasons.push(`imports ${plural(module.efferentCoupling, 'file')}`);
+  }
+  if (module.commits > 0) {
+    reasons.push(
+      `changed in ${plural(module.commits, 'commit')} (${module.linesChanged} lines)`
+    );
+  }
+  // Concrete and stable, or abstract and unused
+  if (module.distance >= 0.7) {
+    reasons.push(`far from the main sequence (D=${module.distance})`);
+  }
+  return reasons;
+}
+
+function getAbstractness(file: string, sources?: SourceFiles): number {
+  if (sources) {
+    return sources.parse(file, 'abstractness', content =>
+      countAbstractness(file, content)
+    );
+  }
+  try {
+    return countAbstractness(file, readFileSync(file, 'utf-8'));
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Share of the top-level declarations that are interfaces, type aliases or
+ * abstract classes. Files that fail to parse count as concrete.
+ */
+function countAbstractness(file: string, content: string): number {
+  let body: t.Statement[];
+  try {
+    body = parse(extractScriptContent(file, content), HOTSPOT_PARSE_CONFIG)
+      .program.body;
+  } catch {
+    return 0;
+  }
+
+  let abstract = 0;
+  let total = 0;
+  body.forEach(statement => {
+    const declaration =
+      t.isExportNamedDeclaration(statement) ||
+      t.isExportDefaultDeclaration(statement)
+        ? statement.declaration
+        : statement;
+    if (
+      t.isTSInterfaceDeclaration(declaration) ||
+      t.isTSTypeAliasDeclaration(declaration) ||
+      (t.isClassDeclaration(declaration) && declaration.abstract)
+    ) {
+      abstract++;
+      total++;
+    } else if (t.isVariableDeclaration(declaration)) {
+      total += declaration.declarations.length;
+    } else if (
+      t.isFunctionDeclaration(declaration) ||
+      t.isClassDeclaration(declaration) ||
+      t.isTSEnumDeclaration(declaration)
+    ) {
+      total++;
+    }
+  });
+  return total > 0 ? abstract / total : 0;
+}
+
+/**
+ * Churn of the files below the root directory, null outside a repository
+ */
+function readChurn(
+  rootDir: string,
+  since: string | undefined
+): Map<string, GitFileChurn> | null {
+  try {
+    return new GitIntegrator(rootDir).getFileChurn(since);
+  } catch {
+    return null;
+  }
+}
+
+function getAverageCoupling(modules: ModuleMetrics[]): number {
+  const total = modules.reduce(
+    (sum, module) => sum + module.afferentCoupling + module.efferentCoupling,
+    0
+  );
+  return modules.length > 0 ? round(total / modules.length) : 0;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toRelative(file: string, rootDir: string): string {
+  return path.relative(rootDir, file).split(path.sep).join('/');
+}
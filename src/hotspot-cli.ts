@@ -0,0 +1,89 @@
+/**
+ * CLI Integration for Hotspot Analysis
+ * Handles --hotspots flag and output formatting
+ */
+
+import chalk from 'chalk';
+import { Hotspot, HotspotOptions, HotspotReport } from './hotspot-types';
+import { analyzeHotspots } from './hotspot-analyzer';
+
+/**
+ * Execute hotspot analysis and output results
+ */
+export async function executeHotspotAnalysis(
+  files: string[],
+  options: HotspotOptions = { format: 'table' }
+): Promise<void> {
+  try {
+    console.log(chalk.cyan.bold('Hotspot Report'));
+    console.log(chalk.dim(`Analyzing ${files.length} files...\n`));
+
+    const report = analyzeHotspots(files, options);
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      outputTableFormat(report);
+    }
+
+    // Exit with code 0 (informational, not error)
+    process.exit(0);
+  } catch (error) {
+    console.error(chalk.red(`Error: ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Output report in table format (default)
+ */
+function outputTableFormat(report: HotspotReport): void {
+  const { hotspots, metrics, rootDir } = report;
+
+  console.log(chalk.dim(`Paths relative to: ${rootDir}`));
+  console.log(chalk.dim(`Files analyzed: ${metrics.totalFiles}`));
+  console.log(
+    chalk.dim(`Average coupling (Ca + Ce): ${metrics.averageCoupling}`)
+  );
+  console.log(
+    chalk.dim(
+      metrics.churnAvailable
+        ? 'Churn: read from git history'
+        : 'Churn: not available, ranked on coupling alone'
+    )
+  );
+  console.log(chalk.dim(`Analysis time: ${metrics.analysisTimeMs}ms\n`));
+
+  if (hotspots.length === 0) {
+    console.log(chalk.green.bold('Great! No hotspots found!'));
+    console.log(
+      chalk.green('No module is far more coupled than the average.\n')
+    );
+    return;
+  }
+
+  console.log(chalk.red.bold(`Hotspots (${hotspots.length} found):`));
+  hotspots.forEach(outputHotspot);
+  console.log(
+    chalk.blue(
+      'Split stable, concrete modules behind interfaces and give busy modules fewer responsibilities\n'
+    )
+  );
+}
+
+function outputHotspot(hotspot: Hotspot): void {
+  console.log(
+    chalk.gray(`${hotspot.rank}. `) +
+      chalk.yellow(hotspot.file) +
+      chalk.dim(` - score ${hotspot.score}`)
+  );
+  console.log(
+    chalk.gray('    ') +
+      chalk.dim(
+        `Ca ${hotspot.afferentCoupling}, Ce ${hotspot.efferentCoupling}, ` +
+          `I ${hotspot.instability}, A ${hotspot.abstractness}, ` +
+          `D ${hotspot.distance}`
+      )
+  );
+  console.log(chalk.gray('    ') + chalk.blue(hotspot.reasons.join(', ')));
+}
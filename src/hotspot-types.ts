@@ -0,0 +1,66 @@
+/**
+ * Types for hotspot analysis
+ * Per-module coupling metrics from the dependency graph, combined with git
+ * churn to rank the modules most likely to cause trouble
+ */
+
+export interface HotspotOptions {
+  /** Output format for reporting */
+  format?: 'table' | 'json';
+  /** Directory reported paths are relative to (default: working directory) */
+  rootDir?: string;
+  /** Number of hotspots to list (default: 10) */
+  limit?: number;
+  /** Only count churn since this date, e.g. `6 months ago` */
+  since?: string;
+}
+
+export interface GitFileChurn {
+  /** Commits changing the file */
+  commits: number;
+  linesAdded: number;
+  linesDeleted: number;
+}
+
+export interface ModuleMetrics {
+  /** File path, relative to the root directory */
+  file: string;
+  /** Ca: project files importing the module */
+  afferentCoupling: number;
+  /** Ce: project files the module imports */
+  efferentCoupling: number;
+  /** Ce / (Ca + Ce), 0 for a module without dependencies either way */
+  instability: number;
+  /** Share of its declarations that are interfaces, types or abstract */
+  abstractness: number;
+  /** |A + I - 1|, how far the module is from the main sequence */
+  distance: number;
+  /** Commits changing the file, 0 without git history */
+  commits: number;
+  /** Lines added and deleted by those commits */
+  linesChanged: number;
+}
+
+export interface Hotspot extends ModuleMetrics {
+  /** 1 for the worst hotspot */
+  rank: number;
+  /** 0-100, coupling weighted by churn when there is git history */
+  score: number;
+  /** Why the module ranks high, e.g. `imported by 12 files` */
+  reasons: string[];
+}
+
+export interface HotspotMetrics {
+  totalFiles: number;
+  averageCoupling: number; // Average Ca + Ce
+  churnAvailable: boolean; // Whether git history was read
+  analysisTimeMs: number;
+}
+
+export interface HotspotReport {
+  projectPath: string;
+  rootDir: string;
+  hotspots: Hotspot[];
+  modules: ModuleMetrics[];
+  metrics: HotspotMetrics;
+}
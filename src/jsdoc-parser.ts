@@ -0,0 +1,152 @@
+import { JSDocParam, JSDocTag, ParsedJSDoc } from './types';
+
+const TAG_LINE = /^@(\w+)\s?([\s\S]*)$/;
+const PARAM_TAGS = ['param', 'arg', 'argument'];
+const RETURN_TAGS = ['returns', 'return'];
+const THROW_TAGS = ['throws', 'throw', 'exception'];
+
+/**
+ * Parse a raw JSDoc/TSDoc comment (as extracted by the parser) into its
+ * summary and tags
+ */
+export function parseJSDoc(raw: string): ParsedJSDoc {
+  const lines = getCommentLines(raw);
+  const summaryLines: string[] = [];
+  const tags: JSDocTag[] = [];
+  let current: { tag: string; lines: string[] } | null = null;
+  let inFence = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    const tagMatch = !inFence ? TAG_LINE.exec(trimmed) : null;
+
+    if (tagMatch) {
+      if (current) {
+        tags.push(toTag(current.tag, current.lines));
+      }
+      current = { tag: tagMatch[1], lines: [tagMatch[2]] };
+      continue;
+    }
+
+    // Code fences inside @example may contain decorators or other @ lines
+    if (trimmed.startsWith('```')) {
+      inFence = !inFence;
+    }
+
+    if (current) {
+      current.lines.push(line);
+    } else {
+      summaryLines.push(line);
+    }
+  }
+
+  if (current) {
+    tags.push(toTag(current.tag, current.lines));
+  }
+
+  return buildParsedJSDoc(summaryLines.join('\n').trim(), tags);
+}
+
+function buildParsedJSDoc(summary: string, tags: JSDocTag[]): ParsedJSDoc {
+  const docs: ParsedJSDoc = {
+    summary,
+    params: [],
+    throws: [],
+    examples: [],
+    see: [],
+    tags,
+  };
+
+  tags.forEach(({ tag, text }) => {
+    if (PARAM_TAGS.includes(tag)) {
+      const param = parseParamTag(text);
+      if (param) {
+        docs.params.push(param);
+      }
+    } else if (RETURN_TAGS.includes(tag)) {
+      docs.returns = stripTypeExpression(text);
+    } else if (THROW_TAGS.includes(tag)) {
+      docs.throws.push(text);
+    } else if (tag === 'deprecated') {
+      docs.deprecated = text;
+    } else if (tag === 'example') {
+      docs.examples.push(stripCodeFence(text));
+    } else if (tag === 'see') {
+      docs.see.push(text);
+    } else if (tag === 'since') {
+      docs.since = text;
+    }
+  });
+
+  return docs;
+}
+
+/**
+ * Strip the comment delimiters and the leading asterisk of each line,
+ * keeping the indentation that follows it (significant in examples)
+ */
+function getCommentLines(raw: string): string[] {
+  return raw
+    .replace(/^\s*\/\*\*/, '')
+    .replace(/\*\/\s*$/, '')
+    .split('\n')
+    .map(line => line.replace(/^\s*\* ?/, '').replace(/\s+$/, ''));
+}
+
+function toTag(tag: string, lines: string[]): JSDocTag {
+  const text =
+    tag === 'example'
+      ? dedent(lines).join('\n').trim()
+      : lines
+          .map(line => line.trim())
+          .join('\n')
+          .trim();
+  return { tag, text };
+}
+
+function dedent(lines: string[]): string[] {
+  const indents = lines
+    .filter(line => line.trim().length > 0)
+    .map(line => line.length - line.trimStart().length);
+  const minIndent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(line => line.slice(minIndent));
+}
+
+/**
+ * Parse "{type} [name=default] - description" (every part but the name is
+ * optional)
+ */
+function parseParamTag(text: string): JSDocParam | null {
+  const match =
+    /^(?:\{([^}]*)\}\s*)?(\[[^\]]+\]|[\w$.]+)\s*(?:-\s*)?([\s\S]*)$/.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const [, type, rawName, description] = match;
+  const isBracketed = rawName.startsWith('[');
+  const [name, defaultValue] = isBracketed
+    ? rawName.slice(1, -1).split('=')
+    : [rawName, undefined];
+
+  return {
+    name: name.trim(),
+    type: type?.trim() || undefined,
+    description: description.trim(),
+    optional: isBracketed || (type?.trim().endsWith('=') ?? false),
+    defaultValue: defaultValue?.trim(),
+  };
+}
+
+function stripTypeExpression(text: string): string {
+  return text.replace(/^\{[^}]*\}\s*/, '').replace(/^-\s*/, '');
+}
+
+/**
+ * Examples are rendered inside a fence by the generator, so an existing
+ * fence is unwrapped to avoid nesting
+ */
+function stripCodeFence(text: string): string {
+  const match = /^```[\w-]*\n([\s\S]*?)\n```$/.exec(text.trim());
+  return match ? match[1] : text;
+}
@@ -0,0 +1,48 @@
+import { promises as fs } from 'fs';
+import { M2JSJsonOutput, M2JSJsonPayload, ParsedFile } from './types';
+import { parseFile } from './parser';
+
+/**
+ * Version of schema/m2js-output.schema.json. Adding optional fields bumps
+ * the minor version, anything that can break consumers the major version.
+ */
+export const JSON_SCHEMA_VERSION = '1.1.0';
+
+/**
+ * Wrap extraction or graph results in the versioned JSON envelope
+ */
+export function generateJsonOutput(
+  payload: M2JSJsonPayload,
+  generatorVersion: string
+): string {
+  const output: M2JSJsonOutput = {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    generator: { name: 'm2js', version: generatorVersion },
+    ...payload,
+  };
+
+  return `${JSON.stringify(output, null, 2)}\n`;
+}
+
+/**
+ * Parse every file for a batch document, recording the files that fail
+ * instead of aborting
+ */
+export async function parseFilesForJson(files: string[]): Promise<{
+  files: ParsedFile[];
+  errors: { filePath: string; error: string }[];
+}> {
+  const parsedFiles: ParsedFile[] = [];
+  const errors: { filePath: string; error: string }[] = [];
+
+  for (const filePath of files) {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      parsedFiles.push(parseFile(filePath, content));
+    } catch (error) {
+      errors.push({ filePath, error: (error as Error).message });
+    }
+  }
+
+  return { files: parsedFiles, errors };
+}
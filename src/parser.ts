@@ -6,6 +6,8 @@ import { parse } from '@babel/parser';
 import traverse, { NodePath } from '@babel/traverse';
 import * as t from '@babel/types';
 import path from 'path';
+import { parseJSDoc } from './jsdoc-parser';
+import { extractScriptContent } from './sfc-extractor';
 import {
   ParsedFunction,
   Parameter,
@@ -13,6 +15,15 @@ import {
   ParseOptions,
   ParsedClass,
   ParsedMethod,
+  ParsedProperty,
+  ParsedAccessor,
+  MemberVisibility,
+  ParsedInterface,
+  ParsedInterfaceMember,
+  ParsedTypeAlias,
+  ParsedEnum,
+  ParsedJSDoc,
+  ParsedReExport,
   ExportMetadata,
 } from './types';
 
@@ -27,16 +38,31 @@ export function parseFile(filePath: string, content: string): ParsedFile {
   }
 
   try {
-    const ast = parse(content, DEFAULT_PARSE_OPTIONS);
-    const functions = extractExportedFunctions(ast);
-    const classes = extractExportedClasses(ast);
+    // Single-file components keep only their script blocks, at their
+    // original positions
+    const source = extractScriptContent(filePath, content);
+    const ast = parse(source, DEFAULT_PARSE_OPTIONS);
+    const functions = extractExportedFunctions(ast, source);
+    const classes = extractExportedClasses(ast, source);
+    const { interfaces, typeAliases, enums } = extractExportedTypes(
+      ast,
+      source
+    );
+    const reExports = extractReExports(ast);
     const exportMetadata = generateExportMetadata(functions, classes, ast);
+    exportMetadata.totalInterfaces = interfaces.length;
+    exportMetadata.totalTypes = typeAliases.length;
+    exportMetadata.totalEnums = enums.length;
 
     return {
       fileName: path.basename(filePath),
       filePath: path.resolve(filePath),
       functions,
       classes,
+      interfaces,
+      typeAliases,
+      enums,
+      reExports,
       exportMetadata,
     };
   } catch (error) {
@@ -44,8 +70,18 @@ export function parseFile(filePath: string, content: string): ParsedFile {
   }
 }
 
-function extractExportedFunctions(ast: t.File): ParsedFunction[] {
+function extractExportedFunctions(
+  ast: t.File,
+  content: string
+): ParsedFunction[] {
   const functions: ParsedFunction[] = [];
+  const overloads = new Map<string, ParsedFunction[]>();
+
+  const addOverload = (func: ParsedFunction | null): void => {
+    if (func) {
+      overloads.set(func.name, [...(overloads.get(func.name) || []), func]);
+    }
+  };
 
   traverse(ast, {
     ExportNamedDeclaration(path) {
@@ -53,12 +89,19 @@ function extractExportedFunctions(ast: t.File): ParsedFunction[] {
         const func = parseFunctionDeclaration(
           path.node.declaration,
           false,
+          content,
           path
         );
         if (func) {
           functions.push(func);
         }
       }
+      // Handle overloads: export function parse(input: string): Ast;
+      if (t.isTSDeclareFunction(path.node.declaration)) {
+        addOverload(
+          parseFunctionDeclaration(path.node.declaration, false, content, path)
+        );
+      }
       // Handle export const arrowFunction = () => {}
       if (t.isVariableDeclaration(path.node.declaration)) {
         path.node.declaration.declarations.forEach(declarator => {
@@ -69,7 +112,9 @@ function extractExportedFunctions(ast: t.File): ParsedFunction[] {
           ) {
             const func = parseArrowFunction(
               declarator.id.name,
-              declarator.init
+              declarator.init,
+              content,
+              path
             );
             if (func) {
               functions.push(func);
@@ -84,25 +129,69 @@ function extractExportedFunctions(ast: t.File): ParsedFunction[] {
         const func = parseFunctionDeclaration(
           path.node.declaration,
           true,
+          content,
           path
         );
         if (func) {
           functions.push(func);
         }
       }
+      if (t.isTSDeclareFunction(path.node.declaration)) {
+        addOverload(
+          parseFunctionDeclaration(path.node.declaration, true, content, path)
+        );
+      }
     },
   });
 
-  return functions;
+  return attachOverloads(functions, overloads);
+}
+
+/**
+ * Attach overload declarations to their implementation, whose own signature
+ * is not callable and is replaced by the first overload. Declarations
+ * without an implementation (ambient functions) are kept as standalone
+ * entries.
+ */
+function attachOverloads<T extends ParsedFunction | ParsedMethod>(
+  members: T[],
+  overloads: Map<string, T[]>
+): T[] {
+  const result = [...members];
+
+  overloads.forEach((declarations, name) => {
+    const signatures = declarations.map(declaration => declaration.signature);
+    const implementation = result.find(member => member.name === name);
+
+    if (implementation) {
+      const [first] = declarations;
+      implementation.signature = first.signature;
+      implementation.params = first.params;
+      implementation.returnType = first.returnType;
+      implementation.typeParameters = first.typeParameters;
+      implementation.overloads = signatures;
+      if (!implementation.jsDoc) {
+        implementation.jsDoc = declarations[0].jsDoc;
+        implementation.docs = declarations[0].docs;
+      }
+    } else {
+      result.push({
+        ...declarations[0],
+        overloads: signatures.length > 1 ? signatures : undefined,
+      });
+    }
+  });
+
+  return result;
 }
 
-function extractExportedClasses(ast: t.File): ParsedClass[] {
+function extractExportedClasses(ast: t.File, content: string): ParsedClass[] {
   const classes: ParsedClass[] = [];
 
   traverse(ast, {
     ExportNamedDeclaration(path) {
       if (t.isClassDeclaration(path.node.declaration)) {
-        const cls = parseClassDeclaration(path.node.declaration, path);
+        const cls = parseClassDeclaration(path.node.declaration, path, content);
         if (cls) {
           classes.push(cls);
         }
@@ -111,7 +200,12 @@ function extractExportedClasses(ast: t.File): ParsedClass[] {
 
     ExportDefaultDeclaration(path) {
       if (t.isClassDeclaration(path.node.declaration)) {
-        const cls = parseClassDeclaration(path.node.declaration, path, true);
+        const cls = parseClassDeclaration(
+          path.node.declaration,
+          path,
+          content,
+          true
+        );
         if (cls) {
           classes.push(cls);
         }
@@ -122,9 +216,336 @@ function extractExportedClasses(ast: t.File): ParsedClass[] {
   return classes;
 }
 
+/**
+ * Collect re-exports (export ... from) including exports of imported bindings
+ * (import { a } from './a'; export { a }), which barrels use interchangeably
+ */
+function extractReExports(ast: t.File): ParsedReExport[] {
+  const reExports: ParsedReExport[] = [];
+  const importedBindings = new Map<
+    string,
+    { source: string; imported: string; isTypeOnly: boolean }
+  >();
+
+  ast.program.body.forEach(statement => {
+    if (!t.isImportDeclaration(statement)) {
+      return;
+    }
+    statement.specifiers.forEach(specifier => {
+      const imported = t.isImportSpecifier(specifier)
+        ? getModuleExportName(specifier.imported)
+        : t.isImportDefaultSpecifier(specifier)
+          ? 'default'
+          : '*';
+      importedBindings.set(specifier.local.name, {
+        source: statement.source.value,
+        imported,
+        isTypeOnly: statement.importKind === 'type',
+      });
+    });
+  });
+
+  ast.program.body.forEach(statement => {
+    if (t.isExportAllDeclaration(statement)) {
+      reExports.push({
+        source: statement.source.value,
+        kind: 'all',
+        specifiers: [],
+        isTypeOnly: statement.exportKind === 'type',
+      });
+      return;
+    }
+
+    if (!t.isExportNamedDeclaration(statement) || statement.declaration) {
+      return;
+    }
+
+    const isTypeOnly = statement.exportKind === 'type';
+    const named = new Map<string, ParsedReExport>();
+
+    statement.specifiers.forEach(specifier => {
+      if (t.isExportNamespaceSpecifier(specifier) && statement.source) {
+        reExports.push({
+          source: statement.source.value,
+          kind: 'namespace',
+          specifiers: [],
+          namespace: getModuleExportName(specifier.exported),
+          isTypeOnly,
+        });
+        return;
+      }
+      if (!t.isExportSpecifier(specifier)) {
+        return;
+      }
+
+      const local = getModuleExportName(specifier.local);
+      const exported = getModuleExportName(specifier.exported);
+      const binding = statement.source
+        ? { source: statement.source.value, imported: local, isTypeOnly }
+        : importedBindings.get(local);
+      if (!binding) {
+        return;
+      }
+
+      if (binding.imported === '*') {
+        reExports.push({
+          source: binding.source,
+          kind: 'namespace',
+          specifiers: [],
+          namespace: exported,
+          isTypeOnly: binding.isTypeOnly,
+        });
+        return;
+      }
+
+      const reExport: ParsedReExport = named.get(binding.source) || {
+        source: binding.source,
+        kind: 'named',
+        specifiers: [],
+        isTypeOnly: isTypeOnly || binding.isTypeOnly,
+      };
+      reExport.specifiers.push({ imported: binding.imported, exported });
+      named.set(binding.source, reExport);
+    });
+
+    reExports.push(...named.values());
+  });
+
+  return reExports;
+}
+
+function getModuleExportName(node: t.Identifier | t.StringLiteral): string {
+  return t.isIdentifier(node) ? node.name : node.value;
+}
+
+function extractExportedTypes(
+  ast: t.File,
+  content: string
+): {
+  interfaces: ParsedInterface[];
+  typeAliases: ParsedTypeAlias[];
+  enums: ParsedEnum[];
+} {
+  const interfaces: ParsedInterface[] = [];
+  const typeAliases: ParsedTypeAlias[] = [];
+  const enums: ParsedEnum[] = [];
+
+  traverse(ast, {
+    ExportNamedDeclaration(path) {
+      const declaration = path.node.declaration;
+
+      if (t.isTSInterfaceDeclaration(declaration)) {
+        interfaces.push(parseInterfaceDeclaration(declaration, path, content));
+      } else if (t.isTSTypeAliasDeclaration(declaration)) {
+        typeAliases.push(parseTypeAliasDeclaration(declaration, path, content));
+      } else if (t.isTSEnumDeclaration(declaration)) {
+        enums.push(parseEnumDeclaration(declaration, path, content));
+      }
+    },
+  });
+
+  return { interfaces, typeAliases, enums };
+}
+
+function parseInterfaceDeclaration(
+  node: t.TSInterfaceDeclaration,
+  path: NodePath,
+  content: string
+): ParsedInterface {
+  const name = node.id.name;
+  const typeParameters = parseTypeParameterList(node.typeParameters, content);
+  const heritage = (node.extends || []).map(clause =>
+    getSourceText(clause, content)
+  );
+  const members = node.body.body
+    .map(member => parseInterfaceMember(member, content))
+    .filter((member): member is ParsedInterfaceMember => member !== null);
+
+  const extendsClause =
+    heritage.length > 0 ? ` extends ${heritage.join(', ')}` : '';
+
+  return {
+    name,
+    signature: `export interface ${name}${formatTypeParameters(typeParameters)}${extendsClause}`,
+    typeParameters,
+    extends: heritage,
+    members,
+    ...withDocs(extractJSDoc(path)),
+  };
+}
+
+function parseInterfaceMember(
+  member: t.TSTypeElement,
+  content: string
+): ParsedInterfaceMember | null {
+  const signature = getSourceText(member, content)
+    .replace(/\s+/g, ' ')
+    .replace(/[;,]\s*$/, '');
+  const jsDoc = getLastJSDoc(member.leadingComments);
+
+  if (t.isTSPropertySignature(member)) {
+    return {
+      name: getPropertyKeyName(member.key, content),
+      kind: 'property',
+      signature,
+      type: member.typeAnnotation
+        ? getSourceText(member.typeAnnotation.typeAnnotation, content)
+        : undefined,
+      optional: member.optional || false,
+      readonly: member.readonly || false,
+      jsDoc,
+    };
+  }
+
+  if (t.isTSMethodSignature(member)) {
+    return {
+      name: getPropertyKeyName(member.key, content),
+      kind: 'method',
+      signature,
+      type: member.typeAnnotation
+        ? getSourceText(member.typeAnnotation.typeAnnotation, content)
+        : undefined,
+      optional: member.optional || false,
+      readonly: false,
+      jsDoc,
+    };
+  }
+
+  if (t.isTSIndexSignature(member)) {
+    return {
+      name: '[index]',
+      kind: 'index',
+      signature,
+      type: member.typeAnnotation
+        ? getSourceText(member.typeAnnotation.typeAnnotation, content)
+        : undefined,
+      optional: false,
+      readonly: member.readonly || false,
+      jsDoc,
+    };
+  }
+
+  if (t.isTSCallSignatureDeclaration(member)) {
+    return {
+      name: '()',
+      kind: 'call',
+      signature,
+      optional: false,
+      readonly: false,
+      jsDoc,
+    };
+  }
+
+  if (t.isTSConstructSignatureDeclaration(member)) {
+    return {
+      name: 'new()',
+      kind: 'construct',
+      signature,
+      optional: false,
+      readonly: false,
+      jsDoc,
+    };
+  }
+
+  return null;
+}
+
+function parseTypeAliasDeclaration(
+  node: t.TSTypeAliasDeclaration,
+  path: NodePath,
+  content: string
+): ParsedTypeAlias {
+  const name = node.id.name;
+  const typeParameters = parseTypeParameterList(node.typeParameters, content);
+  const type = getSourceText(node.typeAnnotation, content);
+  const generics =
+    typeParameters.length > 0 ? `<${typeParameters.join(', ')}>` : '';
+
+  // Multi-line unions keep their original layout on the following lines
+  const separator = type.includes('\n') ? '\n  ' : ' ';
+
+  return {
+    name,
+    signature: `export type ${name}${generics} =${separator}${type}`,
+    typeParameters,
+    type,
+    ...withDocs(extractJSDoc(path)),
+  };
+}
+
+function parseEnumDeclaration(
+  node: t.TSEnumDeclaration,
+  path: NodePath,
+  content: string
+): ParsedEnum {
+  const name = node.id.name;
+  const isConst = node.const || false;
+  // Babel 7 exposes enum members directly on the declaration
+  const members = node.members.map(member => ({
+    name: t.isIdentifier(member.id) ? member.id.name : member.id.value,
+    value: member.initializer
+      ? getSourceText(member.initializer, content)
+      : undefined,
+    jsDoc: getLastJSDoc(member.leadingComments),
+  }));
+
+  return {
+    name,
+    signature: `export ${isConst ? 'const ' : ''}enum ${name}`,
+    isConst,
+    members,
+    ...withDocs(extractJSDoc(path)),
+  };
+}
+
+function parseTypeParameterList(
+  typeParameters: t.TSTypeParameterDeclaration | null | undefined,
+  content: string
+): string[] {
+  if (!typeParameters) {
+    return [];
+  }
+  return typeParameters.params.map(param => getSourceText(param, content));
+}
+
+/**
+ * Type parameters of functions and classes, which Babel may also type as Flow
+ */
+function getTypeParameters(
+  node: { typeParameters?: t.Node | null },
+  content: string
+): string[] {
+  return t.isTSTypeParameterDeclaration(node.typeParameters)
+    ? parseTypeParameterList(node.typeParameters, content)
+    : [];
+}
+
+function formatTypeParameters(typeParameters: string[] = []): string {
+  return typeParameters.length > 0 ? `<${typeParameters.join(', ')}>` : '';
+}
+
+function getPropertyKeyName(key: t.Expression, content: string): string {
+  if (t.isIdentifier(key)) return key.name;
+  if (t.isStringLiteral(key)) return key.value;
+  if (t.isNumericLiteral(key)) return key.value.toString();
+  return `[${getSourceText(key, content)}]`;
+}
+
+/**
+ * Returns the original source text of a node, used where type information
+ * must be reproduced exactly (type aliases, interface members, enums)
+ */
+function getSourceText(node: t.Node, content: string): string {
+  if (node.start === null || node.start === undefined || !node.end) {
+    return '';
+  }
+  return content.slice(node.start, node.end);
+}
+
 function parseFunctionDeclaration(
-  node: t.FunctionDeclaration,
+  node: t.FunctionDeclaration | t.TSDeclareFunction,
   isDefault: boolean,
+  content: string,
   path?: NodePath
 ): ParsedFunction | null {
   if (!node.id && !isDefault) {
@@ -132,9 +553,16 @@ function parseFunctionDeclaration(
   }
 
   const name = isDefault ? 'default' : node.id?.name || 'anonymous';
-  const params = parseParameters(node.params);
+  const typeParameters = getTypeParameters(node, content);
+  const params = parseParameters(node.params, content);
   const returnType = parseReturnType(node);
-  const signature = generateSignature(name, params, returnType, isDefault);
+  const signature = generateSignature(
+    name,
+    params,
+    returnType,
+    isDefault,
+    typeParameters
+  );
   const jsDoc = path ? extractJSDoc(path) : undefined;
 
   return {
@@ -143,23 +571,25 @@ function parseFunctionDeclaration(
     isDefault,
     params,
     returnType,
-    jsDoc,
+    typeParameters,
+    ...withDocs(jsDoc),
   };
 }
 
 function parseArrowFunction(
   name: string,
-  node: t.ArrowFunctionExpression | t.FunctionExpression
+  node: t.ArrowFunctionExpression | t.FunctionExpression,
+  content: string,
+  path?: NodePath
 ): ParsedFunction | null {
-  const params = parseParameters(node.params);
+  const typeParameters = getTypeParameters(node, content);
+  const params = parseParameters(node.params, content);
   const returnType = parseArrowReturnType(node);
-  const signature = `export const ${name} = (${params
-    .map(p => {
-      const optional = p.optional ? '?' : '';
-      const type = p.type ? `: ${p.type}` : '';
-      return `${p.name}${optional}${type}`;
-    })
-    .join(', ')})${returnType ? `: ${returnType}` : ''} => {}`;
+  const signature = `export const ${name} = ${formatTypeParameters(
+    typeParameters
+  )}(${formatParameterList(params)})${
+    returnType ? `: ${returnType}` : ''
+  } => {}`;
 
   return {
     name,
@@ -167,13 +597,21 @@ function parseArrowFunction(
     isDefault: false,
     params,
     returnType,
+    typeParameters,
+    ...withDocs(path ? extractJSDoc(path) : undefined),
   };
 }
 
 function parseParameters(
-  params: (t.Identifier | t.Pattern | t.RestElement | t.TSParameterProperty)[]
+  params: (t.Identifier | t.Pattern | t.RestElement | t.TSParameterProperty)[],
+  content?: string
 ): Parameter[] {
   return params.map(param => {
+    // Constructor parameter properties wrap the underlying parameter
+    if (t.isTSParameterProperty(param)) {
+      return parseParameters([param.parameter], content)[0];
+    }
+
     if (t.isIdentifier(param)) {
       return {
         name: param.name,
@@ -184,13 +622,34 @@ function parseParameters(
       };
     }
 
-    if (t.isAssignmentPattern(param) && t.isIdentifier(param.left)) {
+    if (t.isAssignmentPattern(param) && isBindingTarget(param.left)) {
+      const parsed = parseParameters([param.left], content)[0];
+      // Declarations allow no defaults in an optional pattern: { a, b }?: Options
+      const name =
+        t.isObjectPattern(param.left) || t.isArrayPattern(param.left)
+          ? formatBindingPattern(param.left)
+          : parsed.name;
+      return { ...parsed, name, optional: true };
+    }
+
+    // Rest parameters (...args: string[])
+    if (t.isRestElement(param) && isBindingTarget(param.argument)) {
+      const argument = parseParameters([param.argument], content)[0];
       return {
-        name: param.left.name,
-        type: param.left.typeAnnotation
-          ? getTypeAnnotation(param.left.typeAnnotation)
-          : undefined,
-        optional: true,
+        name: `...${argument.name}`,
+        type: param.typeAnnotation
+          ? getTypeAnnotation(param.typeAnnotation)
+          : argument.type,
+        optional: false,
+      };
+    }
+
+    // Destructured parameters ({ id, name = '' }: { id: string; name?: string })
+    if (t.isObjectPattern(param) || t.isArrayPattern(param)) {
+      return {
+        name: formatBindingPattern(param, content),
+        type: getPatternType(param, content),
+        optional: false,
       };
     }
 
@@ -201,6 +660,91 @@ function parseParameters(
   });
 }
 
+function isBindingTarget(
+  node: t.Node
+): node is t.Identifier | t.ObjectPattern | t.ArrayPattern | t.RestElement {
+  return (
+    t.isIdentifier(node) ||
+    t.isObjectPattern(node) ||
+    t.isArrayPattern(node) ||
+    t.isRestElement(node)
+  );
+}
+
+/**
+ * Type of a destructured parameter. Type literals are taken from the source,
+ * getTypeString would collapse them to `{ ... }`.
+ */
+function getPatternType(
+  param: t.ObjectPattern | t.ArrayPattern,
+  content?: string
+): string | undefined {
+  if (!param.typeAnnotation) {
+    return undefined;
+  }
+  if (content && t.isTSTypeAnnotation(param.typeAnnotation)) {
+    return getSourceText(param.typeAnnotation.typeAnnotation, content).replace(
+      /\s+/g,
+      ' '
+    );
+  }
+  return getTypeAnnotation(param.typeAnnotation);
+}
+
+/**
+ * Render a destructuring pattern with its bound names, and with the default
+ * values when the source is available
+ */
+function formatBindingPattern(node: t.Node | null, content?: string): string {
+  if (t.isIdentifier(node)) {
+    return node.name;
+  }
+  if (t.isAssignmentPattern(node)) {
+    return withDefault(formatBindingPattern(node.left, content), node, content);
+  }
+  if (t.isRestElement(node)) {
+    return `...${formatBindingPattern(node.argument, content)}`;
+  }
+  if (t.isArrayPattern(node)) {
+    const elements = node.elements.map(element =>
+      formatBindingPattern(element, content)
+    );
+    return `[${elements.join(', ')}]`;
+  }
+  if (t.isObjectPattern(node)) {
+    const properties = node.properties.map(property => {
+      if (t.isRestElement(property)) {
+        return formatBindingPattern(property, content);
+      }
+      const key = t.isExpression(property.key)
+        ? getPropertyKeyName(property.key, '')
+        : 'key';
+      const value = t.isAssignmentPattern(property.value)
+        ? property.value.left
+        : property.value;
+      const binding =
+        t.isObjectPattern(value) || t.isArrayPattern(value)
+          ? `${key}: ${formatBindingPattern(value, content)}`
+          : key;
+      return t.isAssignmentPattern(property.value)
+        ? withDefault(binding, property.value, content)
+        : binding;
+    });
+    return properties.length > 0 ? `{ ${properties.join(', ')} }` : '{}';
+  }
+  return '';
+}
+
+function withDefault(
+  binding: string,
+  pattern: t.AssignmentPattern,
+  content?: string
+): string {
+  return content
+    ? `${binding} = ${getSourceText(pattern.right, content).replace(/\s+/g, ' ')}`
+    : binding;
+}
+
 function getTypeAnnotation(
   typeAnnotation: t.TypeAnnotation | t.TSTypeAnnotation | t.Noop
 ): string {
@@ -219,6 +763,18 @@ function getTypeString(type: t.TSType): string {
   if (t.isTSUndefinedKeyword(type)) return 'undefined';
   if (t.isTSNullKeyword(type)) return 'null';
   if (t.isTSAnyKeyword(type)) return 'any';
+  if (t.isTSThisType(type)) return 'this';
+
+  // Type predicates (value is string, asserts value is string, asserts value)
+  if (t.isTSTypePredicate(type)) {
+    const parameterName = t.isIdentifier(type.parameterName)
+      ? type.parameterName.name
+      : 'this';
+    const predicate = type.typeAnnotation
+      ? ` is ${getTypeString(type.typeAnnotation.typeAnnotation)}`
+      : '';
+    return `${type.asserts ? 'asserts ' : ''}${parameterName}${predicate}`;
+  }
 
   // Array types
   if (t.isTSArrayType(type)) {
@@ -344,7 +900,9 @@ function getQualifiedTypeName(qualifiedName: t.TSQualifiedName): string {
   return 'QualifiedType';
 }
 
-function parseReturnType(node: t.FunctionDeclaration): string | undefined {
+function parseReturnType(
+  node: t.FunctionDeclaration | t.TSDeclareFunction
+): string | undefined {
   if (node.returnType && t.isTSTypeAnnotation(node.returnType)) {
     return getTypeString(node.returnType.typeAnnotation);
   }
@@ -364,28 +922,33 @@ function generateSignature(
   name: string,
   params: Parameter[],
   returnType?: string,
-  isDefault = false
+  isDefault = false,
+  typeParameters: string[] = []
 ): string {
-  const paramStr = params
-    .map(p => {
-      const optional = p.optional ? '?' : '';
-      const type = p.type ? `: ${p.type}` : '';
-      return `${p.name}${optional}${type}`;
-    })
-    .join(', ');
-
   const returnStr = returnType ? `: ${returnType}` : '';
   const exportKeyword = isDefault
     ? 'export default function'
     : 'export function';
   const funcName = isDefault ? '' : ` ${name}`;
+  const generics = formatTypeParameters(typeParameters);
 
-  return `${exportKeyword}${funcName}(${paramStr})${returnStr}`;
+  return `${exportKeyword}${funcName}${generics}(${formatParameterList(params)})${returnStr}`;
+}
+
+function formatParameterList(params: Parameter[]): string {
+  return params
+    .map(p => {
+      const optional = p.optional ? '?' : '';
+      const type = p.type ? `: ${p.type}` : '';
+      return `${p.name}${optional}${type}`;
+    })
+    .join(', ');
 }
 
 function parseClassDeclaration(
   node: t.ClassDeclaration,
   path: NodePath,
+  content: string,
   isDefault = false
 ): ParsedClass | null {
   if (!node.id && !isDefault) {
@@ -393,53 +956,337 @@ function parseClassDeclaration(
   }
 
   const name = isDefault ? 'default' : node.id?.name || 'anonymous';
-  const methods = parseClassMethods(node.body.body);
+  const typeParameters = getTypeParameters(node, content);
+  const superClass = node.superClass
+    ? `${getSourceText(node.superClass, content)}${
+        node.superTypeParameters
+          ? getSourceText(node.superTypeParameters, content)
+          : ''
+      }`
+    : undefined;
+  const implementsList = (node.implements || []).map(clause =>
+    getSourceText(clause, content).replace(/\s+/g, ' ')
+  );
+  const methods = parseClassMethods(node.body.body, content);
+  const properties = parseClassProperties(node.body.body);
+  const accessors = parseClassAccessors(node.body.body);
+  const constructorMethod = parseClassConstructor(node.body.body, content);
   const jsDoc = extractJSDoc(path);
 
+  const exportKeyword = isDefault ? 'export default' : 'export';
+  const abstractKeyword = node.abstract ? 'abstract ' : '';
+  const className = node.id ? ` ${node.id.name}` : '';
+  const extendsClause = superClass
+    ? ` extends ${superClass.replace(/\s+/g, ' ')}`
+    : '';
+  const implementsClause =
+    implementsList.length > 0 ? ` implements ${implementsList.join(', ')}` : '';
+
   return {
     name,
+    signature: `${exportKeyword} ${abstractKeyword}class${className}${formatTypeParameters(typeParameters)}${extendsClause}${implementsClause}`,
+    typeParameters,
+    extends: superClass,
+    implements: implementsList,
     methods,
-    jsDoc,
+    properties,
+    accessors,
+    constructorMethod,
+    isAbstract: node.abstract || false,
+    ...withDocs(jsDoc),
   };
 }
 
-function parseClassMethods(body: (t.ClassMethod | t.Node)[]): ParsedMethod[] {
+function parseClassMethods(
+  body: (t.ClassMethod | t.Node)[],
+  content: string
+): ParsedMethod[] {
   const methods: ParsedMethod[] = [];
+  const overloads = new Map<string, ParsedMethod[]>();
 
   body.forEach(member => {
-    if (t.isClassMethod(member) && member.kind === 'method') {
-      const method = parseClassMethod(member);
-      if (method) {
+    if (
+      (t.isClassMethod(member) ||
+        t.isClassPrivateMethod(member) ||
+        t.isTSDeclareMethod(member)) &&
+      member.kind === 'method'
+    ) {
+      const method = parseClassMethod(member, content);
+      if (!method) {
+        return;
+      }
+
+      // Bodiless non-abstract methods are overload declarations
+      if (t.isTSDeclareMethod(member) && !member.abstract) {
+        overloads.set(method.name, [
+          ...(overloads.get(method.name) || []),
+          method,
+        ]);
+      } else {
         methods.push(method);
       }
     }
   });
 
-  return methods;
+  return attachOverloads(methods, overloads);
 }
 
-function parseClassMethod(node: t.ClassMethod): ParsedMethod | null {
-  if (!t.isIdentifier(node.key)) {
+function parseClassMethod(
+  node: t.ClassMethod | t.ClassPrivateMethod | t.TSDeclareMethod,
+  content: string
+): ParsedMethod | null {
+  const name = getClassMemberName(node);
+  if (!name) {
     return null;
   }
 
-  const name = node.key.name;
-  const isPrivate = node.accessibility === 'private' || name.startsWith('_');
-  const params = parseParameters(node.params);
+  const visibility = getMemberVisibility(node, name);
+  const isStatic = node.static || false;
+  const isAbstract = node.abstract || false;
+  const typeParameters = getTypeParameters(node, content);
+  const params = parseParameters(node.params, content);
   const returnType = parseMethodReturnType(node);
-  const signature = generateMethodSignature(name, params, returnType);
+  const modifiers = getModifierPrefix(visibility, isStatic, isAbstract);
+  const signature = `${modifiers}${generateMethodSignature(
+    name,
+    params,
+    returnType,
+    typeParameters
+  )}`;
 
   return {
     name,
     signature,
     params,
     returnType,
-    isPrivate,
-    jsDoc: undefined, // JSDoc for methods will be extracted separately if needed
+    isPrivate: visibility === 'private',
+    visibility,
+    isStatic,
+    isAbstract,
+    typeParameters,
+    ...withDocs(getLastJSDoc(node.leadingComments)),
   };
 }
 
-function parseMethodReturnType(node: t.ClassMethod): string | undefined {
+function parseClassConstructor(
+  body: (t.ClassMethod | t.Node)[],
+  content: string
+): ParsedMethod | undefined {
+  const node = body.find(
+    (member): member is t.ClassMethod =>
+      t.isClassMethod(member) && member.kind === 'constructor'
+  );
+  if (!node) {
+    return undefined;
+  }
+
+  const visibility = getMemberVisibility(node, 'constructor');
+  const params = parseParameters(node.params, content);
+
+  // Keep parameter property modifiers, they declare members of the class
+  const paramStr = node.params
+    .map((param, index) => {
+      const parsed = params[index];
+      const optional = parsed.optional ? '?' : '';
+      const type = parsed.type ? `: ${parsed.type}` : '';
+      const prefix = t.isTSParameterProperty(param)
+        ? getModifierPrefix(
+            param.accessibility || 'public',
+            false,
+            false,
+            param.readonly || false
+          ) || 'public '
+        : '';
+      return `${prefix}${parsed.name}${optional}${type}`;
+    })
+    .join(', ');
+
+  return {
+    name: 'constructor',
+    signature: `${getModifierPrefix(visibility, false, false)}constructor(${paramStr})`,
+    params,
+    isPrivate: visibility === 'private',
+    visibility,
+    isStatic: false,
+    isAbstract: false,
+    ...withDocs(getLastJSDoc(node.leadingComments)),
+  };
+}
+
+function parseClassProperties(body: t.Node[]): ParsedProperty[] {
+  const properties: ParsedProperty[] = [];
+
+  body.forEach(member => {
+    if (
+      t.isClassProperty(member) ||
+      t.isClassPrivateProperty(member) ||
+      t.isClassAccessorProperty(member)
+    ) {
+      const name = getClassMemberName(member);
+      if (!name) {
+        return;
+      }
+
+      const visibility = getMemberVisibility(member, name);
+      properties.push(
+        createProperty(name, {
+          type: member.typeAnnotation
+            ? getTypeAnnotation(member.typeAnnotation)
+            : undefined,
+          optional: ('optional' in member && member.optional) || false,
+          visibility,
+          isStatic: member.static || false,
+          isReadonly: ('readonly' in member && member.readonly) || false,
+          isAbstract: ('abstract' in member && member.abstract) || false,
+          isParameterProperty: false,
+          jsDoc: getLastJSDoc(member.leadingComments),
+        })
+      );
+    }
+
+    if (t.isClassMethod(member) && member.kind === 'constructor') {
+      member.params.forEach(param => {
+        if (!t.isTSParameterProperty(param)) {
+          return;
+        }
+
+        const [parsed] = parseParameters([param]);
+        properties.push(
+          createProperty(parsed.name, {
+            type: parsed.type,
+            // A default value makes the argument optional, not the member
+            optional:
+              (t.isIdentifier(param.parameter) && param.parameter.optional) ||
+              false,
+            visibility: param.accessibility || 'public',
+            isStatic: false,
+            isReadonly: param.readonly || false,
+            isAbstract: false,
+            isParameterProperty: true,
+            jsDoc: getLastJSDoc(param.leadingComments),
+          })
+        );
+      });
+    }
+  });
+
+  return properties;
+}
+
+function createProperty(
+  name: string,
+  details: Omit<ParsedProperty, 'name' | 'signature'>
+): ParsedProperty {
+  const modifiers = getModifierPrefix(
+    details.visibility,
+    details.isStatic,
+    details.isAbstract,
+    details.isReadonly
+  );
+  const optional = details.optional ? '?' : '';
+  const type = details.type ? `: ${details.type}` : '';
+
+  return {
+    name,
+    signature: `${modifiers}${name}${optional}${type}`,
+    ...details,
+  };
+}
+
+function parseClassAccessors(body: t.Node[]): ParsedAccessor[] {
+  const accessors: ParsedAccessor[] = [];
+
+  body.forEach(member => {
+    if (
+      !(t.isClassMethod(member) || t.isTSDeclareMethod(member)) ||
+      (member.kind !== 'get' && member.kind !== 'set')
+    ) {
+      return;
+    }
+
+    const name = getClassMemberName(member);
+    if (!name) {
+      return;
+    }
+
+    const visibility = getMemberVisibility(member, name);
+    const isStatic = member.static || false;
+    const isAbstract = member.abstract || false;
+    const params = parseParameters(member.params);
+    const type =
+      member.kind === 'get' ? parseMethodReturnType(member) : params[0]?.type;
+    const modifiers = getModifierPrefix(visibility, isStatic, isAbstract);
+    const signature =
+      member.kind === 'get'
+        ? `${modifiers}get ${generateMethodSignature(name, [], type)}`
+        : `${modifiers}set ${generateMethodSignature(name, params)}`;
+
+    accessors.push({
+      name,
+      kind: member.kind,
+      signature,
+      type,
+      visibility,
+      isStatic,
+      isAbstract,
+      jsDoc: getLastJSDoc(member.leadingComments),
+    });
+  });
+
+  return accessors;
+}
+
+/**
+ * Resolve a class member key to its display name (#private names keep the #)
+ */
+function getClassMemberName(
+  node:
+    | t.ClassMethod
+    | t.ClassPrivateMethod
+    | t.TSDeclareMethod
+    | t.ClassProperty
+    | t.ClassPrivateProperty
+    | t.ClassAccessorProperty
+): string | undefined {
+  if (t.isPrivateName(node.key)) {
+    return `#${node.key.id.name}`;
+  }
+  if (('computed' in node && node.computed) || !t.isExpression(node.key)) {
+    return undefined;
+  }
+  return getPropertyKeyName(node.key, '');
+}
+
+function getMemberVisibility(
+  node: { accessibility?: MemberVisibility | null; key: t.Node },
+  name: string
+): MemberVisibility {
+  if (t.isPrivateName(node.key) || name.startsWith('_')) {
+    return 'private';
+  }
+  return node.accessibility || 'public';
+}
+
+/**
+ * Build the TypeScript modifier prefix for a class member (public is implicit)
+ */
+function getModifierPrefix(
+  visibility: MemberVisibility,
+  isStatic: boolean,
+  isAbstract: boolean,
+  isReadonly = false
+): string {
+  const modifiers: string[] = [];
+  if (visibility !== 'public') modifiers.push(visibility);
+  if (isStatic) modifiers.push('static');
+  if (isAbstract) modifiers.push('abstract');
+  if (isReadonly) modifiers.push('readonly');
+  return modifiers.length > 0 ? `${modifiers.join(' ')} ` : '';
+}
+
+function parseMethodReturnType(
+  node: t.ClassMethod | t.ClassPrivateMethod | t.TSDeclareMethod
+): string | undefined {
   if (node.returnType && t.isTSTypeAnnotation(node.returnType)) {
     return getTypeString(node.returnType.typeAnnotation);
   }
@@ -449,63 +1296,61 @@ function parseMethodReturnType(node: t.ClassMethod): string | undefined {
 function generateMethodSignature(
   name: string,
   params: Parameter[],
-  returnType?: string
+  returnType?: string,
+  typeParameters: string[] = []
 ): string {
-  const paramStr = params
-    .map(p => {
-      const optional = p.optional ? '?' : '';
-      const type = p.type ? `: ${p.type}` : '';
-      return `${p.name}${optional}${type}`;
-    })
-    .join(', ');
-
   const returnStr = returnType ? `: ${returnType}` : '';
-  return `${name}(${paramStr})${returnStr}`;
+  return `${name}${formatTypeParameters(typeParameters)}(${formatParameterList(params)})${returnStr}`;
+}
+
+/**
+ * Raw JSDoc plus its structured form, for spreading into parsed declarations
+ */
+function withDocs(jsDoc: string | undefined): {
+  jsDoc?: string;
+  docs?: ParsedJSDoc;
+} {
+  return jsDoc ? { jsDoc, docs: parseJSDoc(jsDoc) } : { jsDoc };
 }
 
 function extractJSDoc(path: NodePath): string | undefined {
   // For ExportNamedDeclaration, check the declaration's leading comments first
-  if (
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    (path.node as any).declaration &&
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    (path.node as any).declaration.leadingComments
-  ) {
-    // Get the last JSDoc comment (the one immediately before the declaration)
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const jsDocComments = (path.node as any).declaration.leadingComments.filter(
-      (comment: t.Comment) =>
-        comment.type === 'CommentBlock' && comment.value.startsWith('*')
-    );
-
-    if (jsDocComments.length > 0) {
-      const lastJsDoc = jsDocComments[jsDocComments.length - 1];
-      // Clean up the JSDoc value - remove leading * if present
-      const cleanValue = lastJsDoc.value.startsWith('*')
-        ? lastJsDoc.value.substring(1)
-        : lastJsDoc.value;
-      return `/**${cleanValue}*/`;
-    }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const declaration = (path.node as any).declaration as t.Node | undefined;
+  const declarationJsDoc = getLastJSDoc(declaration?.leadingComments);
+  if (declarationJsDoc) {
+    return declarationJsDoc;
   }
 
   // If no declaration comments, check the export node itself
-  if (path.node.leadingComments) {
-    const jsDocComments = path.node.leadingComments.filter(
-      (comment: t.Comment) =>
-        comment.type === 'CommentBlock' && comment.value.startsWith('*')
-    );
+  return getLastJSDoc(path.node.leadingComments);
+}
 
-    if (jsDocComments.length > 0) {
-      const lastJsDoc = jsDocComments[jsDocComments.length - 1];
-      // Clean up the JSDoc value - remove leading * if present
-      const cleanValue = lastJsDoc.value.startsWith('*')
-        ? lastJsDoc.value.substring(1)
-        : lastJsDoc.value;
-      return `/**${cleanValue}*/`;
-    }
+/**
+ * Get the last JSDoc comment (the one immediately before the node)
+ */
+function getLastJSDoc(
+  comments: readonly t.Comment[] | null | undefined
+): string | undefined {
+  if (!comments) {
+    return undefined;
   }
 
-  return undefined;
+  const jsDocComments = comments.filter(
+    (comment: t.Comment) =>
+      comment.type === 'CommentBlock' && comment.value.startsWith('*')
+  );
+
+  if (jsDocComments.length === 0) {
+    return undefined;
+  }
+
+  const lastJsDoc = jsDocComments[jsDocComments.length - 1];
+  // Clean up the JSDoc value - remove leading * if present
+  const cleanValue = lastJsDoc.value.startsWith('*')
+    ? lastJsDoc.value.substring(1)
+    : lastJsDoc.value;
+  return `/**${cleanValue}*/`;
 }
 
 function generateExportMetadata(
@@ -0,0 +1,52 @@
+import { promises as fs } from 'fs';
+import { ProjectDocument, ProjectDocumentOptions } from './types';
+import { parseFile } from './parser';
+import {
+  generateDependencyMarkdown,
+  generateMarkdown,
+  generateProjectMarkdown,
+} from './generator';
+import {
+  analyzeDependencies,
+  getTopologicalOrder,
+} from './dependency-analyzer';
+
+/**
+ * Document every file of a directory in a single markdown file, ordered so
+ * that modules come after the modules they import
+ */
+export async function buildProjectDocument(
+  rootDir: string,
+  files: string[],
+  options: ProjectDocumentOptions = {}
+): Promise<ProjectDocument> {
+  const graph = analyzeDependencies(files);
+  const modules: Array<{ filePath: string; markdown: string }> = [];
+  const skippedFiles: string[] = [];
+
+  for (const filePath of getTopologicalOrder(graph)) {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const parsedFile = parseFile(filePath, content);
+      modules.push({
+        filePath,
+        markdown: generateMarkdown(parsedFile, options.generatorOptions),
+      });
+    } catch {
+      skippedFiles.push(filePath);
+    }
+  }
+
+  const dependencyMarkdown = options.includeDependencies
+    ? generateDependencyMarkdown(graph, {
+        includeMermaid: options.includeMermaid,
+      })
+    : undefined;
+
+  return {
+    markdown: generateProjectMarkdown(rootDir, modules, dependencyMarkdown),
+    rootDir,
+    files: modules.map(({ filePath }) => filePath),
+    skippedFiles,
+  };
+}
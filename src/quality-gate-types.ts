@@ -0,0 +1,22 @@
+/**
+ * Types for quality gates
+ * Conditions on analysis findings that fail a CI run
+ */
+
+export type QualityGateOperator = '>' | '>=' | '<' | '<=';
+
+/**
+ * A condition that fails the gate, e.g. `duplication>3`
+ */
+export interface QualityGateCondition {
+  metric: string;
+  operator: QualityGateOperator;
+  threshold: number;
+}
+
+export interface QualityGateResult {
+  passed: boolean;
+  /** Value of every metric a condition applied to */
+  values: Record<string, number>;
+  failures: QualityGateCondition[];
+}
@@ -0,0 +1,216 @@
+/**
+ * Quality gate for CI
+ * Fails dead code, duplicate code and graph diff analysis when findings
+ * cross thresholds such as `new-cycles>0` or `health-delta<-5`
+ */
+
+import chalk from 'chalk';
+import { DeadCodeReport } from './dead-code-types';
+import { DuplicateCodeReport } from './duplicate-code-types';
+import { GraphDiffReport } from './graph-diff-types';
+import {
+  QualityGateCondition,
+  QualityGateOperator,
+  QualityGateResult,
+} from './quality-gate-types';
+
+/**
+ * Exit codes of the analysis commands. Each analysis fails its gate with
+ * its own code, so a CI script can tell which one blocked the merge.
+ */
+export const EXIT_CODES = {
+  passed: 0,
+  error: 1,
+  invalidCondition: 2,
+  deadCode: 3,
+  duplicateCode: 4,
+  graphDiff: 5,
+} as const;
+
+// Metrics a condition can name, by the analysis reporting them
+const METRICS = [
+  // High-confidence unused exports, the ones safe to remove
+  'dead-exports',
+  'unused-imports',
+  // Percentage of duplicated lines
+  'duplication',
+  'duplicate-blocks',
+  'new-cycles',
+  'health-delta',
+  'new-layer-violations',
+];
+
+/**
+ * Parse conditions like `new-cycles>0` from --fail-on or the qualityGate
+ * config, comma separated or one per entry
+ */
+export function parseFailOn(failOn: string | string[]): QualityGateCondition[] {
+  return (Array.isArray(failOn) ? failOn : [failOn])
+    .flatMap(entry => entry.split(','))
+    .map(entry => entry.replace(/\s+/g, ''))
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const match = /^([a-z-]+)(>=|<=|>|<)(-?\d+(?:\.\d+)?)$/.exec(entry);
+      if (!match) {
+        throw new Error(
+          `Invalid quality gate condition "${entry}", expected e.g. new-cycles>0`
+        );
+      }
+      if (!METRICS.includes(match[1])) {
+        throw new Error(
+          `Unknown quality gate metric "${match[1]}", use one of: ${METRICS.join(', ')}`
+        );
+      }
+      return {
+        metric: match[1],
+        operator: match[2] as QualityGateOperator,
+        threshold: parseFloat(match[3]),
+      };
+    });
+}
+
+/**
+ * Check the conditions on the metrics an analysis reported. Conditions on
+ * metrics of other analyses are skipped, null when none applied.
+ */
+export function evaluateQualityGate(
+  conditions: QualityGateCondition[],
+  metrics: Record<string, number>
+): QualityGateResult | null {
+  const applied = conditions.filter(condition => condition.metric in metrics);
+  if (applied.length === 0) {
+    return null;
+  }
+
+  const values: Record<string, number> = {};
+  applied.forEach(condition => {
+    values[condition.metric] = metrics[condition.metric];
+  });
+  const failures = applied.filter(condition =>
+    compare(metrics[condition.metric], condition)
+  );
+  return { passed: failures.length === 0, values, failures };
+}
+
+/**
+ * One-line summary of a gate, e.g.
+ * `Quality gate failed: new-cycles 2 > 0, health-delta -1.5`
+ */
+export function formatQualityGateSummary(result: QualityGateResult): string {
+  const details = Object.entries(result.values).map(([metric, raw]) => {
+    const value = Math.round(raw * 100) / 100;
+    const failure = result.failures.find(
+      condition => condition.metric === metric
+    );
+    return failure
+      ? `${metric} ${value} ${failure.operator} ${failure.threshold}`
+      : `${metric} ${value}`;
+  });
+  return `Quality gate ${result.passed ? 'passed' : 'failed'}: ${details.join(', ')}`;
+}
+
+/**
+ * Print the summary of the gate and return its result. A failed condition
+ * sets `process.exitCode` to `failureCode`, without exiting, so callers
+ * running in process keep control. The summary goes to stderr after JSON
+ * output, so stdout stays a JSON document.
+ */
+export function applyQualityGate(
+  conditions: QualityGateCondition[] | undefined,
+  metrics: Record<string, number>,
+  failureCode: number,
+  format?: 'table' | 'json'
+): QualityGateResult | null {
+  const result = evaluateQualityGate(conditions || [], metrics);
+  if (!result) {
+    return null;
+  }
+
+  const summary = formatQualityGateSummary(result);
+  const print = format === 'json' ? console.error : console.log;
+  print(result.passed ? chalk.green(summary) : chalk.red.bold(summary));
+  if (!result.passed) {
+    process.exitCode = failureCode;
+  }
+  return result;
+}
+
+export function getDeadCodeGateMetrics(
+  report: DeadCodeReport
+): Record<string, number> {
+  return {
+    'dead-exports': report.deadExports.filter(
+      deadExport => deadExport.confidence === 'high'
+    ).length,
+    'unused-imports': report.unusedImports.length,
+  };
+}
+
+export function getDuplicateCodeGateMetrics(
+  report: DuplicateCodeReport
+): Record<string, number> {
+  return {
+    duplication: report.metrics.duplicationPercentage,
+    'duplicate-blocks': report.metrics.totalDuplicates,
+  };
+}
+
+export function getGraphDiffGateMetrics(
+  report: GraphDiffReport
+): Record<string, number> {
+  const { baseline, current } = report.metrics;
+  return {
+    'new-cycles': Math.max(
+      0,
+      current.circularDependencies.length - baseline.circularDependencies.length
+    ),
+    'health-delta': report.impact.healthChange.delta,
+    'new-layer-violations': Math.max(
+      0,
+      (current.layerViolations || 0) - (baseline.layerViolations || 0)
+    ),
+  };
+}
+
+/**
+ * Help section on --fail-on and the exit codes, shared by the analyses
+ */
+export function getQualityGateHelpText(example: string): string {
+  return `
+Quality Gate:
+  --fail-on <conditions>       Exit non-zero when findings meet a condition,
+                               <metric><op><number> with op >, >=, < or <=,
+                               comma separated. Defaults to qualityGate.failOn
+                               in .m2jsrc
+  Metrics:
+    dead-exports               High-confidence unused exports (--detect-unused)
+    unused-imports             Unused imports (--detect-unused)
+    duplication                Percentage of duplicated lines (--detect-duplicates)
+    duplicate-blocks           Duplicate blocks (--detect-duplicates)
+    new-cycles                 Circular dependencies introduced (--graph-diff)
+    health-delta               Health score change (--graph-diff)
+    new-layer-violations       Architecture rule violations added (--graph-diff)
+  Exit codes:
+    0  Analysis done, no condition met
+    1  Analysis failed
+    2  Invalid --fail-on condition
+    3  Dead code condition met
+    4  Duplicate code condition met
+    5  Graph diff condition met
+  Example:
+    ${example}
+`;
+}
+
+function compare(value: number, condition: QualityGateCondition): boolean {
+  switch (condition.operator) {
+    case '>':
+      return value > condition.threshold;
+    case '>=':
+      return value >= condition.threshold;
+    case '<':
+      return value < condition.threshold;
+    case '<=':
+      return value <= condition.threshold;
+  }
+}
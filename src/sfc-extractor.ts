@@ -0,0 +1,118 @@
+import path from 'path';
+
+export const SFC_EXTENSIONS = ['.vue', '.svelte', '.astro'];
+
+const SCRIPT_BLOCK = /(<script\b([^>]*)>)([\s\S]*?)<\/script\s*>/gi;
+const STYLE_BLOCK = /<style\b[^>]*>[\s\S]*?<\/style\s*>/gi;
+// Astro component scripts live in a --- fenced block at the top of the file
+const ASTRO_FRONTMATTER = /^(\s*---[^\S\r\n]*\r?\n)([\s\S]*?)\r?\n---/;
+// Data blocks such as <script type="application/ld+json"> are not code
+const NON_CODE_TYPE = /\btype\s*=\s*["'](?!module|text\/(?:java|type)script)/i;
+const MARKUP_WORD = /[A-Za-z_$][\w$]*(?:-[A-Za-z0-9]+)*/g;
+
+/**
+ * Whether the file is a Vue, Svelte or Astro single-file component
+ */
+export function isSingleFileComponent(filePath: string): boolean {
+  return SFC_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Return the code of a single-file component with everything outside its
+ * script blocks replaced by spaces. Line breaks are kept, so line and column
+ * positions in the result are those of the original file. Other files are
+ * returned unchanged.
+ */
+export function extractScriptContent(
+  filePath: string,
+  content: string
+): string {
+  if (!isSingleFileComponent(filePath)) {
+    return content;
+  }
+
+  let result = '';
+  let cursor = 0;
+  getScriptRanges(filePath, content).forEach(([start, end]) => {
+    result += blank(content.slice(cursor, start)) + content.slice(start, end);
+    cursor = end;
+  });
+
+  return result + blank(content.slice(cursor));
+}
+
+/**
+ * Identifiers referenced by the markup of a single-file component, with
+ * kebab-case tags and attributes also listed in PascalCase and camelCase
+ * (<my-button> uses MyButton). Empty for other files.
+ */
+export function getMarkupIdentifiers(
+  filePath: string,
+  content: string
+): Set<string> {
+  const identifiers = new Set<string>();
+  if (!isSingleFileComponent(filePath)) {
+    return identifiers;
+  }
+
+  let markup = content;
+  getScriptRanges(filePath, content).forEach(([start, end]) => {
+    markup =
+      markup.slice(0, start) +
+      blank(markup.slice(start, end)) +
+      markup.slice(end);
+  });
+  markup = markup.replace(STYLE_BLOCK, match => blank(match));
+
+  for (const [word] of markup.matchAll(MARKUP_WORD)) {
+    word.split('-').forEach(part => identifiers.add(part));
+    if (word.includes('-')) {
+      const pascalCase = word
+        .split('-')
+        .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+        .join('');
+      identifiers.add(pascalCase);
+      identifiers.add(pascalCase.charAt(0).toLowerCase() + pascalCase.slice(1));
+    } else {
+      identifiers.add(word);
+    }
+  }
+
+  return identifiers;
+}
+
+/**
+ * Start and end offsets of the code inside each script block
+ */
+function getScriptRanges(
+  filePath: string,
+  content: string
+): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+
+  if (path.extname(filePath).toLowerCase() === '.astro') {
+    const frontmatter = ASTRO_FRONTMATTER.exec(content);
+    if (frontmatter) {
+      const start = frontmatter[1].length;
+      ranges.push([start, start + frontmatter[2].length]);
+    }
+  }
+
+  for (const match of content.matchAll(SCRIPT_BLOCK)) {
+    const [, openingTag, attributes, code] = match;
+    if (NON_CODE_TYPE.test(attributes)) {
+      continue;
+    }
+    const start = (match.index || 0) + openingTag.length;
+    // Script tags inside the Astro frontmatter are part of its code
+    if (!ranges.some(([from, to]) => start >= from && start <= to)) {
+      ranges.push([start, start + code.length]);
+    }
+  }
+
+  return ranges.sort(([a], [b]) => a - b);
+}
+
+function blank(text: string): string {
+  return text.replace(/[^\r\n]/g, ' ');
+}
@@ -0,0 +1,129 @@
+/**
+ * Graph snapshot store
+ * Keeps the graph snapshot of each commit in .m2js/snapshots, so baselines
+ * and history points are only analyzed once
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ArchitectureRules } from './architecture-rules-types';
+import { GraphSnapshot } from './graph-diff-types';
+
+// Bump when snapshots are computed differently, older ones are retaken
+const SNAPSHOT_VERSION = 2;
+
+export const SNAPSHOT_DIRECTORY = path.join('.m2js', 'snapshots');
+
+interface StoredSnapshot {
+  version: number;
+  // Violations and layers depend on the rules the snapshot was taken with
+  rulesHash: string;
+  // Paths are relative to the project directory
+  snapshot: GraphSnapshot;
+}
+
+/**
+ * Snapshots of commits, stored with paths relative to the project
+ */
+export class SnapshotStore {
+  private projectPath: string;
+  private directory: string;
+
+  constructor(projectPath: string) {
+    this.projectPath = path.resolve(projectPath);
+    this.directory = path.join(this.projectPath, SNAPSHOT_DIRECTORY);
+  }
+
+  /**
+   * Snapshot of a commit, or null when it was never stored, was stored by
+   * another version or with other architecture rules
+   */
+  load(commit: string, rules: ArchitectureRules): GraphSnapshot | null {
+    const file = this.getFile(commit);
+    if (!existsSync(file)) {
+      return null;
+    }
+
+    try {
+      const stored: StoredSnapshot = JSON.parse(readFileSync(file, 'utf-8'));
+      if (
+        stored.version !== SNAPSHOT_VERSION ||
+        stored.rulesHash !== hashRules(rules)
+      ) {
+        return null;
+      }
+      const snapshot = mapSnapshotPaths(stored.snapshot, relative =>
+        path.join(this.projectPath, relative)
+      );
+      return { ...snapshot, timestamp: new Date(snapshot.timestamp) };
+    } catch {
+      // A corrupt snapshot is retaken
+      return null;
+    }
+  }
+
+  /**
+   * Store the snapshot of a commit, its paths must be inside the project
+   */
+  save(
+    commit: string,
+    snapshot: GraphSnapshot,
+    rules: ArchitectureRules
+  ): void {
+    const stored: StoredSnapshot = {
+      version: SNAPSHOT_VERSION,
+      rulesHash: hashRules(rules),
+      snapshot: mapSnapshotPaths(snapshot, file =>
+        path.relative(this.projectPath, file).split(path.sep).join('/')
+      ),
+    };
+
+    try {
+      mkdirSync(this.directory, { recursive: true });
+      writeFileSync(this.getFile(commit), JSON.stringify(stored), 'utf8');
+    } catch {
+      // The store is a cache, analysis works without it
+    }
+  }
+
+  private getFile(commit: string): string {
+    return path.join(this.directory, `${commit}.json`);
+  }
+}
+
+/**
+ * Apply a function to every file path of a snapshot. Package names among
+ * the graph nodes and import specifiers are kept as they are.
+ */
+export function mapSnapshotPaths(
+  snapshot: GraphSnapshot,
+  map: (file: string) => string
+): GraphSnapshot {
+  const files = new Set(snapshot.files);
+  const { dependencyGraph: graph } = snapshot;
+  const mapMetrics = <T extends GraphSnapshot['metrics']>(metrics: T): T => ({
+    ...metrics,
+    circularDependencies: metrics.circularDependencies.map(cycle =>
+      cycle.map(map)
+    ),
+    mostConnectedModule:
+      metrics.mostConnectedModule && map(metrics.mostConnectedModule),
+  });
+
+  return {
+    ...snapshot,
+    files: snapshot.files.map(map),
+    dependencyGraph: {
+      projectPath: map(graph.projectPath),
+      nodes: graph.nodes.map(node => (files.has(node) ? map(node) : node)),
+      edges: graph.edges.map(edge => ({ ...edge, from: map(edge.from) })),
+      metrics: mapMetrics(graph.metrics),
+    },
+    metrics: mapMetrics(snapshot.metrics),
+  };
+}
+
+function hashRules(rules: ArchitectureRules): string {
+  return createHash('sha1').update(JSON.stringify(rules)).digest('hex');
+}
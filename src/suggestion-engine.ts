@@ -4,7 +4,16 @@
  */
 
 import path from 'path';
-import { DeadExport, UnusedImport, RemovalSuggestion } from './dead-code-types';
+import {
+  DeadExport,
+  UnusedImport,
+  RemovalSuggestion,
+  LocalDeadCode,
+  UnusedLocal,
+  UnusedMember,
+  UnusedParameter,
+} from './dead-code-types';
+import { isExternalModule } from './dependency-analyzer';
 
 /**
  * Generate safe removal suggestions for dead code
@@ -12,7 +21,8 @@ import { DeadExport, UnusedImport, RemovalSuggestion } from './dead-code-types';
 export function generateRemovalSuggestions(
   deadExports: DeadExport[],
   unusedImports: UnusedImport[],
-  projectPath: string
+  projectPath: string,
+  localDeadCode?: LocalDeadCode
 ): RemovalSuggestion[] {
   const suggestions: RemovalSuggestion[] = [];
 
@@ -36,6 +46,13 @@ export function generateRemovalSuggestions(
     suggestions.push(suggestion);
   });
 
+  // Generate suggestions for unused locals, private members and parameters
+  if (localDeadCode) {
+    suggestions.push(
+      ...createLocalRemovalSuggestions(localDeadCode, projectPath)
+    );
+  }
+
   // Sort suggestions by priority and safety
   return suggestions.sort((a, b) => {
     const priorityOrder = { high: 3, medium: 2, low: 1 };
@@ -121,24 +138,85 @@ function createImportRemovalSuggestion(
   return suggestion;
 }
 
+/**
+ * Create removal suggestions for findings of the scope analysis
+ */
+function createLocalRemovalSuggestions(
+  localDeadCode: LocalDeadCode,
+  projectPath: string
+): RemovalSuggestion[] {
+  const { unusedLocals, unusedMembers, unusedParameters } = localDeadCode;
+  return [...unusedLocals, ...unusedMembers, ...unusedParameters].map(
+    (finding, index) => {
+      const hasRisks = finding.riskFactors.length > 0;
+      const suggestion: RemovalSuggestion = {
+        id: `local-${index}`,
+        priority: mapConfidenceToPriority(finding.confidence),
+        safety: mapConfidenceToSafety(finding.confidence, hasRisks),
+        file: path.relative(projectPath, finding.file),
+        line: finding.line,
+        ...describeLocalRemoval(finding),
+      };
+
+      if (finding.confidence === 'high' && !hasRisks) {
+        suggestion.command = `# Remove ${finding.name} on line ${finding.line} in ${path.basename(finding.file)}`;
+      }
+      if (hasRisks) {
+        suggestion.warnings = finding.riskFactors;
+      }
+
+      return suggestion;
+    }
+  );
+}
+
+/**
+ * Suggestion type, action and impact for a finding of the scope analysis
+ */
+function describeLocalRemoval(
+  finding: UnusedLocal | UnusedMember | UnusedParameter
+): Pick<RemovalSuggestion, 'type' | 'action' | 'impact'> {
+  if ('functionName' in finding) {
+    return {
+      type: 'remove-parameter',
+      action: `Remove unused parameter: ${finding.name} of ${finding.functionName}`,
+      impact: 'Remove unused parameter from the signature',
+    };
+  }
+  if ('className' in finding) {
+    return {
+      type: 'remove-member',
+      action: `Remove private ${finding.type}: ${finding.className}.${finding.name}`,
+      impact: `Remove unused private ${finding.type} (~${estimateLines(finding.type)} lines)`,
+    };
+  }
+  return {
+    type: 'remove-local',
+    action: `Remove unused ${finding.type}: ${finding.name}`,
+    impact: `Remove unused local ${finding.type} (~${estimateLines(finding.type)} lines)`,
+  };
+}
+
 /**
  * Generate confidence levels and risk assessment for dead exports
  */
 export function assessExportRemovalRisk(
   deadExport: DeadExport,
-  projectPath: string
+  projectPath: string,
+  options: { entryPointsKnown?: boolean } = {}
 ): { confidence: 'high' | 'medium' | 'low'; riskFactors: string[] } {
   const riskFactors: string[] = [];
   const fileName = path.basename(deadExport.file);
   const exportName = deadExport.name;
 
-  // Check for public API patterns
-  if (isPublicAPI(deadExport, projectPath)) {
+  // With known entry points public API is exact, so the guesses below are
+  // only needed without them
+  if (!options.entryPointsKnown && isPublicAPI(deadExport, projectPath)) {
     riskFactors.push('Appears to be public API - may have external consumers');
   }
 
   // Check for common naming patterns that suggest external usage
-  if (isLikelyExternalAPI(exportName)) {
+  if (!options.entryPointsKnown && isLikelyExternalAPI(exportName)) {
     riskFactors.push(
       'Export name suggests it may be used by external packages'
     );
@@ -209,7 +287,7 @@ export function assessImportRemovalRisk(unusedImport: UnusedImport): {
   }
 
   // External packages are generally safe to remove if unused
-  const isExternal = !fromPath.startsWith('./') && !fromPath.startsWith('../');
+  const isExternal = isExternalModule(unusedImport.file, fromPath);
 
   // Determine confidence
   let confidence: 'high' | 'medium' | 'low';
@@ -224,6 +302,35 @@ export function assessImportRemovalRisk(unusedImport: UnusedImport): {
   return { confidence, riskFactors };
 }
 
+/**
+ * Generate confidence levels and risk assessment for unused locals, private
+ * members and parameters, on top of the risks found in the file's scopes
+ */
+export function assessLocalRemovalRisk(finding: {
+  file: string;
+  riskFactors: string[];
+}): { confidence: 'high' | 'medium' | 'low'; riskFactors: string[] } {
+  const riskFactors = [...finding.riskFactors];
+  const fileName = path.basename(finding.file);
+
+  if (isTestFile(fileName)) {
+    riskFactors.push('Located in test file - may be used by test framework');
+  }
+
+  // Only the file itself can reference these, so no risk means high
+  // confidence
+  let confidence: 'high' | 'medium' | 'low';
+  if (riskFactors.length === 0) {
+    confidence = 'high';
+  } else if (riskFactors.length <= 1) {
+    confidence = 'medium';
+  } else {
+    confidence = 'low';
+  }
+
+  return { confidence, riskFactors };
+}
+
 /**
  * Helper functions for risk assessment
  */
@@ -329,6 +436,19 @@ function isFrameworkImport(fromPath: string, importName: string): boolean {
   return false;
 }
 
+/**
+ * Safety of removing a finding, as its removal suggestion reports it
+ */
+export function getRemovalSafety(finding: {
+  confidence: 'high' | 'medium' | 'low';
+  riskFactors: string[];
+}): RemovalSuggestion['safety'] {
+  return mapConfidenceToSafety(
+    finding.confidence,
+    finding.riskFactors.length > 0
+  );
+}
+
 /**
  * Utility functions for mapping confidence to priority/safety
  */
@@ -376,6 +496,9 @@ function estimateLines(type: string): number {
     variable: 1,
     interface: 5,
     type: 2,
+    method: 10,
+    property: 1,
+    accessor: 5,
   };
 
   return estimates[type] || 5;
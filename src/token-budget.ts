@@ -0,0 +1,250 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  BudgetLevel,
+  BudgetedFile,
+  DependencyGraph,
+  GeneratorOptions,
+  ParsedFile,
+  TokenBudgetOptions,
+  TokenBudgetResult,
+} from './types';
+import { parseFile } from './parser';
+import { generateFileSummaryMarkdown, generateMarkdown } from './generator';
+import {
+  analyzeDependencies,
+  getLocalDependencies,
+  getTopologicalOrder,
+} from './dependency-analyzer';
+
+const SECTION_SEPARATOR = '\n\n---\n\n';
+
+// Every level after 'full', from the least to the most lossy
+const DEGRADATION_LEVELS: BudgetLevel[] = [
+  'no-docs',
+  'signatures',
+  'summary',
+  'omitted',
+];
+
+interface BudgetEntry {
+  parsedFile: ParsedFile;
+  file: BudgetedFile;
+  sections: Map<BudgetLevel, string>;
+}
+
+/**
+ * Rough token count for LLM context sizing (about four characters per token
+ * for code and English prose)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Combine the documentation of several files into one document that fits a
+ * token budget. Files are degraded one level at a time, starting with the
+ * ones the fewest other files depend on: JSDoc is dropped first, then class
+ * members collapse to their signatures, then files are reduced to the list
+ * of their exports and finally left out.
+ */
+export async function buildBudgetedDocument(
+  files: string[],
+  options: TokenBudgetOptions
+): Promise<TokenBudgetResult> {
+  const generatorOptions = options.generatorOptions || {};
+  const graph = analyzeDependencies(files);
+  // Sections are laid out so that each module follows the modules it imports
+  const { entries, skippedFiles } = await loadEntries(
+    getTopologicalOrder(graph),
+    getCentrality(graph),
+    generatorOptions
+  );
+
+  const projectName = path.basename(graph.projectPath);
+  // Sized for the longest header, which mentions omitted files
+  const headerTokens = estimateTokens(
+    generateBudgetHeader(
+      projectName,
+      entries.length,
+      options.maxTokens,
+      entries.length
+    )
+  );
+  fitToBudget(entries, options.maxTokens - headerTokens, generatorOptions);
+
+  const included = entries.filter(({ file }) => file.level !== 'omitted');
+  const markdown = [
+    generateBudgetHeader(
+      projectName,
+      entries.length,
+      options.maxTokens,
+      entries.length - included.length
+    ),
+    ...included.map(entry =>
+      renderSection(entry, entry.file.level, generatorOptions)
+    ),
+  ].join(SECTION_SEPARATOR);
+
+  const totalTokens = estimateTokens(markdown);
+
+  return {
+    markdown,
+    maxTokens: options.maxTokens,
+    totalTokens,
+    fits: totalTokens <= options.maxTokens,
+    files: entries.map(({ file }) => file),
+    skippedFiles,
+  };
+}
+
+async function loadEntries(
+  files: string[],
+  centrality: Map<string, number>,
+  generatorOptions: GeneratorOptions
+): Promise<{ entries: BudgetEntry[]; skippedFiles: string[] }> {
+  const entries: BudgetEntry[] = [];
+  const skippedFiles: string[] = [];
+
+  for (const filePath of files) {
+    let parsedFile: ParsedFile;
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      parsedFile = parseFile(filePath, content);
+    } catch {
+      skippedFiles.push(filePath);
+      continue;
+    }
+
+    const entry: BudgetEntry = {
+      parsedFile,
+      file: {
+        filePath,
+        level: 'full',
+        tokens: 0,
+        fullTokens: 0,
+        centrality: centrality.get(filePath) || 0,
+      },
+      sections: new Map(),
+    };
+    entry.file.tokens = entry.file.fullTokens = estimateTokens(
+      renderSection(entry, 'full', generatorOptions)
+    );
+    entries.push(entry);
+  }
+
+  return { entries, skippedFiles };
+}
+
+/**
+ * Degrade entries in place until their sections fit
+ */
+function fitToBudget(
+  entries: BudgetEntry[],
+  maxTokens: number,
+  generatorOptions: GeneratorOptions
+): void {
+  const separatorTokens = estimateTokens(SECTION_SEPARATOR);
+  const getTotalTokens = (): number =>
+    entries.reduce(
+      (total, { file }) =>
+        file.level === 'omitted'
+          ? total
+          : total + file.tokens + separatorTokens,
+      0
+    );
+
+  // Least central files first; among equals, the largest saves the most
+  const trimOrder = [...entries].sort(
+    (a, b) =>
+      a.file.centrality - b.file.centrality ||
+      b.file.fullTokens - a.file.fullTokens
+  );
+
+  for (const level of DEGRADATION_LEVELS) {
+    for (const entry of trimOrder) {
+      if (getTotalTokens() <= maxTokens) {
+        return;
+      }
+
+      const { file } = entry;
+      const tokens =
+        level === 'omitted'
+          ? 0
+          : estimateTokens(renderSection(entry, level, generatorOptions));
+      // A tiny file can render larger as a summary than without its docs
+      if (tokens < file.tokens || level === 'omitted') {
+        file.level = level;
+        file.tokens = tokens;
+      }
+    }
+  }
+}
+
+function renderSection(
+  entry: BudgetEntry,
+  level: BudgetLevel,
+  generatorOptions: GeneratorOptions
+): string {
+  const cached = entry.sections.get(level);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let section: string;
+  if (level === 'no-docs') {
+    section = generateMarkdown(entry.parsedFile, {
+      ...generatorOptions,
+      includeComments: false,
+    });
+  } else if (level === 'signatures') {
+    section = generateMarkdown(entry.parsedFile, {
+      ...generatorOptions,
+      detailLevel: 'signatures',
+    });
+  } else if (level === 'summary') {
+    section = generateFileSummaryMarkdown(entry.parsedFile);
+  } else {
+    section = generateMarkdown(entry.parsedFile, generatorOptions);
+  }
+
+  entry.sections.set(level, section);
+  return section;
+}
+
+function generateBudgetHeader(
+  projectName: string,
+  fileCount: number,
+  maxTokens: number,
+  omittedCount: number
+): string {
+  const lines = [
+    `# Project: ${projectName}`,
+    '',
+    `- **Files**: ${fileCount}`,
+    `- **Token budget**: ${maxTokens}`,
+  ];
+  if (omittedCount > 0) {
+    lines.push(`- **Omitted to fit the budget**: ${omittedCount} files`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Number of distinct local files each file imports or is imported by
+ */
+function getCentrality(graph: DependencyGraph): Map<string, number> {
+  const neighbours = new Map<string, Set<string>>();
+  graph.nodes.forEach(node => neighbours.set(node, new Set()));
+
+  getLocalDependencies(graph).forEach((targets, from) => {
+    targets.forEach(target => {
+      neighbours.get(from)?.add(target);
+      neighbours.get(target)?.add(from);
+    });
+  });
+
+  return new Map(
+    [...neighbours].map(([file, linked]) => [file, linked.size] as const)
+  );
+}
@@ -0,0 +1,285 @@
+import { readFileSync, statSync } from 'fs';
+import path from 'path';
+import { SourceFiles } from './types';
+
+const CONFIG_FILE_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+/**
+ * Module resolution settings of a tsconfig.json or jsconfig.json, with
+ * every directory made absolute
+ */
+export interface ModuleResolutionConfig {
+  configPath: string;
+  baseUrl?: string;
+  // Directory that `paths` targets are relative to
+  pathsBase?: string;
+  paths: Record<string, string[]>;
+  rootDirs: string[];
+}
+
+interface RawCompilerOptions {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  rootDirs?: string[];
+}
+
+type ConfigCache = Map<string, ModuleResolutionConfig | null>;
+
+const configByDirectory: ConfigCache = new Map();
+// Configs of other sources live as long as the source
+const configBySources = new WeakMap<SourceFiles, ConfigCache>();
+
+/**
+ * Find and load the tsconfig.json or jsconfig.json that applies to a file,
+ * following `extends`. Returns null when no config is found.
+ */
+export function loadModuleResolutionConfig(
+  fromFile: string,
+  sources?: SourceFiles
+): ModuleResolutionConfig | null {
+  const cache = getConfigCache(sources);
+  const directory = path.dirname(path.resolve(fromFile));
+  if (cache.has(directory)) {
+    return cache.get(directory) || null;
+  }
+
+  let config: ModuleResolutionConfig | null = null;
+  const configPath = CONFIG_FILE_NAMES.map(name =>
+    path.join(directory, name)
+  ).find(file => isFile(file, sources));
+
+  if (configPath) {
+    config = readConfig(configPath, new Set(), sources);
+  } else if (path.dirname(directory) !== directory) {
+    config = loadModuleResolutionConfig(directory, sources);
+  }
+
+  cache.set(directory, config);
+  return config;
+}
+
+/**
+ * Clear cached configs, e.g. after tsconfig files changed on disk
+ */
+export function clearModuleResolutionCache(): void {
+  configByDirectory.clear();
+}
+
+function getConfigCache(sources?: SourceFiles): ConfigCache {
+  if (!sources) {
+    return configByDirectory;
+  }
+  if (!configBySources.has(sources)) {
+    configBySources.set(sources, new Map());
+  }
+  return configBySources.get(sources)!;
+}
+
+/**
+ * Paths (without extension lookup) that a non-relative specifier may refer
+ * to according to `paths` and `baseUrl`, in the order TypeScript tries them
+ */
+export function getAliasCandidates(
+  fromFile: string,
+  specifier: string,
+  sources?: SourceFiles
+): string[] {
+  const config = loadModuleResolutionConfig(fromFile, sources);
+  if (!config) {
+    return [];
+  }
+
+  const candidates: string[] = [];
+  const pattern = findBestPathPattern(Object.keys(config.paths), specifier);
+  if (pattern !== undefined && config.pathsBase) {
+    const [prefix, suffix = ''] = pattern.split('*');
+    const matched = pattern.includes('*')
+      ? specifier.slice(prefix.length, specifier.length - suffix.length)
+      : '';
+    config.paths[pattern].forEach(target => {
+      candidates.push(
+        path.resolve(config.pathsBase!, target.replace('*', matched))
+      );
+    });
+  }
+
+  if (config.baseUrl) {
+    candidates.push(path.resolve(config.baseUrl, specifier));
+  }
+
+  return candidates;
+}
+
+/**
+ * Paths that a relative specifier may refer to in the other `rootDirs`,
+ * which TypeScript merges into one virtual directory
+ */
+export function getRootDirCandidates(
+  fromFile: string,
+  specifier: string,
+  sources?: SourceFiles
+): string[] {
+  const config = loadModuleResolutionConfig(fromFile, sources);
+  if (!config || config.rootDirs.length < 2) {
+    return [];
+  }
+
+  const resolved = path.resolve(path.dirname(fromFile), specifier);
+  const ownRoot = config.rootDirs.find(
+    rootDir => !path.relative(rootDir, resolved).startsWith('..')
+  );
+  if (!ownRoot) {
+    return [];
+  }
+
+  const relativePath = path.relative(ownRoot, resolved);
+  return config.rootDirs
+    .filter(rootDir => rootDir !== ownRoot)
+    .map(rootDir => path.join(rootDir, relativePath));
+}
+
+/**
+ * Pick the `paths` pattern matching the specifier, preferring exact
+ * patterns and then the longest prefix before the wildcard
+ */
+function findBestPathPattern(
+  patterns: string[],
+  specifier: string
+): string | undefined {
+  if (patterns.includes(specifier)) {
+    return specifier;
+  }
+
+  return patterns
+    .filter(pattern => {
+      const [prefix, suffix] = pattern.split('*');
+      return (
+        suffix !== undefined &&
+        specifier.length >= prefix.length + suffix.length &&
+        specifier.startsWith(prefix) &&
+        specifier.endsWith(suffix)
+      );
+    })
+    .sort((a, b) => b.indexOf('*') - a.indexOf('*'))[0];
+}
+
+/**
+ * Read a config file and merge it over the configs it extends
+ */
+function readConfig(
+  configPath: string,
+  seen: Set<string>,
+  sources?: SourceFiles
+): ModuleResolutionConfig {
+  const configDir = path.dirname(configPath);
+  let json: { extends?: string | string[]; compilerOptions?: unknown };
+  try {
+    json = parseJsonWithComments<typeof json>(
+      readConfigFile(configPath, sources)
+    );
+  } catch (error) {
+    throw new Error(
+      `Failed to read ${configPath}: ${(error as Error).message}`
+    );
+  }
+  seen.add(configPath);
+
+  const parents = ([] as string[])
+    .concat(json.extends || [])
+    .map(specifier => resolveExtendedConfig(configDir, specifier, sources))
+    .filter((parent): parent is string => !!parent && !seen.has(parent))
+    .map(parent => readConfig(parent, seen, sources));
+
+  const base = parents.reduce<ModuleResolutionConfig>(
+    (merged, parent) => ({ ...merged, ...parent, configPath }),
+    { configPath, paths: {}, rootDirs: [] }
+  );
+  const options = (json.compilerOptions || {}) as RawCompilerOptions;
+
+  const config: ModuleResolutionConfig = { ...base };
+  if (options.baseUrl !== undefined) {
+    config.baseUrl = path.resolve(configDir, options.baseUrl);
+  }
+  if (options.paths) {
+    config.paths = options.paths;
+    config.pathsBase = config.baseUrl || configDir;
+  } else if (options.baseUrl !== undefined && base.pathsBase) {
+    // Inherited paths are relative to the effective baseUrl
+    config.pathsBase = config.baseUrl;
+  }
+  if (options.rootDirs) {
+    config.rootDirs = options.rootDirs.map(rootDir =>
+      path.resolve(configDir, rootDir)
+    );
+  }
+
+  return config;
+}
+
+// Configs shipped in packages are read from node_modules on disk
+function readConfigFile(configPath: string, sources?: SourceFiles): string {
+  return sources?.isFile(configPath)
+    ? sources.readFile(configPath)
+    : readFileSync(configPath, 'utf-8');
+}
+
+/**
+ * Locate the file named by `extends`: a path relative to the config or a
+ * config shipped in a package
+ */
+function resolveExtendedConfig(
+  configDir: string,
+  specifier: string,
+  sources?: SourceFiles
+): string | null {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    const resolved = path.resolve(configDir, specifier);
+    return (
+      [resolved, `${resolved}.json`].find(file => isFile(file, sources)) || null
+    );
+  }
+
+  for (const candidate of [
+    specifier,
+    `${specifier}.json`,
+    `${specifier}/tsconfig.json`,
+  ]) {
+    try {
+      return require.resolve(candidate, { paths: [configDir] });
+    } catch {
+      // Try the next form of the package specifier
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse JSON that may contain comments and trailing commas, as tsconfig
+ * files do
+ */
+export function parseJsonWithComments<T = Record<string, unknown>>(
+  content: string
+): T {
+  const withoutComments = content.replace(
+    /("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+    (match, stringLiteral) => stringLiteral || ''
+  );
+  const withoutTrailingCommas = withoutComments.replace(
+    /("(?:[^"\\]|\\.)*")|,(\s*[}\]])/g,
+    (match, stringLiteral, closing) => stringLiteral || closing
+  );
+
+  return JSON.parse(withoutTrailingCommas);
+}
+
+function isFile(filePath: string, sources?: SourceFiles): boolean {
+  if (sources) {
+    return sources.isFile(filePath);
+  }
+  try {
+    return statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
@@ -1,10 +1,16 @@
+/* eslint-disable max-lines */
+
 export interface ParsedFunction {
   name: string;
   signature: string;
   isDefault: boolean;
   params: Parameter[];
   returnType?: string;
+  typeParameters?: string[];
+  // Overload declarations, which replace the implementation signature
+  overloads?: string[];
   jsDoc?: string;
+  docs?: ParsedJSDoc;
 }
 
 export interface Parameter {
@@ -13,24 +19,141 @@ export interface Parameter {
   optional: boolean;
 }
 
+export type MemberVisibility = 'public' | 'protected' | 'private';
+
 export interface ParsedMethod {
   name: string;
   signature: string;
   params: Parameter[];
   returnType?: string;
   isPrivate: boolean;
+  visibility?: MemberVisibility;
+  isStatic?: boolean;
+  isAbstract?: boolean;
+  typeParameters?: string[];
+  overloads?: string[];
+  jsDoc?: string;
+  docs?: ParsedJSDoc;
+}
+
+export interface ParsedProperty {
+  name: string;
+  signature: string;
+  type?: string;
+  optional: boolean;
+  visibility: MemberVisibility;
+  isStatic: boolean;
+  isReadonly: boolean;
+  isAbstract: boolean;
+  // True for constructor parameter properties (constructor(private repo: Repo))
+  isParameterProperty: boolean;
+  jsDoc?: string;
+}
+
+export interface ParsedAccessor {
+  name: string;
+  kind: 'get' | 'set';
+  signature: string;
+  type?: string;
+  visibility: MemberVisibility;
+  isStatic: boolean;
+  isAbstract: boolean;
   jsDoc?: string;
 }
 
 export interface ParsedClass {
   name: string;
+  // Class header, e.g. export class Repo<T> extends Base implements Store
+  signature?: string;
+  typeParameters?: string[];
+  extends?: string;
+  implements?: string[];
   methods: ParsedMethod[];
+  properties?: ParsedProperty[];
+  accessors?: ParsedAccessor[];
+  constructorMethod?: ParsedMethod;
+  isAbstract?: boolean;
+  jsDoc?: string;
+  docs?: ParsedJSDoc;
+}
+
+export interface JSDocParam {
+  name: string;
+  type?: string;
+  description: string;
+  optional: boolean;
+  defaultValue?: string;
+}
+
+export interface JSDocTag {
+  tag: string;
+  text: string;
+}
+
+export interface ParsedJSDoc {
+  summary: string;
+  params: JSDocParam[];
+  returns?: string;
+  throws: string[];
+  // Empty string for a bare @deprecated tag
+  deprecated?: string;
+  examples: string[];
+  see: string[];
+  since?: string;
+  // Every tag in source order, including ones without a dedicated field
+  tags: JSDocTag[];
+}
+
+export interface ParsedInterfaceMember {
+  name: string;
+  kind: 'property' | 'method' | 'index' | 'call' | 'construct';
+  signature: string;
+  type?: string;
+  optional: boolean;
+  readonly: boolean;
+  jsDoc?: string;
+}
+
+export interface ParsedInterface {
+  name: string;
+  signature: string;
+  typeParameters: string[];
+  extends: string[];
+  members: ParsedInterfaceMember[];
+  jsDoc?: string;
+  docs?: ParsedJSDoc;
+}
+
+export interface ParsedTypeAlias {
+  name: string;
+  signature: string;
+  typeParameters: string[];
+  type: string;
+  jsDoc?: string;
+  docs?: ParsedJSDoc;
+}
+
+export interface ParsedEnumMember {
+  name: string;
+  value?: string;
+  jsDoc?: string;
+}
+
+export interface ParsedEnum {
+  name: string;
+  signature: string;
+  isConst: boolean;
+  members: ParsedEnumMember[];
   jsDoc?: string;
+  docs?: ParsedJSDoc;
 }
 
 export interface ExportMetadata {
   totalFunctions: number;
   totalClasses: number;
+  totalInterfaces?: number;
+  totalTypes?: number;
+  totalEnums?: number;
   hasDefaultExport: boolean;
   defaultExportType?: 'function' | 'class';
   defaultExportName?: string;
@@ -41,11 +164,71 @@ export interface ParsedFile {
   filePath: string;
   functions: ParsedFunction[];
   classes: ParsedClass[];
+  interfaces?: ParsedInterface[];
+  typeAliases?: ParsedTypeAlias[];
+  enums?: ParsedEnum[];
+  reExports?: ParsedReExport[];
   exportMetadata: ExportMetadata;
 }
 
+export interface ParsedReExport {
+  // Module specifier as written in the source
+  source: string;
+  // named: export { a as b } from, all: export * from, namespace: export * as ns from
+  kind: 'named' | 'all' | 'namespace';
+  specifiers: { imported: string; exported: string }[];
+  namespace?: string;
+  isTypeOnly: boolean;
+}
+
+export type ApiSymbol = {
+  // Name under which the symbol is exported from the entry files
+  name: string;
+  // Name of the declaration in the file that defines it
+  localName: string;
+  filePath: string;
+} & (
+  | { kind: 'function'; declaration: ParsedFunction }
+  | { kind: 'class'; declaration: ParsedClass }
+  | { kind: 'interface'; declaration: ParsedInterface }
+  | { kind: 'type'; declaration: ParsedTypeAlias }
+  | { kind: 'enum'; declaration: ParsedEnum }
+);
+
+export interface ApiSurface {
+  entryFiles: string[];
+  // Directory symbol paths are reported relative to
+  rootDir: string;
+  symbols: ApiSymbol[];
+  // Re-exports of packages or files that could not be resolved
+  externalReExports: { fromFile: string; reExport: ParsedReExport }[];
+}
+
+export type OutputFormat = 'markdown' | 'json';
+
+// JSON output, described by schema/m2js-output.schema.json
+export type M2JSJsonPayload =
+  | { kind: 'file'; file: ParsedFile }
+  | {
+      kind: 'batch';
+      rootDir: string;
+      files: ParsedFile[];
+      errors: { filePath: string; error: string }[];
+    }
+  | { kind: 'graph'; graph: DependencyGraph };
+
+export type M2JSJsonOutput = {
+  schemaVersion: string;
+  generator: { name: 'm2js'; version: string };
+} & M2JSJsonPayload;
+
+// signatures: declarations only, summary: plus first paragraph of docs,
+// full: every documented detail (parameter tables, examples, throws)
+export type DetailLevel = 'signatures' | 'summary' | 'full';
+
 export interface GeneratorOptions {
   includeComments?: boolean;
+  detailLevel?: DetailLevel;
   outputPath?: string;
   businessContext?: boolean;
   usageExamples?: boolean;
@@ -60,7 +243,9 @@ export interface ParseOptions {
 
 export interface CliOptions {
   output?: string;
-  noComments?: boolean;
+  // Set to false by --no-comments
+  comments?: boolean;
+  detail?: DetailLevel;
   graph?: boolean;
   mermaid?: boolean;
   usageExamples?: boolean;
@@ -69,14 +254,25 @@ export interface CliOptions {
   semanticAnalysis?: boolean;
   aiEnhanced?: boolean;
   detectUnused?: boolean;
+  fix?: boolean;
+  dryRun?: boolean;
   detectDuplicates?: boolean;
+  checkDependencies?: boolean;
+  checkArchitecture?: boolean;
+  hotspots?: boolean;
+  top?: number;
+  since?: string;
   minLines?: number;
   minTokens?: number;
+  minSimilarity?: number;
   format?: 'table' | 'json';
+  failOn?: string;
   initConfig?: boolean;
   helpDeadCode?: boolean;
   helpDuplicates?: boolean;
   graphDiff?: boolean;
+  history?: string;
+  maxCommits?: number;
   baseline?: string;
   current?: string;
   minSeverity?: 'low' | 'medium' | 'high' | 'critical';
@@ -84,6 +280,56 @@ export interface CliOptions {
   includeImpact?: boolean;
   includeSuggestions?: boolean;
   helpGraphDiff?: boolean;
+  api?: boolean;
+  entry?: string[];
+  maxTokens?: number;
+  combined?: boolean;
+  dependencies?: boolean;
+}
+
+export interface ProjectDocumentOptions {
+  generatorOptions?: GeneratorOptions;
+  includeDependencies?: boolean;
+  includeMermaid?: boolean;
+}
+
+export interface ProjectDocument {
+  markdown: string;
+  rootDir: string;
+  // Documented files in dependency order
+  files: string[];
+  skippedFiles: string[];
+}
+
+// Output levels a file is degraded through, in order, to fit a token budget
+export type BudgetLevel =
+  | 'full'
+  | 'no-docs'
+  | 'signatures'
+  | 'summary'
+  | 'omitted';
+
+export interface TokenBudgetOptions {
+  maxTokens: number;
+  generatorOptions?: GeneratorOptions;
+}
+
+export interface BudgetedFile {
+  filePath: string;
+  level: BudgetLevel;
+  tokens: number;
+  fullTokens: number;
+  // Number of local files importing or imported by this file
+  centrality: number;
+}
+
+export interface TokenBudgetResult {
+  markdown: string;
+  maxTokens: number;
+  totalTokens: number;
+  fits: boolean;
+  files: BudgetedFile[];
+  skippedFiles: string[];
 }
 
 export interface ScanResult {
@@ -95,6 +341,7 @@ export interface ScanResult {
 export interface BatchOptions {
   sourceDirectory: string;
   includeComments?: boolean;
+  detailLevel?: DetailLevel;
   onProgress?: (current: number, total: number, fileName: string) => void;
   onFileProcessed?: (
     filePath: string,
@@ -141,12 +388,65 @@ export interface DependencyGraph {
   nodes: string[]; // All file paths
   edges: DependencyRelationship[]; // All dependencies
   metrics: GraphMetrics;
+  packageGraph?: PackageGraph; // Present when the files belong to a workspace
+}
+
+// === WORKSPACE TYPES ===
+
+export interface WorkspacePackage {
+  name: string; // package.json name, or the directory name
+  path: string; // Package directory
+  dependencies: string[]; // Workspace packages it declares as dependencies
+}
+
+export interface Workspace {
+  rootDir: string;
+  packages: WorkspacePackage[];
+}
+
+export interface PackageDependency {
+  from: string; // Package name
+  to: string; // Package name
+  imports: number; // Number of imports between the two packages
+}
+
+export interface PackageBoundaryViolation {
+  file: string; // Importing file
+  specifier: string;
+  fromPackage: string;
+  toPackage: string;
+  // relative-import: reaches into a sibling package with a relative path
+  // undeclared-dependency: the sibling is missing from package.json
+  reason: 'relative-import' | 'undeclared-dependency';
+}
+
+export interface PackageGraph {
+  workspaceRoot: string;
+  packages: Array<WorkspacePackage & { files: string[] }>;
+  dependencies: PackageDependency[];
+  boundaryViolations: PackageBoundaryViolation[];
 }
 
 export interface GraphOptions {
   includeMermaid?: boolean;
   includeExternalDeps?: boolean;
   detectCircular?: boolean;
+  // Read files from here instead of the disk
+  sources?: SourceFiles;
+}
+
+/**
+ * Source files kept somewhere other than the disk, such as the blobs of a
+ * git reference. Imports resolve to files of the same source, through the
+ * tsconfig.json and package.json files of that source.
+ */
+export interface SourceFiles {
+  isFile(file: string): boolean;
+  readFile(file: string): string;
+  // Subdirectories of a directory, as absolute paths
+  listDirectories(directory: string): string[];
+  // Parse a file once per content, `kind` names what the result holds
+  parse<T>(file: string, kind: string, parse: (content: string) => T): T;
 }
 
 // Template generation options
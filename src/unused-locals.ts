@@ -0,0 +1,485 @@
+/* eslint-disable max-lines */
+
+/**
+ * Unused Locals Detection for M2JS
+ * Finds unreferenced top-level declarations, private class members and
+ * function parameters through Babel scope bindings
+ */
+
+import traverse, { Binding, NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { UnusedLocal, UnusedMember, UnusedParameter } from './dead-code-types';
+
+// Findings before the suggestion engine assigns their confidence
+type Unassessed<T> = Omit<T, 'confidence'>;
+
+export interface UnassessedLocalDeadCode {
+  unusedLocals: Unassessed<UnusedLocal>[];
+  unusedMembers: Unassessed<UnusedMember>[];
+  unusedParameters: Unassessed<UnusedParameter>[];
+}
+
+type PrivateMember =
+  | t.ClassMethod
+  | t.ClassProperty
+  | t.ClassPrivateMethod
+  | t.ClassPrivateProperty;
+
+/**
+ * Find declarations, private members and parameters of a parsed file that
+ * are never referenced. Names used by the markup of a single-file component
+ * count as referenced.
+ */
+export function findUnusedLocals(
+  ast: t.File,
+  filePath: string,
+  usedInMarkup: Set<string> = new Set()
+): UnassessedLocalDeadCode {
+  const result: UnassessedLocalDeadCode = {
+    unusedLocals: [],
+    unusedMembers: [],
+    unusedParameters: [],
+  };
+
+  traverse(ast, {
+    Program(programPath) {
+      const usedAsType = collectTypeReferences(programPath);
+      result.unusedLocals = findUnusedDeclarations(
+        programPath,
+        filePath,
+        name => usedInMarkup.has(name) || usedAsType.has(name)
+      );
+    },
+    Class(classPath) {
+      result.unusedMembers.push(...findUnusedMembers(classPath, filePath));
+    },
+    Function(functionPath) {
+      result.unusedParameters.push(
+        ...findUnusedParameters(functionPath, filePath)
+      );
+    },
+  });
+
+  return result;
+}
+
+/**
+ * Top-level functions, classes and variables that nothing outside their own
+ * declaration refers to
+ */
+function findUnusedDeclarations(
+  programPath: NodePath<t.Program>,
+  filePath: string,
+  isUsedElsewhere: (name: string) => boolean
+): Unassessed<UnusedLocal>[] {
+  // Top-level names of a file without imports or exports are globals that
+  // other scripts may use
+  const isScript = !programPath.node.body.some(
+    statement =>
+      t.isImportDeclaration(statement) ||
+      t.isExportDeclaration(statement) ||
+      t.isTSExportAssignment(statement)
+  );
+
+  return Object.values(programPath.scope.bindings)
+    .filter(binding => getDeclarationType(binding) !== null)
+    .filter(
+      binding =>
+        !isExportedDeclaration(binding.path) &&
+        !isUsedElsewhere(binding.identifier.name) &&
+        !binding.referencePaths.some(
+          reference => !reference.isDescendant(binding.path)
+        )
+    )
+    .map(binding => ({
+      file: filePath,
+      name: binding.identifier.name,
+      type: getDeclarationType(binding)!,
+      line: binding.identifier.loc?.start.line || 0,
+      reason: 'Declared but never referenced in its file',
+      riskFactors: getDeclarationRisks(binding, isScript),
+    }))
+    .sort((a, b) => a.line - b.line);
+}
+
+function getDeclarationType(binding: Binding): UnusedLocal['type'] | null {
+  const node = binding.path.node;
+  if (t.isFunctionDeclaration(node) && !node.declare) {
+    return 'function';
+  }
+  if (t.isClassDeclaration(node) && !node.declare) {
+    return 'class';
+  }
+  if (
+    t.isVariableDeclarator(node) &&
+    t.isVariableDeclaration(binding.path.parent) &&
+    !binding.path.parent.declare
+  ) {
+    return 'variable';
+  }
+  return null;
+}
+
+function isExportedDeclaration(declarationPath: NodePath): boolean {
+  const statement = declarationPath.isVariableDeclarator()
+    ? declarationPath.parentPath
+    : declarationPath;
+  return (
+    !!statement?.parentPath &&
+    (statement.parentPath.isExportNamedDeclaration() ||
+      statement.parentPath.isExportDefaultDeclaration())
+  );
+}
+
+function getDeclarationRisks(binding: Binding, isScript: boolean): string[] {
+  const riskFactors: string[] = [];
+  const node = binding.path.node;
+
+  if (isScript) {
+    riskFactors.push('File has no imports or exports - may be a global');
+  }
+  if (binding.constantViolations.length > 0) {
+    riskFactors.push('Reassigned in the file - assignments must go too');
+  }
+  if (t.isVariableDeclarator(node)) {
+    if (!t.isIdentifier(node.id)) {
+      riskFactors.push('Part of a destructuring pattern');
+    }
+    if (node.init && !binding.scope.isPure(node.init)) {
+      riskFactors.push('Initializer may have side effects');
+    }
+  }
+  if (t.isClassDeclaration(node) && node.decorators?.length) {
+    riskFactors.push('Decorated class - may be registered by a framework');
+  }
+
+  return riskFactors;
+}
+
+/**
+ * Names used in type positions, which Babel scopes do not track as
+ * references
+ */
+export function collectTypeReferences(
+  programPath: NodePath<t.Program>
+): Set<string> {
+  const names = new Set<string>();
+  const addEntity = (entity: t.Node): void => {
+    while (t.isTSQualifiedName(entity)) {
+      entity = entity.left;
+    }
+    if (t.isIdentifier(entity)) {
+      names.add(entity.name);
+    }
+  };
+
+  programPath.traverse({
+    TSTypeReference(typePath) {
+      addEntity(typePath.node.typeName);
+    },
+    TSExpressionWithTypeArguments(typePath) {
+      addEntity(typePath.node.expression);
+    },
+    TSTypeQuery(typePath) {
+      addEntity(typePath.node.exprName);
+    },
+  });
+
+  return names;
+}
+
+/**
+ * TypeScript `private` and ECMAScript `#private` members that no other
+ * member of the class accesses
+ */
+function findUnusedMembers(
+  classPath: NodePath<t.Class>,
+  filePath: string
+): Unassessed<UnusedMember>[] {
+  const className = classPath.node.id?.name || 'anonymous class';
+  const memberPaths = classPath.get('body').get('body');
+  const { accessedBy, accessesDynamically } =
+    collectMemberAccesses(memberPaths);
+
+  const isUsed = (name: string, owner: t.Node): boolean =>
+    [...(accessedBy.get(name) || [])].some(accessor => accessor !== owner);
+  const risksOf = (member: t.Node): string[] =>
+    getMemberRisks(member as PrivateMember, accessesDynamically);
+
+  const unusedMembers: Unassessed<UnusedMember>[] = [];
+  memberPaths.forEach(({ node: member }) => {
+    const name = getPrivateMemberName(member);
+    if (name !== null && !isUsed(name, member)) {
+      unusedMembers.push({
+        file: filePath,
+        className,
+        name,
+        type: getMemberType(member as PrivateMember),
+        line: member.loc?.start.line || 0,
+        reason: 'Private member never used inside its class',
+        riskFactors: risksOf(member),
+      });
+    }
+
+    // constructor(private readonly service: Service)
+    if (t.isClassMethod(member) && member.kind === 'constructor') {
+      member.params.forEach(param => {
+        const property = getPrivateParameterProperty(param);
+        if (property && !accessedBy.has(property.name)) {
+          unusedMembers.push({
+            file: filePath,
+            className,
+            name: property.name,
+            type: 'property',
+            line: property.loc?.start.line || 0,
+            reason: 'Private parameter property never used inside its class',
+            riskFactors: risksOf(param),
+          });
+        }
+      });
+    }
+  });
+
+  return unusedMembers;
+}
+
+/**
+ * Which members access each member name, and whether any member accesses
+ * `this` through a computed key
+ */
+function collectMemberAccesses(memberPaths: NodePath[]): {
+  accessedBy: Map<string, Set<t.Node>>;
+  accessesDynamically: boolean;
+} {
+  const accessedBy = new Map<string, Set<t.Node>>();
+  let accessesDynamically = false;
+
+  memberPaths.forEach(memberPath => {
+    const addAccess = (name: string): void => {
+      if (!accessedBy.has(name)) {
+        accessedBy.set(name, new Set());
+      }
+      accessedBy.get(name)!.add(memberPath.node);
+    };
+    memberPath.traverse({
+      'MemberExpression|OptionalMemberExpression'(accessPath) {
+        const access = accessPath.node as t.MemberExpression;
+        const key = getAccessedName(access);
+        if (key !== null) {
+          addAccess(key);
+        } else if (t.isThisExpression(access.object)) {
+          accessesDynamically = true;
+        }
+      },
+      PrivateName(privatePath) {
+        // `#name in object` checks use the member too
+        if (!privatePath.parentPath.isMemberExpression()) {
+          addAccess(`#${privatePath.node.id.name}`);
+        }
+      },
+      ObjectPattern(patternPath) {
+        patternPath.node.properties.forEach(property => {
+          if (t.isObjectProperty(property) && t.isIdentifier(property.key)) {
+            addAccess(property.key.name);
+          }
+        });
+      },
+    });
+  });
+
+  return { accessedBy, accessesDynamically };
+}
+
+/**
+ * Name of a statically accessed member: `obj.name`, `obj['name']` or
+ * `this.#name`
+ */
+function getAccessedName(access: t.MemberExpression): string | null {
+  const property = access.property;
+  if (t.isPrivateName(property)) {
+    return `#${property.id.name}`;
+  }
+  if (!access.computed && t.isIdentifier(property)) {
+    return property.name;
+  }
+  if (t.isStringLiteral(property)) {
+    return property.value;
+  }
+  return null;
+}
+
+function getPrivateMemberName(member: t.Node): string | null {
+  if (t.isClassPrivateMethod(member) || t.isClassPrivateProperty(member)) {
+    return `#${member.key.id.name}`;
+  }
+  if (
+    (t.isClassMethod(member) || t.isClassProperty(member)) &&
+    member.accessibility === 'private' &&
+    !member.computed &&
+    t.isIdentifier(member.key) &&
+    !(t.isClassMethod(member) && member.kind === 'constructor')
+  ) {
+    return member.key.name;
+  }
+  return null;
+}
+
+function getMemberType(member: PrivateMember): UnusedMember['type'] {
+  if (t.isClassProperty(member) || t.isClassPrivateProperty(member)) {
+    return 'property';
+  }
+  return member.kind === 'get' || member.kind === 'set' ? 'accessor' : 'method';
+}
+
+function getPrivateParameterProperty(param: t.Node): t.Identifier | null {
+  if (!t.isTSParameterProperty(param) || param.accessibility !== 'private') {
+    return null;
+  }
+  const parameter = t.isAssignmentPattern(param.parameter)
+    ? param.parameter.left
+    : param.parameter;
+  return t.isIdentifier(parameter) ? parameter : null;
+}
+
+function getMemberRisks(
+  member: PrivateMember | t.TSParameterProperty,
+  accessesDynamically: boolean
+): string[] {
+  const riskFactors: string[] = [];
+  if (member.decorators?.length) {
+    riskFactors.push('Decorated member - may be used by a framework');
+  }
+  if (accessesDynamically) {
+    riskFactors.push('Class accesses its members through computed keys');
+  }
+  return riskFactors;
+}
+
+/**
+ * Trailing parameters that the function body never reads. Parameters before
+ * the last used one keep their position and are not reported, nor are names
+ * starting with an underscore.
+ */
+function findUnusedParameters(
+  functionPath: NodePath<t.Function>,
+  filePath: string
+): Unassessed<UnusedParameter>[] {
+  const fn = functionPath.node;
+  if (
+    (t.isClassMethod(fn) || t.isObjectMethod(fn)) &&
+    (fn.kind === 'set' || fn.kind === 'constructor')
+  ) {
+    return [];
+  }
+  if (usesArgumentsObject(functionPath)) {
+    return [];
+  }
+
+  const unusedParameters: Unassessed<UnusedParameter>[] = [];
+  for (let index = fn.params.length - 1; index >= 0; index--) {
+    const identifier = getParameterIdentifier(fn.params[index]);
+    if (!identifier || identifier.name.startsWith('_')) {
+      break;
+    }
+    const binding = functionPath.scope.getOwnBinding(identifier.name);
+    if (!binding || binding.referenced) {
+      break;
+    }
+
+    unusedParameters.unshift({
+      file: filePath,
+      functionName: getFunctionName(functionPath),
+      name: identifier.name,
+      line: identifier.loc?.start.line || 0,
+      reason: 'Parameter never used in the function body',
+      riskFactors: getParameterRisks(functionPath),
+    });
+  }
+
+  return unusedParameters;
+}
+
+function getParameterIdentifier(param: t.Node): t.Identifier | null {
+  if (t.isIdentifier(param) && param.name !== 'this') {
+    return param;
+  }
+  if (t.isAssignmentPattern(param) && t.isIdentifier(param.left)) {
+    return param.left;
+  }
+  if (t.isRestElement(param) && t.isIdentifier(param.argument)) {
+    return param.argument;
+  }
+  return null;
+}
+
+function usesArgumentsObject(functionPath: NodePath<t.Function>): boolean {
+  if (functionPath.isArrowFunctionExpression()) {
+    return false;
+  }
+
+  let found = false;
+  functionPath.get('body').traverse({
+    Identifier(identifierPath) {
+      if (identifierPath.node.name === 'arguments') {
+        found = true;
+        identifierPath.stop();
+      }
+    },
+    Function(nestedPath) {
+      // Arrow functions see the enclosing arguments object
+      if (!nestedPath.isArrowFunctionExpression()) {
+        nestedPath.skip();
+      }
+    },
+  });
+  return found;
+}
+
+function getFunctionName(functionPath: NodePath<t.Function>): string {
+  const fn = functionPath.node;
+  if ((t.isFunctionDeclaration(fn) || t.isFunctionExpression(fn)) && fn.id) {
+    return fn.id.name;
+  }
+  if ((t.isClassMethod(fn) || t.isObjectMethod(fn)) && t.isIdentifier(fn.key)) {
+    const classPath = functionPath.findParent(parent => parent.isClass());
+    const className = (classPath?.node as t.Class | undefined)?.id?.name;
+    return className ? `${className}.${fn.key.name}` : fn.key.name;
+  }
+  if (t.isClassPrivateMethod(fn)) {
+    return `#${fn.key.id.name}`;
+  }
+  const parent = functionPath.parent;
+  if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
+    return parent.id.name;
+  }
+  return 'anonymous function';
+}
+
+function getParameterRisks(functionPath: NodePath<t.Function>): string[] {
+  const riskFactors: string[] = [];
+  const parentPath = functionPath.parentPath;
+
+  if (
+    functionPath.isClassMethod() ||
+    functionPath.isClassPrivateMethod() ||
+    functionPath.isObjectMethod()
+  ) {
+    riskFactors.push(
+      'Method signature may be required by an interface or base class'
+    );
+  }
+  if (
+    (parentPath?.isCallExpression() || parentPath?.isNewExpression()) &&
+    functionPath.listKey === 'arguments'
+  ) {
+    riskFactors.push('Callback - the caller may depend on its arity');
+  }
+  const declarationPath = t.isVariableDeclarator(functionPath.parent)
+    ? functionPath.parentPath
+    : functionPath;
+  if (declarationPath && isExportedDeclaration(declarationPath)) {
+    riskFactors.push('Exported function - callers may pass this argument');
+  }
+
+  return riskFactors;
+}
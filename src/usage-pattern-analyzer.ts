@@ -56,6 +56,9 @@ export function analyzeUsagePatterns(
   const errorHandling: string[] = [];
   const commonFlows: string[] = [];
 
+  // Documented @example blocks come first, they are written for readers
+  examples.push(...extractFromJSDocExamples(parsedFiles));
+
   // Analyze each file for usage patterns
   parsedFiles.forEach(parsedFile => {
     try {
@@ -404,6 +407,42 @@ function generateCodeFromNode(node: unknown): string {
   }
 }
 
+/**
+ * Seeds examples from @example tags of exported functions and methods
+ */
+function extractFromJSDocExamples(parsedFiles: ParsedFile[]): UsageExample[] {
+  const examples: UsageExample[] = [];
+
+  parsedFiles.forEach(parsedFile => {
+    const documented = [
+      ...parsedFile.functions.map(func => ({
+        name: func.name,
+        docs: func.docs,
+      })),
+      ...parsedFile.classes.flatMap(cls =>
+        cls.methods.map(method => ({
+          name: `${cls.name}.${method.name}`,
+          docs: method.docs,
+        }))
+      ),
+    ];
+
+    documented.forEach(({ name, docs }) => {
+      docs?.examples.forEach(example => {
+        examples.push({
+          function: name,
+          example,
+          description:
+            docs.summary.split('\n')[0] || `Documented usage of ${name}`,
+          category: categorizeFunction(name.split('.').pop() || name),
+        });
+      });
+    });
+  });
+
+  return examples;
+}
+
 /**
  * Extracts examples from test files
  */
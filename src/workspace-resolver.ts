@@ -0,0 +1,425 @@
+/* eslint-disable max-lines */
+
+import { readdirSync, readFileSync, statSync } from 'fs';
+import path from 'path';
+import { SourceFiles, Workspace, WorkspacePackage } from './types';
+import { parseJsonWithComments } from './tsconfig-resolver';
+
+// Build output directories whose sources usually live in src/
+const BUILD_DIRECTORIES = /^(?:\.\/)?(?:dist|lib|build|out)\//;
+const DEPENDENCY_FIELDS = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+];
+
+export interface PackageManifest {
+  name?: string;
+  workspaces?: string[] | { packages?: string[] };
+  source?: string;
+  types?: string;
+  typings?: string;
+  module?: string;
+  main?: string;
+  exports?: unknown;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  scripts?: Record<string, string>;
+  bin?: string | Record<string, string>;
+  [field: string]: unknown;
+}
+
+type WorkspaceCache = Map<string, Workspace | null>;
+
+const workspaceByDirectory: WorkspaceCache = new Map();
+// Workspaces of other sources live as long as the source
+const workspaceBySources = new WeakMap<SourceFiles, WorkspaceCache>();
+
+/**
+ * Find the npm, yarn or pnpm workspace (or TypeScript project references
+ * root) that a directory belongs to. The outermost workspace root wins, so
+ * analyzing one package still sees its siblings. Returns null outside of a
+ * workspace.
+ */
+export function findWorkspace(
+  fromDir: string,
+  sources?: SourceFiles
+): Workspace | null {
+  const cache = getWorkspaceCache(sources);
+  const directory = path.resolve(fromDir);
+  if (cache.has(directory)) {
+    return cache.get(directory) || null;
+  }
+
+  let workspaceRoot: string | undefined;
+  let referencesRoot: string | undefined;
+  for (let dir = directory; ; dir = path.dirname(dir)) {
+    if (getWorkspacePatterns(dir, sources).length > 0) {
+      workspaceRoot = dir;
+    } else if (getProjectReferences(dir, sources).length > 0) {
+      referencesRoot = dir;
+    }
+    if (path.dirname(dir) === dir) {
+      break;
+    }
+  }
+
+  const rootDir = workspaceRoot || referencesRoot;
+  const workspace = rootDir ? loadWorkspace(rootDir, sources) : null;
+  cache.set(directory, workspace);
+  return workspace;
+}
+
+/**
+ * Clear cached workspaces, e.g. after package.json files changed on disk
+ */
+export function clearWorkspaceCache(): void {
+  workspaceByDirectory.clear();
+}
+
+function getWorkspaceCache(sources?: SourceFiles): WorkspaceCache {
+  if (!sources) {
+    return workspaceByDirectory;
+  }
+  if (!workspaceBySources.has(sources)) {
+    workspaceBySources.set(sources, new Map());
+  }
+  return workspaceBySources.get(sources)!;
+}
+
+/**
+ * The workspace package containing a file, preferring the innermost one
+ */
+export function getPackageForFile(
+  workspace: Workspace,
+  filePath: string
+): WorkspacePackage | undefined {
+  const resolved = path.resolve(filePath);
+  return workspace.packages
+    .filter(pkg => resolved.startsWith(pkg.path + path.sep))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+}
+
+/**
+ * Source paths (without extension lookup) that an import of a sibling
+ * workspace package may refer to. Entry points that name build output are
+ * mapped back to src/.
+ */
+export function getWorkspaceCandidates(
+  fromFile: string,
+  specifier: string,
+  sources?: SourceFiles
+): string[] {
+  const workspace = findWorkspace(path.dirname(fromFile), sources);
+  const target = workspace?.packages.find(
+    pkg => specifier === pkg.name || specifier.startsWith(`${pkg.name}/`)
+  );
+  if (!target) {
+    return [];
+  }
+
+  const manifest = readPackageManifest(target.path, sources) || {};
+  const subpath = specifier.slice(target.name.length + 1);
+  const entries = subpath
+    ? [getExportTarget(manifest.exports, `./${subpath}`), subpath]
+    : [
+        manifest.source,
+        getExportTarget(manifest.exports, '.'),
+        manifest.types || manifest.typings,
+        manifest.module,
+        manifest.main,
+        'index',
+      ];
+
+  return getSourceCandidates(target.path, entries);
+}
+
+/**
+ * Source paths (without extension lookup) for package.json entry fields of
+ * a package. Non-string entries are skipped, declaration files and build
+ * output are mapped back to their sources.
+ */
+export function getSourceCandidates(
+  packageDir: string,
+  entries: unknown[]
+): string[] {
+  const candidates: string[] = [];
+  entries
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map(entry => entry.replace(/\.d\.ts$/, ''))
+    .forEach(entry => {
+      if (BUILD_DIRECTORIES.test(entry)) {
+        candidates.push(
+          path.resolve(packageDir, entry.replace(BUILD_DIRECTORIES, 'src/'))
+        );
+      }
+      candidates.push(path.resolve(packageDir, entry));
+      if (!entry.startsWith('src/') && !BUILD_DIRECTORIES.test(entry)) {
+        candidates.push(path.resolve(packageDir, 'src', entry));
+      }
+    });
+
+  return [...new Set(candidates)];
+}
+
+/**
+ * Expand the workspace patterns of a root into its packages
+ */
+function loadWorkspace(rootDir: string, sources?: SourceFiles): Workspace {
+  const patterns = getWorkspacePatterns(rootDir, sources);
+  const directories = patterns.length
+    ? expandPatterns(rootDir, patterns, sources)
+    : getProjectReferences(rootDir, sources);
+
+  const packages = directories
+    .filter(dir => dir !== rootDir)
+    .map(dir => ({
+      name:
+        readPackageManifest(dir, sources)?.name || path.relative(rootDir, dir),
+      path: dir,
+      dependencies: [] as string[],
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const names = new Set(packages.map(pkg => pkg.name));
+  packages.forEach(pkg => {
+    pkg.dependencies = getDeclaredDependencies(
+      pkg.path,
+      packages,
+      sources
+    ).filter(name => names.has(name) && name !== pkg.name);
+  });
+
+  return { rootDir, packages };
+}
+
+/**
+ * Workspace packages a package depends on through package.json or its
+ * TypeScript project references
+ */
+function getDeclaredDependencies(
+  packageDir: string,
+  packages: WorkspacePackage[],
+  sources?: SourceFiles
+): string[] {
+  const manifest = readPackageManifest(packageDir, sources) || {};
+  const declared = DEPENDENCY_FIELDS.flatMap(field =>
+    Object.keys((manifest[field] as Record<string, string>) || {})
+  );
+  getProjectReferences(packageDir, sources).forEach(reference => {
+    const referenced = packages.find(pkg => pkg.path === reference);
+    if (referenced) {
+      declared.push(referenced.name);
+    }
+  });
+
+  return [...new Set(declared)].sort();
+}
+
+/**
+ * Package directory patterns from package.json `workspaces` or
+ * pnpm-workspace.yaml
+ */
+function getWorkspacePatterns(dir: string, sources?: SourceFiles): string[] {
+  const workspaces = readPackageManifest(dir, sources)?.workspaces;
+  if (Array.isArray(workspaces)) {
+    return workspaces;
+  }
+  if (workspaces && Array.isArray(workspaces.packages)) {
+    return workspaces.packages;
+  }
+
+  const pnpmWorkspace = readText(
+    path.join(dir, 'pnpm-workspace.yaml'),
+    sources
+  );
+  if (!pnpmWorkspace) {
+    return [];
+  }
+
+  // Only the `packages:` list matters, so a line-based read is enough
+  const patterns: string[] = [];
+  let inPackages = false;
+  pnpmWorkspace.split(/\r?\n/).forEach(line => {
+    if (/^\S/.test(line)) {
+      inPackages = /^packages\s*:/.test(line);
+      return;
+    }
+    const item = /^\s*-\s*['"]?([^'"#]+?)['"]?\s*(?:#.*)?$/.exec(line);
+    if (inPackages && item) {
+      patterns.push(item[1]);
+    }
+  });
+  return patterns;
+}
+
+/**
+ * Directories referenced by the `references` of a tsconfig.json
+ */
+function getProjectReferences(dir: string, sources?: SourceFiles): string[] {
+  const content = readText(path.join(dir, 'tsconfig.json'), sources);
+  if (!content) {
+    return [];
+  }
+
+  let references: Array<{ path?: string }> = [];
+  try {
+    references =
+      parseJsonWithComments<{ references?: Array<{ path?: string }> }>(content)
+        .references || [];
+  } catch {
+    // An unreadable tsconfig declares no references
+  }
+
+  return references
+    .filter(reference => typeof reference.path === 'string')
+    .map(reference => path.resolve(dir, reference.path!))
+    .map(reference =>
+      reference.endsWith('.json') ? path.dirname(reference) : reference
+    );
+}
+
+/**
+ * Expand workspace globs (`packages/*`, `apps/**`, `!packages/legacy`)
+ * into the package directories they match
+ */
+function expandPatterns(
+  rootDir: string,
+  patterns: string[],
+  sources?: SourceFiles
+): string[] {
+  const matchesOf = (pattern: string): string[] =>
+    expandSegments(
+      rootDir,
+      pattern.replace(/\/+$/, '').split('/'),
+      sources
+    ).filter(dir => readPackageManifest(dir, sources) !== null);
+
+  const included = patterns
+    .filter(pattern => !pattern.startsWith('!'))
+    .flatMap(matchesOf);
+  const excluded = new Set(
+    patterns
+      .filter(pattern => pattern.startsWith('!'))
+      .flatMap(pattern => matchesOf(pattern.slice(1)))
+  );
+
+  return [...new Set(included)].filter(dir => !excluded.has(dir));
+}
+
+function expandSegments(
+  dir: string,
+  segments: string[],
+  sources?: SourceFiles
+): string[] {
+  if (segments.length === 0) {
+    return [dir];
+  }
+
+  const [segment, ...rest] = segments;
+  if (segment === '.' || segment === '') {
+    return expandSegments(dir, rest, sources);
+  }
+  if (segment === '**') {
+    return [
+      ...expandSegments(dir, rest, sources),
+      ...listDirectories(dir, sources).flatMap(child =>
+        expandSegments(child, segments, sources)
+      ),
+    ];
+  }
+  if (!segment.includes('*')) {
+    return expandSegments(path.join(dir, segment), rest, sources);
+  }
+
+  const matcher = new RegExp(
+    `^${segment.split('*').map(escapeRegExp).join('[^/]*')}$`
+  );
+  return listDirectories(dir, sources)
+    .filter(child => matcher.test(path.basename(child)))
+    .flatMap(child => expandSegments(child, rest, sources));
+}
+
+function listDirectories(dir: string, sources?: SourceFiles): string[] {
+  const isPackageDirectory = (name: string): boolean =>
+    !name.startsWith('.') && name !== 'node_modules';
+  if (sources) {
+    return sources
+      .listDirectories(dir)
+      .filter(child => isPackageDirectory(path.basename(child)));
+  }
+
+  try {
+    return readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && isPackageDirectory(entry.name))
+      .map(entry => path.join(dir, entry.name));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Resolve a condition-free `exports` entry, taking the first string found
+ * in nested conditions
+ */
+function getExportTarget(exportsField: unknown, subpath: string): unknown {
+  if (typeof exportsField === 'string') {
+    return subpath === '.' ? exportsField : undefined;
+  }
+  if (!exportsField || typeof exportsField !== 'object') {
+    return undefined;
+  }
+
+  const entries = exportsField as Record<string, unknown>;
+  const isSubpathMap = Object.keys(entries).some(key => key.startsWith('.'));
+  let target = isSubpathMap ? entries[subpath] : entries;
+  if (!isSubpathMap && subpath !== '.') {
+    return undefined;
+  }
+  while (target && typeof target === 'object') {
+    const conditions = target as Record<string, unknown>;
+    target =
+      conditions.source ??
+      conditions.types ??
+      conditions.import ??
+      conditions.default ??
+      Object.values(conditions)[0];
+  }
+  return target;
+}
+
+/**
+ * Read the package.json of a directory, or null when it has none
+ */
+export function readPackageManifest(
+  dir: string,
+  sources?: SourceFiles
+): PackageManifest | null {
+  const content = readText(path.join(dir, 'package.json'), sources);
+  if (!content) {
+    return null;
+  }
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+function readText(filePath: string, sources?: SourceFiles): string | null {
+  if (sources) {
+    return sources.isFile(filePath) ? sources.readFile(filePath) : null;
+  }
+  try {
+    return statSync(filePath).isFile() ? readFileSync(filePath, 'utf-8') : null;
+  } catch {
+    return null;
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,62 @@
+import path from 'path';
+import { buildApiSurface } from '../src/api-surface';
+import { generateApiMarkdown } from '../src/generator';
+
+describe('API Surface', () => {
+  const packagePath = path.join(__dirname, 'fixtures', 'api-package');
+  const entry = path.join(packagePath, 'index.ts');
+
+  it('should follow re-export chains to the defining files', async () => {
+    const surface = await buildApiSurface([entry]);
+    const exported = surface.symbols.map(symbol => [
+      symbol.name,
+      path.relative(packagePath, symbol.filePath),
+    ]);
+
+    expect(exported).toEqual([
+      ['add', 'math.ts'],
+      ['minus', 'math.ts'],
+      ['strings.upper', path.join('utils', 'strings.ts')],
+      ['strings.Case', path.join('utils', 'strings.ts')],
+      ['Logger', 'logger.ts'],
+      ['identity', path.join('utils', 'identity.ts')],
+      ['upper', path.join('utils', 'strings.ts')],
+      ['Case', path.join('utils', 'strings.ts')],
+    ]);
+  });
+
+  it('should keep the local name of aliased exports', async () => {
+    const surface = await buildApiSurface([entry]);
+    const minus = surface.symbols.find(symbol => symbol.name === 'minus');
+    const identity = surface.symbols.find(symbol => symbol.name === 'identity');
+
+    expect(minus?.localName).toBe('subtract');
+    expect(identity?.localName).toBe('default');
+  });
+
+  it('should report external re-exports', async () => {
+    const surface = await buildApiSurface([entry]);
+
+    expect(surface.externalReExports).toHaveLength(1);
+    expect(surface.externalReExports[0].reExport.source).toBe('react');
+  });
+
+  it('should render a single document with attribution', async () => {
+    const surface = await buildApiSurface([entry]);
+    const markdown = generateApiMarkdown(surface);
+
+    expect(markdown).toContain('# Package API: index.ts');
+    expect(markdown).toContain('- **Source files**: 4');
+    expect(markdown).toContain(
+      '### minus\n*Defined in `math.ts` as `subtract`*'
+    );
+    expect(markdown).toContain('### Logger\n*Defined in `logger.ts`*');
+    expect(markdown).toContain('- `react`: useState (from index.ts)');
+  });
+
+  it('should fail when an entry file cannot be parsed', async () => {
+    await expect(
+      buildApiSurface([path.join(packagePath, 'missing.ts')])
+    ).rejects.toThrow('Entry file could not be parsed');
+  });
+});
@@ -0,0 +1,123 @@
+import path from 'path';
+import {
+  analyzeArchitecture,
+  checkArchitecture,
+} from '../src/architecture-rules-analyzer';
+import { ArchitectureRules } from '../src/architecture-rules-types';
+
+describe('Architecture Rules', () => {
+  const rootDir = path.join(__dirname, 'fixtures', 'architecture');
+  const files = [
+    'src/components/OrderList.tsx',
+    'src/db/client.ts',
+    'src/features/billing/format.ts',
+    'src/features/billing/index.ts',
+    'src/features/cart/index.ts',
+    'src/services/orders.ts',
+  ].map(name => path.join(rootDir, name));
+
+  const rules: ArchitectureRules = {
+    layers: [
+      { name: 'ui', files: ['src/components/**'], allow: ['services'] },
+      {
+        name: 'services',
+        files: ['src/services/**'],
+        allow: ['data'],
+        bannedPackages: ['react'],
+      },
+      { name: 'data', files: ['src/db/**'], allow: [] },
+    ],
+    forbidden: [
+      {
+        from: ['src/features/**'],
+        to: ['lodash'],
+        reason: 'Use the shared debounce helper',
+      },
+    ],
+    boundaries: [{ modules: 'src/features/*' }],
+  };
+
+  it('should report the imports breaking each kind of rule', () => {
+    const report = analyzeArchitecture(files, { rootDir, rules });
+
+    expect(
+      report.violations.map(({ type, from, to, specifier }) => ({
+        type,
+        from,
+        to,
+        specifier,
+      }))
+    ).toEqual([
+      {
+        type: 'layer-dependency',
+        from: 'src/components/OrderList.tsx',
+        to: 'src/db/client.ts',
+        specifier: '../db/client',
+      },
+      {
+        type: 'public-api',
+        from: 'src/components/OrderList.tsx',
+        to: 'src/features/billing/format.ts',
+        specifier: '../features/billing/format',
+      },
+      {
+        type: 'forbidden-import',
+        from: 'src/features/cart/index.ts',
+        to: 'lodash',
+        specifier: 'lodash',
+      },
+      {
+        type: 'banned-package',
+        from: 'src/services/orders.ts',
+        to: 'react',
+        specifier: 'react',
+      },
+    ]);
+    expect(report.violations[0]).toMatchObject({
+      fromLayer: 'ui',
+      toLayer: 'data',
+      message: 'Layer ui may only depend on services',
+    });
+    expect(report.violations[2].message).toBe('Use the shared debounce helper');
+  });
+
+  it('should count the files of each layer', () => {
+    const report = analyzeArchitecture(files, { rootDir, rules });
+
+    expect(report.layers).toEqual([
+      { name: 'ui', files: 1 },
+      { name: 'services', files: 1 },
+      { name: 'data', files: 1 },
+    ]);
+    expect(report.metrics.layeredFiles).toBe(3);
+  });
+
+  it('should allow imports of a module through its public API', () => {
+    const report = analyzeArchitecture(files, {
+      rootDir,
+      rules: {
+        layers: [],
+        forbidden: [],
+        boundaries: [
+          { modules: 'src/features/*', publicApi: ['index.ts', 'format.ts'] },
+        ],
+      },
+    });
+
+    expect(report.violations).toEqual([]);
+  });
+
+  it('should reject rules naming unknown layers', () => {
+    expect(() =>
+      checkArchitecture(
+        [],
+        {
+          layers: [{ name: 'ui', files: ['src/**'], forbid: ['database'] }],
+          forbidden: [],
+          boundaries: [],
+        },
+        rootDir
+      )
+    ).toThrow('Unknown layer "database" in architecture layer "ui"');
+  });
+});
@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { analyzeDeadCode } from '../src/dead-code-analyzer';
+import { applyDeadCodeFixes, createUnifiedDiff } from '../src/dead-code-fixer';
+
+describe('Dead Code Fixer', () => {
+  const fixturesPath = path.join(__dirname, 'fixtures', 'dead-code-fix');
+  const testDir = path.join(__dirname, 'dead-code-fix-files');
+  const files = ['dates.ts', 'main.ts'].map(name => path.join(testDir, name));
+
+  beforeEach(async () => {
+    // Work on a copy, fixes rewrite the files
+    await fs.mkdir(testDir, { recursive: true });
+    for (const name of ['dates.ts', 'main.ts']) {
+      await fs.copyFile(
+        path.join(fixturesPath, name),
+        path.join(testDir, name)
+      );
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should print a unified diff without writing in dry run mode', async () => {
+    const before = await fs.readFile(files[1], 'utf8');
+    const report = await analyzeDeadCode(files);
+    const result = applyDeadCodeFixes(report, { dryRun: true });
+
+    expect(result.diff).toContain(
+      '--- a/main.ts\n+++ b/main.ts\n@@ -1,5 +1,4 @@'
+    );
+    expect(result.diff).toContain(
+      "-import path from 'path';\n+import { readFileSync } from 'fs';"
+    );
+    expect(await fs.readFile(files[1], 'utf8')).toBe(before);
+  });
+
+  it('should remove safe unused imports and dead exports', async () => {
+    const report = await analyzeDeadCode(files);
+    const result = applyDeadCodeFixes(report);
+    const dates = await fs.readFile(files[0], 'utf8');
+    const main = await fs.readFile(files[1], 'utf8');
+
+    expect(result.files.map(file => file.applied.length)).toEqual([4, 2]);
+    expect(main.split('\n').slice(0, 2)).toEqual([
+      "import { readFileSync } from 'fs';",
+      "import { formatDate, Logger } from './dates';",
+    ]);
+
+    // Unused code goes with its doc comment, used code keeps living
+    expect(dates).not.toContain('parseDate');
+    expect(dates).not.toContain('Parse a YYYY-MM-DD date');
+    expect(dates).not.toContain('EPOCH');
+    expect(dates).not.toContain('export { SEPARATOR }');
+    expect(dates).toContain("const SEPARATOR = '-';");
+    expect(dates).toContain('\nfunction pad(value: number): string {');
+    expect(dates).toContain('// Date helpers shared by the app');
+  });
+
+  it('should skip risky findings and report why', async () => {
+    const report = await analyzeDeadCode(files);
+    const result = applyDeadCodeFixes(report, { dryRun: true });
+
+    expect(result.skipped).toEqual([
+      expect.objectContaining({
+        action: 'Remove interface: DateRange',
+        safety: 'review-needed',
+        reason: 'Type definition - may be used in type annotations',
+      }),
+    ]);
+  });
+
+  it('should keep context lines and line numbers in diff hunks', () => {
+    const original = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', ''].join('\n');
+    const start = original.indexOf('e');
+
+    expect(
+      createUnifiedDiff('letters.txt', original, [{ start, end: start + 2 }])
+    ).toBe(
+      [
+        '--- a/letters.txt',
+        '+++ b/letters.txt',
+        '@@ -2,7 +2,6 @@',
+        ' b',
+        ' c',
+        ' d',
+        '-e',
+        ' f',
+        ' g',
+        ' h',
+        '',
+      ].join('\n')
+    );
+  });
+});
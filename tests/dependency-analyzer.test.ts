@@ -136,6 +136,23 @@ describe('Dependency Analyzer', () => {
       });
     });
 
+    it('should extract require() and import() calls with literal specifiers', () => {
+      const code = `
+        const yaml = require('js-yaml');
+        const load = (name: string) => import('./pages/' + name);
+        const chart = () => import('chart.js');
+      `;
+      const filePath = '/test/file.ts';
+
+      const dependencies = extractFileDependencies(filePath, code);
+
+      expect(dependencies.map(dep => [dep.to, dep.isExternal])).toEqual([
+        ['js-yaml', true],
+        ['chart.js', true],
+      ]);
+      expect(dependencies[0].importType).toBe('namespace');
+    });
+
     it('should extract re-exports correctly', () => {
       const code = `
         export { foo, bar } from './module';
@@ -0,0 +1,85 @@
+import path from 'path';
+import {
+  analyzeDependencyHygiene,
+  getPackageName,
+} from '../src/dependency-hygiene-analyzer';
+
+describe('Dependency Hygiene', () => {
+  const projectPath = path.join(__dirname, 'fixtures', 'dependency-hygiene');
+  const manifest = path.join(projectPath, 'package.json');
+  const files = ['src/greet.ts', 'src/server.ts', 'tests/greet.test.ts'].map(
+    name => path.join(projectPath, name)
+  );
+
+  const issuesOf = (options: Parameters<typeof analyzeDependencyHygiene>[1]) =>
+    analyzeDependencyHygiene(files, options).issues.map(issue => [
+      issue.type,
+      issue.name,
+    ]);
+
+  it('should report unused, undeclared and misplaced packages', () => {
+    const report = analyzeDependencyHygiene(files);
+
+    expect(report.issues).toEqual([
+      {
+        type: 'dev-in-production',
+        name: 'date-fns',
+        manifest,
+        section: 'devDependencies',
+        files: [path.join(projectPath, 'src/server.ts')],
+      },
+      {
+        type: 'production-in-tests',
+        name: 'lodash',
+        manifest,
+        section: 'dependencies',
+        files: [path.join(projectPath, 'tests/greet.test.ts')],
+      },
+      {
+        type: 'undeclared',
+        name: 'js-yaml',
+        manifest,
+        files: [path.join(projectPath, 'src/server.ts')],
+      },
+      {
+        type: 'undeclared',
+        name: 'supertest',
+        manifest,
+        files: [path.join(projectPath, 'tests/greet.test.ts')],
+      },
+      {
+        type: 'unused',
+        name: 'left-pad',
+        manifest,
+        section: 'dependencies',
+        files: [],
+      },
+    ]);
+  });
+
+  it('should count script binaries and typings as used', () => {
+    const names = issuesOf({}).map(([, name]) => name);
+
+    // tsc runs typescript, @types/* follow their packages and Node.js
+    expect(names).not.toContain('typescript');
+    expect(names).not.toContain('vitest');
+    expect(names).not.toContain('@types/express');
+    expect(names).not.toContain('@types/node');
+  });
+
+  it('should skip ignored packages', () => {
+    expect(issuesOf({ ignore: ['left-pad', 'supertest'] })).toEqual([
+      ['dev-in-production', 'date-fns'],
+      ['production-in-tests', 'lodash'],
+      ['undeclared', 'js-yaml'],
+    ]);
+  });
+
+  it('should name the package of a specifier', () => {
+    expect(getPackageName('lodash/fp')).toBe('lodash');
+    expect(getPackageName('@babel/core/lib/index')).toBe('@babel/core');
+    expect(getPackageName('node:fs/promises')).toBe('fs');
+    expect(getPackageName('./local')).toBeNull();
+    expect(getPackageName('#internal')).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import path from 'path';
+import { analyzeDuplicateCode } from '../src/duplicate-code-analyzer';
+
+describe('Duplicate Code Analyzer', () => {
+  const fixturesPath = path.join(__dirname, 'fixtures', 'duplicate-code');
+  const analyze = (names: string[], minSimilarity?: number) =>
+    analyzeDuplicateCode(
+      names.map(name => path.join(fixturesPath, name)),
+      { minSimilarity }
+    );
+
+  it('should find exact copies', async () => {
+    const report = await analyze(['orders.ts', 'legacy/orders.ts']);
+
+    expect(report.duplicates).toHaveLength(1);
+    expect(report.duplicates[0]).toMatchObject({
+      type: 'exact',
+      similarity: 100,
+      lines: 17,
+      locations: [
+        { file: 'legacy/orders.ts', startLine: 1, endLine: 17 },
+        { file: 'orders.ts', startLine: 1, endLine: 17 },
+      ],
+    });
+    expect(report.duplicates[0].code).toContain(
+      'export function summarizeOrders'
+    );
+  });
+
+  it('should group copies with renamed identifiers and literals', async () => {
+    const report = await analyze([
+      'orders.ts',
+      'legacy/orders.ts',
+      'payments.ts',
+    ]);
+
+    expect(report.duplicates).toHaveLength(1);
+    expect(report.duplicates[0].type).toBe('structural');
+    expect(
+      report.duplicates[0].locations.map(location => location.file)
+    ).toEqual(['legacy/orders.ts', 'orders.ts', 'payments.ts']);
+    expect(report.metrics.duplicatedLines).toBe(34);
+  });
+
+  it('should find near-miss copies above the similarity threshold', async () => {
+    const similar = await analyze(['orders.ts', 'refunds.ts']);
+    const strict = await analyze(['orders.ts', 'refunds.ts'], 90);
+
+    expect(similar.duplicates).toHaveLength(1);
+    expect(similar.duplicates[0].type).toBe('similar');
+    expect(similar.duplicates[0].similarity).toBeGreaterThanOrEqual(80);
+    expect(similar.duplicates[0].similarity).toBeLessThan(100);
+    expect(strict.duplicates).toEqual([]);
+  });
+
+  it('should count lines shared by overlapping duplicates once', async () => {
+    const report = await analyze([
+      'legacy/orders.ts',
+      'orders.ts',
+      'payments.ts',
+      'refunds.ts',
+      'reports.ts',
+    ]);
+
+    expect(
+      report.duplicates.map(dup => [dup.type, dup.locations.length])
+    ).toEqual([
+      ['structural', 3],
+      ['similar', 2],
+      ['similar', 2],
+    ]);
+    // orders.ts and payments.ts 1-17, refunds.ts 6-20, reports.ts 19-26
+    expect(report.metrics.duplicatedLines).toBe(57);
+    expect(report.metrics.duplicationPercentage).toBeCloseTo(
+      (57 / report.metrics.totalLines) * 100
+    );
+    expect(report.metrics.duplicationPercentage).toBeLessThan(60);
+  });
+
+  it('should report copied statements with the functions around them', async () => {
+    const report = await analyze(['reports.ts'], 95);
+
+    expect(report.duplicates).toHaveLength(1);
+    expect(report.duplicates[0]).toMatchObject({
+      type: 'exact',
+      locations: [
+        { startLine: 11, endLine: 15, context: 'method toCsv' },
+        { startLine: 20, endLine: 24, context: 'method toTable' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import path from 'path';
+import { analyzeDeadCode } from '../src/dead-code-analyzer';
+
+describe('Dynamic Imports', () => {
+  const fixturesPath = path.join(__dirname, 'fixtures', 'dynamic-imports');
+  const files = [
+    'api.ts',
+    'db.ts',
+    'helpers.ts',
+    'locales/en.ts',
+    'main.tsx',
+    'pages/home.tsx',
+    'pages/settings.tsx',
+    'setup.ts',
+  ].map(name => path.join(fixturesPath, name));
+
+  const findDead = async (name: string) => {
+    const report = await analyzeDeadCode(files);
+    return report.deadExports.find(dead => dead.name === name);
+  };
+
+  it('should count lazy components as using the default export', async () => {
+    const report = await analyzeDeadCode(files);
+    const deadNames = report.deadExports.map(dead => dead.name);
+
+    expect(deadNames).not.toContain('Home');
+    expect(deadNames).not.toContain('Settings');
+    expect(deadNames).toContain('HOME_TITLE');
+  });
+
+  it('should use the names destructured from require()', async () => {
+    expect(await findDead('slugify')).toBeUndefined();
+    expect(await findDead('fetchUser')).toBeUndefined();
+    expect((await findDead('titleCase'))?.confidence).toBe('high');
+  });
+
+  it('should not count mocked modules as using their exports', async () => {
+    expect((await findDead('connect'))?.confidence).toBe('high');
+  });
+
+  it('should lower the confidence of exports a computed import may load', async () => {
+    const messages = await findDead('messages');
+
+    expect(messages?.confidence).toBe('medium');
+    expect(messages?.riskFactors).toEqual([
+      "May be loaded dynamically by './locales/*' in main.tsx:8",
+    ]);
+  });
+});
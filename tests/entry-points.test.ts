@@ -0,0 +1,76 @@
+import path from 'path';
+import { findEntryPoints } from '../src/entry-points';
+import { analyzeDeadCode } from '../src/dead-code-analyzer';
+
+describe('Entry Points', () => {
+  const projectPath = path.join(__dirname, 'fixtures', 'entry-points');
+  const fixture = (name: string): string => path.join(projectPath, 'src', name);
+  const files = [
+    'cli.ts',
+    'format.ts',
+    'index.spec.ts',
+    'index.ts',
+    'legacy.ts',
+    'math.ts',
+    'seed.ts',
+    'setup.ts',
+    'utils/index.ts',
+  ].map(fixture);
+
+  it('should map main, exports and bin to their source files', () => {
+    expect(findEntryPoints(files)).toEqual([
+      fixture('cli.ts'),
+      fixture('index.ts'),
+      fixture('utils/index.ts'),
+    ]);
+  });
+
+  it('should add configured entries that are analyzed', () => {
+    const entryPoints = findEntryPoints(files, [
+      fixture('seed.ts'),
+      fixture('missing.ts'),
+    ]);
+
+    expect(entryPoints).toContain(fixture('seed.ts'));
+    expect(entryPoints).toHaveLength(4);
+  });
+
+  it('should never report exports reachable from a public entry', async () => {
+    const report = await analyzeDeadCode(files);
+
+    expect(report.entryPoints).toHaveLength(3);
+    expect(report.deadExports.map(dead => dead.name).sort()).toEqual([
+      'configured',
+      'parseDate',
+    ]);
+  });
+
+  it('should report unreachable files as dead modules', async () => {
+    const report = await analyzeDeadCode(
+      files,
+      {},
+      {
+        entries: [fixture('seed.ts')],
+      }
+    );
+
+    expect(report.deadModules).toEqual([
+      {
+        file: fixture('legacy.ts'),
+        exports: 1,
+        reason: 'Not reachable from any entry point',
+      },
+    ]);
+    expect(report.metrics.deadModules).toBe(1);
+  });
+
+  it('should keep the previous behavior without entry points', async () => {
+    const report = await analyzeDeadCode([
+      fixture('format.ts'),
+      fixture('math.ts'),
+    ]);
+
+    expect(report.entryPoints).toBeUndefined();
+    expect(report.deadExports).toHaveLength(4);
+  });
+});
@@ -0,0 +1,6 @@
+export { add, subtract as minus } from './math';
+export * from './utils';
+export * as strings from './utils/strings';
+import { Logger } from './logger.js';
+export { Logger };
+export { useState } from 'react';
@@ -0,0 +1,3 @@
+export class Logger {
+  log(message: string): void {}
+}
@@ -0,0 +1,8 @@
+/** Add two numbers */
+export function add(a: number, b: number): number {
+  return a + b;
+}
+
+export function subtract(a: number, b: number): number {
+  return a - b;
+}
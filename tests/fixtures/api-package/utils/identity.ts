@@ -0,0 +1,3 @@
+export default function <T>(value: T): T {
+  return value;
+}
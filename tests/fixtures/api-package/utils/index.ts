@@ -0,0 +1,3 @@
+export * from './strings';
+export { default as identity } from './identity';
+export * from '../index';
@@ -0,0 +1,6 @@
+export const upper = (value: string): string => value.toUpperCase();
+
+export enum Case {
+  Upper,
+  Lower,
+}
@@ -0,0 +1,8 @@
+import { listOrders } from '../services/orders';
+import { query } from '../db/client';
+import { formatPrice } from '../features/billing/format';
+
+export function OrderList(): string {
+  const rows = [...listOrders(), ...query('select * from drafts')];
+  return rows.map(row => formatPrice(row.id)).join('\n');
+}
@@ -0,0 +1,7 @@
+export interface Row {
+  id: string;
+}
+
+export function query(sql: string): Row[] {
+  return sql ? [] : [];
+}
@@ -0,0 +1,3 @@
+export function formatPrice(value: string): string {
+  return `$${value}`;
+}
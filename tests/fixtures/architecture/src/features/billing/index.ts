@@ -0,0 +1 @@
+export { formatPrice } from './format';
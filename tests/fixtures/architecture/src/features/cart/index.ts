@@ -0,0 +1,4 @@
+import { formatPrice } from '../billing';
+import { debounce } from 'lodash';
+
+export const showTotal = debounce((total: string) => formatPrice(total), 100);
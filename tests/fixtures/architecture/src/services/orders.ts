@@ -0,0 +1,8 @@
+import { useState } from 'react';
+import { query, Row } from '../db/client';
+
+export function listOrders(): Row[] {
+  return query('select * from orders');
+}
+
+export const useOrders = useState;
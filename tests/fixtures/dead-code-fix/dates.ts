@@ -0,0 +1,40 @@
+// Date helpers shared by the app
+
+const SEPARATOR = '-';
+
+/**
+ * Format a date as YYYY-MM-DD
+ */
+export function formatDate(date: Date): string {
+  return [
+    date.getFullYear(),
+    pad(date.getMonth() + 1),
+    pad(date.getDate()),
+  ].join(SEPARATOR);
+}
+
+/**
+ * Parse a YYYY-MM-DD date
+ */
+export function parseDate(value: string): Date {
+  return new Date(value);
+}
+
+export function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+export class Logger {
+  log(message: string): void {
+    console.log(message);
+  }
+}
+
+export const EPOCH = new Date(0); // start of time
+
+export { SEPARATOR };
+
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
@@ -0,0 +1,6 @@
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { formatDate, Logger } from './dates';
+
+const logger = new Logger();
+logger.log(formatDate(new Date(readFileSync('date.txt', 'utf8'))));
@@ -0,0 +1,5 @@
+import path from 'path';
+
+export function greet(year: string): string {
+  return `Hello from ${path.basename(process.cwd())} in ${year}`;
+}
@@ -0,0 +1,11 @@
+import express from 'express';
+import { format } from 'date-fns';
+import { readFileSync } from 'node:fs';
+import { greet } from './greet';
+
+const yaml = require('js-yaml');
+const settings = yaml.load(readFileSync('settings.yml', 'utf8'));
+
+const app = express();
+app.get('/', (_req, res) => res.send(greet(format(new Date(), 'yyyy'))));
+app.listen(settings.port);
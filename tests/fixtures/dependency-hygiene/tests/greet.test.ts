@@ -0,0 +1,11 @@
+import { describe, expect, it } from 'vitest';
+import { times } from 'lodash';
+import request from 'supertest';
+import { greet } from '../src/greet';
+
+describe('greet', () => {
+  it('greets every year', () => {
+    times(3, () => expect(greet('2024')).toContain('2024'));
+    expect(request).toBeDefined();
+  });
+});
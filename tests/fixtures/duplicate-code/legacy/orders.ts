@@ -0,0 +1,17 @@
+interface Order {
+  status: string;
+  amount: number;
+}
+
+export function summarizeOrders(orders: Order[]) {
+  let total = 0;
+  let count = 0;
+  for (const order of orders) {
+    if (order.status === 'paid') {
+      total += order.amount;
+      count += 1;
+    }
+  }
+  const average = count > 0 ? total / count : 0;
+  return { total, count, average };
+}
@@ -0,0 +1,17 @@
+interface Payment {
+  state: string;
+  value: number;
+}
+
+export function summarizePayments(payments: Payment[]) {
+  let sum = 0;
+  let settled = 0;
+  for (const payment of payments) {
+    if (payment.state === 'settled') {
+      sum += payment.value;
+      settled += 1;
+    }
+  }
+  const mean = settled > 0 ? sum / settled : 0;
+  return { sum, settled, mean };
+}
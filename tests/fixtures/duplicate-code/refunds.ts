@@ -0,0 +1,20 @@
+interface Refund {
+  status: string;
+  amount: number;
+}
+
+export function summarizeRefunds(refunds: Refund[], limit: number) {
+  let total = 0;
+  let count = 0;
+  for (const refund of refunds) {
+    if (refund.status === 'approved') {
+      total += refund.amount;
+      count += 1;
+    }
+    if (refund.amount > limit) {
+      console.warn(`Refund over ${limit}`);
+    }
+  }
+  const average = count > 0 ? total / count : 0;
+  return { total, count, average };
+}
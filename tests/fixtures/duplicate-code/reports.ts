@@ -0,0 +1,27 @@
+interface Row {
+  label: string;
+  value: number;
+}
+
+export class ReportBuilder {
+  private rows: Row[] = [];
+
+  toCsv(): string {
+    const header = 'label,value';
+    const lines = this.rows
+      .filter(row => row.value !== 0)
+      .sort((a, b) => a.label.localeCompare(b.label))
+      .map(row => `${row.label},${row.value.toFixed(2)}`);
+    const body = lines.join('\n');
+    return `${header}\n${body}`;
+  }
+
+  toTable(): string {
+    const lines = this.rows
+      .filter(row => row.value !== 0)
+      .sort((a, b) => a.label.localeCompare(b.label))
+      .map(row => `${row.label},${row.value.toFixed(2)}`);
+    const body = lines.join('\n');
+    return `| ${body.replace(/\n/g, ' |\n| ')} |`;
+  }
+}
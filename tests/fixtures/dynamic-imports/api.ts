@@ -0,0 +1,3 @@
+export function fetchUser(id: number): Promise<unknown> {
+  return fetch(`/users/${id}`);
+}
@@ -0,0 +1,7 @@
+export function slugify(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, '-');
+}
+
+export function titleCase(text: string): string {
+  return text.replace(/\b\w/g, letter => letter.toUpperCase());
+}
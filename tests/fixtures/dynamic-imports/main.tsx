@@ -0,0 +1,11 @@
+import React, { lazy } from 'react';
+
+const Home = lazy(() => import('./pages/home'));
+const Settings = React.lazy(() => import('./pages/settings'));
+const { slugify } = require('./helpers');
+
+async function loadLocale(lang: string) {
+  return import(`./locales/${lang}`);
+}
+
+console.log([Home, Settings, slugify, loadLocale]);
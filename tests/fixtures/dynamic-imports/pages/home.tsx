@@ -0,0 +1,5 @@
+export default function Home() {
+  return <h1>Home</h1>;
+}
+
+export const HOME_TITLE = 'Home';
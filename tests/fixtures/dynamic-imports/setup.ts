@@ -0,0 +1,5 @@
+jest.mock('./db');
+
+const { fetchUser } = jest.requireActual('./api');
+
+fetchUser(1);
@@ -0,0 +1,6 @@
+import './setup';
+import { createClient } from './index';
+
+export function run(): void {
+  console.log(createClient().connected);
+}
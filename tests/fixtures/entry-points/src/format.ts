@@ -0,0 +1,7 @@
+export function formatDate(date: Date): string {
+  return date.toISOString();
+}
+
+export function parseDate(value: string): Date {
+  return new Date(value);
+}
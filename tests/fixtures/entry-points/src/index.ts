@@ -0,0 +1,6 @@
+export { formatDate as format } from './format';
+export * from './math';
+
+export function createClient(): { connected: boolean } {
+  return { connected: true };
+}
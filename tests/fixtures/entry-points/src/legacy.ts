@@ -0,0 +1,3 @@
+export function getLegacyConfig(): Record<string, string> {
+  return {};
+}
@@ -0,0 +1,3 @@
+export function seed(): void {
+  console.log('seeding');
+}
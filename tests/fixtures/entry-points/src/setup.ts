@@ -0,0 +1 @@
+export const configured = true;
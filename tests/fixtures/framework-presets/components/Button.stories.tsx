@@ -0,0 +1,5 @@
+import { Button } from './Button';
+
+export default { title: 'Button', component: Button };
+
+export const Primary = { args: { label: 'Primary' } };
@@ -0,0 +1,11 @@
+import { Button } from '../components/Button';
+
+export default function Home() {
+  return <Button label="Start" />;
+}
+
+export async function getServerSideProps() {
+  return { props: {} };
+}
+
+export const PAGE_SIZE = 20;
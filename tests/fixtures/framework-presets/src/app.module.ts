@@ -0,0 +1,5 @@
+import { Module } from '@nestjs/common';
+import { CatsService } from './cats/cats.service';
+
+@Module({ providers: [CatsService] })
+export class AppModule {}
@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+
+@Injectable()
+export class CatsService {
+  findAll(): string[] {
+    return [];
+  }
+}
+
+export class CatsRepository {}
@@ -0,0 +1,10 @@
+import { Order } from './model';
+import { placeOrder } from './service';
+import { OrderStore } from './store';
+
+const store = new OrderStore();
+
+export function handle(body: Order): number {
+  placeOrder(store, body);
+  return store.all().length;
+}
@@ -0,0 +1,5 @@
+import { Order } from './model';
+
+export function formatOrder(order: Order): string {
+  return `${order.id}: ${order.total}`;
+}
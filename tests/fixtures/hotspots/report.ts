@@ -0,0 +1,5 @@
+import { Order } from './model';
+
+export function total(orders: Order[]): number {
+  return orders.reduce((sum, order) => sum + order.total, 0);
+}
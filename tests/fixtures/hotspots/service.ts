@@ -0,0 +1,6 @@
+import { Order } from './model';
+import { OrderStore } from './store';
+
+export function placeOrder(store: OrderStore, order: Order): void {
+  store.save(order);
+}
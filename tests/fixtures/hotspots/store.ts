@@ -0,0 +1,13 @@
+import { Order, OrderId } from './model';
+
+export class OrderStore {
+  private orders = new Map<OrderId, Order>();
+
+  save(order: Order): void {
+    this.orders.set(order.id, order);
+  }
+
+  all(): Order[] {
+    return [...this.orders.values()];
+  }
+}
@@ -0,0 +1 @@
+export * as strings from './lib/strings';
@@ -0,0 +1,5 @@
+export * from './numbers';
+
+export function shout(value: string): string {
+  return value.toUpperCase();
+}
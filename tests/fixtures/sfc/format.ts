@@ -0,0 +1,5 @@
+export function formatLabel(label: string): string {
+  return label.trim();
+}
+
+export function unusedHelper(): void {}
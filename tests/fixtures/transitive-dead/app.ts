@@ -0,0 +1,5 @@
+import { liveHelper } from './live';
+
+export function start(): string {
+  return liveHelper();
+}
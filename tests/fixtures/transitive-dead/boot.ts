@@ -0,0 +1,3 @@
+export function boot(port: number): number {
+  return port;
+}
@@ -0,0 +1,5 @@
+import { padCell } from './pad';
+
+export function formatRow(row: string): string {
+  return padCell(row);
+}
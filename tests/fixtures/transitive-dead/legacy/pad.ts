@@ -0,0 +1,3 @@
+export function padCell(cell: string): string {
+  return cell.padEnd(10);
+}
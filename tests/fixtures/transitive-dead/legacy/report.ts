@@ -0,0 +1,5 @@
+import { formatRow } from './format';
+
+export function renderReport(rows: string[]): string {
+  return rows.map(formatRow).join('\n');
+}
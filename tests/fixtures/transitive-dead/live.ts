@@ -0,0 +1,3 @@
+export function liveHelper(): string {
+  return 'live';
+}
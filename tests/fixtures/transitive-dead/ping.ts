@@ -0,0 +1,5 @@
+import { pong } from './pong';
+
+export function ping(count: number): number {
+  return count > 0 ? pong(count - 1) : 0;
+}
@@ -0,0 +1,5 @@
+import { ping } from './ping';
+
+export function pong(count: number): number {
+  return count > 0 ? ping(count - 1) : 0;
+}
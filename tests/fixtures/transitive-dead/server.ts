@@ -0,0 +1,5 @@
+import { boot } from './boot';
+
+export const PORT = 3000;
+
+boot(PORT);
@@ -0,0 +1,3 @@
+export const messages = {
+  total: 'Total',
+};
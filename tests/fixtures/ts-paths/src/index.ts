@@ -0,0 +1,8 @@
+import chalk from 'chalk';
+import { add } from '@app/math';
+import { log } from '~/utils/logger';
+import { messages } from './messages';
+
+export function main(): void {
+  log(chalk.green(`${messages.total}: ${add(1, 2)}`));
+}
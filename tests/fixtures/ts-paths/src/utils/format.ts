@@ -0,0 +1,3 @@
+export function formatMessage(message: string): string {
+  return `[app] ${message}`;
+}
@@ -0,0 +1,5 @@
+import { formatMessage } from 'src/utils/format';
+
+export function log(message: string): void {
+  console.log(formatMessage(message));
+}
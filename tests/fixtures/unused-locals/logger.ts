@@ -0,0 +1,3 @@
+export interface Logger {
+  info(message: string): void;
+}
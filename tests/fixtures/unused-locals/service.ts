@@ -0,0 +1,45 @@
+import { Logger } from './logger';
+
+const RETRIES = 3;
+const registry = createRegistry();
+let lastError: Logger | undefined;
+
+function createRegistry(): Map<string, string> {
+  return new Map();
+}
+
+function legacyFormat(value: string): string {
+  return legacyFormat(value.trim());
+}
+
+export class Service {
+  #cache = new Map<string, string>();
+  #hits = 0;
+
+  constructor(
+    private readonly logger: Logger,
+    private spare: string
+  ) {}
+
+  private retry(attempt: number): boolean {
+    return attempt < RETRIES;
+  }
+
+  private warmUp(): void {
+    this.warmUp();
+  }
+
+  fetch(key: string, fallback: string): string {
+    this.#hits++;
+    this.logger.info(key);
+    return this.retry(this.#hits) ? key : '';
+  }
+}
+
+export function handle(
+  request: string,
+  response: string,
+  next: () => void
+): string {
+  return [request].map((item, index) => item).join(response);
+}
@@ -0,0 +1,7 @@
+import { charge } from '@ourorg/billing';
+import { formatAmount } from '@ourorg/shared';
+import { roundCents } from '../../shared/src/math';
+
+export function checkout(amount: number): string {
+  return formatAmount(charge(roundCents(amount)));
+}
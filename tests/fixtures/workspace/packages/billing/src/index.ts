@@ -0,0 +1,7 @@
+export function charge(amount: number): number {
+  return amount;
+}
+
+export function refund(amount: number): number {
+  return -amount;
+}
@@ -0,0 +1,3 @@
+export function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,71 @@
+import path from 'path';
+import { analyzeDeadCode } from '../src/dead-code-analyzer';
+
+describe('Framework Presets', () => {
+  const projectPath = path.join(__dirname, 'fixtures', 'framework-presets');
+  const files = [
+    'components/Badge.tsx',
+    'components/Button.stories.tsx',
+    'components/Button.tsx',
+    'pages/index.tsx',
+    'src/app.module.ts',
+    'src/cats/cats.service.ts',
+  ].map(name => path.join(projectPath, name));
+
+  const deadNamesOf = async (
+    options: Parameters<typeof analyzeDeadCode>[2] = {}
+  ): Promise<string[]> => {
+    const report = await analyzeDeadCode(files, {}, options);
+    return report.deadExports.map(dead => dead.name).sort();
+  };
+
+  it('should enable presets from package.json dependencies', async () => {
+    const report = await analyzeDeadCode(files);
+
+    expect(report.frameworks).toEqual(['nestjs', 'nextjs', 'storybook']);
+    expect(report.deadExports.map(dead => dead.name).sort()).toEqual([
+      'CatsRepository',
+      'PAGE_SIZE',
+    ]);
+  });
+
+  it('should walk from framework files to find dead modules', async () => {
+    const report = await analyzeDeadCode(files);
+
+    expect(report.deadModules?.map(deadModule => deadModule.file)).toEqual([
+      path.join(projectPath, 'components/Badge.tsx'),
+    ]);
+  });
+
+  it('should only use the configured presets', async () => {
+    const report = await analyzeDeadCode(
+      files,
+      {},
+      { frameworks: ['storybook'] }
+    );
+
+    expect(report.frameworks).toEqual(['storybook']);
+    expect(report.deadModules?.map(deadModule => deadModule.file)).toEqual(
+      [
+        'components/Badge.tsx',
+        'pages/index.tsx',
+        'src/app.module.ts',
+        'src/cats/cats.service.ts',
+      ].map(name => path.join(projectPath, name))
+    );
+  });
+
+  it('should apply custom conventions', async () => {
+    const deadNames = await deadNamesOf({
+      conventions: [{ files: ['pages/**'], exports: ['PAGE_SIZE'] }],
+    });
+
+    expect(deadNames).toEqual(['CatsRepository']);
+  });
+
+  it('should reject unknown presets', async () => {
+    await expect(
+      analyzeDeadCode(files, {}, { frameworks: ['rails'] })
+    ).rejects.toThrow('Unknown framework preset: rails');
+  });
+});
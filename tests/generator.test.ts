@@ -204,6 +204,299 @@ describe('Generator', () => {
     expect(result.trim()).toBe(expectedContent.trim());
   });
 
+  it('should render interfaces, type aliases and enums sections', () => {
+    const typedFile: ParsedFile = {
+      fileName: 'models.ts',
+      filePath: '/path/to/models.ts',
+      functions: [],
+      classes: [],
+      interfaces: [
+        {
+          name: 'User',
+          signature: 'export interface User',
+          typeParameters: [],
+          extends: [],
+          members: [
+            {
+              name: 'id',
+              kind: 'property',
+              signature: 'id: string',
+              type: 'string',
+              optional: false,
+              readonly: false,
+              jsDoc: '/** Unique identifier */',
+            },
+          ],
+        },
+      ],
+      typeAliases: [
+        {
+          name: 'UserId',
+          signature: 'export type UserId = string',
+          typeParameters: [],
+          type: 'string',
+        },
+      ],
+      enums: [
+        {
+          name: 'Role',
+          signature: 'export enum Role',
+          isConst: false,
+          members: [{ name: 'Admin', value: "'admin'" }],
+        },
+      ],
+      exportMetadata: {
+        totalFunctions: 0,
+        totalClasses: 0,
+        totalInterfaces: 1,
+        totalTypes: 1,
+        totalEnums: 1,
+        hasDefaultExport: false,
+      },
+    };
+
+    const result = generateMarkdown(typedFile);
+
+    expect(result).toContain('- **Interfaces**: 1 exported interface');
+    expect(result).toContain('- **Types**: 1 exported type alias');
+    expect(result).toContain('- **Enums**: 1 exported enum');
+    expect(result).toContain('## Interfaces');
+    expect(result).toContain('  /** Unique identifier */\n  id: string;');
+    expect(result).toContain('## Types');
+    expect(result).toContain('export type UserId = string');
+    expect(result).toContain('## Enums');
+    expect(result).toContain("  Admin = 'admin',");
+    expect(result).not.toContain('No exported functions or classes found');
+  });
+
+  it('should render class properties, constructor and accessors', () => {
+    const classFile: ParsedFile = {
+      fileName: 'counter.ts',
+      filePath: '/path/to/counter.ts',
+      functions: [],
+      classes: [
+        {
+          name: 'Counter',
+          isAbstract: false,
+          methods: [],
+          properties: [
+            {
+              name: 'count',
+              signature: 'readonly count: number',
+              type: 'number',
+              optional: false,
+              visibility: 'public',
+              isStatic: false,
+              isReadonly: true,
+              isAbstract: false,
+              isParameterProperty: false,
+            },
+            {
+              name: 'secret',
+              signature: 'private secret: string',
+              type: 'string',
+              optional: false,
+              visibility: 'private',
+              isStatic: false,
+              isReadonly: false,
+              isAbstract: false,
+              isParameterProperty: false,
+            },
+          ],
+          accessors: [
+            {
+              name: 'value',
+              kind: 'get',
+              signature: 'get value(): number',
+              type: 'number',
+              visibility: 'public',
+              isStatic: false,
+              isAbstract: false,
+            },
+          ],
+          constructorMethod: {
+            name: 'constructor',
+            signature: 'constructor(start: number)',
+            params: [{ name: 'start', type: 'number', optional: false }],
+            isPrivate: false,
+          },
+        },
+      ],
+      exportMetadata: {
+        totalFunctions: 0,
+        totalClasses: 1,
+        hasDefaultExport: false,
+      },
+    };
+
+    const result = generateMarkdown(classFile);
+
+    expect(result).toContain('**Properties:**\n- count\n- value');
+    expect(result).toContain(
+      'export class Counter {\n  readonly count: number\n  constructor(start: number)\n  get value(): number\n}'
+    );
+    expect(result).not.toContain('secret');
+  });
+
+  it('should render structured JSDoc tags', () => {
+    const docFile: ParsedFile = {
+      fileName: 'users.ts',
+      filePath: '/path/to/users.ts',
+      functions: [
+        {
+          name: 'getUser',
+          signature: 'export function getUser(id: string): User',
+          isDefault: false,
+          params: [{ name: 'id', type: 'string', optional: false }],
+          returnType: 'User',
+          jsDoc: '/** Fetch a user */',
+          docs: {
+            summary: 'Fetch a user',
+            params: [
+              {
+                name: 'id',
+                description: 'The user identifier',
+                optional: false,
+              },
+            ],
+            returns: 'The user',
+            throws: [],
+            deprecated: 'Use getUserById instead.',
+            examples: ["getUser('42');"],
+            see: [],
+            tags: [],
+          },
+        },
+      ],
+      classes: [],
+      exportMetadata: {
+        totalFunctions: 1,
+        totalClasses: 0,
+        hasDefaultExport: false,
+      },
+    };
+
+    const result = generateMarkdown(docFile);
+
+    expect(result).toContain(
+      '> **Deprecated:** Use getUserById instead.\n\nFetch a user'
+    );
+    expect(result).toContain(
+      '| Name | Type | Description |\n| --- | --- | --- |\n| id | `string` | The user identifier |'
+    );
+    expect(result).toContain('**Returns:** User - The user');
+    expect(result).toContain(
+      "**Example:**\n```typescript\ngetUser('42');\n```"
+    );
+    expect(result).not.toContain('/** Fetch a user */');
+  });
+
+  it('should render structured JSDoc of interfaces', () => {
+    const modelFile: ParsedFile = {
+      fileName: 'models.ts',
+      filePath: '/path/to/models.ts',
+      functions: [],
+      classes: [],
+      interfaces: [
+        {
+          name: 'LegacyUser',
+          signature: 'export interface LegacyUser',
+          typeParameters: [],
+          extends: [],
+          members: [],
+          jsDoc: '/**\n * A user record\n * @deprecated Use User instead.\n */',
+          docs: {
+            summary: 'A user record',
+            params: [],
+            throws: [],
+            deprecated: 'Use User instead.',
+            examples: [],
+            see: [],
+            tags: [],
+          },
+        },
+      ],
+      exportMetadata: {
+        totalFunctions: 0,
+        totalClasses: 0,
+        totalInterfaces: 1,
+        hasDefaultExport: false,
+      },
+    };
+
+    const result = generateMarkdown(modelFile);
+
+    expect(result).toContain(
+      '### LegacyUser\n> **Deprecated:** Use User instead.\n\nA user record'
+    );
+    expect(result).not.toContain('@deprecated');
+  });
+
+  describe('detail levels', () => {
+    const documentedFile: ParsedFile = {
+      ...mockParsedFileWithClasses,
+      functions: [
+        {
+          name: 'getUser',
+          signature: 'export function getUser(id: string): User',
+          isDefault: false,
+          params: [{ name: 'id', type: 'string', optional: false }],
+          returnType: 'User',
+          jsDoc: '/** Fetch a user */',
+          docs: {
+            summary: 'Fetch a user.\n\nReads from the cache first.',
+            params: [
+              { name: 'id', description: 'The identifier', optional: false },
+            ],
+            returns: 'The user',
+            throws: [],
+            examples: ["getUser('42');"],
+            see: [],
+            tags: [],
+          },
+        },
+      ],
+    };
+
+    it('should omit comments when includeComments is false', () => {
+      const result = generateMarkdown(documentedFile, {
+        includeComments: false,
+      });
+
+      expect(result).not.toContain('Fetch a user');
+      expect(result).not.toContain('Service for authentication');
+      expect(result).not.toContain('Logs in user');
+      expect(result).not.toContain('**Example:**');
+      expect(result).toContain('- id: string');
+      expect(result).toContain('export function getUser(id: string): User');
+    });
+
+    it('should render only the first paragraph at summary level', () => {
+      const result = generateMarkdown(documentedFile, {
+        detailLevel: 'summary',
+      });
+
+      expect(result).toContain('Fetch a user.');
+      expect(result).not.toContain('Reads from the cache first.');
+      expect(result).not.toContain('| Name | Type | Description |');
+      expect(result).not.toContain('**Example:**');
+      expect(result).toContain('**Returns:** User\n');
+      expect(result).toContain('Service for authentication');
+    });
+
+    it('should render only declarations at signatures level', () => {
+      const result = generateMarkdown(documentedFile, {
+        detailLevel: 'signatures',
+      });
+
+      expect(result).not.toContain('Fetch a user');
+      expect(result).not.toContain('**Parameters:**');
+      expect(result).not.toContain('**Returns:**');
+      expect(result).not.toContain('#### login');
+      expect(result).toContain('login(email: string): Promise<string>');
+    });
+  });
+
   describe('getOutputPath', () => {
     it('should generate correct output path', () => {
       expect(getOutputPath('/path/to/file.ts')).toBe('/path/to/file.md');
@@ -0,0 +1,168 @@
+import { execSync } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { analyzeDependencies } from '../src/dependency-analyzer';
+import { GitIntegrator } from '../src/git-integrator';
+import { GitSourceFiles } from '../src/git-source-files';
+
+describe('Git Source Files', () => {
+  const repoPath = path.join(__dirname, 'git-source-files-repo');
+  const file = (name: string) => path.join(repoPath, name);
+  const git = (command: string) =>
+    execSync(
+      `git -c user.name=test -c user.email=test@example.com ${command}`,
+      {
+        cwd: repoPath,
+        stdio: 'pipe',
+      }
+    );
+  const commit = async (files: Record<string, string>) => {
+    for (const [name, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(file(name)), { recursive: true });
+      await fs.writeFile(file(name), content);
+    }
+    git('add -A');
+    git('commit -q -m update');
+    return git('rev-parse HEAD').toString().trim();
+  };
+
+  const sourcesAt = (ref: string) =>
+    new GitSourceFiles(new GitIntegrator(repoPath), ref, repoPath);
+
+  let first: string;
+  let second: string;
+  let third: string;
+
+  beforeAll(async () => {
+    await fs.mkdir(repoPath, { recursive: true });
+    git('init -q');
+    first = await commit({
+      'src/a.ts': "import { b } from './b';\nexport const a = b;\n",
+      'src/b.ts': "import { a } from './a';\nexport const b = 1;\n",
+      'src/lib/index.ts': "import React from 'react';\nexport { React };\n",
+      'src/a.test.ts': "import { a } from './a';\n",
+      'src/empty.ts': '',
+      'dist/bundle.js': 'module.exports = {};\n',
+    });
+    second = await commit({
+      'src/b.ts': "import '../src/lib';\nexport const b = 2;\n",
+    });
+    third = await commit({
+      'tsconfig.json': JSON.stringify({
+        compilerOptions: { baseUrl: '.', paths: { '@app/*': ['src/*'] } },
+      }),
+      'package.json': JSON.stringify({ workspaces: ['packages/*'] }),
+      'packages/util/package.json': JSON.stringify({
+        name: '@repo/util',
+        main: 'dist/index.js',
+      }),
+      'packages/util/src/index.ts': 'export const util = 1;\n',
+      'src/c.ts':
+        "import { a } from '@app/a';\nimport { util } from '@repo/util';\n",
+    });
+    // The working tree no longer matches any commit
+    for (const name of ['src', 'packages', 'tsconfig.json', 'package.json']) {
+      await fs.rm(file(name), { recursive: true, force: true });
+    }
+    await fs.mkdir(file('src'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('should list the files a scan of the checkout would find', () => {
+    const sources = sourcesAt(first);
+
+    expect(sources.files).toEqual([
+      file('src/a.ts'),
+      file('src/b.ts'),
+      file('src/lib/index.ts'),
+    ]);
+    expect(sources.isFile(file('src/a.test.ts'))).toBe(true);
+    expect(sources.isFile(file('src/empty.ts'))).toBe(false);
+  });
+
+  it('should resolve imports against the files of the reference', () => {
+    const graphAt = (ref: string) => {
+      const sources = sourcesAt(ref);
+      return analyzeDependencies(sources.files, {
+        includeExternalDeps: true,
+        detectCircular: true,
+        sources,
+      });
+    };
+
+    expect(graphAt(first).metrics.circularDependencies).toEqual([
+      [file('src/a.ts'), file('src/b.ts'), file('src/a.ts')],
+    ]);
+
+    const graph = graphAt(second);
+    expect(graph.nodes).toContain('react');
+    expect(graph.metrics.circularDependencies).toEqual([]);
+    expect(graph.edges).toContainEqual(
+      expect.objectContaining({
+        from: file('src/b.ts'),
+        to: '../src/lib',
+        isExternal: false,
+      })
+    );
+  });
+
+  it('should read the files of a project in a subdirectory', () => {
+    const sources = new GitSourceFiles(
+      new GitIntegrator(file('src')),
+      first,
+      file('src')
+    );
+
+    expect(sources.files).toEqual([
+      file('src/a.ts'),
+      file('src/b.ts'),
+      file('src/lib/index.ts'),
+    ]);
+    expect(sources.readFile(file('src/b.ts'))).toBe(
+      "import { a } from './a';\nexport const b = 1;\n"
+    );
+    expect(sources.isFile(file('dist/bundle.js'))).toBe(true);
+  });
+
+  it('should resolve aliases and workspace packages of the reference', () => {
+    const sources = new GitSourceFiles(
+      new GitIntegrator(file('src')),
+      third,
+      file('src')
+    );
+    const graph = analyzeDependencies(sources.files, { sources });
+    const edgesOf = (name: string) =>
+      graph.edges.filter(edge => edge.from === file(name));
+
+    expect(sources.listDirectories(file('packages'))).toEqual([
+      file('packages/util'),
+    ]);
+    expect(edgesOf('src/c.ts').map(edge => [edge.to, edge.isExternal])).toEqual(
+      [
+        ['@app/a', false],
+        ['@repo/util', false],
+      ]
+    );
+    expect(graph.packageGraph?.workspaceRoot).toBe(repoPath);
+  });
+
+  it('should only parse blobs that changed between references', () => {
+    const parse = jest.fn((content: string) => content.length);
+    const parseAll = (ref: string) => {
+      const sources = sourcesAt(ref);
+      sources.files.forEach(name => sources.parse(name, 'length', parse));
+    };
+
+    parseAll(first);
+    expect(parse).toHaveBeenCalledTimes(3);
+
+    parseAll(second);
+    expect(parse).toHaveBeenCalledTimes(4);
+    expect(parse).toHaveBeenLastCalledWith(
+      "import '../src/lib';\nexport const b = 2;\n"
+    );
+  });
+});
@@ -0,0 +1,19 @@
+import { globToRegExp } from '../src/glob';
+
+describe('Glob', () => {
+  it('should match globs with braces and globstars', () => {
+    const pages = globToRegExp('{src/,}pages/**/*.{ts,tsx}');
+
+    expect(pages.test('pages/index.tsx')).toBe(true);
+    expect(pages.test('src/pages/blog/[slug].tsx')).toBe(true);
+    expect(pages.test('lib/pages/index.tsx')).toBe(false);
+    expect(pages.test('pages/index.js')).toBe(false);
+  });
+
+  it('should match single segments and characters', () => {
+    expect(globToRegExp('src/*.ts').test('src/index.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/lib/index.ts')).toBe(false);
+    expect(globToRegExp('v?.json').test('v1.json')).toBe(true);
+    expect(globToRegExp('v?.json').test('v1xjson')).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import path from 'path';
+import { analyzeHotspots, rankHotspots } from '../src/hotspot-analyzer';
+import { ModuleMetrics } from '../src/hotspot-types';
+
+describe('Hotspot Analysis', () => {
+  const rootDir = path.join(__dirname, 'fixtures', 'hotspots');
+  const files = [
+    'api.ts',
+    'format.ts',
+    'model.ts',
+    'report.ts',
+    'service.ts',
+    'store.ts',
+  ].map(name => path.join(rootDir, name));
+
+  const moduleOf = (file: string, metrics: Partial<ModuleMetrics> = {}) => ({
+    file,
+    afferentCoupling: 0,
+    efferentCoupling: 0,
+    instability: 0,
+    abstractness: 0,
+    distance: 1,
+    commits: 0,
+    linesChanged: 0,
+    ...metrics,
+  });
+
+  it('should compute coupling, instability, abstractness and distance', () => {
+    const report = analyzeHotspots(files, { rootDir });
+    const metricsOf = (file: string) =>
+      report.modules.find(module => module.file === file);
+
+    expect(metricsOf('model.ts')).toMatchObject({
+      afferentCoupling: 5,
+      efferentCoupling: 0,
+      instability: 0,
+      abstractness: 1,
+      distance: 0,
+    });
+    expect(metricsOf('store.ts')).toMatchObject({
+      afferentCoupling: 2,
+      efferentCoupling: 1,
+      instability: 0.33,
+      abstractness: 0,
+      distance: 0.67,
+    });
+    expect(metricsOf('api.ts')).toMatchObject({
+      afferentCoupling: 0,
+      efferentCoupling: 3,
+      instability: 1,
+      distance: 0,
+    });
+    expect(report.metrics.averageCoupling).toBe(2.67);
+  });
+
+  it('should only rank modules far more coupled than average', () => {
+    const report = analyzeHotspots(files, { rootDir });
+
+    expect(report.hotspots.map(hotspot => hotspot.file)).toEqual(['model.ts']);
+    expect(report.hotspots[0].rank).toBe(1);
+    expect(report.hotspots[0].reasons[0]).toBe('imported by 5 files');
+  });
+
+  it('should weight coupling by churn', () => {
+    const modules = [
+      moduleOf('hub.ts', { afferentCoupling: 10, commits: 1, linesChanged: 5 }),
+      moduleOf('busy.ts', {
+        afferentCoupling: 6,
+        efferentCoupling: 2,
+        commits: 20,
+        linesChanged: 400,
+      }),
+      ...['a.ts', 'b.ts', 'c.ts', 'd.ts'].map(file =>
+        moduleOf(file, { efferentCoupling: 1, commits: 3, linesChanged: 30 })
+      ),
+    ];
+
+    const hotspots = rankHotspots(modules);
+
+    expect(hotspots.map(({ file, score }) => ({ file, score }))).toEqual([
+      { file: 'busy.ts', score: 80 },
+      { file: 'hub.ts', score: 3 },
+    ]);
+    expect(hotspots[0].reasons).toEqual([
+      'imported by 6 files',
+      'imports 2 files',
+      'changed in 20 commits (400 lines)',
+      'far from the main sequence (D=1)',
+    ]);
+  });
+
+  it('should rank on coupling alone without churn', () => {
+    const modules = [
+      moduleOf('hub.ts', { afferentCoupling: 10 }),
+      moduleOf('busy.ts', { afferentCoupling: 6, efferentCoupling: 2 }),
+      ...['a.ts', 'b.ts', 'c.ts', 'd.ts'].map(file =>
+        moduleOf(file, { efferentCoupling: 1 })
+      ),
+    ];
+
+    expect(
+      rankHotspots(modules, 1).map(({ file, score }) => [file, score])
+    ).toEqual([['hub.ts', 100]]);
+  });
+});
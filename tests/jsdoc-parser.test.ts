@@ -0,0 +1,92 @@
+import { parseJSDoc } from '../src/jsdoc-parser';
+
+describe('JSDoc Parser', () => {
+  const comment = `/**
+   * Fetch a user by id.
+   * Falls back to the cache.
+   *
+   * @deprecated Use getUserById instead.
+   * @param id - The user identifier
+   * @param {Options} [options={}] Lookup options
+   * @returns {User} The user
+   * @throws {NotFoundError} When the user does not exist
+   * @example
+   * \`\`\`ts
+   * const user = getUser('42');
+   *   // indented line
+   * \`\`\`
+   * @see getUserById
+   * @since 1.2.0
+   */`;
+
+  it('should separate the summary from the tags', () => {
+    const docs = parseJSDoc(comment);
+
+    expect(docs.summary).toBe('Fetch a user by id.\nFalls back to the cache.');
+    expect(docs.tags.map(tag => tag.tag)).toEqual([
+      'deprecated',
+      'param',
+      'param',
+      'returns',
+      'throws',
+      'example',
+      'see',
+      'since',
+    ]);
+  });
+
+  it('should parse param tags with types, optional names and defaults', () => {
+    const docs = parseJSDoc(comment);
+
+    expect(docs.params).toEqual([
+      {
+        name: 'id',
+        type: undefined,
+        description: 'The user identifier',
+        optional: false,
+        defaultValue: undefined,
+      },
+      {
+        name: 'options',
+        type: 'Options',
+        description: 'Lookup options',
+        optional: true,
+        defaultValue: '{}',
+      },
+    ]);
+  });
+
+  it('should expose returns, throws, deprecated, see and since', () => {
+    const docs = parseJSDoc(comment);
+
+    expect(docs.returns).toBe('The user');
+    expect(docs.throws).toEqual([
+      '{NotFoundError} When the user does not exist',
+    ]);
+    expect(docs.deprecated).toBe('Use getUserById instead.');
+    expect(docs.see).toEqual(['getUserById']);
+    expect(docs.since).toBe('1.2.0');
+  });
+
+  it('should unwrap fenced examples and keep their indentation', () => {
+    const docs = parseJSDoc(comment);
+
+    expect(docs.examples).toEqual([
+      "const user = getUser('42');\n  // indented line",
+    ]);
+  });
+
+  it('should treat a bare deprecated tag as an empty message', () => {
+    const docs = parseJSDoc('/** Old helper\n * @deprecated\n */');
+
+    expect(docs.summary).toBe('Old helper');
+    expect(docs.deprecated).toBe('');
+  });
+
+  it('should parse single line comments', () => {
+    const docs = parseJSDoc('/** Adds two numbers */');
+
+    expect(docs.summary).toBe('Adds two numbers');
+    expect(docs.tags).toEqual([]);
+  });
+});
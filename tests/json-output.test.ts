@@ -0,0 +1,161 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  generateJsonOutput,
+  JSON_SCHEMA_VERSION,
+  parseFilesForJson,
+} from '../src/json-output';
+import { parseFile } from '../src/parser';
+import { analyzeDependencies } from '../src/dependency-analyzer';
+
+type Schema = {
+  $ref?: string;
+  const?: unknown;
+  enum?: unknown[];
+  type?: string;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  items?: Schema;
+  oneOf?: Schema[];
+  definitions?: Record<string, Schema>;
+};
+
+/**
+ * Validate the subset of JSON Schema used by the m2js schema, returning the
+ * paths that do not match
+ */
+function validate(
+  value: unknown,
+  schema: Schema,
+  root: Schema,
+  at = '$'
+): string[] {
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/definitions/', '');
+    return validate(value, root.definitions![name], root, at);
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(
+      option => validate(value, option, root, at).length === 0
+    );
+    return matches.length === 1 ? [] : [`${at}: matches ${matches.length}`];
+  }
+  if ('const' in schema) {
+    return value === schema.const ? [] : [`${at}: expected ${schema.const}`];
+  }
+  if (schema.enum) {
+    return schema.enum.includes(value) ? [] : [`${at}: not in enum`];
+  }
+  if (schema.type === 'array') {
+    if (!Array.isArray(value)) return [`${at}: expected array`];
+    return value.flatMap((item, index) =>
+      validate(item, schema.items!, root, `${at}[${index}]`)
+    );
+  }
+  if (schema.type === 'object') {
+    if (typeof value !== 'object' || value === null) {
+      return [`${at}: expected object`];
+    }
+    const record = value as Record<string, unknown>;
+    const errors = (schema.required || [])
+      .filter(key => !(key in record))
+      .map(key => `${at}.${key}: missing`);
+    Object.entries(record).forEach(([key, child]) => {
+      const property = schema.properties![key];
+      errors.push(
+        ...(property
+          ? validate(child, property, root, `${at}.${key}`)
+          : [`${at}.${key}: not in schema`])
+      );
+    });
+    return errors;
+  }
+  return typeof value === schema.type ? [] : [`${at}: expected ${schema.type}`];
+}
+
+describe('JSON Output', () => {
+  const schemaPath = path.join(
+    __dirname,
+    '..',
+    'schema',
+    'm2js-output.schema.json'
+  );
+  const fixtures = [
+    path.join(__dirname, 'fixtures', 'with-classes.ts'),
+    path.join(__dirname, 'fixtures', 'api-package', 'index.ts'),
+    path.join(__dirname, 'fixtures', 'api-package', 'math.ts'),
+  ];
+  let schema: Schema;
+
+  beforeAll(async () => {
+    schema = JSON.parse(await fs.readFile(schemaPath, 'utf-8'));
+  });
+
+  it('should publish the schema version the output declares', () => {
+    const properties = schema.oneOf![0].properties!;
+
+    expect(properties.schemaVersion.const).toBe(JSON_SCHEMA_VERSION);
+  });
+
+  it('should produce single file output that matches the schema', async () => {
+    const content = await fs.readFile(fixtures[0], 'utf-8');
+    const output = JSON.parse(
+      generateJsonOutput(
+        { kind: 'file', file: parseFile(fixtures[0], content) },
+        '1.0.0'
+      )
+    );
+
+    expect(output.kind).toBe('file');
+    expect(output.generator).toEqual({ name: 'm2js', version: '1.0.0' });
+    expect(validate(output, schema, schema)).toEqual([]);
+  });
+
+  it('should produce batch output that matches the schema', async () => {
+    const { files, errors } = await parseFilesForJson([
+      ...fixtures,
+      path.join(__dirname, 'fixtures', 'missing.ts'),
+    ]);
+    const output = JSON.parse(
+      generateJsonOutput(
+        { kind: 'batch', rootDir: __dirname, files, errors },
+        '1.0.0'
+      )
+    );
+
+    expect(output.files).toHaveLength(3);
+    expect(output.errors).toHaveLength(1);
+    expect(validate(output, schema, schema)).toEqual([]);
+  });
+
+  it('should produce graph output that matches the schema', () => {
+    const output = JSON.parse(
+      generateJsonOutput(
+        { kind: 'graph', graph: analyzeDependencies(fixtures) },
+        '1.0.0'
+      )
+    );
+
+    expect(output.graph.nodes).toHaveLength(3);
+    expect(validate(output, schema, schema)).toEqual([]);
+  });
+
+  it('should include the package graph of a workspace in the schema', () => {
+    const packagesPath = path.join(
+      __dirname,
+      'fixtures',
+      'workspace',
+      'packages'
+    );
+    const graph = analyzeDependencies([
+      path.join(packagesPath, 'app', 'src', 'main.ts'),
+      path.join(packagesPath, 'billing', 'src', 'index.ts'),
+    ]);
+    const output = JSON.parse(
+      generateJsonOutput({ kind: 'graph', graph }, '1.0.0')
+    );
+
+    expect(output.graph.packageGraph.packages).toHaveLength(3);
+    expect(validate(output, schema, schema)).toEqual([]);
+  });
+});
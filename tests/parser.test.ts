@@ -160,4 +160,338 @@ describe('Parser', () => {
     expect(loginMethod?.params).toHaveLength(2);
     expect(loginMethod?.returnType).toBe('Promise');
   });
+
+  describe('type declarations', () => {
+    const typesContent = `
+/**
+ * A stored entity
+ */
+export interface Repository<T extends Entity = Entity> extends Base<T> {
+  /** Primary key */
+  readonly id: string;
+  name?: string;
+  find(id: string): Promise<T>;
+  [key: string]: unknown;
+}
+
+/** Operation result */
+export type Result<T> = { ok: true; value: T } | { ok: false };
+
+export const enum Status {
+  /** Account is active */
+  Active = 'active',
+  Disabled = 'disabled',
+}
+
+interface InternalShape {
+  hidden: boolean;
+}
+`;
+
+    it('should extract exported interfaces with members and generics', () => {
+      const result = parseFile('types.ts', typesContent);
+
+      expect(result.interfaces).toHaveLength(1);
+      const repo = result.interfaces![0];
+      expect(repo.name).toBe('Repository');
+      expect(repo.typeParameters).toEqual(['T extends Entity = Entity']);
+      expect(repo.extends).toEqual(['Base<T>']);
+      expect(repo.signature).toBe(
+        'export interface Repository<T extends Entity = Entity> extends Base<T>'
+      );
+      expect(repo.jsDoc).toContain('A stored entity');
+      expect(repo.members.map(m => m.kind)).toEqual([
+        'property',
+        'property',
+        'method',
+        'index',
+      ]);
+
+      const id = repo.members.find(m => m.name === 'id');
+      expect(id?.readonly).toBe(true);
+      expect(id?.type).toBe('string');
+      expect(id?.jsDoc).toContain('Primary key');
+      expect(repo.members.find(m => m.name === 'name')?.optional).toBe(true);
+      expect(repo.members.find(m => m.name === 'find')?.signature).toBe(
+        'find(id: string): Promise<T>'
+      );
+    });
+
+    it('should extract exported type aliases verbatim', () => {
+      const result = parseFile('types.ts', typesContent);
+
+      expect(result.typeAliases).toHaveLength(1);
+      expect(result.typeAliases![0].signature).toBe(
+        'export type Result<T> = { ok: true; value: T } | { ok: false }'
+      );
+      expect(result.typeAliases![0].jsDoc).toContain('Operation result');
+    });
+
+    it('should extract exported enums with initializers', () => {
+      const result = parseFile('types.ts', typesContent);
+
+      expect(result.enums).toHaveLength(1);
+      const status = result.enums![0];
+      expect(status.isConst).toBe(true);
+      expect(status.members).toEqual([
+        {
+          name: 'Active',
+          value: "'active'",
+          jsDoc: '/** Account is active */',
+        },
+        { name: 'Disabled', value: "'disabled'", jsDoc: undefined },
+      ]);
+    });
+
+    it('should count type exports in metadata', () => {
+      const result = parseFile('types.ts', typesContent);
+
+      expect(result.exportMetadata.totalInterfaces).toBe(1);
+      expect(result.exportMetadata.totalTypes).toBe(1);
+      expect(result.exportMetadata.totalEnums).toBe(1);
+    });
+  });
+
+  describe('class members', () => {
+    const classContent = `
+      export abstract class Repository {
+        /** Cached entries */
+        protected readonly cache: Map<string, number> = new Map();
+        static instances = 0;
+        name?: string;
+        #secret = 'x';
+
+        constructor(private readonly db: Database, public label: string) {}
+
+        get size(): number {
+          return this.cache.size;
+        }
+
+        set size(value: number) {}
+
+        static create(): Repository {
+          return null;
+        }
+
+        abstract find(id: string): number;
+
+        protected touch(): void {}
+
+        #rotate(): void {}
+      }
+    `;
+
+    it('should extract properties with modifiers', () => {
+      const result = parseFile('repo.ts', classContent);
+      const properties = result.classes[0].properties!;
+
+      expect(properties.map(p => p.signature)).toEqual([
+        'protected readonly cache: Map<string, number>',
+        'static instances',
+        'name?: string',
+        'private #secret',
+        'private readonly db: Database',
+        'label: string',
+      ]);
+      expect(properties[0].jsDoc).toBe('/** Cached entries */');
+      expect(properties[4].isParameterProperty).toBe(true);
+    });
+
+    it('should extract constructor and accessors', () => {
+      const result = parseFile('repo.ts', classContent);
+      const cls = result.classes[0];
+
+      expect(cls.isAbstract).toBe(true);
+      expect(cls.constructorMethod!.signature).toBe(
+        'constructor(private readonly db: Database, public label: string)'
+      );
+      expect(cls.accessors!.map(a => a.signature)).toEqual([
+        'get size(): number',
+        'set size(value: number)',
+      ]);
+    });
+
+    it('should flag static, abstract and protected methods', () => {
+      const result = parseFile('repo.ts', classContent);
+      const methods = result.classes[0].methods;
+
+      expect(methods.map(m => m.signature)).toEqual([
+        'static create(): Repository',
+        'abstract find(id: string): number',
+        'protected touch(): void',
+        'private #rotate(): void',
+      ]);
+      expect(methods[3].isPrivate).toBe(true);
+    });
+  });
+
+  describe('signatures', () => {
+    it('should preserve generic constraints and defaults', () => {
+      const content = `
+        export function pick<T extends object, K extends keyof T = keyof T>(obj: T, ...keys: K[]): Pick<T, K> {
+          return obj;
+        }
+      `;
+      const result = parseFile('pick.ts', content);
+
+      expect(result.functions[0].typeParameters).toEqual([
+        'T extends object',
+        'K extends keyof T = keyof T',
+      ]);
+      expect(result.functions[0].signature).toBe(
+        'export function pick<T extends object, K extends keyof T = keyof T>(obj: T, ...keys: K[]): Pick<T, K>'
+      );
+    });
+
+    it('should render this, destructured and rest parameters', () => {
+      const content = `
+        export function bind(this: Window, { id, meta: { tags } }: Options, [first, ...rest]: string[] = []): void {}
+      `;
+      const result = parseFile('bind.ts', content);
+
+      expect(result.functions[0].signature).toBe(
+        'export function bind(this: Window, { id, meta: { tags } }: Options, [first, ...rest]?: string[]): void'
+      );
+    });
+
+    it('should keep inline type literals and defaults of destructured parameters', () => {
+      const content = `
+        export function configure({ a, b = 2 }: { a: number; b?: number }, [x = 'x']: string[]): void {}
+      `;
+      const result = parseFile('configure.ts', content);
+
+      expect(result.functions[0].params[0]).toEqual({
+        name: '{ a, b = 2 }',
+        type: '{ a: number; b?: number }',
+        optional: false,
+      });
+      expect(result.functions[0].signature).toBe(
+        "export function configure({ a, b = 2 }: { a: number; b?: number }, [x = 'x']: string[]): void"
+      );
+    });
+
+    it('should drop defaults inside optional destructured parameters', () => {
+      const content = `
+        export function connect({ host, port = 80 }: { host: string; port?: number } = { host: '' }): void {}
+      `;
+      const result = parseFile('connect.ts', content);
+
+      expect(result.functions[0].signature).toBe(
+        'export function connect({ host, port }?: { host: string; port?: number }): void'
+      );
+    });
+
+    it('should render type predicates and assertion signatures', () => {
+      const content = `
+        export function isUser(value: unknown): value is User { return true; }
+        export function assertDefined<T>(value: T): asserts value is NonNullable<T> {}
+        export function assertOk(value: unknown): asserts value {}
+      `;
+      const result = parseFile('guards.ts', content);
+
+      expect(result.functions.map(f => f.returnType)).toEqual([
+        'value is User',
+        'asserts value is NonNullable<T>',
+        'asserts value',
+      ]);
+    });
+
+    it('should attach overload declarations to the implementation', () => {
+      const content = `
+        /** Parse input */
+        export function parse(input: string): Ast;
+        export function parse(input: Buffer): Ast;
+        export function parse(input: string | Buffer): Ast {
+          return null;
+        }
+
+        export class Reader {
+          read(id: string): string;
+          read(id: number): string;
+          read(id: string | number): string {
+            return '';
+          }
+        }
+      `;
+      const result = parseFile('parse.ts', content);
+
+      expect(result.functions).toHaveLength(1);
+      expect(result.functions[0].signature).toBe(
+        'export function parse(input: string): Ast'
+      );
+      expect(result.functions[0].params).toEqual([
+        { name: 'input', type: 'string', optional: false },
+      ]);
+      expect(result.functions[0].overloads).toEqual([
+        'export function parse(input: string): Ast',
+        'export function parse(input: Buffer): Ast',
+      ]);
+      expect(result.functions[0].jsDoc).toBe('/** Parse input */');
+      expect(result.classes[0].methods).toHaveLength(1);
+      expect(result.classes[0].methods[0].overloads).toEqual([
+        'read(id: string): string',
+        'read(id: number): string',
+      ]);
+    });
+
+    it('should include heritage clauses in class signatures', () => {
+      const content = `
+        export class Repo<T extends Entity = User> extends Base<T> implements Store<T>, Disposable {}
+      `;
+      const result = parseFile('repo.ts', content);
+      const cls = result.classes[0];
+
+      expect(cls.extends).toBe('Base<T>');
+      expect(cls.implements).toEqual(['Store<T>', 'Disposable']);
+      expect(cls.signature).toBe(
+        'export class Repo<T extends Entity = User> extends Base<T> implements Store<T>, Disposable'
+      );
+    });
+  });
+
+  describe('re-exports', () => {
+    it('should record named, star and namespace re-exports', () => {
+      const content = `
+        export { add, subtract as minus } from './math';
+        export * from './utils';
+        export * as strings from './strings';
+        export type { Options } from './types';
+        import { Logger } from './logger';
+        export { Logger as Log };
+      `;
+      const result = parseFile('index.ts', content);
+
+      expect(result.reExports).toEqual([
+        {
+          source: './math',
+          kind: 'named',
+          specifiers: [
+            { imported: 'add', exported: 'add' },
+            { imported: 'subtract', exported: 'minus' },
+          ],
+          isTypeOnly: false,
+        },
+        { source: './utils', kind: 'all', specifiers: [], isTypeOnly: false },
+        {
+          source: './strings',
+          kind: 'namespace',
+          specifiers: [],
+          namespace: 'strings',
+          isTypeOnly: false,
+        },
+        {
+          source: './types',
+          kind: 'named',
+          specifiers: [{ imported: 'Options', exported: 'Options' }],
+          isTypeOnly: true,
+        },
+        {
+          source: './logger',
+          kind: 'named',
+          specifiers: [{ imported: 'Logger', exported: 'Log' }],
+          isTypeOnly: false,
+        },
+      ]);
+    });
+  });
 });
@@ -0,0 +1,62 @@
+import path from 'path';
+import { buildProjectDocument } from '../src/project-document';
+
+describe('Project Document', () => {
+  const packagePath = path.join(__dirname, 'fixtures', 'api-package');
+  const files = ['index.ts', 'logger.ts', 'math.ts'].map(file =>
+    path.join(packagePath, file)
+  );
+
+  it('should order modules after the modules they import', async () => {
+    const project = await buildProjectDocument(packagePath, files);
+
+    expect(project.files.map(file => path.basename(file))).toEqual([
+      'logger.ts',
+      'math.ts',
+      'index.ts',
+    ]);
+  });
+
+  it('should order modules after the modules they re-export', async () => {
+    const reexportPath = path.join(__dirname, 'fixtures', 'namespace-reexport');
+    const project = await buildProjectDocument(
+      reexportPath,
+      ['index.ts', 'lib/numbers.ts', 'lib/strings.ts'].map(file =>
+        path.join(reexportPath, file)
+      )
+    );
+
+    expect(
+      project.files.map(file => path.relative(reexportPath, file))
+    ).toEqual(['lib/numbers.ts', 'lib/strings.ts', 'index.ts']);
+  });
+
+  it('should render a table of contents, file tree and module sections', async () => {
+    const project = await buildProjectDocument(packagePath, files);
+    const { markdown } = project;
+
+    expect(markdown).toContain('# Project: api-package');
+    expect(markdown).toContain(
+      '- [Modules](#modules)\n  - [logger.ts](#loggerts)\n  - [math.ts](#mathts)\n  - [index.ts](#indexts)'
+    );
+    expect(markdown).toContain(
+      '```text\n├── index.ts\n├── logger.ts\n└── math.ts\n```'
+    );
+    expect(markdown).toContain('### math.ts\n\n#### Exports');
+    expect(markdown).toContain('##### add');
+    expect(markdown.indexOf('### logger.ts')).toBeLessThan(
+      markdown.indexOf('### index.ts')
+    );
+    expect(markdown).not.toContain('## Dependencies');
+  });
+
+  it('should append the dependency summary when requested', async () => {
+    const project = await buildProjectDocument(packagePath, files, {
+      includeDependencies: true,
+    });
+
+    expect(project.markdown).toContain('- [Dependencies](#dependencies)');
+    expect(project.markdown).toContain('## Dependencies\n\n### ');
+    expect(project.markdown).not.toContain('# Dependency Analysis');
+  });
+});
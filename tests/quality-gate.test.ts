@@ -0,0 +1,106 @@
+import path from 'path';
+import { ConfigLoader } from '../src/config-loader';
+import {
+  applyQualityGate,
+  evaluateQualityGate,
+  formatQualityGateSummary,
+  parseFailOn,
+} from '../src/quality-gate';
+
+describe('Quality Gate', () => {
+  it('should parse comma separated conditions and config entries', () => {
+    expect(parseFailOn('new-cycles>0, health-delta<-5')).toEqual([
+      { metric: 'new-cycles', operator: '>', threshold: 0 },
+      { metric: 'health-delta', operator: '<', threshold: -5 },
+    ]);
+    expect(parseFailOn(['duplication>=3.5', 'dead-exports>0'])).toEqual([
+      { metric: 'duplication', operator: '>=', threshold: 3.5 },
+      { metric: 'dead-exports', operator: '>', threshold: 0 },
+    ]);
+    expect(parseFailOn([])).toEqual([]);
+  });
+
+  it('should reject invalid conditions and unknown metrics', () => {
+    expect(() => parseFailOn('new-cycles')).toThrow(
+      'Invalid quality gate condition "new-cycles"'
+    );
+    expect(() => parseFailOn('cycles>0')).toThrow(
+      'Unknown quality gate metric "cycles"'
+    );
+  });
+
+  it('should only check conditions on the metrics an analysis reports', () => {
+    const conditions = parseFailOn(
+      'new-cycles>0,health-delta<-5,duplication>3'
+    );
+
+    const result = evaluateQualityGate(conditions, {
+      'new-cycles': 0,
+      'health-delta': -7.25,
+    });
+
+    expect(result).toEqual({
+      passed: false,
+      values: { 'new-cycles': 0, 'health-delta': -7.25 },
+      failures: [{ metric: 'health-delta', operator: '<', threshold: -5 }],
+    });
+    expect(formatQualityGateSummary(result!)).toBe(
+      'Quality gate failed: new-cycles 0, health-delta -7.25 < -5'
+    );
+    expect(evaluateQualityGate(conditions, { 'dead-exports': 2 })).toBeNull();
+  });
+
+  it('should pass when no condition is met', () => {
+    const result = evaluateQualityGate(parseFailOn('duplication>3'), {
+      duplication: 2.456,
+    });
+
+    expect(result!.passed).toBe(true);
+    expect(formatQualityGateSummary(result!)).toBe(
+      'Quality gate passed: duplication 2.46'
+    );
+  });
+
+  it('should set the exit code of a failed gate without exiting', () => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation();
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    const conditions = parseFailOn('dead-exports>0');
+
+    try {
+      expect(applyQualityGate([], { 'dead-exports': 2 }, 3)).toBeNull();
+      expect(
+        applyQualityGate(conditions, { 'dead-exports': 0 }, 3, 'json')!.passed
+      ).toBe(true);
+      expect(process.exitCode).toBeUndefined();
+
+      const result = applyQualityGate(
+        conditions,
+        { 'dead-exports': 2 },
+        3,
+        'json'
+      );
+      expect(result!.passed).toBe(false);
+      expect(process.exitCode).toBe(3);
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Quality gate failed: dead-exports 2 > 0')
+      );
+      expect(exitSpy).not.toHaveBeenCalled();
+    } finally {
+      process.exitCode = undefined;
+      exitSpy.mockRestore();
+      errorSpy.mockRestore();
+    }
+  });
+
+  it('should read the quality gate of the analyzed project', () => {
+    const projectPath = path.join(__dirname, 'fixtures', 'quality-gate');
+    ConfigLoader.clearCache();
+
+    // A config loaded for the current directory first is not reused
+    expect(ConfigLoader.loadConfig().qualityGate.failOn).toEqual([]);
+    expect(ConfigLoader.loadConfig(projectPath).qualityGate.failOn).toEqual([
+      'new-cycles>0',
+    ]);
+    ConfigLoader.clearCache();
+  });
+});
@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  extractScriptContent,
+  getMarkupIdentifiers,
+} from '../src/sfc-extractor';
+import { parseFile } from '../src/parser';
+import { extractFileDependencies } from '../src/dependency-analyzer';
+import { analyzeDeadCode } from '../src/dead-code-analyzer';
+
+describe('Single-File Components', () => {
+  const fixturesPath = path.join(__dirname, 'fixtures', 'sfc');
+  const fixture = (name: string): string => path.join(fixturesPath, name);
+  const read = (name: string): Promise<string> =>
+    fs.readFile(fixture(name), 'utf-8');
+
+  it('should keep script blocks at their original positions', async () => {
+    const content = await read('Button.vue');
+    const script = extractScriptContent(fixture('Button.vue'), content);
+    const lines = script.split('\n');
+
+    expect(script).toHaveLength(content.length);
+    expect(lines[8]).toBe("import { formatLabel } from './format';");
+    expect(lines[0].trim()).toBe('');
+    expect(script).not.toContain('<template>');
+    expect(script).not.toContain('.unusedHelper');
+  });
+
+  it('should leave other files unchanged', () => {
+    expect(extractScriptContent('index.ts', 'export {};')).toBe('export {};');
+  });
+
+  it('should extract exports from every script block', async () => {
+    const vue = parseFile(fixture('Button.vue'), await read('Button.vue'));
+    const svelte = parseFile(
+      fixture('Counter.svelte'),
+      await read('Counter.svelte')
+    );
+    const astro = parseFile(fixture('Page.astro'), await read('Page.astro'));
+
+    expect(vue.functions.map(func => func.name)).toEqual(['isButtonSize']);
+    expect(svelte.functions.map(func => func.name)).toEqual(['formatCount']);
+    expect(astro.interfaces?.map(iface => iface.name)).toEqual(['Props']);
+  });
+
+  it('should extract imports from Astro frontmatter but not data scripts', async () => {
+    const dependencies = extractFileDependencies(
+      fixture('Page.astro'),
+      await read('Page.astro')
+    );
+
+    expect(dependencies.map(dep => dep.to)).toEqual([
+      './Button.vue',
+      './format',
+    ]);
+  });
+
+  it('should list identifiers used by the markup', async () => {
+    const identifiers = getMarkupIdentifiers(
+      fixture('Button.vue'),
+      await read('Button.vue')
+    );
+
+    expect(identifiers.has('IconBadge')).toBe(true);
+    expect(identifiers.has('formatLabel')).toBe(true);
+    expect(identifiers.has('unusedHelper')).toBe(false);
+  });
+
+  it('should report dead code with original line numbers', async () => {
+    const report = await analyzeDeadCode([
+      fixture('Button.vue'),
+      fixture('Counter.svelte'),
+      fixture('Page.astro'),
+      fixture('format.ts'),
+      fixture('IconBadge.vue'),
+    ]);
+
+    const deadSizes = report.deadExports.find(
+      dead => dead.name === 'BUTTON_SIZES'
+    );
+    expect(deadSizes?.line).toBe(11);
+    expect(report.unusedImports.map(unused => unused.name)).toEqual([
+      'unusedHelper',
+    ]);
+    expect(report.unusedImports[0].line).toBe(21);
+  });
+});
@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ArchitectureRules } from '../src/architecture-rules-types';
+import { generateHistoryCharts } from '../src/graph-history-analyzer';
+import { GraphSnapshot } from '../src/graph-diff-types';
+import { mapSnapshotPaths, SnapshotStore } from '../src/snapshot-store';
+
+describe('Snapshot Store', () => {
+  const projectPath = path.join(__dirname, 'snapshot-store-project');
+  const rules: ArchitectureRules = {
+    layers: [],
+    forbidden: [],
+    boundaries: [],
+  };
+  const file = (name: string) => path.join(projectPath, 'src', name);
+
+  const metrics = {
+    totalNodes: 3,
+    totalEdges: 2,
+    internalDependencies: 1,
+    externalDependencies: 1,
+    circularDependencies: [[file('a.ts'), file('b.ts')]],
+    averageDependencies: 1,
+    mostConnectedModule: file('a.ts'),
+  };
+  const snapshot: GraphSnapshot = {
+    timestamp: new Date('2024-01-01T00:00:00Z'),
+    gitRef: 'abc123',
+    files: [file('a.ts'), file('b.ts')],
+    dependencyGraph: {
+      projectPath,
+      nodes: [file('a.ts'), file('b.ts'), 'react'],
+      edges: [
+        {
+          from: file('a.ts'),
+          to: 'react',
+          type: 'import',
+          isExternal: true,
+          importType: 'default',
+        },
+      ],
+      metrics,
+    },
+    metrics: { ...metrics, hotspots: ['src/a.ts'], layerViolations: 0 },
+    violations: [],
+  };
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('should store paths relative to the project and restore them', async () => {
+    const store = new SnapshotStore(projectPath);
+    store.save('abc123', snapshot, rules);
+
+    const stored = JSON.parse(
+      await fs.readFile(
+        path.join(projectPath, '.m2js', 'snapshots', 'abc123.json'),
+        'utf8'
+      )
+    );
+    expect(stored.snapshot.files).toEqual(['src/a.ts', 'src/b.ts']);
+
+    expect(store.load('abc123', rules)).toEqual(snapshot);
+    expect(store.load('def456', rules)).toBeNull();
+  });
+
+  it('should retake snapshots taken with other architecture rules', () => {
+    const store = new SnapshotStore(projectPath);
+    store.save('abc123', snapshot, rules);
+
+    const otherRules = {
+      ...rules,
+      forbidden: [{ from: ['src/**'], to: ['lib/**'] }],
+    };
+    expect(store.load('abc123', otherRules)).toBeNull();
+  });
+
+  it('should keep package names when mapping paths', () => {
+    const mapped = mapSnapshotPaths(snapshot, name =>
+      path.relative(projectPath, name)
+    );
+
+    expect(mapped.dependencyGraph.nodes).toEqual([
+      path.join('src', 'a.ts'),
+      path.join('src', 'b.ts'),
+      'react',
+    ]);
+    expect(mapped.dependencyGraph.edges[0].to).toBe('react');
+    expect(mapped.metrics.circularDependencies).toEqual([
+      [path.join('src', 'a.ts'), path.join('src', 'b.ts')],
+    ]);
+  });
+
+  it('should draw one Mermaid chart per series', () => {
+    const point = {
+      date: '2024-01-01T00:00:00Z',
+      message: 'Initial commit',
+      circularDependencies: 1,
+      averageCoupling: 2,
+      moduleCount: 3,
+      layerViolations: 0,
+      hotspots: 0,
+      cached: false,
+    };
+    const charts = generateHistoryCharts([
+      { ...point, commit: 'aaaaaaaa', healthScore: 80 },
+      { ...point, commit: 'bbbbbbbb', healthScore: 90 },
+    ]);
+
+    expect(charts.match(/xychart-beta/g)).toHaveLength(4);
+    expect(charts).toContain('x-axis ["aaaaaaaa", "bbbbbbbb"]');
+    expect(charts).toContain('y-axis "Health score" 0 --> 100');
+    expect(charts).toContain('line [80, 90]');
+  });
+});
@@ -0,0 +1,54 @@
+import path from 'path';
+import { buildBudgetedDocument, estimateTokens } from '../src/token-budget';
+
+describe('Token Budget', () => {
+  const packagePath = path.join(__dirname, 'fixtures', 'api-package');
+  const files = [
+    path.join(packagePath, 'index.ts'),
+    path.join(packagePath, 'logger.ts'),
+    path.join(packagePath, 'math.ts'),
+  ];
+
+  it('should estimate about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+
+  it('should keep full output when the budget allows it', async () => {
+    const result = await buildBudgetedDocument(files, { maxTokens: 100000 });
+
+    expect(result.fits).toBe(true);
+    expect(result.files.every(file => file.level === 'full')).toBe(true);
+    expect(result.markdown).toContain('# Project: api-package');
+    expect(result.markdown).toContain('Add two numbers');
+    expect(result.totalTokens).toBe(estimateTokens(result.markdown));
+  });
+
+  it('should trim the least central files first', async () => {
+    const full = await buildBudgetedDocument(files, { maxTokens: 100000 });
+    const result = await buildBudgetedDocument(files, {
+      maxTokens: full.totalTokens - 10,
+    });
+    const levels = Object.fromEntries(
+      result.files.map(file => [path.basename(file.filePath), file.level])
+    );
+
+    expect(result.fits).toBe(true);
+    expect(result.totalTokens).toBeLessThanOrEqual(full.totalTokens - 10);
+    // index.ts imports both other files, each of which is linked only to it
+    expect(levels['index.ts']).toBe('full');
+    expect(levels['math.ts']).not.toBe('full');
+    expect(
+      result.files.find(file => file.filePath.endsWith('index.ts'))?.centrality
+    ).toBe(2);
+  });
+
+  it('should report when nothing fits the budget', async () => {
+    const result = await buildBudgetedDocument(files, { maxTokens: 5 });
+
+    expect(result.fits).toBe(false);
+    expect(result.files.every(file => file.level === 'omitted')).toBe(true);
+    expect(result.markdown).toContain('- **Omitted to fit the budget**: 3');
+  });
+});
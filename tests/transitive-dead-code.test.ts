@@ -0,0 +1,73 @@
+import path from 'path';
+import { analyzeDeadCode } from '../src/dead-code-analyzer';
+
+describe('Transitive Dead Code', () => {
+  const fixturesPath = path.join(__dirname, 'fixtures', 'transitive-dead');
+  const files = [
+    'app.ts',
+    'boot.ts',
+    'legacy/format.ts',
+    'legacy/pad.ts',
+    'legacy/report.ts',
+    'live.ts',
+    'main.ts',
+    'ping.ts',
+    'pong.ts',
+    'server.ts',
+  ].map(name => path.join(fixturesPath, name));
+
+  it('should find exports only imported by dead code', async () => {
+    const report = await analyzeDeadCode(files);
+    const deadNames = report.deadExports.map(dead => dead.name).sort();
+
+    expect(deadNames).toEqual([
+      'PORT',
+      'formatRow',
+      'padCell',
+      'ping',
+      'pong',
+      'renderReport',
+    ]);
+    expect(report.metrics.transitiveDeadExports).toBe(4);
+  });
+
+  it('should report the chain that keeps an export alive on paper', async () => {
+    const report = await analyzeDeadCode(files);
+    const padCell = report.deadExports.find(dead => dead.name === 'padCell');
+    const renderReport = report.deadExports.find(
+      dead => dead.name === 'renderReport'
+    );
+
+    expect(padCell?.reason).toBe('Only imported by dead code');
+    expect(padCell?.chain).toEqual([
+      path.join('legacy', 'format.ts:formatRow'),
+      path.join('legacy', 'report.ts:renderReport'),
+    ]);
+    expect(renderReport?.chain).toBeUndefined();
+  });
+
+  it('should find dead import cycles', async () => {
+    const report = await analyzeDeadCode(files);
+    const ping = report.deadExports.find(dead => dead.name === 'ping');
+
+    expect(ping?.chain).toEqual(['pong.ts:pong', 'ping.ts:ping']);
+  });
+
+  it('should group dead exports into clusters with their savings', async () => {
+    const report = await analyzeDeadCode(files);
+
+    expect(
+      report.deadClusters.map(cluster => [...cluster.exports].sort())
+    ).toEqual([
+      [
+        path.join('legacy', 'format.ts:formatRow'),
+        path.join('legacy', 'pad.ts:padCell'),
+        path.join('legacy', 'report.ts:renderReport'),
+      ],
+      ['ping.ts:ping', 'pong.ts:pong'],
+    ]);
+    expect(report.deadClusters[0].files).toHaveLength(3);
+    expect(report.deadClusters[0].estimatedSavingsKB).toBe(2);
+    expect(report.metrics.deadClusterSavingsKB).toBe(3);
+  });
+});
@@ -0,0 +1,106 @@
+import { execSync } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  getAliasCandidates,
+  loadModuleResolutionConfig,
+} from '../src/tsconfig-resolver';
+import {
+  analyzeDependencies,
+  extractFileDependencies,
+  getLocalDependencies,
+} from '../src/dependency-analyzer';
+import { analyzeDeadCode } from '../src/dead-code-analyzer';
+import { analyzeGraphDiff } from '../src/graph-diff-analyzer';
+
+describe('tsconfig Path Resolution', () => {
+  const projectPath = path.join(__dirname, 'fixtures', 'ts-paths');
+  const fixture = (name: string): string => path.join(projectPath, name);
+  const files = [
+    'src/index.ts',
+    'src/math.ts',
+    'src/utils/logger.ts',
+    'src/utils/format.ts',
+    'generated/messages.ts',
+  ].map(fixture);
+
+  it('should merge extended configs and resolve their directories', () => {
+    const config = loadModuleResolutionConfig(fixture('src/index.ts'));
+
+    expect(config?.configPath).toBe(fixture('tsconfig.json'));
+    expect(config?.baseUrl).toBe(projectPath);
+    expect(config?.paths['@app/*']).toEqual(['src/*']);
+    expect(config?.rootDirs).toEqual([fixture('src'), fixture('generated')]);
+  });
+
+  it('should map aliases through paths before baseUrl', () => {
+    expect(getAliasCandidates(fixture('src/index.ts'), '@app/math')).toEqual([
+      fixture('src/math'),
+      fixture('@app/math'),
+    ]);
+  });
+
+  it('should classify aliased, baseUrl and rootDirs imports as internal', async () => {
+    const dependencies = extractFileDependencies(
+      fixture('src/index.ts'),
+      await fs.readFile(fixture('src/index.ts'), 'utf-8')
+    );
+
+    expect(dependencies.map(dep => [dep.to, dep.isExternal])).toEqual([
+      ['chalk', true],
+      ['@app/math', false],
+      ['~/utils/logger', false],
+      ['./messages', false],
+    ]);
+  });
+
+  it('should build graph edges to the files aliases point to', () => {
+    const graph = analyzeDependencies(files);
+    const local = getLocalDependencies(graph);
+
+    expect(graph.metrics.internalDependencies).toBe(4);
+    expect([...(local.get(fixture('src/index.ts')) || [])].sort()).toEqual([
+      fixture('generated/messages.ts'),
+      fixture('src/math.ts'),
+      fixture('src/utils/logger.ts'),
+    ]);
+    expect([...(local.get(fixture('src/utils/logger.ts')) || [])]).toEqual([
+      fixture('src/utils/format.ts'),
+    ]);
+  });
+
+  it('should only report exports that no alias imports as dead', async () => {
+    const report = await analyzeDeadCode(files);
+
+    expect(report.deadExports.map(dead => dead.name).sort()).toEqual([
+      'main',
+      'subtract',
+    ]);
+  });
+
+  it('should resolve aliases the same way in the graph diff baseline', async () => {
+    const repoPath = path.join(__dirname, 'ts-paths-repo');
+    const git = (command: string) =>
+      execSync(
+        `git -c user.name=test -c user.email=test@example.com ${command}`,
+        { cwd: repoPath, stdio: 'pipe' }
+      );
+    await fs.cp(projectPath, repoPath, { recursive: true });
+    jest.spyOn(console, 'log').mockImplementation();
+
+    try {
+      git('init -q');
+      git('add -A');
+      git('commit -q -m init');
+
+      const report = await analyzeGraphDiff(repoPath, { baseline: 'HEAD' });
+
+      expect(report.changes).toEqual([]);
+      expect(report.metrics.baseline.internalDependencies).toBe(4);
+      expect(report.metrics.current.internalDependencies).toBe(4);
+    } finally {
+      jest.restoreAllMocks();
+      await fs.rm(repoPath, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,102 @@
+import path from 'path';
+import { analyzeDeadCode } from '../src/dead-code-analyzer';
+import { generateRemovalSuggestions } from '../src/suggestion-engine';
+
+describe('Unused Locals', () => {
+  const fixturesPath = path.join(__dirname, 'fixtures', 'unused-locals');
+  const files = ['logger.ts', 'service.ts'].map(name =>
+    path.join(fixturesPath, name)
+  );
+
+  it('should detect unreferenced top-level declarations', async () => {
+    const report = await analyzeDeadCode(files);
+
+    expect(
+      report.unusedLocals.map(local => [
+        local.name,
+        local.type,
+        local.confidence,
+      ])
+    ).toEqual([
+      ['registry', 'variable', 'medium'],
+      ['lastError', 'variable', 'high'],
+      ['legacyFormat', 'function', 'high'],
+    ]);
+    expect(report.unusedLocals[0].riskFactors).toEqual([
+      'Initializer may have side effects',
+    ]);
+    expect(report.metrics.unusedLocals).toBe(3);
+  });
+
+  it('should detect private members no other member uses', async () => {
+    const report = await analyzeDeadCode(files);
+
+    expect(
+      report.unusedMembers.map(member => [
+        `${member.className}.${member.name}`,
+        member.type,
+      ])
+    ).toEqual([
+      ['Service.#cache', 'property'],
+      ['Service.spare', 'property'],
+      ['Service.warmUp', 'method'],
+    ]);
+  });
+
+  it('should detect trailing parameters that are never read', async () => {
+    const report = await analyzeDeadCode(files);
+
+    expect(
+      report.unusedParameters.map(parameter => [
+        parameter.functionName,
+        parameter.name,
+        parameter.riskFactors,
+      ])
+    ).toEqual([
+      [
+        'Service.fetch',
+        'fallback',
+        ['Method signature may be required by an interface or base class'],
+      ],
+      [
+        'handle',
+        'next',
+        ['Exported function - callers may pass this argument'],
+      ],
+      [
+        'anonymous function',
+        'index',
+        ['Callback - the caller may depend on its arity'],
+      ],
+    ]);
+  });
+
+  it('should suggest removing locals with commands only when safe', async () => {
+    const report = await analyzeDeadCode(files);
+    const suggestions = generateRemovalSuggestions(
+      [],
+      [],
+      fixturesPath,
+      report
+    );
+
+    const legacy = suggestions.find(
+      suggestion => suggestion.action === 'Remove unused function: legacyFormat'
+    );
+    expect(legacy?.type).toBe('remove-local');
+    expect(legacy?.safety).toBe('safe');
+    expect(legacy?.command).toBeDefined();
+
+    const next = suggestions.find(
+      suggestion =>
+        suggestion.action === 'Remove unused parameter: next of handle'
+    );
+    expect(next?.type).toBe('remove-parameter');
+    expect(next?.safety).toBe('review-needed');
+    expect(next?.command).toBeUndefined();
+
+    expect(
+      suggestions.filter(suggestion => suggestion.type === 'remove-member')
+    ).toHaveLength(3);
+  });
+});
@@ -0,0 +1,127 @@
+import path from 'path';
+import {
+  findWorkspace,
+  getWorkspaceCandidates,
+} from '../src/workspace-resolver';
+import { analyzeDependencies } from '../src/dependency-analyzer';
+import { analyzeDeadCode } from '../src/dead-code-analyzer';
+import { generateDependencyMarkdown } from '../src/generator';
+
+describe('Workspace Resolution', () => {
+  const workspacePath = path.join(__dirname, 'fixtures', 'workspace');
+  const fixture = (name: string): string =>
+    path.join(workspacePath, 'packages', name);
+  const files = [
+    'app/src/main.ts',
+    'billing/src/index.ts',
+    'shared/src/index.ts',
+    'shared/src/math.ts',
+  ].map(fixture);
+
+  it('should detect packages and their declared workspace dependencies', () => {
+    const workspace = findWorkspace(fixture('app/src'));
+
+    expect(workspace?.rootDir).toBe(workspacePath);
+    expect(workspace?.packages).toEqual([
+      {
+        name: '@ourorg/app',
+        path: fixture('app'),
+        dependencies: ['@ourorg/billing'],
+      },
+      { name: '@ourorg/billing', path: fixture('billing'), dependencies: [] },
+      { name: '@ourorg/shared', path: fixture('shared'), dependencies: [] },
+    ]);
+  });
+
+  it('should read pnpm workspace patterns with exclusions', () => {
+    const pnpmPath = path.join(__dirname, 'fixtures', 'pnpm-workspace');
+    const workspace = findWorkspace(pnpmPath);
+
+    expect(workspace?.packages.map(pkg => pkg.name)).toEqual([
+      '@pnpm-fixture/core',
+    ]);
+  });
+
+  it('should map package entry points back to their sources', () => {
+    expect(
+      getWorkspaceCandidates(fixture('app/src/main.ts'), '@ourorg/billing')
+    ).toEqual([
+      fixture('billing/src/index.js'),
+      fixture('billing/dist/index.js'),
+      fixture('billing/index'),
+      fixture('billing/src/index'),
+    ]);
+    expect(
+      getWorkspaceCandidates(fixture('app/src/main.ts'), 'lodash')
+    ).toEqual([]);
+  });
+
+  it('should build the package graph and flag boundary violations', () => {
+    const graph = analyzeDependencies(files);
+    const packageGraph = graph.packageGraph!;
+
+    expect(graph.metrics.internalDependencies).toBe(3);
+    expect(packageGraph.dependencies).toEqual([
+      { from: '@ourorg/app', to: '@ourorg/billing', imports: 1 },
+      { from: '@ourorg/app', to: '@ourorg/shared', imports: 2 },
+    ]);
+    expect(
+      packageGraph.boundaryViolations.map(violation => [
+        violation.specifier,
+        violation.reason,
+      ])
+    ).toEqual([
+      ['@ourorg/shared', 'undeclared-dependency'],
+      ['../../shared/src/math', 'relative-import'],
+    ]);
+
+    const markdown = generateDependencyMarkdown(graph, {
+      includeMermaid: true,
+    });
+    expect(markdown).toContain(
+      '| @ourorg/app | packages/app | 1 | @ourorg/billing (1), @ourorg/shared (2) |'
+    );
+    expect(markdown).toContain('    pkg0 --> pkg1');
+    expect(markdown).toContain('### Package Boundary Violations');
+  });
+
+  it('should group dead code per package', async () => {
+    const report = await analyzeDeadCode(files);
+    const checkout = report.deadExports.find(dead => dead.name === 'checkout');
+
+    // billing's main makes refund public API, app declares no entry point
+    // and shared is only used by the dead checkout
+    expect(checkout?.package).toBe('@ourorg/app');
+    expect(report.deadExports.map(dead => dead.name)).toEqual([
+      'checkout',
+      'formatAmount',
+      'roundCents',
+    ]);
+    expect(report.packages).toEqual([
+      {
+        name: '@ourorg/app',
+        path: fixture('app'),
+        files: 1,
+        deadExports: 1,
+        unusedImports: 0,
+        unusedLocals: 0,
+      },
+      {
+        name: '@ourorg/billing',
+        path: fixture('billing'),
+        files: 1,
+        deadExports: 0,
+        unusedImports: 0,
+        unusedLocals: 0,
+      },
+      {
+        name: '@ourorg/shared',
+        path: fixture('shared'),
+        files: 2,
+        deadExports: 2,
+        unusedImports: 0,
+        unusedLocals: 0,
+      },
+    ]);
+  });
+});